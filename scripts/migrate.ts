@@ -0,0 +1,178 @@
+import mongoose from 'mongoose';
+import { resumeCostRecalculation, runCostRecalculation } from '@/lib/costRecalculation';
+import dbConnect, { withTransaction } from '@/lib/mongodb';
+import { Category } from '@/models/Category';
+import { Company, CostingMethod, CostRecalculationStatus } from '@/models/Company';
+import { Customer } from '@/models/Customer';
+import { CustomerLedgerEntry, LEDGER_DOCUMENT_TYPES, LedgerEntryType } from '@/models/CustomerLedgerEntry';
+import { Document } from '@/models/Document';
+import { InventoryMovement } from '@/models/InventoryMovement';
+import { Product } from '@/models/Product';
+import { StockCount } from '@/models/StockCount';
+import { Warehouse } from '@/models/Warehouse';
+
+// One-off data migrations, run in order with `npm run migrate`. Each one is recorded in the
+// migrations collection once it succeeds and is skipped on later runs.
+interface Migration {
+  name: string;
+  up: () => Promise<void>;
+}
+
+const migrations: Migration[] = [
+  {
+    // Stock recorded before warehouses existed belongs to the default warehouse
+    name: 'default-warehouse',
+    up: async () => {
+      const defaults = await Warehouse.find({ isDefault: true }).sort({ createdAt: 1 });
+      let warehouse = defaults[0];
+      if (defaults.length > 1) {
+        await Warehouse.updateMany({ _id: { $in: defaults.slice(1).map(extra => extra._id) } }, { isDefault: false });
+      }
+      if (!warehouse) {
+        warehouse = await Warehouse.create({ name: 'انبار مرکزی', code: 'MAIN', isDefault: true, isActive: true });
+      }
+      await Warehouse.syncIndexes();
+
+      await InventoryMovement.updateMany({ warehouse: null }, { warehouse: warehouse._id });
+      await Document.updateMany(
+        { 'items.warehouse': null },
+        { $set: { 'items.$[item].warehouse': warehouse._id } },
+        { arrayFilters: [{ 'item.warehouse': null }] }
+      );
+    }
+  },
+  {
+    // Products and stock counts saved before categories were documents name their category in
+    // free text. Each distinct name becomes a top-level category and the text is replaced by its
+    // id; the raw collections are used since the models no longer accept the text.
+    name: 'category-tree',
+    up: async () => {
+      await Category.syncIndexes();
+      const productNames: string[] = await Product.collection.distinct('category', { category: { $type: 'string' } });
+      const stockCounts = await StockCount.collection.find({ categories: { $type: 'string' } }).toArray();
+      const names = new Set([
+        ...productNames,
+        ...stockCounts.flatMap(stockCount => (stockCount.categories as unknown[]).filter(name => typeof name === 'string'))
+      ].map(name => name.trim()).filter(Boolean));
+
+      const idByName = new Map<string, mongoose.Types.ObjectId>();
+      for (const name of names) {
+        const category = await Category.findOneAndUpdate(
+          { name, parent: null, isActive: true },
+          { $setOnInsert: { name, isActive: true } },
+          { upsert: true, new: true }
+        );
+        idByName.set(name, category._id);
+      }
+
+      for (const name of productNames) {
+        const categoryId = idByName.get(name.trim());
+        await Product.collection.updateMany(
+          { category: name },
+          categoryId ? { $set: { category: categoryId } } : { $unset: { category: '' } }
+        );
+      }
+      for (const stockCount of stockCounts) {
+        await StockCount.collection.updateOne({ _id: stockCount._id }, {
+          $set: {
+            categories: (stockCount.categories as unknown[])
+              .map(category => typeof category === 'string' ? idByName.get(category.trim()) : category)
+              .filter(Boolean)
+          }
+        });
+      }
+    }
+  },
+  {
+    // Customers saved before the receivables ledger carry a hand-entered balance, and sale
+    // documents finalized back then were never posted. The documents are posted and any such
+    // balance, never tied to those documents, is kept as an opening entry beside them; the raw
+    // collection is used since the model no longer has the field.
+    name: 'customer-ledger',
+    up: async () => {
+      await CustomerLedgerEntry.syncIndexes();
+      const customers = await Customer.collection.find({ currentBalance: { $exists: true } }).toArray();
+      for (const customer of customers) {
+        await withTransaction(async (session) => {
+          if (customer.currentBalance) {
+            await CustomerLedgerEntry.updateOne(
+              { customer: customer._id, entryType: LedgerEntryType.OPENING_BALANCE },
+              {
+                $setOnInsert: {
+                  date: customer.createdAt || new Date(),
+                  debit: Math.max(customer.currentBalance, 0),
+                  credit: Math.max(-customer.currentBalance, 0),
+                  description: 'مانده ابتدای دوره'
+                }
+              },
+              { upsert: true, session }
+            );
+          }
+          await Customer.collection.updateOne({ _id: customer._id }, { $unset: { currentBalance: '' } }, { session });
+        });
+      }
+
+      const postedDocuments = await CustomerLedgerEntry.distinct('document', { document: { $exists: true } });
+      const unpostedDocuments = await Document.find({
+        _id: { $nin: postedDocuments },
+        documentType: { $in: LEDGER_DOCUMENT_TYPES },
+        isFinalized: true,
+        customer: { $ne: null }
+      });
+      for (const document of unpostedDocuments) {
+        await CustomerLedgerEntry.postDocument(document);
+      }
+    }
+  },
+  {
+    // Movements recorded before the costing state was stored on them are costed once in full, so
+    // that valuations can read the state and later re-costs can resume from it
+    name: 'costing-state',
+    up: async () => {
+      const company = await Company.findOne({ isActive: true });
+      const productIds: mongoose.Types.ObjectId[] = await InventoryMovement.distinct('product');
+      for (const productId of productIds) {
+        await withTransaction(session => InventoryMovement.recalculateCosts(
+          [productId],
+          company?.costingMethod || CostingMethod.MOVING_AVERAGE,
+          session
+        ));
+      }
+    }
+  }
+];
+
+const migrate = async () => {
+  await dbConnect();
+  const applied = mongoose.connection.collection<{ name: string; appliedAt: Date }>('migrations');
+
+  for (const migration of migrations) {
+    if (await applied.findOne({ name: migration.name })) {
+      continue;
+    }
+    console.log(`Running migration ${migration.name}`);
+    await migration.up();
+    await applied.insertOne({ name: migration.name, appliedAt: new Date() });
+  }
+
+  // A re-costing job cut off by a restart, or one that failed, is finished here from its cursor
+  const company = await Company.findOne({ isActive: true });
+  if (company && await resumeCostRecalculation(company._id, true)) {
+    console.log('Resuming cost recalculation');
+    const status = await runCostRecalculation(company._id, company.costingMethod);
+    if (status === CostRecalculationStatus.FAILED) {
+      throw new Error('Cost recalculation failed; its error is recorded on the company');
+    }
+  }
+};
+
+migrate()
+  .then(() => {
+    console.log('Migrations complete');
+    return mongoose.disconnect();
+  })
+  .catch(async (error) => {
+    console.error('Migration failed:', error);
+    await mongoose.disconnect();
+    process.exit(1);
+  });
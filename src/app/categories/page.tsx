@@ -0,0 +1,368 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { MainNavigation } from "@/components/navigation/Navigation";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FolderTree, Plus, Edit, Trash2, CheckCircle, AlertCircle } from "lucide-react";
+import { formatPersianNumber } from "@/lib/persian";
+import { categoryDescendantIds, flattenCategoryTree, indentCategoryName } from "@/lib/categories";
+import { apolloClient } from "@/lib/apollo-client";
+import { gql } from "@apollo/client";
+
+// GraphQL queries
+const GET_CATEGORIES = gql`
+  query GetCategories {
+    getCategories {
+      id
+      name
+      parent {
+        id
+      }
+      path
+    }
+  }
+`;
+
+const GET_CATEGORY_PRODUCTS = gql`
+  query GetCategoryProducts {
+    getProducts(isActive: true) {
+      id
+      category {
+        id
+      }
+    }
+  }
+`;
+
+const CREATE_CATEGORY = gql`
+  mutation CreateCategory($input: CategoryInput!) {
+    createCategory(input: $input) {
+      id
+    }
+  }
+`;
+
+const UPDATE_CATEGORY = gql`
+  mutation UpdateCategory($id: ID!, $input: CategoryInput!) {
+    updateCategory(id: $id, input: $input) {
+      id
+    }
+  }
+`;
+
+const DELETE_CATEGORY = gql`
+  mutation DeleteCategory($id: ID!) {
+    deleteCategory(id: $id)
+  }
+`;
+
+const categorySchema = z.object({
+  name: z.string().trim().min(1, "نام دسته‌بندی الزامی است").max(100, "نام دسته‌بندی نباید بیش از ۱۰۰ کاراکتر باشد"),
+  parentId: z.string().optional(),
+});
+
+type CategoryFormData = z.infer<typeof categorySchema>;
+
+interface Category {
+  id: string;
+  name: string;
+  parent?: { id: string } | null;
+  path: string;
+}
+
+export default function CategoriesPage() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  // Number of products filed directly under each category
+  const [productCounts, setProductCounts] = useState<Record<string, number>>({});
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [success, setSuccess] = useState("");
+  const [error, setError] = useState("");
+
+  const form = useForm<CategoryFormData>({
+    resolver: zodResolver(categorySchema),
+    defaultValues: {
+      name: "",
+      parentId: "",
+    },
+  });
+
+  const loadCategories = async () => {
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const [categoriesResult, productsResult] = await Promise.all([
+        apolloClient.query<{ getCategories: Category[] }>({ query: GET_CATEGORIES, fetchPolicy: 'no-cache' }),
+        apolloClient.query<{ getProducts: { category?: { id: string } | null }[] }>({ query: GET_CATEGORY_PRODUCTS, fetchPolicy: 'no-cache' })
+      ]);
+
+      setCategories(categoriesResult.data?.getCategories || []);
+      const counts: Record<string, number> = {};
+      for (const product of productsResult.data?.getProducts || []) {
+        if (product.category) {
+          counts[product.category.id] = (counts[product.category.id] || 0) + 1;
+        }
+      }
+      setProductCounts(counts);
+    } catch (err) {
+      console.error('Error loading categories:', err);
+      setError("خطا در بارگذاری دسته‌بندی‌ها");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  const openAddDialog = (parent?: Category) => {
+    setEditingCategory(null);
+    form.reset({ name: "", parentId: parent?.id || "" });
+    setIsDialogOpen(true);
+  };
+
+  const handleEdit = (category: Category) => {
+    setEditingCategory(category);
+    form.reset({ name: category.name, parentId: category.parent?.id || "" });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (data: CategoryFormData) => {
+    setIsSubmitting(true);
+    setError("");
+    setSuccess("");
+
+    try {
+      const input = { name: data.name, parentId: data.parentId || null };
+      if (editingCategory) {
+        await apolloClient.mutate({
+          mutation: UPDATE_CATEGORY,
+          variables: { id: editingCategory.id, input }
+        });
+        setSuccess("دسته‌بندی با موفقیت به‌روزرسانی شد");
+      } else {
+        await apolloClient.mutate({
+          mutation: CREATE_CATEGORY,
+          variables: { input }
+        });
+        setSuccess("دسته‌بندی جدید با موفقیت اضافه شد");
+      }
+
+      // Moving a category changes the paths below it, so reload the tree
+      await loadCategories();
+
+      setIsDialogOpen(false);
+      setEditingCategory(null);
+      form.reset();
+    } catch (err) {
+      console.error('Error submitting category:', err);
+      setError(err instanceof Error ? `خطا در ثبت دسته‌بندی: ${err.message}` : "خطا در ثبت دسته‌بندی");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    if (!confirm(`آیا از حذف ${category.path} مطمئن هستید؟`)) return;
+
+    try {
+      const result = await apolloClient.mutate<{ deleteCategory: boolean }>({
+        mutation: DELETE_CATEGORY,
+        variables: { id: category.id }
+      });
+
+      if (result.data?.deleteCategory) {
+        setCategories(prev => prev.filter(c => c.id !== category.id));
+        setSuccess("دسته‌بندی با موفقیت حذف شد");
+      }
+    } catch (err) {
+      console.error('Error deleting category:', err);
+      setError(err instanceof Error ? `خطا در حذف دسته‌بندی: ${err.message}` : "خطا در حذف دسته‌بندی");
+    }
+  };
+
+  const tree = flattenCategoryTree(categories);
+  // A category cannot move under itself or anything below it
+  const excludedParents = editingCategory ? categoryDescendantIds(categories, editingCategory.id) : new Set<string>();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <MainNavigation />
+
+      <div className="container mx-auto p-6 space-y-6">
+        {/* Page Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <FolderTree className="h-8 w-8" />
+              دسته‌بندی کالاها
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              درخت دسته‌بندی‌ها؛ گزارش‌های هر دسته‌بندی زیرمجموعه‌های آن را هم در بر می‌گیرند
+            </p>
+          </div>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button className="flex items-center gap-2" onClick={() => openAddDialog()}>
+                <Plus className="h-4 w-4" />
+                دسته‌بندی جدید
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-lg">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingCategory ? "ویرایش دسته‌بندی" : "دسته‌بندی جدید"}
+                </DialogTitle>
+              </DialogHeader>
+
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>نام دسته‌بندی *</FormLabel>
+                        <FormControl>
+                          <Input placeholder="مثلاً لبنیات" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="parentId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>دسته‌بندی بالادست</FormLabel>
+                        <Select onValueChange={(value) => field.onChange(value === "none" ? "" : value)} value={field.value || "none"}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="none">سطح اول (بدون بالادست)</SelectItem>
+                            {tree
+                              .filter(({ category }) => !excludedParents.has(category.id))
+                              .map(({ category, level }) => (
+                                <SelectItem key={category.id} value={category.id}>
+                                  {indentCategoryName(category.name, level)}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="flex justify-end gap-2 pt-4">
+                    <Button type="button" variant="outline" onClick={() => {
+                      setIsDialogOpen(false);
+                      setEditingCategory(null);
+                      form.reset();
+                    }}>
+                      لغو
+                    </Button>
+                    <Button type="submit" disabled={isSubmitting}>
+                      {isSubmitting ? "در حال ثبت..." : editingCategory ? "به‌روزرسانی" : "ثبت"}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {/* Success/Error Messages */}
+        {success && (
+          <Card className="border-green-200 bg-green-50">
+            <CardContent className="flex items-center gap-2 p-4">
+              <CheckCircle className="h-5 w-5 text-green-600" />
+              <span className="text-green-800">{success}</span>
+            </CardContent>
+          </Card>
+        )}
+
+        {error && (
+          <Card className="border-red-200 bg-red-50">
+            <CardContent className="flex items-center gap-2 p-4">
+              <AlertCircle className="h-5 w-5 text-red-600" />
+              <span className="text-red-800">{error}</span>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Category Tree */}
+        <Card>
+          <CardHeader>
+            <CardTitle>درخت دسته‌بندی‌ها ({formatPersianNumber(categories.length)} مورد)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8">در حال بارگذاری...</div>
+            ) : tree.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">هیچ دسته‌بندی‌ای ثبت نشده است</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="rtl-table">
+                    <TableHead>نام</TableHead>
+                    <TableHead>مسیر</TableHead>
+                    <TableHead>کالاها</TableHead>
+                    <TableHead>عملیات</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tree.map(({ category, level }) => (
+                    <TableRow key={category.id}>
+                      <TableCell className="font-medium" style={{ paddingRight: `${level * 1.5 + 0.5}rem` }}>
+                        {category.name}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{category.path}</TableCell>
+                      <TableCell>{formatPersianNumber(productCounts[category.id] || 0)}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button size="sm" variant="outline" title="زیرمجموعه جدید" onClick={() => openAddDialog(category)}>
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => handleEdit(category)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleDelete(category)}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
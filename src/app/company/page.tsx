@@ -5,10 +5,20 @@ import { CompanySettingsForm } from "@/components/company/CompanySettingsForm";
 import { MainNavigation } from "@/components/navigation/Navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { AlertCircle, CheckCircle } from "lucide-react";
-import { persianText, formatPersianDate, formatPersianDateString } from "@/lib/persian";
+import { AlertCircle, CheckCircle, RefreshCw } from "lucide-react";
+import { persianText, formatPersianDate, formatPersianDateString, englishToPersian } from "@/lib/persian";
 import { apolloClient } from "@/lib/apollo-client";
-import { CREATE_OR_UPDATE_COMPANY, GET_COMPANY } from "@/graphql/mutations/company";
+import { CREATE_OR_UPDATE_COMPANY, GET_COMPANY, RESTART_COST_RECALCULATION } from "@/graphql/mutations/company";
+
+// Seconds between progress checks while inventory costs are being recalculated
+const COST_RECALCULATION_POLL_SECONDS = 3;
+
+interface CostRecalculation {
+  status: 'RUNNING' | 'COMPLETED' | 'FAILED';
+  totalProducts: number;
+  processedProducts: number;
+  error?: string | null;
+}
 
 export default function CompanyPage() {
   const [isLoading, setIsLoading] = useState(false);
@@ -16,6 +26,7 @@ export default function CompanyPage() {
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
   const [companyLoading, setCompanyLoading] = useState(false);
+  const [costRecalculation, setCostRecalculation] = useState<CostRecalculation | null>(null);
 
   // Load company data on component mount
   useEffect(() => {
@@ -35,6 +46,7 @@ export default function CompanyPage() {
             financialYearStart: company.financialYearStart ? new Date(company.financialYearStart) : null,
             financialYearEnd: company.financialYearEnd ? new Date(company.financialYearEnd) : null,
           });
+          setCostRecalculation(company.costRecalculation || null);
         }
       } catch (err: any) {
         console.error('Error loading company data:', err);
@@ -46,6 +58,31 @@ export default function CompanyPage() {
     loadCompanyData();
   }, []);
 
+  // Follow the background re-costing a costing method change started until it finishes
+  const costRecalculationStatus = costRecalculation?.status;
+  useEffect(() => {
+    if (costRecalculationStatus !== 'RUNNING') return;
+    const timer = setInterval(async () => {
+      try {
+        const result = await apolloClient.query<{ getCompany: { costRecalculation?: CostRecalculation | null } | null }>({ query: GET_COMPANY, fetchPolicy: 'no-cache' });
+        setCostRecalculation(result.data?.getCompany?.costRecalculation || null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "خطا در دریافت وضعیت محاسبه بهای تمام شده");
+      }
+    }, COST_RECALCULATION_POLL_SECONDS * 1000);
+    return () => clearInterval(timer);
+  }, [costRecalculationStatus]);
+
+  const handleRestartCostRecalculation = async () => {
+    setError("");
+    try {
+      const result = await apolloClient.mutate<{ restartCostRecalculation: { costRecalculation?: CostRecalculation | null } }>({ mutation: RESTART_COST_RECALCULATION });
+      setCostRecalculation(result.data?.restartCostRecalculation?.costRecalculation || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "خطا در شروع مجدد محاسبه بهای تمام شده");
+    }
+  };
+
   const handleCompanySubmit = async (data: any) => {
     setIsLoading(true);
     setError("");
@@ -63,6 +100,9 @@ export default function CompanyPage() {
         email: data.email || null,
         financialYearStart: data.financialYearStart.getTime(), // Convert to timestamp
         financialYearEnd: data.financialYearEnd.getTime(), // Convert to timestamp
+        allowNegativeStock: data.allowNegativeStock ?? false,
+        costingMethod: data.costingMethod,
+        creditLimitPolicy: data.creditLimitPolicy,
       };
       
       console.log('GraphQL input:', input);
@@ -82,6 +122,7 @@ export default function CompanyPage() {
           financialYearStart: new Date(savedCompany.financialYearStart),
           financialYearEnd: new Date(savedCompany.financialYearEnd),
         });
+        setCostRecalculation(savedCompany.costRecalculation || null);
         setSuccess("تنظیمات شرکت با موفقیت ذخیره شد");
       } else {
         throw new Error('خطا در ذخیره اطلاعات');
@@ -173,6 +214,32 @@ export default function CompanyPage() {
           </Card>
         )}
 
+        {/* Progress of re-costing stock after a costing method change */}
+        {costRecalculation && costRecalculation.status !== 'COMPLETED' && (
+          <Card className={costRecalculation.status === 'FAILED' ? "border-red-200 bg-red-50" : "border-blue-200 bg-blue-50"}>
+            <CardContent className="flex items-center justify-between gap-4 p-4">
+              {costRecalculation.status === 'RUNNING' ? (
+                <span className="text-blue-800">
+                  در حال محاسبه مجدد بهای تمام شده موجودی با روش جدید:{" "}
+                  {englishToPersian(costRecalculation.processedProducts)} از{" "}
+                  {englishToPersian(costRecalculation.totalProducts)} کالا
+                </span>
+              ) : (
+                <>
+                  <span className="text-red-800">
+                    محاسبه مجدد بهای تمام شده موجودی ناموفق بود
+                    {costRecalculation.error ? `: ${costRecalculation.error}` : ""}
+                  </span>
+                  <Button variant="outline" size="sm" onClick={handleRestartCostRecalculation}>
+                    <RefreshCw className="h-4 w-4 ml-2" />
+                    تلاش مجدد
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Company Settings Form */}
         <CompanySettingsForm
           onSubmit={handleCompanySubmit}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -10,7 +10,10 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
-import { Pencil, Trash2, Plus, Search, Phone, Mail, MapPin } from 'lucide-react';
+import { Pencil, Trash2, Plus, Search, Phone, Mail, MapPin, FileText, Printer, X } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { PersianDateField } from '@/components/ui/persian-date-picker';
+import { formatPersianDate, gregorianToJalaali, jalaaliToGregorian } from '@/lib/persian';
 import { apolloClient } from '@/lib/apollo-client';
 import { gql } from 'graphql-tag';
 
@@ -87,6 +90,81 @@ const DELETE_CUSTOMER = gql`
   }
 `;
 
+const GET_CUSTOMER_STATEMENT = gql`
+  query GetCustomerStatement($customerId: ID!, $dateFrom: Date, $dateTo: Date) {
+    getCustomerStatement(customerId: $customerId, dateFrom: $dateFrom, dateTo: $dateTo) {
+      customer {
+        id
+        name
+        phone
+        address
+        creditLimit
+      }
+      openingBalance
+      totalDebit
+      totalCredit
+      closingBalance
+      entries {
+        id
+        entryType
+        date
+        debit
+        credit
+        balance
+        documentNumber
+        isReversal
+        paymentMethod
+        reference
+        description
+      }
+    }
+    getCompany {
+      name
+    }
+  }
+`;
+
+const RECORD_CUSTOMER_PAYMENT = gql`
+  mutation RecordCustomerPayment($input: CustomerPaymentInput!) {
+    recordCustomerPayment(input: $input) {
+      id
+    }
+  }
+`;
+
+const DELETE_CUSTOMER_PAYMENT = gql`
+  mutation DeleteCustomerPayment($id: ID!) {
+    deleteCustomerPayment(id: $id)
+  }
+`;
+
+const ledgerEntryTypeLabels: Record<string, string> = {
+  OPENING_BALANCE: 'مانده ابتدای دوره',
+  SALE_INVOICE: 'فاکتور فروش',
+  SALE_RETURN: 'مرجوعی فروش',
+  PAYMENT: 'دریافت وجه'
+};
+
+const paymentMethodLabels: Record<string, string> = {
+  CASH: 'نقد',
+  CARD: 'کارت',
+  BANK_TRANSFER: 'حواله بانکی',
+  CHEQUE: 'چک'
+};
+
+// A positive balance is owed by the customer, a negative one is owed to them
+const formatBalance = (balance: number) => {
+  const amount = `${Math.abs(Math.round(balance)).toLocaleString()} ریال`;
+  if (Math.round(balance) === 0) return amount;
+  return `${amount} ${balance > 0 ? 'بدهکار' : 'بستانکار'}`;
+};
+
+// First day of the current Jalali month, the default start of a statement
+const startOfPersianMonth = () => {
+  const { jy, jm } = gregorianToJalaali(new Date());
+  return jalaaliToGregorian(jy, jm, 1);
+};
+
 // Form Schema
 const customerSchema = z.object({
   name: z.string().min(1, 'نام مشتری الزامی است'),
@@ -100,7 +178,6 @@ const customerSchema = z.object({
   postalCode: z.string().optional(),
   taxNumber: z.string().optional(),
   creditLimit: z.number().min(0, 'حد اعتبار نمی‌تواند منفی باشد').default(0),
-  currentBalance: z.number().default(0),
   customerType: z.enum(['RETAIL', 'WHOLESALE', 'CORPORATE']).default('RETAIL'),
   status: z.enum(['ACTIVE', 'INACTIVE']).default('ACTIVE'),
   notes: z.string().optional(),
@@ -130,6 +207,29 @@ interface Customer {
   updatedAt: string;
 }
 
+interface StatementEntry {
+  id: string;
+  entryType: string;
+  date: number;
+  debit: number;
+  credit: number;
+  balance: number;
+  documentNumber?: string | null;
+  isReversal: boolean;
+  paymentMethod?: string | null;
+  reference?: string | null;
+  description?: string | null;
+}
+
+interface CustomerStatement {
+  customer: { id: string; name: string; phone?: string | null; address?: string | null; creditLimit?: number | null };
+  openingBalance: number;
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+  entries: StatementEntry[];
+}
+
 export default function CustomersPage() {
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
@@ -138,6 +238,17 @@ export default function CustomersPage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [submitError, setSubmitError] = useState('');
+  const [statementCustomer, setStatementCustomer] = useState<Customer | null>(null);
+  const [statementFrom, setStatementFrom] = useState<Date | undefined>(startOfPersianMonth);
+  const [statementTo, setStatementTo] = useState<Date | undefined>(() => new Date());
+  const [statement, setStatement] = useState<CustomerStatement | null>(null);
+  const [companyName, setCompanyName] = useState('');
+  const [statementError, setStatementError] = useState('');
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentDate, setPaymentDate] = useState<Date | undefined>(() => new Date());
+  const [paymentMethod, setPaymentMethod] = useState('CASH');
+  const [paymentReference, setPaymentReference] = useState('');
+  const [isRecordingPayment, setIsRecordingPayment] = useState(false);
 
   // Load customers on component mount
   useEffect(() => {
@@ -217,7 +328,6 @@ export default function CustomersPage() {
       setValue('postalCode', customer.postalCode || '');
       setValue('taxNumber', customer.taxNumber || '');
       setValue('creditLimit', customer.creditLimit);
-      setValue('currentBalance', customer.currentBalance);
       setValue('customerType', customer.customerType);
       setValue('status', customer.status);
       setValue('notes', customer.notes || '');
@@ -251,7 +361,6 @@ export default function CustomersPage() {
         email: data.email?.trim() || undefined,
         taxNumber: data.taxNumber?.trim() || undefined,
         creditLimit: Number(data.creditLimit) || 0,
-        currentBalance: Number(data.currentBalance) || 0,
         customerType: data.customerType || 'RETAIL',
         status: data.status || 'ACTIVE',
         notes: data.notes?.trim() || undefined,
@@ -322,6 +431,89 @@ export default function CustomersPage() {
     }
   };
 
+  const loadStatement = useCallback(async () => {
+    if (!statementCustomer) return;
+    setStatementError('');
+    try {
+      const dateTo = statementTo ? new Date(statementTo) : undefined;
+      dateTo?.setHours(23, 59, 59, 999);
+      const result = await apolloClient.query<{ getCustomerStatement: CustomerStatement | null; getCompany: { name: string } | null }>({
+        query: GET_CUSTOMER_STATEMENT,
+        variables: {
+          customerId: statementCustomer.id,
+          dateFrom: statementFrom?.getTime(),
+          dateTo: dateTo?.getTime()
+        },
+        fetchPolicy: 'no-cache'
+      });
+      setStatement(result.data?.getCustomerStatement || null);
+      setCompanyName(result.data?.getCompany?.name || '');
+    } catch (error) {
+      setStatementError(error instanceof Error ? error.message : 'خطا در بارگذاری صورتحساب مشتری');
+    }
+  }, [statementCustomer, statementFrom, statementTo]);
+
+  useEffect(() => {
+    loadStatement();
+  }, [loadStatement]);
+
+  const openStatement = (customer: Customer) => {
+    setStatement(null);
+    setStatementCustomer(customer);
+  };
+
+  const closeStatement = () => {
+    setStatementCustomer(null);
+    setStatement(null);
+    setStatementError('');
+  };
+
+  const handleRecordPayment = async () => {
+    if (!statementCustomer || !paymentDate) return;
+    const amount = Number(paymentAmount);
+    if (!(amount > 0)) {
+      setStatementError('مبلغ دریافتی باید بیشتر از صفر باشد');
+      return;
+    }
+
+    setIsRecordingPayment(true);
+    setStatementError('');
+    try {
+      await apolloClient.mutate({
+        mutation: RECORD_CUSTOMER_PAYMENT,
+        variables: {
+          input: {
+            customerId: statementCustomer.id,
+            amount,
+            date: paymentDate.getTime(),
+            paymentMethod,
+            reference: paymentReference.trim() || undefined
+          }
+        }
+      });
+      setPaymentAmount('');
+      setPaymentReference('');
+      await Promise.all([loadStatement(), loadCustomers()]);
+    } catch (error) {
+      setStatementError(error instanceof Error ? error.message : 'خطا در ثبت دریافت وجه');
+    } finally {
+      setIsRecordingPayment(false);
+    }
+  };
+
+  const handleDeletePayment = async (entryId: string) => {
+    if (!confirm('آیا از حذف این دریافت وجه اطمینان دارید؟')) return;
+    try {
+      await apolloClient.mutate({
+        mutation: DELETE_CUSTOMER_PAYMENT,
+        variables: { id: entryId }
+      });
+      await Promise.all([loadStatement(), loadCustomers()]);
+    } catch (error) {
+      setStatementError(error instanceof Error ? error.message : 'خطا در حذف دریافت وجه');
+    }
+  };
+
   const getCustomerTypeLabel = (type: string) => {
     switch (type) {
       case 'RETAIL': return 'خرده‌فروشی';
@@ -364,10 +556,12 @@ export default function CustomersPage() {
 
   return (
     <div className="min-h-screen bg-background">
-      <MainNavigation />
+      <div className="print:hidden">
+        <MainNavigation />
+      </div>
       
-      <div className="container mx-auto p-6 space-y-6" dir="rtl">
-      <div className="flex justify-between items-center">
+      <div className="container mx-auto p-6 space-y-6 print:p-0" dir="rtl">
+      <div className="flex justify-between items-center print:hidden">
         <h1 className="text-3xl font-bold">مدیریت مشتریان</h1>
         <div className="flex gap-2">
           <Button onClick={loadCustomers} variant="outline" size="sm">
@@ -381,7 +575,7 @@ export default function CustomersPage() {
       </div>
 
       {/* Search */}
-      <Card>
+      <Card className="print:hidden">
         <CardContent className="p-4">
           <div className="relative">
             <Search className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
@@ -397,7 +591,7 @@ export default function CustomersPage() {
 
       {/* Customer Form */}
       {isFormOpen && (
-        <Card>
+        <Card className="print:hidden">
           <CardHeader>
             <CardTitle>{editingCustomer ? 'ویرایش مشتری' : 'مشتری جدید'}</CardTitle>
           </CardHeader>
@@ -461,6 +655,7 @@ export default function CustomersPage() {
                     type="number"
                     {...register('creditLimit', { valueAsNumber: true })}
                   />
+                  <p className="text-xs text-gray-500">صفر یعنی بدون سقف اعتبار</p>
                   {errors.creditLimit && <p className="text-red-500 text-sm">{errors.creditLimit.message}</p>}
                 </div>
 
@@ -521,8 +716,151 @@ export default function CustomersPage() {
         </Card>
       )}
 
+      {/* Customer Statement: only the statement is printed */}
+      {statementCustomer && (
+        <Card className="print:border-0 print:shadow-none">
+          <CardHeader>
+            <div className="flex flex-wrap justify-between items-start gap-4">
+              <div>
+                {companyName && <p className="text-sm text-gray-600">{companyName}</p>}
+                <CardTitle>صورتحساب {statementCustomer.name}</CardTitle>
+                <p className="text-sm text-gray-600 mt-1">
+                  {statementFrom ? `از ${formatPersianDate(statementFrom)}` : 'از ابتدا'}
+                  {' '}
+                  {statementTo ? `تا ${formatPersianDate(statementTo)}` : 'تا امروز'}
+                </p>
+              </div>
+              <div className="flex gap-2 print:hidden">
+                <Button variant="outline" size="sm" onClick={() => window.print()} disabled={!statement}>
+                  <Printer className="h-4 w-4 ml-1" />
+                  چاپ
+                </Button>
+                <Button variant="outline" size="sm" onClick={closeStatement}>
+                  <X className="h-4 w-4 ml-1" />
+                  بستن
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 print:hidden">
+              <PersianDateField label="از تاریخ" value={statementFrom} onChange={setStatementFrom} />
+              <PersianDateField label="تا تاریخ" value={statementTo} onChange={setStatementTo} />
+            </div>
+
+            {/* Payment Entry */}
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end p-4 border rounded-md print:hidden">
+              <div>
+                <Label htmlFor="paymentAmount">مبلغ دریافتی (ریال)</Label>
+                <Input
+                  id="paymentAmount"
+                  type="number"
+                  min="0"
+                  value={paymentAmount}
+                  onChange={(e) => setPaymentAmount(e.target.value)}
+                />
+              </div>
+              <PersianDateField label="تاریخ دریافت" value={paymentDate} onChange={setPaymentDate} />
+              <div>
+                <Label htmlFor="paymentMethod">روش پرداخت</Label>
+                <select
+                  id="paymentMethod"
+                  value={paymentMethod}
+                  onChange={(e) => setPaymentMethod(e.target.value)}
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                >
+                  {Object.entries(paymentMethodLabels).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="paymentReference">شماره مرجع</Label>
+                <Input
+                  id="paymentReference"
+                  value={paymentReference}
+                  onChange={(e) => setPaymentReference(e.target.value)}
+                  placeholder="شماره چک یا پیگیری"
+                />
+              </div>
+              <Button onClick={handleRecordPayment} disabled={isRecordingPayment || !paymentAmount || !paymentDate}>
+                {isRecordingPayment ? 'در حال ثبت...' : 'ثبت دریافت وجه'}
+              </Button>
+            </div>
+
+            {statementError && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-md print:hidden">
+                <p className="text-red-800 text-sm">{statementError}</p>
+              </div>
+            )}
+
+            {statement && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>تاریخ</TableHead>
+                    <TableHead>شرح</TableHead>
+                    <TableHead>بدهکار</TableHead>
+                    <TableHead>بستانکار</TableHead>
+                    <TableHead>مانده</TableHead>
+                    <TableHead className="print:hidden"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow>
+                    <TableCell>{statementFrom ? formatPersianDate(statementFrom) : '-'}</TableCell>
+                    <TableCell className="font-medium">مانده از قبل</TableCell>
+                    <TableCell>-</TableCell>
+                    <TableCell>-</TableCell>
+                    <TableCell>{formatBalance(statement.openingBalance)}</TableCell>
+                    <TableCell className="print:hidden"></TableCell>
+                  </TableRow>
+                  {statement.entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{formatPersianDate(new Date(entry.date))}</TableCell>
+                      <TableCell>
+                        {entry.isReversal && 'برگشت '}
+                        {ledgerEntryTypeLabels[entry.entryType] || entry.entryType}
+                        {entry.documentNumber && ` شماره ${entry.documentNumber}`}
+                        {entry.paymentMethod && ` (${paymentMethodLabels[entry.paymentMethod]}${entry.reference ? ` - ${entry.reference}` : ''})`}
+                        {entry.description && (
+                          <div className="text-xs text-gray-500">{entry.description}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{entry.debit ? `${Math.round(entry.debit).toLocaleString()} ریال` : '-'}</TableCell>
+                      <TableCell>{entry.credit ? `${Math.round(entry.credit).toLocaleString()} ریال` : '-'}</TableCell>
+                      <TableCell>{formatBalance(entry.balance)}</TableCell>
+                      <TableCell className="print:hidden">
+                        {entry.entryType === 'PAYMENT' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleDeletePayment(entry.id)}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-bold">
+                    <TableCell></TableCell>
+                    <TableCell>جمع دوره</TableCell>
+                    <TableCell>{Math.round(statement.totalDebit).toLocaleString()} ریال</TableCell>
+                    <TableCell>{Math.round(statement.totalCredit).toLocaleString()} ریال</TableCell>
+                    <TableCell>{formatBalance(statement.closingBalance)}</TableCell>
+                    <TableCell className="print:hidden"></TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Customers List */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 print:hidden">
         {filteredCustomers.map((customer) => (
           <Card key={customer.id} className="hover:shadow-lg transition-shadow">
             <CardContent className="p-4">
@@ -568,12 +906,23 @@ export default function CustomersPage() {
                     <span>حد اعتبار: {customer.creditLimit.toLocaleString()} ریال</span>
                   </div>
                   <div className="flex justify-between text-xs mt-1">
-                    <span>موجودی: {customer.currentBalance.toLocaleString()} ریال</span>
+                    <span className={customer.creditLimit > 0 && customer.currentBalance > customer.creditLimit ? 'text-red-600' : ''}>
+                      مانده حساب: {formatBalance(customer.currentBalance)}
+                    </span>
                   </div>
                 </div>
               </div>
 
               <div className="flex justify-end gap-2 mt-4 pt-3 border-t">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => openStatement(customer)}
+                  className="flex items-center gap-1"
+                >
+                  <FileText className="h-3 w-3" />
+                  صورتحساب
+                </Button>
                 <Button
                   size="sm"
                   variant="outline"
@@ -599,7 +948,7 @@ export default function CustomersPage() {
       </div>
 
       {filteredCustomers.length === 0 && (
-        <Card>
+        <Card className="print:hidden">
           <CardContent className="p-8 text-center">
             <p className="text-gray-500">هیچ مشتری‌ای یافت نشد.</p>
           </CardContent>
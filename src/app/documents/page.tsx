@@ -14,11 +14,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Badge } from "@/components/ui/badge";
-import { FileText, Search, Filter, Download, Eye, AlertCircle, RefreshCw, Plus, Edit, Trash2 } from "lucide-react";
+import { FileText, Search, Filter, Download, Eye, AlertCircle, RefreshCw, Plus, Edit, Trash2, Undo2, ClipboardCheck } from "lucide-react";
 import { formatPersianNumber, formatPersianCurrency } from "@/lib/persian";
 import { apolloClient } from "@/lib/apollo-client";
-import { gql } from "@apollo/client";
+import { CombinedGraphQLErrors, gql } from "@apollo/client";
 import { PersianDatePicker } from "@/components/ui/persian-date-picker";
+import { BarcodeScanInput } from "@/components/barcode/BarcodeScanInput";
+import { VariantMatrix } from "@/components/variants/VariantMatrix";
 
 // GraphQL queries
 const GET_ALL_DOCUMENTS = gql`
@@ -35,6 +37,14 @@ const GET_ALL_DOCUMENTS = gql`
         id
         name
       }
+      sourceWarehouse {
+        id
+        name
+      }
+      destinationWarehouse {
+        id
+        name
+      }
       items {
         id
         product {
@@ -43,15 +53,56 @@ const GET_ALL_DOCUMENTS = gql`
           code
           unit
         }
+        warehouse {
+          id
+          name
+        }
         quantity
         unitPrice
         totalPrice
+        adjustmentDirection
+        adjustmentReason
+        lotNumber
+        expiryDate
+        serialNumbers
+        unit
+        unitFactor
+        assemblyRole
         description
       }
       totalAmount
       description
       date
       isFinalized
+      reversalReason
+      creditLimitOverrideReason
+      reversalOf {
+        id
+        documentNumber
+      }
+      reversedBy {
+        id
+        documentNumber
+      }
+      returnOf {
+        id
+        documentNumber
+      }
+      purchaseOrder {
+        id
+        documentNumber
+      }
+      expectedDate
+      quotation {
+        id
+        documentNumber
+      }
+      labourCost
+      overheadCost
+      salesOrder {
+        id
+        documentNumber
+      }
       createdAt
       updatedAt
     }
@@ -72,6 +123,14 @@ const GET_DOCUMENTS_BY_TYPE = gql`
         id
         name
       }
+      sourceWarehouse {
+        id
+        name
+      }
+      destinationWarehouse {
+        id
+        name
+      }
       items {
         id
         product {
@@ -80,9 +139,21 @@ const GET_DOCUMENTS_BY_TYPE = gql`
           code
           unit
         }
+        warehouse {
+          id
+          name
+        }
         quantity
         unitPrice
         totalPrice
+        adjustmentDirection
+        adjustmentReason
+        lotNumber
+        expiryDate
+        serialNumbers
+        unit
+        unitFactor
+        assemblyRole
         description
       }
       totalAmount
@@ -102,12 +173,102 @@ const GET_PRODUCTS = gql`
       name
       code
       unit
-      category
+      alternateUnits {
+        unit
+        factor
+      }
+      variantAttributes {
+        name
+        values
+      }
+      parent {
+        id
+      }
+      variantValues {
+        name
+        value
+      }
+      category {
+        id
+        name
+      }
+      trackLots
       isActive
     }
   }
 `;
 
+const GET_RETURNABLE_ITEMS = gql`
+  query GetReturnableItems($documentId: ID!) {
+    getReturnableItems(documentId: $documentId) {
+      product {
+        id
+        name
+        code
+        unit
+        category {
+          id
+          name
+        }
+        isActive
+      }
+      warehouse {
+        id
+        name
+      }
+      lotNumber
+      remainingQuantity
+      unitPrice
+    }
+  }
+`;
+
+const GET_ORDER_LINES = gql`
+  query GetOrderLines($documentId: ID!) {
+    getOrderLines(documentId: $documentId) {
+      product {
+        id
+        name
+        code
+        unit
+        category {
+          id
+          name
+        }
+        trackLots
+        isActive
+      }
+      warehouse {
+        id
+        name
+      }
+      outstandingQuantity
+      unitPrice
+    }
+  }
+`;
+
+const GET_LOT_STOCK = gql`
+  query GetLotStock($productId: ID!, $warehouseId: ID) {
+    getLotStock(productId: $productId, warehouseId: $warehouseId) {
+      lotNumber
+      expiryDate
+      quantity
+    }
+  }
+`;
+
+const GET_WAREHOUSES = gql`
+  query GetWarehouses {
+    getWarehouses(isActive: true) {
+      id
+      name
+      code
+      isDefault
+    }
+  }
+`;
+
 const GET_SUPPLIERS = gql`
   query GetSuppliers {
     getSuppliers {
@@ -142,6 +303,14 @@ const CREATE_DOCUMENT = gql`
         id
         name
       }
+      sourceWarehouse {
+        id
+        name
+      }
+      destinationWarehouse {
+        id
+        name
+      }
       items {
         id
         product {
@@ -150,9 +319,21 @@ const CREATE_DOCUMENT = gql`
           code
           unit
         }
+        warehouse {
+          id
+          name
+        }
         quantity
         unitPrice
         totalPrice
+        adjustmentDirection
+        adjustmentReason
+        lotNumber
+        expiryDate
+        serialNumbers
+        unit
+        unitFactor
+        assemblyRole
         description
       }
       totalAmount
@@ -179,6 +360,14 @@ const UPDATE_DOCUMENT = gql`
         id
         name
       }
+      sourceWarehouse {
+        id
+        name
+      }
+      destinationWarehouse {
+        id
+        name
+      }
       items {
         id
         product {
@@ -187,9 +376,21 @@ const UPDATE_DOCUMENT = gql`
           code
           unit
         }
+        warehouse {
+          id
+          name
+        }
         quantity
         unitPrice
         totalPrice
+        adjustmentDirection
+        adjustmentReason
+        lotNumber
+        expiryDate
+        serialNumbers
+        unit
+        unitFactor
+        assemblyRole
         description
       }
       totalAmount
@@ -208,6 +409,24 @@ const DELETE_DOCUMENT = gql`
   }
 `;
 
+const REVERSE_DOCUMENT = gql`
+  mutation ReverseDocument($id: ID!, $reason: String!) {
+    reverseDocument(id: $id, reason: $reason) {
+      id
+      documentNumber
+    }
+  }
+`;
+
+const CONVERT_QUOTATION_TO_ORDER = gql`
+  mutation ConvertQuotationToOrder($id: ID!, $documentNumber: String!, $date: Date!) {
+    convertQuotationToOrder(id: $id, documentNumber: $documentNumber, date: $date) {
+      id
+      documentNumber
+    }
+  }
+`;
+
 const CREATE_PRODUCT = gql`
   mutation CreateProduct($input: ProductInput!) {
     createProduct(input: $input) {
@@ -216,7 +435,10 @@ const CREATE_PRODUCT = gql`
       code
       description
       unit
-      category
+      category {
+        id
+        name
+      }
       minimumStock
       maximumStock
       isActive
@@ -239,16 +461,36 @@ const TEST_CONNECTION = gql`
 // Form schemas
 const documentItemSchema = z.object({
   productId: z.string().min(1, "انتخاب کالا الزامی است"),
+  warehouseId: z.string().optional(),
+  adjustmentDirection: z.string().optional(),
+  adjustmentReason: z.string().optional(),
+  lotNumber: z.string().optional(),
+  expiryDate: z.number().optional(),
+  serialNumbers: z.string().optional(),
+  unit: z.string().optional(),
   quantity: z.number().min(0.001, "تعداد باید بیشتر از صفر باشد"),
   unitPrice: z.number().min(0, "قیمت واحد نمی‌تواند منفی باشد"),
   description: z.string().optional(),
 });
 
 const documentSchema = z.object({
-  documentType: z.enum(["PURCHASE_INVOICE", "SALE_INVOICE", "STOCK_ADJUSTMENT", "INITIAL_STOCK", "IMPORT"]),
+  documentType: z.enum([
+    "PURCHASE_INVOICE", "SALE_INVOICE", "STOCK_ADJUSTMENT", "INITIAL_STOCK", "IMPORT", "TRANSFER",
+    "PURCHASE_RETURN", "SALE_RETURN", "PURCHASE_ORDER", "GOODS_RECEIPT", "QUOTATION", "SALES_ORDER",
+    "ASSEMBLY", "DISASSEMBLY"
+  ]),
   documentNumber: z.string().min(1, "شماره سند الزامی است"),
   supplierId: z.string().optional(),
   customerId: z.string().optional(),
+  sourceWarehouseId: z.string().optional(),
+  destinationWarehouseId: z.string().optional(),
+  returnOfId: z.string().optional(),
+  purchaseOrderId: z.string().optional(),
+  expectedDate: z.number().optional(),
+  labourCost: z.number().min(0, "هزینه دستمزد نمی‌تواند منفی باشد").optional(),
+  overheadCost: z.number().min(0, "هزینه سربار نمی‌تواند منفی باشد").optional(),
+  quotationId: z.string().optional(),
+  salesOrderId: z.string().optional(),
   description: z.string().optional(),
   date: z.number(),
 });
@@ -268,10 +510,22 @@ interface Product {
   name: string;
   code: string;
   unit: string;
-  category?: string;
+  alternateUnits?: { unit: string; factor: number }[] | null;
+  variantAttributes?: { name: string; values: string[] }[] | null;
+  parent?: { id: string } | null;
+  variantValues?: { name: string; value: string }[] | null;
+  category?: { id: string; name: string } | null;
+  trackLots?: boolean;
   isActive: boolean;
 }
 
+interface Warehouse {
+  id: string;
+  name: string;
+  code: string;
+  isDefault: boolean;
+}
+
 interface Supplier {
   id: string;
   name: string;
@@ -287,23 +541,67 @@ interface Customer {
 interface DocumentItem {
   id: string;
   product: Product;
+  warehouse?: { id: string; name: string } | null;
   quantity: number;
   unitPrice: number;
   totalPrice: number;
+  adjustmentDirection?: string | null;
+  adjustmentReason?: string | null;
+  lotNumber?: string | null;
+  expiryDate?: number | null;
+  serialNumbers?: string[] | null;
+  unit?: string | null;
+  unitFactor?: number | null;
+  assemblyRole?: string | null;
   description?: string;
 }
 
+// What is still to be returned of an invoice line, or delivered of an order line
+interface ReturnableItem {
+  product: Product;
+  warehouse?: { id: string; name: string } | null;
+  lotNumber?: string | null;
+  remainingQuantity: number;
+  unitPrice: number;
+}
+
+interface OrderLine {
+  product: Product;
+  warehouse?: { id: string; name: string } | null;
+  outstandingQuantity: number;
+  unitPrice: number;
+}
+
+interface LotStock {
+  lotNumber?: string | null;
+  expiryDate?: number | null;
+  quantity: number;
+}
+
 interface Document {
   id: string;
   documentType: string;
   documentNumber: string;
   supplier?: Supplier;
   customer?: Customer;
+  sourceWarehouse?: { id: string; name: string } | null;
+  destinationWarehouse?: { id: string; name: string } | null;
   items: DocumentItem[];
   totalAmount: number;
   description?: string;
   date: number;
   isFinalized: boolean;
+  reversalReason?: string;
+  creditLimitOverrideReason?: string | null;
+  reversalOf?: { id: string; documentNumber: string };
+  reversedBy?: { id: string; documentNumber: string };
+  returnOf?: { id: string; documentNumber: string };
+  purchaseOrder?: { id: string; documentNumber: string } | null;
+  expectedDate?: number | null;
+  quotation?: { id: string; documentNumber: string } | null;
+  salesOrder?: { id: string; documentNumber: string } | null;
+  labourCost?: number | null;
+  overheadCost?: number | null;
   createdAt: number;
   updatedAt: number;
 }
@@ -313,7 +611,44 @@ const documentTypeLabels = {
   PURCHASE_INVOICE: "فاکتور خرید", 
   SALE_INVOICE: "فاکتور فروش",
   STOCK_ADJUSTMENT: "تعدیل موجودی",
-  IMPORT: "واردات کالا"
+  IMPORT: "واردات کالا",
+  TRANSFER: "انتقال بین انبارها",
+  PURCHASE_RETURN: "برگشت از خرید",
+  SALE_RETURN: "برگشت از فروش",
+  PURCHASE_ORDER: "سفارش خرید",
+  GOODS_RECEIPT: "رسید کالا",
+  QUOTATION: "پیش‌فاکتور",
+  SALES_ORDER: "سفارش فروش",
+  ASSEMBLY: "مونتاژ",
+  DISASSEMBLY: "دمونتاژ"
+};
+
+const adjustmentReasonLabels: Record<string, string> = {
+  DAMAGE: "خرابی",
+  LOSS: "مفقودی",
+  COUNT_DIFFERENCE: "مغایرت شمارش",
+  SAMPLE: "نمونه"
+};
+
+// Products in this unit carry one serial number per unit
+const SERIALIZED_UNIT = "دستگاه";
+
+// Serial numbers are typed or scanned separated by spaces, commas or new lines
+const parseSerialNumbers = (value?: string) =>
+  (value || "").split(/[\s,،]+/).map(serial => serial.trim()).filter(Boolean);
+
+// Stored lines are in the product's base unit; this shows a line in the unit it was entered in
+const toEnteredUnits = (item: DocumentItem): DocumentItem => item.unitFactor
+  ? { ...item, quantity: item.quantity / item.unitFactor, unitPrice: item.unitPrice * item.unitFactor }
+  : item;
+
+// Scanned lines of these types are priced at the product's sale price
+const salePricedDocumentTypes = ["SALE_INVOICE", "QUOTATION", "SALES_ORDER"];
+
+// Invoice types each return type may refer back to
+const returnableDocumentTypes: Record<string, string[]> = {
+  PURCHASE_RETURN: ["PURCHASE_INVOICE", "IMPORT", "GOODS_RECEIPT"],
+  SALE_RETURN: ["SALE_INVOICE"]
 };
 
 const documentTypeColors = {
@@ -321,13 +656,40 @@ const documentTypeColors = {
   PURCHASE_INVOICE: "bg-green-100 text-green-800",
   SALE_INVOICE: "bg-orange-100 text-orange-800", 
   STOCK_ADJUSTMENT: "bg-purple-100 text-purple-800",
-  IMPORT: "bg-indigo-100 text-indigo-800"
+  IMPORT: "bg-indigo-100 text-indigo-800",
+  TRANSFER: "bg-teal-100 text-teal-800",
+  PURCHASE_RETURN: "bg-rose-100 text-rose-800",
+  SALE_RETURN: "bg-amber-100 text-amber-800",
+  PURCHASE_ORDER: "bg-sky-100 text-sky-800",
+  GOODS_RECEIPT: "bg-lime-100 text-lime-800",
+  QUOTATION: "bg-slate-100 text-slate-800",
+  SALES_ORDER: "bg-yellow-100 text-yellow-800",
+  ASSEMBLY: "bg-cyan-100 text-cyan-800",
+  DISASSEMBLY: "bg-fuchsia-100 text-fuchsia-800"
+};
+
+// Assemblies name one finished product; the server adds its components from the bill of materials
+const assemblyDocumentTypes = ["ASSEMBLY", "DISASSEMBLY"];
+
+// Document types that only record an agreement; their lines move no stock and name no lots or serials
+const nonStockDocumentTypes = ["PURCHASE_ORDER", "QUOTATION", "SALES_ORDER"];
+
+// When the company lets invoices past a customer's credit limit with an override, asks the user why;
+// returns the reason, or null for any other error or when the user declines
+const askCreditLimitOverride = (error: unknown) => {
+  if (!CombinedGraphQLErrors.is(error)) return null;
+  const creditError = error.errors.find(e => e.extensions?.code === "CREDIT_LIMIT_EXCEEDED");
+  if (creditError?.extensions?.policy !== "OVERRIDE") return null;
+  const reason = prompt(`${creditError.message}\n\nعلت عبور از حد اعتبار را وارد کنید:`);
+  return reason?.trim() || null;
 };
 
 export default function DocumentsPage() {
   const [documents, setDocuments] = useState<Document[]>([]);
   const [filteredDocuments, setFilteredDocuments] = useState<Document[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [productLots, setProductLots] = useState<LotStock[]>([]);
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [currentItems, setCurrentItems] = useState<DocumentItem[]>([]);
@@ -359,6 +721,15 @@ export default function DocumentsPage() {
       documentNumber: "",
       supplierId: "",
       customerId: "",
+      sourceWarehouseId: "",
+      destinationWarehouseId: "",
+      returnOfId: "",
+      purchaseOrderId: "",
+      expectedDate: undefined,
+      labourCost: 0,
+      overheadCost: 0,
+      quotationId: "",
+      salesOrderId: "",
       description: "",
       date: Date.now(),
     },
@@ -369,6 +740,13 @@ export default function DocumentsPage() {
     resolver: zodResolver(documentItemSchema),
     defaultValues: {
       productId: "",
+      warehouseId: "",
+      adjustmentDirection: "IN",
+      adjustmentReason: "",
+      lotNumber: "",
+      expiryDate: undefined,
+      serialNumbers: "",
+      unit: "",
       quantity: 0,
       unitPrice: 0,
       description: "",
@@ -393,6 +771,7 @@ export default function DocumentsPage() {
         // Load all required data sequentially to avoid race conditions
         await loadDocuments();
         await loadProducts();
+        await loadWarehouses();
         await loadSuppliers();
         await loadCustomers();
         
@@ -463,6 +842,21 @@ export default function DocumentsPage() {
     }
   };
 
+  const loadWarehouses = async () => {
+    try {
+      const result = await apolloClient.query<{ getWarehouses: Warehouse[] }>({
+        query: GET_WAREHOUSES,
+        fetchPolicy: 'no-cache'
+      });
+      
+      if (result.data?.getWarehouses) {
+        setWarehouses(result.data.getWarehouses);
+      }
+    } catch (err: any) {
+      console.error('Error loading warehouses:', err);
+    }
+  };
+
   const loadSuppliers = async () => {
     try {
       const result = await apolloClient.query({
@@ -519,12 +913,16 @@ export default function DocumentsPage() {
   const getPartnerName = (doc: Document) => {
     if (doc.supplier) return doc.supplier.name;
     if (doc.customer) return doc.customer.name;
+    if (doc.sourceWarehouse && doc.destinationWarehouse) {
+      return `${doc.sourceWarehouse.name} ← ${doc.destinationWarehouse.name}`;
+    }
     return "-";
   };
 
   const getPartnerType = (doc: Document) => {
     if (doc.supplier) return "تامین‌کننده";
     if (doc.customer) return "مشتری";
+    if (doc.sourceWarehouse) return "انبار مبدا ← مقصد";
     return "-";
   };
 
@@ -565,6 +963,15 @@ export default function DocumentsPage() {
       documentNumber: "",
       supplierId: "",
       customerId: "",
+      sourceWarehouseId: "",
+      destinationWarehouseId: "",
+      returnOfId: "",
+      purchaseOrderId: "",
+      expectedDate: undefined,
+      labourCost: 0,
+      overheadCost: 0,
+      quotationId: "",
+      salesOrderId: "",
       description: "",
       date: Date.now(),
     });
@@ -574,12 +981,19 @@ export default function DocumentsPage() {
 
   const openEditDialog = (doc: Document) => {
     setEditingDocument(doc);
-    setCurrentItems(doc.items || []);
+    setCurrentItems((doc.items || []).filter(item => item.assemblyRole !== "COMPONENT").map(toEnteredUnits));
     
     // Clear any item editing state
     setEditingItemId(null);
     itemForm.reset({
       productId: "",
+      warehouseId: "",
+      adjustmentDirection: "IN",
+      adjustmentReason: "",
+      lotNumber: "",
+      expiryDate: undefined,
+      serialNumbers: "",
+      unit: "",
       quantity: 0,
       unitPrice: 0,
       description: "",
@@ -590,6 +1004,15 @@ export default function DocumentsPage() {
       documentNumber: doc.documentNumber,
       supplierId: doc.supplier?.id || "",
       customerId: doc.customer?.id || "",
+      sourceWarehouseId: doc.sourceWarehouse?.id || "",
+      destinationWarehouseId: doc.destinationWarehouse?.id || "",
+      returnOfId: doc.returnOf?.id || "",
+      purchaseOrderId: doc.purchaseOrder?.id || "",
+      expectedDate: doc.expectedDate || undefined,
+      labourCost: doc.labourCost || 0,
+      overheadCost: doc.overheadCost || 0,
+      quotationId: doc.quotation?.id || "",
+      salesOrderId: doc.salesOrder?.id || "",
       description: doc.description || "",
       date: doc.date,
     });
@@ -605,6 +1028,13 @@ export default function DocumentsPage() {
     documentForm.reset();
     itemForm.reset({
       productId: "",
+      warehouseId: "",
+      adjustmentDirection: "IN",
+      adjustmentReason: "",
+      lotNumber: "",
+      expiryDate: undefined,
+      serialNumbers: "",
+      unit: "",
       quantity: 0,
       unitPrice: 0,
       description: "",
@@ -627,6 +1057,11 @@ export default function DocumentsPage() {
     
     const product = products.find(p => p.id === formData.productId);
     if (!product) return;
+    if (product.variantAttributes?.length) {
+      setError(`کالای ${product.name} گونه دارد؛ مقادیر را در جدول گونه‌ها وارد کنید`);
+      return;
+    }
+    const alternateUnit = product.alternateUnits?.find(alternate => alternate.unit === formData.unit);
 
     // Generate a unique ID for new items that won't conflict with existing IDs
     const newItemId = `new_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -634,9 +1069,17 @@ export default function DocumentsPage() {
     const newItem: DocumentItem = {
       id: newItemId,
       product,
+      warehouse: warehouses.find(w => w.id === formData.warehouseId) || null,
       quantity: formData.quantity,
       unitPrice: formData.unitPrice,
       totalPrice: formData.quantity * formData.unitPrice,
+      adjustmentDirection: formData.adjustmentDirection,
+      adjustmentReason: formData.adjustmentReason,
+      lotNumber: formData.lotNumber || null,
+      expiryDate: formData.expiryDate || null,
+      serialNumbers: product.unit === SERIALIZED_UNIT ? parseSerialNumbers(formData.serialNumbers) : null,
+      unit: alternateUnit?.unit || null,
+      unitFactor: alternateUnit?.factor || null,
       description: formData.description,
     };
 
@@ -644,12 +1087,73 @@ export default function DocumentsPage() {
     setCurrentItems(newItems);
     itemForm.reset({
       productId: "",
+      warehouseId: "",
+      adjustmentDirection: "IN",
+      adjustmentReason: "",
+      lotNumber: "",
+      expiryDate: undefined,
+      serialNumbers: "",
+      unit: "",
       quantity: 0,
       unitPrice: 0,
       description: "",
     });
   };
 
+  // The variant grid adds a line per variant given a quantity, sharing the rest of the item form
+  const handleAddVariantItems = (quantities: { productId: string; quantity: number }[]) => {
+    const formData = itemForm.getValues();
+    const variantItems: DocumentItem[] = quantities.flatMap(({ productId, quantity }) => {
+      const product = products.find(p => p.id === productId);
+      if (!product) return [];
+      return [{
+        id: `new_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        product,
+        warehouse: warehouses.find(w => w.id === formData.warehouseId) || null,
+        quantity,
+        unitPrice: formData.unitPrice,
+        totalPrice: quantity * formData.unitPrice,
+        adjustmentDirection: formData.adjustmentDirection,
+        adjustmentReason: formData.adjustmentReason,
+        description: formData.description,
+      }];
+    });
+    setCurrentItems([...currentItems, ...variantItems]);
+  };
+
+  // A scanned product adds a line of one base unit, or one more on the line already holding it
+  const handleScannedProduct = (scanned: { id: string; salePrice?: number | null }) => {
+    const product = products.find(p => p.id === scanned.id);
+    if (!product) {
+      setError("کالای اسکن شده در فهرست کالاهای فعال نیست");
+      return;
+    }
+
+    const existing = currentItems.find(item =>
+      item.product.id === product.id && !item.unit && !item.lotNumber && !item.serialNumbers?.length
+    );
+    if (existing) {
+      setCurrentItems(currentItems.map(item => item.id === existing.id
+        ? { ...item, quantity: item.quantity + 1, totalPrice: (item.quantity + 1) * item.unitPrice }
+        : item
+      ));
+      return;
+    }
+
+    const documentType = documentForm.getValues("documentType");
+    const unitPrice = salePricedDocumentTypes.includes(documentType) ? scanned.salePrice || 0 : 0;
+    setCurrentItems([...currentItems, {
+      id: `new_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      product,
+      warehouse: null,
+      quantity: 1,
+      unitPrice,
+      totalPrice: unitPrice,
+      adjustmentDirection: documentType === "STOCK_ADJUSTMENT" ? "IN" : null,
+      description: "",
+    }]);
+  };
+
   const handleRemoveItem = (itemId: string) => {
     setCurrentItems(currentItems.filter(item => item.id !== itemId));
   };
@@ -658,6 +1162,13 @@ export default function DocumentsPage() {
     setEditingItemId(item.id);
     itemForm.reset({
       productId: item.product.id,
+      warehouseId: item.warehouse?.id || "",
+      adjustmentDirection: item.adjustmentDirection || "IN",
+      adjustmentReason: item.adjustmentReason || "",
+      lotNumber: item.lotNumber || "",
+      expiryDate: item.expiryDate || undefined,
+      serialNumbers: (item.serialNumbers || []).join(" "),
+      unit: item.unit || "",
       quantity: item.quantity,
       unitPrice: item.unitPrice,
       description: item.description || "",
@@ -668,6 +1179,13 @@ export default function DocumentsPage() {
     setEditingItemId(null);
     itemForm.reset({
       productId: "",
+      warehouseId: "",
+      adjustmentDirection: "IN",
+      adjustmentReason: "",
+      lotNumber: "",
+      expiryDate: undefined,
+      serialNumbers: "",
+      unit: "",
       quantity: 0,
       unitPrice: 0,
       description: "",
@@ -679,13 +1197,26 @@ export default function DocumentsPage() {
     
     const product = products.find(p => p.id === data.productId);
     if (!product) return;
+    if (product.variantAttributes?.length) {
+      setError(`کالای ${product.name} گونه دارد؛ یکی از گونه‌های آن را انتخاب کنید`);
+      return;
+    }
+    const alternateUnit = product.alternateUnits?.find(alternate => alternate.unit === data.unit);
 
     const updatedItem: DocumentItem = {
       id: editingItemId,
       product,
+      warehouse: warehouses.find(w => w.id === data.warehouseId) || null,
       quantity: data.quantity,
       unitPrice: data.unitPrice,
       totalPrice: data.quantity * data.unitPrice,
+      adjustmentDirection: data.adjustmentDirection,
+      adjustmentReason: data.adjustmentReason,
+      lotNumber: data.lotNumber || null,
+      expiryDate: data.expiryDate || null,
+      serialNumbers: product.unit === SERIALIZED_UNIT ? parseSerialNumbers(data.serialNumbers) : null,
+      unit: alternateUnit?.unit || null,
+      unitFactor: alternateUnit?.factor || null,
       description: data.description,
     };
 
@@ -699,12 +1230,85 @@ export default function DocumentsPage() {
     setEditingItemId(null);
     itemForm.reset({
       productId: "",
+      warehouseId: "",
+      adjustmentDirection: "IN",
+      adjustmentReason: "",
+      lotNumber: "",
+      expiryDate: undefined,
+      serialNumbers: "",
+      unit: "",
       quantity: 0,
       unitPrice: 0,
       description: "",
     });
   };
 
+  // Fill the lines of a return with what is still returnable on the chosen invoice
+  const handleReturnOfChange = async (documentId: string) => {
+    documentForm.setValue("returnOfId", documentId);
+    if (!documentId) return;
+
+    try {
+      const result = await apolloClient.query<{ getReturnableItems: ReturnableItem[] }>({
+        query: GET_RETURNABLE_ITEMS,
+        variables: { documentId },
+        fetchPolicy: 'no-cache'
+      });
+
+      const returnableItems = result.data?.getReturnableItems || [];
+      setCurrentItems(returnableItems
+        .filter(item => item.remainingQuantity > 0)
+        .map(item => ({
+          id: `new_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          product: item.product,
+          warehouse: item.warehouse,
+          lotNumber: item.lotNumber,
+          quantity: item.remainingQuantity,
+          unitPrice: item.unitPrice,
+          totalPrice: item.remainingQuantity * item.unitPrice,
+          description: ""
+        })));
+    } catch (err) {
+      console.error('Error loading returnable items:', err);
+      setError(`خطا در بارگذاری اقلام قابل برگشت: ${(err as Error).message}`);
+    }
+  };
+
+  // Fill the lines of a goods receipt or sale invoice with what is still outstanding on the chosen order
+  const handleOrderChange = async (field: "purchaseOrderId" | "salesOrderId", documentId: string) => {
+    documentForm.setValue(field, documentId);
+    if (!documentId) return;
+
+    const order = documents.find(doc => doc.id === documentId);
+    if (field === "salesOrderId" && order?.customer?.id) {
+      documentForm.setValue("customerId", order.customer.id);
+    }
+
+    try {
+      const result = await apolloClient.query<{ getOrderLines: OrderLine[] }>({
+        query: GET_ORDER_LINES,
+        variables: { documentId },
+        fetchPolicy: 'no-cache'
+      });
+
+      const orderLines = result.data?.getOrderLines || [];
+      setCurrentItems(orderLines
+        .filter(line => line.outstandingQuantity > 0)
+        .map(line => ({
+          id: `new_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          product: line.product,
+          warehouse: line.warehouse,
+          quantity: line.outstandingQuantity,
+          unitPrice: line.unitPrice,
+          totalPrice: line.outstandingQuantity * line.unitPrice,
+          description: ""
+        })));
+    } catch (err) {
+      console.error('Error loading order lines:', err);
+      setError(`خطا در بارگذاری اقلام سفارش: ${(err as Error).message}`);
+    }
+  };
+
   const handleSubmitDocument = async (data: DocumentFormData) => {
     setIsSubmitting(true);
     setError("");
@@ -716,44 +1320,99 @@ export default function DocumentsPage() {
       return;
     }
 
+    const isTransfer = data.documentType === "TRANSFER";
+    const isReturn = !!returnableDocumentTypes[data.documentType];
+    const isAdjustment = data.documentType === "STOCK_ADJUSTMENT";
+    if (isAdjustment && currentItems.some(item => !item.adjustmentReason)) {
+      setError("علت تعدیل برای هر قلم الزامی است");
+      setIsSubmitting(false);
+      return;
+    }
+
+    if (isReturn && !data.returnOfId) {
+      setError("فاکتور مرجع برای سند مرجوعی الزامی است");
+      setIsSubmitting(false);
+      return;
+    }
+
+    const isReceipt = data.documentType === "GOODS_RECEIPT";
+    if (isReceipt && !data.purchaseOrderId) {
+      setError("سفارش خرید برای رسید کالا الزامی است");
+      setIsSubmitting(false);
+      return;
+    }
+
+    const isAssembly = assemblyDocumentTypes.includes(data.documentType);
+    if (isAssembly && currentItems.length !== 1) {
+      setError("سند مونتاژ و دمونتاژ باید دقیقاً یک کالای ساخته شده داشته باشد");
+      setIsSubmitting(false);
+      return;
+    }
+
+    if (isTransfer && (!data.sourceWarehouseId || !data.destinationWarehouseId)) {
+      setError("انبار مبدا و مقصد برای انتقال کالا الزامی است");
+      setIsSubmitting(false);
+      return;
+    }
+    if (isTransfer && data.sourceWarehouseId === data.destinationWarehouseId) {
+      setError("انبار مبدا و مقصد نمی‌توانند یکسان باشند");
+      setIsSubmitting(false);
+      return;
+    }
+
     try {
       // Prepare items for GraphQL
       // Filter out ID field since backend generates its own IDs
       const items = currentItems.map(item => ({
         productId: item.product.id,
+        ...(!isTransfer && item.warehouse && { warehouseId: item.warehouse.id }),
         quantity: item.quantity,
         unitPrice: item.unitPrice,
+        ...(isAdjustment && {
+          adjustmentDirection: item.adjustmentDirection || "IN",
+          adjustmentReason: item.adjustmentReason
+        }),
+        ...(item.lotNumber && { lotNumber: item.lotNumber }),
+        ...(item.expiryDate && { expiryDate: item.expiryDate }),
+        ...(item.serialNumbers?.length && { serialNumbers: item.serialNumbers }),
+        ...(item.unit && { unit: item.unit }),
         description: item.description || ""
       }));
 
       const input = {
         documentType: data.documentType,
         documentNumber: data.documentNumber,
-        ...(data.supplierId && { supplierId: data.supplierId }),
-        ...(data.customerId && { customerId: data.customerId }),
+        ...(!isTransfer && data.supplierId && { supplierId: data.supplierId }),
+        ...(!isTransfer && data.customerId && { customerId: data.customerId }),
+        ...(isTransfer && {
+          sourceWarehouseId: data.sourceWarehouseId,
+          destinationWarehouseId: data.destinationWarehouseId
+        }),
+        ...(isReturn && { returnOfId: data.returnOfId }),
+        ...(isReceipt && { purchaseOrderId: data.purchaseOrderId }),
+        ...(data.documentType === "SALE_INVOICE" && data.salesOrderId && { salesOrderId: data.salesOrderId }),
+        ...(data.documentType === "SALES_ORDER" && data.quotationId && { quotationId: data.quotationId }),
+        ...(data.documentType === "PURCHASE_ORDER" && data.expectedDate && { expectedDate: data.expectedDate }),
+        ...(isAssembly && { labourCost: data.labourCost || 0, overheadCost: data.overheadCost || 0 }),
         description: data.description || "",
         date: data.date,
         items
       };
 
+      const saveDocument = (creditLimitOverrideReason?: string | null) => {
+        const variables = { input: { ...input, ...(creditLimitOverrideReason && { creditLimitOverrideReason }) } };
+        return editingDocument
+          ? apolloClient.mutate({ mutation: UPDATE_DOCUMENT, variables: { id: editingDocument.id, ...variables } })
+          : apolloClient.mutate({ mutation: CREATE_DOCUMENT, variables });
+      };
+
       let result;
-      if (editingDocument) {
-        // Update existing document
-        result = await apolloClient.mutate({
-          mutation: UPDATE_DOCUMENT,
-          variables: {
-            id: editingDocument.id,
-            input
-          }
-        });
-      } else {
-        // Create new document
-        result = await apolloClient.mutate({
-          mutation: CREATE_DOCUMENT,
-          variables: {
-            input
-          }
-        });
+      try {
+        result = await saveDocument(editingDocument?.creditLimitOverrideReason);
+      } catch (saveError) {
+        const creditLimitOverrideReason = askCreditLimitOverride(saveError);
+        if (!creditLimitOverrideReason) throw saveError;
+        result = await saveDocument(creditLimitOverrideReason);
       }
 
       if (result.data) {
@@ -790,8 +1449,99 @@ export default function DocumentsPage() {
     }
   };
 
+  const handleConvertQuotation = async (doc: Document) => {
+    const documentNumber = prompt(`شماره سفارش فروش برای پیش‌فاکتور ${doc.documentNumber} را وارد کنید:`);
+    if (!documentNumber || !documentNumber.trim()) return;
+
+    try {
+      await apolloClient.mutate({
+        mutation: CONVERT_QUOTATION_TO_ORDER,
+        variables: { id: doc.id, documentNumber: documentNumber.trim(), date: Date.now() }
+      });
+      await loadDocuments();
+    } catch (err: any) {
+      console.error('Error converting quotation:', err);
+      setError(`خطا در تبدیل پیش‌فاکتور به سفارش: ${err.message}`);
+    }
+  };
+
+  const handleReverseDocument = async (doc: Document) => {
+    const reason = prompt(`علت برگشت سند ${doc.documentNumber} را وارد کنید:`);
+    if (!reason || !reason.trim()) return;
+    
+    try {
+      await apolloClient.mutate({
+        mutation: REVERSE_DOCUMENT,
+        variables: { id: doc.id, reason: reason.trim() }
+      });
+      await loadDocuments();
+    } catch (err: any) {
+      console.error('Error reversing document:', err);
+      setError(`خطا در برگشت سند: ${err.message}`);
+    }
+  };
+
   const totalDocumentValue = currentItems.reduce((sum, item) => sum + item.totalPrice, 0);
 
+  // Transfers are priced on the server at the source warehouse's average cost
+  const isTransferDocument = documentForm.watch('documentType') === 'TRANSFER';
+
+  // Returns take their counterparty and prices from the original invoice
+  const returnOfTypes = returnableDocumentTypes[documentForm.watch('documentType')];
+  const isReturnDocument = !!returnOfTypes;
+  const returnableInvoices = isReturnDocument
+    ? documents.filter(doc =>
+        returnOfTypes.includes(doc.documentType) && doc.isFinalized && !doc.reversalOf && !doc.reversedBy
+      )
+    : [];
+  // Goods receipts deliver against an open purchase order at its prices; the order itself moves no
+  // stock, so its lines name no lots or serials
+  const isPurchaseOrderDocument = documentForm.watch('documentType') === 'PURCHASE_ORDER';
+  const isNonStockDocument = nonStockDocumentTypes.includes(documentForm.watch('documentType'));
+  const isAssemblyDocument = assemblyDocumentTypes.includes(documentForm.watch('documentType'));
+  const isReceiptDocument = documentForm.watch('documentType') === 'GOODS_RECEIPT';
+  const openPurchaseOrders = isReceiptDocument
+    ? documents.filter(doc =>
+        doc.documentType === 'PURCHASE_ORDER' && doc.isFinalized && !doc.reversalOf && !doc.reversedBy
+      )
+    : [];
+  // A sale invoice may deliver a sales order, at the order's prices
+  const isSaleInvoiceDocument = documentForm.watch('documentType') === 'SALE_INVOICE';
+  const isOrderInvoice = isSaleInvoiceDocument && !!documentForm.watch('salesOrderId');
+  const openSalesOrders = isSaleInvoiceDocument
+    ? documents.filter(doc =>
+        doc.documentType === 'SALES_ORDER' && doc.isFinalized && !doc.reversalOf && !doc.reversedBy
+      )
+    : [];
+  // Adjustment lines carry a direction and a reason; outgoing ones are priced at average cost
+  const isAdjustmentDocument = documentForm.watch('documentType') === 'STOCK_ADJUSTMENT';
+  const isPricedOnServer = isTransferDocument || isReturnDocument || isReceiptDocument || isOrderInvoice || isAssemblyDocument ||
+    (isAdjustmentDocument && itemForm.watch('adjustmentDirection') === 'OUT');
+
+  // Lot-tracked products receive into a named lot, or pick one of the lots in stock when
+  // the line takes goods out; without a picked lot the server allocates FEFO
+  const selectedItemProduct = products.find(p => p.id === itemForm.watch('productId'));
+  const isLotTrackedItem = !!selectedItemProduct?.trackLots && !isNonStockDocument;
+  const isSerializedItem = selectedItemProduct?.unit === SERIALIZED_UNIT && !isNonStockDocument;
+  const isOutgoingItem = ["SALE_INVOICE", "TRANSFER", "PURCHASE_RETURN", "DISASSEMBLY"].includes(documentForm.watch('documentType')) ||
+    (isAdjustmentDocument && itemForm.watch('adjustmentDirection') === 'OUT');
+  const lotWarehouseId = isTransferDocument ? documentForm.watch('sourceWarehouseId') : itemForm.watch('warehouseId');
+
+  useEffect(() => {
+    if (!isLotTrackedItem || !isOutgoingItem || !selectedItemProduct) {
+      setProductLots([]);
+      return;
+    }
+
+    apolloClient.query<{ getLotStock: LotStock[] }>({
+      query: GET_LOT_STOCK,
+      variables: { productId: selectedItemProduct.id, warehouseId: lotWarehouseId || undefined },
+      fetchPolicy: 'no-cache'
+    })
+      .then(result => setProductLots(result.data?.getLotStock || []))
+      .catch(err => console.error('Error loading product lots:', err));
+  }, [isLotTrackedItem, isOutgoingItem, selectedItemProduct, lotWarehouseId]);
+
   const handleAddNewProduct = async () => {
     if (!newProductName || !newProductCode || !newProductUnit) {
       setError("نام کالا، کد کالا و واحد الزامی هستند");
@@ -807,7 +1557,6 @@ export default function DocumentsPage() {
         code: newProductCode,
         description: newProductDescription,
         unit: newProductUnit,
-        category: "",
         minimumStock: 0,
         maximumStock: 0,
       };
@@ -900,6 +1649,15 @@ export default function DocumentsPage() {
                                   <SelectItem value="STOCK_ADJUSTMENT">تعدیل موجودی</SelectItem>
                                   <SelectItem value="INITIAL_STOCK">موجودی اولیه</SelectItem>
                                   <SelectItem value="IMPORT">ورود کالا</SelectItem>
+                                  <SelectItem value="TRANSFER">انتقال بین انبارها</SelectItem>
+                                  <SelectItem value="PURCHASE_RETURN">برگشت از خرید</SelectItem>
+                                  <SelectItem value="SALE_RETURN">برگشت از فروش</SelectItem>
+                                  <SelectItem value="PURCHASE_ORDER">سفارش خرید</SelectItem>
+                                  <SelectItem value="GOODS_RECEIPT">رسید کالا</SelectItem>
+                                  <SelectItem value="QUOTATION">پیش‌فاکتور</SelectItem>
+                                  <SelectItem value="SALES_ORDER">سفارش فروش</SelectItem>
+                                  <SelectItem value="ASSEMBLY">مونتاژ</SelectItem>
+                                  <SelectItem value="DISASSEMBLY">دمونتاژ</SelectItem>
                                 </SelectContent>
                               </Select>
                               <FormMessage />
@@ -922,23 +1680,75 @@ export default function DocumentsPage() {
                         />
                       </div>
                       
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {isTransferDocument ? (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <FormField
+                            control={documentForm.control}
+                            name="sourceWarehouseId"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>انبار مبدا *</FormLabel>
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue placeholder="انتخاب انبار مبدا" />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {warehouses.map(warehouse => (
+                                      <SelectItem key={warehouse.id} value={warehouse.id}>
+                                        {warehouse.name} ({warehouse.code})
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          
+                          <FormField
+                            control={documentForm.control}
+                            name="destinationWarehouseId"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>انبار مقصد *</FormLabel>
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue placeholder="انتخاب انبار مقصد" />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {warehouses.map(warehouse => (
+                                      <SelectItem key={warehouse.id} value={warehouse.id}>
+                                        {warehouse.name} ({warehouse.code})
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                      ) : isReturnDocument ? (
                         <FormField
                           control={documentForm.control}
-                          name="supplierId"
+                          name="returnOfId"
                           render={({ field }) => (
                             <FormItem>
-                              <FormLabel>تامین‌کننده</FormLabel>
-                              <Select onValueChange={field.onChange} value={field.value}>
+                              <FormLabel>فاکتور مرجع *</FormLabel>
+                              <Select onValueChange={handleReturnOfChange} value={field.value}>
                                 <FormControl>
                                   <SelectTrigger>
-                                    <SelectValue placeholder="انتخاب تامین‌کننده" />
+                                    <SelectValue placeholder="انتخاب فاکتور مرجع" />
                                   </SelectTrigger>
                                 </FormControl>
                                 <SelectContent>
-                                  {suppliers.map(supplier => (
-                                    <SelectItem key={supplier.id} value={supplier.id}>
-                                      {supplier.name}
+                                  {returnableInvoices.map(doc => (
+                                    <SelectItem key={doc.id} value={doc.id}>
+                                      {doc.documentNumber} - {getPartnerName(doc)} ({formatDocumentDate(doc.date)})
                                     </SelectItem>
                                   ))}
                                 </SelectContent>
@@ -947,23 +1757,23 @@ export default function DocumentsPage() {
                             </FormItem>
                           )}
                         />
-                        
+                      ) : isReceiptDocument ? (
                         <FormField
                           control={documentForm.control}
-                          name="customerId"
+                          name="purchaseOrderId"
                           render={({ field }) => (
                             <FormItem>
-                              <FormLabel>مشتری</FormLabel>
-                              <Select onValueChange={field.onChange} value={field.value}>
+                              <FormLabel>سفارش خرید *</FormLabel>
+                              <Select onValueChange={(value) => handleOrderChange("purchaseOrderId", value)} value={field.value}>
                                 <FormControl>
                                   <SelectTrigger>
-                                    <SelectValue placeholder="انتخاب مشتری" />
+                                    <SelectValue placeholder="انتخاب سفارش خرید" />
                                   </SelectTrigger>
                                 </FormControl>
                                 <SelectContent>
-                                  {customers.map(customer => (
-                                    <SelectItem key={customer.id} value={customer.id}>
-                                      {customer.name}
+                                  {openPurchaseOrders.map(doc => (
+                                    <SelectItem key={doc.id} value={doc.id}>
+                                      {doc.documentNumber} - {getPartnerName(doc)} ({formatDocumentDate(doc.date)})
                                     </SelectItem>
                                   ))}
                                 </SelectContent>
@@ -972,7 +1782,59 @@ export default function DocumentsPage() {
                             </FormItem>
                           )}
                         />
-                      </div>
+                      ) : (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <FormField
+                            control={documentForm.control}
+                            name="supplierId"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>تامین‌کننده</FormLabel>
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue placeholder="انتخاب تامین‌کننده" />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {suppliers.map(supplier => (
+                                      <SelectItem key={supplier.id} value={supplier.id}>
+                                        {supplier.name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        
+                          <FormField
+                            control={documentForm.control}
+                            name="customerId"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>مشتری</FormLabel>
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue placeholder="انتخاب مشتری" />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {customers.map(customer => (
+                                      <SelectItem key={customer.id} value={customer.id}>
+                                        {customer.name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                      )}
                       
                       <FormField
                         control={documentForm.control}
@@ -1004,13 +1866,114 @@ export default function DocumentsPage() {
                           </FormItem>
                         )}
                       />
+                      
+                      {isSaleInvoiceDocument && (
+                        <FormField
+                          control={documentForm.control}
+                          name="salesOrderId"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>سفارش فروش</FormLabel>
+                              <Select
+                                onValueChange={(value) => handleOrderChange("salesOrderId", value === "NONE" ? "" : value)}
+                                value={field.value || "NONE"}
+                              >
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="بدون سفارش" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="NONE">بدون سفارش</SelectItem>
+                                  {openSalesOrders.map(doc => (
+                                    <SelectItem key={doc.id} value={doc.id}>
+                                      {doc.documentNumber} - {getPartnerName(doc)} ({formatDocumentDate(doc.date)})
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                      
+                      {isPurchaseOrderDocument && (
+                        <FormField
+                          control={documentForm.control}
+                          name="expectedDate"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>تاریخ تحویل مورد انتظار</FormLabel>
+                              <FormControl>
+                                <PersianDatePicker
+                                  value={field.value ? new Date(field.value) : undefined}
+                                  onChange={(date) => field.onChange(date ? date.getTime() : undefined)}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                      
+                      {isAssemblyDocument && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <FormField
+                            control={documentForm.control}
+                            name="labourCost"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>هزینه دستمزد (ریال)</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    placeholder="0"
+                                    className="ltr-content"
+                                    {...field}
+                                    onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : 0)}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={documentForm.control}
+                            name="overheadCost"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>هزینه سربار (ریال)</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    placeholder="0"
+                                    className="ltr-content"
+                                    {...field}
+                                    onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : 0)}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <p className="md:col-span-2 text-sm text-muted-foreground">
+                            {documentForm.watch('documentType') === 'ASSEMBLY'
+                              ? "اجزای کالا طبق فهرست مواد آن به بهای تمام شده از انبار خارج می‌شوند و کالای ساخته شده به جمع بهای آن‌ها به علاوه دستمزد و سربار وارد می‌شود."
+                              : "کالا به بهای تمام شده از انبار خارج می‌شود و بهای آن به علاوه دستمزد و سربار به نسبت بهای اجزا میان آن‌ها تقسیم می‌شود."}
+                          </p>
+                        </div>
+                      )}
                     </form>
                   </Form>
                   
                   {/* Item Form */}
                   <Card>
-                    <CardHeader>
+                    <CardHeader className="flex flex-row items-start justify-between gap-4">
                       <CardTitle className="text-lg">اقلام سند</CardTitle>
+                      <div className="w-64">
+                        <BarcodeScanInput onScan={handleScannedProduct} />
+                      </div>
                     </CardHeader>
                     <CardContent>
                       <Form {...itemForm}>
@@ -1108,6 +2071,33 @@ export default function DocumentsPage() {
                               />
                             </div>
                             
+                            {selectedItemProduct?.alternateUnits?.length ? (
+                              <FormField
+                                control={itemForm.control}
+                                name="unit"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>واحد</FormLabel>
+                                    <Select onValueChange={field.onChange} value={field.value || selectedItemProduct.unit}>
+                                      <FormControl>
+                                        <SelectTrigger>
+                                          <SelectValue />
+                                        </SelectTrigger>
+                                      </FormControl>
+                                      <SelectContent>
+                                        <SelectItem value={selectedItemProduct.unit}>{selectedItemProduct.unit}</SelectItem>
+                                        {(selectedItemProduct.alternateUnits || []).map((alternate) => (
+                                          <SelectItem key={alternate.unit} value={alternate.unit}>
+                                            {alternate.unit} ({formatPersianNumber(alternate.factor)} {selectedItemProduct.unit})
+                                          </SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                  </FormItem>
+                                )}
+                              />
+                            ) : null}
+                            
                             <FormField
                               control={itemForm.control}
                               name="quantity"
@@ -1138,8 +2128,9 @@ export default function DocumentsPage() {
                                   <FormControl>
                                     <Input 
                                       type="number"
-                                      placeholder="0"
+                                      placeholder={isTransferDocument ? "میانگین انبار مبدا" : isReturnDocument ? "قیمت فاکتور مرجع" : isReceiptDocument || isOrderInvoice ? "قیمت سفارش" : "0"}
                                       className="ltr-content"
+                                      disabled={isPricedOnServer}
                                       {...field}
                                       onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : 0)}
                                     />
@@ -1187,19 +2178,199 @@ export default function DocumentsPage() {
                             </div>
                           </div>
                           
-                          <FormField
-                            control={itemForm.control}
-                            name="description"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>توضیحات</FormLabel>
-                                <FormControl>
-                                  <Input placeholder="توضیحات اقلام" className="text-right" {...field} />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
+                          {selectedItemProduct?.variantAttributes?.length && !editingItemId ? (
+                            <div className="rounded-md border p-3 space-y-2">
+                              <Label>مقادیر گونه‌های {selectedItemProduct.name}</Label>
+                              <VariantMatrix
+                                attributes={selectedItemProduct.variantAttributes}
+                                variants={products.filter(product => product.parent?.id === selectedItemProduct.id)}
+                                onAdd={handleAddVariantItems}
+                              />
+                            </div>
+                          ) : null}
+                          
+                          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                            {!isTransferDocument && (
+                              <FormField
+                                control={itemForm.control}
+                                name="warehouseId"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>انبار</FormLabel>
+                                    <Select onValueChange={field.onChange} value={field.value}>
+                                      <FormControl>
+                                        <SelectTrigger>
+                                          <SelectValue placeholder="انبار پیش‌فرض" />
+                                        </SelectTrigger>
+                                      </FormControl>
+                                      <SelectContent>
+                                        {warehouses.map(warehouse => (
+                                          <SelectItem key={warehouse.id} value={warehouse.id}>
+                                            {warehouse.name} ({warehouse.code})
+                                          </SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
                             )}
-                          />
+                            
+                            {isAdjustmentDocument && (
+                              <>
+                                <FormField
+                                  control={itemForm.control}
+                                  name="adjustmentDirection"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>جهت تعدیل *</FormLabel>
+                                      <Select onValueChange={field.onChange} value={field.value}>
+                                        <FormControl>
+                                          <SelectTrigger>
+                                            <SelectValue placeholder="انتخاب جهت" />
+                                          </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                          <SelectItem value="IN">افزایش موجودی</SelectItem>
+                                          <SelectItem value="OUT">کاهش موجودی</SelectItem>
+                                        </SelectContent>
+                                      </Select>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                                
+                                <FormField
+                                  control={itemForm.control}
+                                  name="adjustmentReason"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>علت تعدیل *</FormLabel>
+                                      <Select onValueChange={field.onChange} value={field.value}>
+                                        <FormControl>
+                                          <SelectTrigger>
+                                            <SelectValue placeholder="انتخاب علت" />
+                                          </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                          {Object.entries(adjustmentReasonLabels).map(([value, label]) => (
+                                            <SelectItem key={value} value={value}>
+                                              {label}
+                                            </SelectItem>
+                                          ))}
+                                        </SelectContent>
+                                      </Select>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                              </>
+                            )}
+                            
+                            {isLotTrackedItem && isOutgoingItem && (
+                              <FormField
+                                control={itemForm.control}
+                                name="lotNumber"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>بچ</FormLabel>
+                                    <Select
+                                      onValueChange={(value) => field.onChange(value === "FEFO" ? "" : value)}
+                                      value={field.value || "FEFO"}
+                                    >
+                                      <FormControl>
+                                        <SelectTrigger>
+                                          <SelectValue />
+                                        </SelectTrigger>
+                                      </FormControl>
+                                      <SelectContent>
+                                        <SelectItem value="FEFO">خودکار (زودترین انقضا)</SelectItem>
+                                        {productLots.filter(lot => lot.lotNumber).map(lot => (
+                                          <SelectItem key={lot.lotNumber!} value={lot.lotNumber!}>
+                                            {lot.lotNumber} - موجودی {formatPersianNumber(lot.quantity)}
+                                            {lot.expiryDate ? ` - انقضا ${new Date(lot.expiryDate).toLocaleDateString('fa-IR')}` : ""}
+                                          </SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                            )}
+                            
+                            {isLotTrackedItem && !isOutgoingItem && (
+                              <>
+                                <FormField
+                                  control={itemForm.control}
+                                  name="lotNumber"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>شماره بچ *</FormLabel>
+                                      <FormControl>
+                                        <Input placeholder="شماره بچ" className="ltr-content" {...field} />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                                
+                                <FormField
+                                  control={itemForm.control}
+                                  name="expiryDate"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>تاریخ انقضا</FormLabel>
+                                      <FormControl>
+                                        <PersianDatePicker
+                                          value={field.value ? new Date(field.value) : undefined}
+                                          onChange={(date) => field.onChange(date ? date.getTime() : undefined)}
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                              </>
+                            )}
+                            
+                            {isSerializedItem && (
+                              <div className="md:col-span-2">
+                                <FormField
+                                  control={itemForm.control}
+                                  name="serialNumbers"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>
+                                        شماره سریال‌ها * ({formatPersianNumber(parseSerialNumbers(field.value).length)} از {formatPersianNumber(itemForm.watch('quantity') || 0)})
+                                      </FormLabel>
+                                      <FormControl>
+                                        <Input placeholder="با فاصله یا کاما جدا کنید" className="ltr-content" {...field} />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                              </div>
+                            )}
+                            
+                            <div className={isTransferDocument ? "md:col-span-4" : isAdjustmentDocument ? "" : "md:col-span-3"}>
+                              <FormField
+                                control={itemForm.control}
+                                name="description"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>توضیحات</FormLabel>
+                                    <FormControl>
+                                      <Input placeholder="توضیحات اقلام" className="text-right" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                            </div>
+                          </div>
                         </form>
                       </Form>
                       
@@ -1211,6 +2382,7 @@ export default function DocumentsPage() {
                               <TableRow className="rtl-table">
                                 <TableHead>کالا</TableHead>
                                 <TableHead>کد کالا</TableHead>
+                                <TableHead>انبار</TableHead>
                                 <TableHead>تعداد</TableHead>
                                 <TableHead>قیمت واحد</TableHead>
                                 <TableHead>قیمت کل</TableHead>
@@ -1220,9 +2392,30 @@ export default function DocumentsPage() {
                             <TableBody>
                               {currentItems.map((item) => (
                                 <TableRow key={item.id}>
-                                  <TableCell className="font-medium">{item.product.name}</TableCell>
+                                  <TableCell className="font-medium">
+                                    {item.product.name}
+                                    {item.adjustmentReason && (
+                                      <div className="text-xs text-muted-foreground">
+                                        {item.adjustmentDirection === "OUT" ? "کاهش" : "افزایش"} - {adjustmentReasonLabels[item.adjustmentReason]}
+                                      </div>
+                                    )}
+                                    {item.lotNumber && (
+                                      <div className="text-xs text-muted-foreground">
+                                        بچ {item.lotNumber}
+                                        {item.expiryDate ? ` - انقضا ${new Date(item.expiryDate).toLocaleDateString('fa-IR')}` : ""}
+                                      </div>
+                                    )}
+                                    {item.serialNumbers && item.serialNumbers.length > 0 && (
+                                      <div className="text-xs text-muted-foreground ltr-content">
+                                        {item.serialNumbers.join("، ")}
+                                      </div>
+                                    )}
+                                  </TableCell>
                                   <TableCell className="ltr-content">{item.product.code}</TableCell>
-                                  <TableCell className="ltr-content">{formatPersianNumber(item.quantity)}</TableCell>
+                                  <TableCell>{item.warehouse?.name || "-"}</TableCell>
+                                  <TableCell className="ltr-content">
+                                    {formatPersianNumber(item.quantity)} {item.unit || item.product.unit}
+                                  </TableCell>
                                   <TableCell className="ltr-content">{formatPersianCurrency(item.unitPrice)}</TableCell>
                                   <TableCell className="ltr-content font-medium">{formatPersianCurrency(item.totalPrice)}</TableCell>
                                   <TableCell>
@@ -1318,6 +2511,87 @@ export default function DocumentsPage() {
                             {viewingDocument.description || "-"}
                           </div>
                         </div>
+                        
+                        {viewingDocument.returnOf && (
+                          <div className="md:col-span-2">
+                            <Label>فاکتور مرجع</Label>
+                            <div className="mt-1 p-2 bg-gray-50 rounded">
+                              سند شماره {viewingDocument.returnOf.documentNumber}
+                            </div>
+                          </div>
+                        )}
+                        
+                        {viewingDocument.purchaseOrder && (
+                          <div className="md:col-span-2">
+                            <Label>سفارش خرید</Label>
+                            <div className="mt-1 p-2 bg-gray-50 rounded">
+                              سند شماره {viewingDocument.purchaseOrder.documentNumber}
+                            </div>
+                          </div>
+                        )}
+                        
+                        {viewingDocument.quotation && (
+                          <div className="md:col-span-2">
+                            <Label>پیش‌فاکتور</Label>
+                            <div className="mt-1 p-2 bg-gray-50 rounded">
+                              سند شماره {viewingDocument.quotation.documentNumber}
+                            </div>
+                          </div>
+                        )}
+                        
+                        {viewingDocument.salesOrder && (
+                          <div className="md:col-span-2">
+                            <Label>سفارش فروش</Label>
+                            <div className="mt-1 p-2 bg-gray-50 rounded">
+                              سند شماره {viewingDocument.salesOrder.documentNumber}
+                            </div>
+                          </div>
+                        )}
+                        
+                        {assemblyDocumentTypes.includes(viewingDocument.documentType) && (
+                          <div>
+                            <Label>دستمزد و سربار</Label>
+                            <div className="mt-1 p-2 bg-gray-50 rounded">
+                              {formatPersianCurrency(viewingDocument.labourCost || 0)} + {formatPersianCurrency(viewingDocument.overheadCost || 0)}
+                            </div>
+                          </div>
+                        )}
+                        
+                        {viewingDocument.expectedDate && (
+                          <div>
+                            <Label>تاریخ تحویل مورد انتظار</Label>
+                            <div className="mt-1 p-2 bg-gray-50 rounded ltr-content">
+                              {formatDocumentDate(viewingDocument.expectedDate)}
+                            </div>
+                          </div>
+                        )}
+                        
+                        {viewingDocument.reversalOf && (
+                          <div className="md:col-span-2">
+                            <Label>برگشت سند</Label>
+                            <div className="mt-1 p-2 bg-red-50 rounded">
+                              سند شماره {viewingDocument.reversalOf.documentNumber} — علت: {viewingDocument.reversalReason || "-"}
+                            </div>
+                          </div>
+                        )}
+                        
+                        {viewingDocument.creditLimitOverrideReason && (
+                          <div className="md:col-span-2">
+                            <Label>عبور از حد اعتبار مشتری</Label>
+                            <div className="mt-1 p-2 bg-amber-50 rounded">
+                              {viewingDocument.creditLimitOverrideReason}
+                            </div>
+                          </div>
+                        )}
+                        
+                        {viewingDocument.reversedBy && (
+                          <div className="md:col-span-2">
+                            <Label>سند برگشتی</Label>
+                            <div className="mt-1 p-2 bg-red-50 rounded">
+                              این سند با سند شماره {viewingDocument.reversedBy.documentNumber} برگشت خورده است
+                            </div>
+                          </div>
+                        )}
                       </div>
                       
                       <Card>
@@ -1330,6 +2604,7 @@ export default function DocumentsPage() {
                               <TableRow className="rtl-table">
                                 <TableHead>کالا</TableHead>
                                 <TableHead>کد کالا</TableHead>
+                                <TableHead>انبار</TableHead>
                                 <TableHead>تعداد</TableHead>
                                 <TableHead>قیمت واحد</TableHead>
                                 <TableHead>قیمت کل</TableHead>
@@ -1337,11 +2612,37 @@ export default function DocumentsPage() {
                               </TableRow>
                             </TableHeader>
                             <TableBody>
-                              {viewingDocument.items.map((item) => (
+                              {viewingDocument.items.map(toEnteredUnits).map((item) => (
                                 <TableRow key={item.id}>
-                                  <TableCell className="font-medium">{item.product.name}</TableCell>
+                                  <TableCell className="font-medium">
+                                    {item.product.name}
+                                    {item.assemblyRole && (
+                                      <div className="text-xs text-muted-foreground">
+                                        {item.assemblyRole === "COMPONENT" ? "جزء" : "کالای ساخته شده"}
+                                      </div>
+                                    )}
+                                    {item.adjustmentReason && (
+                                      <div className="text-xs text-muted-foreground">
+                                        {item.adjustmentDirection === "OUT" ? "کاهش" : "افزایش"} - {adjustmentReasonLabels[item.adjustmentReason]}
+                                      </div>
+                                    )}
+                                    {item.lotNumber && (
+                                      <div className="text-xs text-muted-foreground">
+                                        بچ {item.lotNumber}
+                                        {item.expiryDate ? ` - انقضا ${new Date(item.expiryDate).toLocaleDateString('fa-IR')}` : ""}
+                                      </div>
+                                    )}
+                                    {item.serialNumbers && item.serialNumbers.length > 0 && (
+                                      <div className="text-xs text-muted-foreground ltr-content">
+                                        {item.serialNumbers.join("، ")}
+                                      </div>
+                                    )}
+                                  </TableCell>
                                   <TableCell className="ltr-content">{item.product.code}</TableCell>
-                                  <TableCell className="ltr-content">{formatPersianNumber(item.quantity)}</TableCell>
+                                  <TableCell>{item.warehouse?.name || "-"}</TableCell>
+                                  <TableCell className="ltr-content">
+                                    {formatPersianNumber(item.quantity)} {item.unit || item.product.unit}
+                                  </TableCell>
                                   <TableCell className="ltr-content">{formatPersianCurrency(item.unitPrice)}</TableCell>
                                   <TableCell className="ltr-content font-medium">{formatPersianCurrency(item.totalPrice)}</TableCell>
                                   <TableCell>{item.description || "-"}</TableCell>
@@ -1412,6 +2713,15 @@ export default function DocumentsPage() {
                     <SelectItem value="SALE_INVOICE">فاکتور فروش</SelectItem>
                     <SelectItem value="STOCK_ADJUSTMENT">تعدیل موجودی</SelectItem>
                     <SelectItem value="IMPORT">ورود کالا</SelectItem>
+                    <SelectItem value="TRANSFER">انتقال بین انبارها</SelectItem>
+                    <SelectItem value="PURCHASE_RETURN">برگشت از خرید</SelectItem>
+                    <SelectItem value="SALE_RETURN">برگشت از فروش</SelectItem>
+                    <SelectItem value="PURCHASE_ORDER">سفارش خرید</SelectItem>
+                    <SelectItem value="GOODS_RECEIPT">رسید کالا</SelectItem>
+                    <SelectItem value="QUOTATION">پیش‌فاکتور</SelectItem>
+                    <SelectItem value="SALES_ORDER">سفارش فروش</SelectItem>
+                    <SelectItem value="ASSEMBLY">مونتاژ</SelectItem>
+                    <SelectItem value="DISASSEMBLY">دمونتاژ</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -1538,9 +2848,17 @@ export default function DocumentsPage() {
                             {formatDocumentDate(doc.date)}
                           </TableCell>
                           <TableCell>
-                            <Badge variant={doc.isFinalized ? "default" : "secondary"}>
-                              {doc.isFinalized ? "نهایی شده" : "پیش‌نویس"}
-                            </Badge>
+                            <div className="flex flex-wrap gap-1">
+                              <Badge variant={doc.isFinalized ? "default" : "secondary"}>
+                                {doc.isFinalized ? "نهایی شده" : "پیش‌نویس"}
+                              </Badge>
+                              {doc.reversalOf && (
+                                <Badge className="bg-red-100 text-red-800">سند برگشتی</Badge>
+                              )}
+                              {doc.reversedBy && (
+                                <Badge className="bg-red-100 text-red-800">برگشت خورده</Badge>
+                              )}
+                            </div>
                           </TableCell>
                           <TableCell>
                             <div className="flex gap-2">
@@ -1552,6 +2870,16 @@ export default function DocumentsPage() {
                                   <Edit className="h-4 w-4" />
                                 </Button>
                               )}
+                              {doc.documentType === "QUOTATION" && doc.isFinalized && !doc.reversalOf && !doc.reversedBy && (
+                                <Button size="sm" variant="outline" title="تبدیل به سفارش فروش" onClick={() => handleConvertQuotation(doc)}>
+                                  <ClipboardCheck className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {doc.isFinalized && !doc.reversalOf && !doc.reversedBy && (
+                                <Button size="sm" variant="outline" title="برگشت سند" onClick={() => handleReverseDocument(doc)}>
+                                  <Undo2 className="h-4 w-4" />
+                                </Button>
+                              )}
                             </div>
                           </TableCell>
                         </TableRow>
@@ -1575,4 +2903,4 @@ export default function DocumentsPage() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
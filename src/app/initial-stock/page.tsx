@@ -20,13 +20,16 @@ import { gql } from "@apollo/client";
 
 // GraphQL queries
 const GET_PRODUCTS = gql`
-  query GetProducts($search: String, $category: String, $isActive: Boolean) {
+  query GetProducts($search: String, $category: ID, $isActive: Boolean) {
     getProducts(search: $search, category: $category, isActive: $isActive) {
       id
       name
       code
       unit
-      category
+      category {
+        id
+        name
+      }
       isActive
     }
   }
@@ -118,7 +121,7 @@ interface Product {
   name: string;
   code: string;
   unit: string;
-  category?: string;
+  category?: { id: string; name: string } | null;
   isActive?: boolean;
 }
 
@@ -0,0 +1,200 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { MainNavigation } from "@/components/navigation/Navigation";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Barcode as BarcodeIcon, Printer, Search, AlertCircle } from "lucide-react";
+import { Barcode } from "@/components/barcode/Barcode";
+import { barcodeTypeLabels } from "@/lib/barcode";
+import { formatPersianNumber } from "@/lib/persian";
+import { apolloClient } from "@/lib/apollo-client";
+import { gql } from "@apollo/client";
+
+// GraphQL queries
+const GET_PRODUCTS = gql`
+  query GetProducts($isActive: Boolean) {
+    getProducts(isActive: $isActive) {
+      id
+      name
+      code
+      barcodes {
+        code
+        type
+      }
+      salePrice
+    }
+  }
+`;
+
+interface Product {
+  id: string;
+  name: string;
+  code: string;
+  barcodes?: { code: string; type: "EAN13" | "CODE128" | "INTERNAL" }[] | null;
+  salePrice?: number | null;
+}
+
+export default function LabelsPage() {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [searchTerm, setSearchTerm] = useState("");
+  // Number of labels to print per selected product
+  const [copies, setCopies] = useState<Record<string, number>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    loadProducts();
+  }, []);
+
+  const loadProducts = async () => {
+    setIsLoading(true);
+    setError("");
+    try {
+      const result = await apolloClient.query<{ getProducts: Product[] }>({
+        query: GET_PRODUCTS,
+        variables: { isActive: true },
+        fetchPolicy: "no-cache"
+      });
+      setProducts((result.data?.getProducts || []).filter(product => product.barcodes?.length));
+    } catch (err) {
+      console.error("Error loading products:", err);
+      setError("خطا در بارگذاری کالاها");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const filteredProducts = products.filter(product =>
+    product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    product.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (product.barcodes || []).some(barcode => barcode.code.includes(searchTerm))
+  );
+
+  // Each selected product prints its first barcode as many times as asked
+  const labels = products.flatMap(product =>
+    Array.from({ length: copies[product.id] || 0 }, (_, index) => ({ key: `${product.id}_${index}`, product }))
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="print:hidden">
+        <MainNavigation />
+      </div>
+
+      <div className="container mx-auto p-6 space-y-6 print:hidden">
+        {/* Page Header */}
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <BarcodeIcon className="h-8 w-8" />
+              چاپ برچسب بارکد
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              تعداد برچسب هر کالا را وارد کنید و برگه برچسب‌ها را چاپ کنید
+            </p>
+          </div>
+          <Button onClick={() => window.print()} disabled={labels.length === 0}>
+            <Printer className="h-4 w-4 ml-2" />
+            چاپ {formatPersianNumber(labels.length)} برچسب
+          </Button>
+        </div>
+
+        {error && (
+          <Card className="border-red-200 bg-red-50">
+            <CardContent className="p-4">
+              <div className="flex items-center gap-2 text-red-800">
+                <AlertCircle className="h-4 w-4" />
+                <span>{error}</span>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <CardTitle>کالاهای دارای بارکد ({formatPersianNumber(filteredProducts.length)} مورد)</CardTitle>
+              <div className="relative w-64">
+                <Search className="absolute right-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="جستجوی نام، کد یا بارکد..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pr-9"
+                />
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8 text-muted-foreground">در حال بارگذاری کالاها...</div>
+            ) : filteredProducts.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                کالایی با بارکد یافت نشد؛ بارکدها را در صفحه مدیریت کالاها تعریف کنید
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="rtl-table">
+                    <TableHead>کالا</TableHead>
+                    <TableHead>بارکد</TableHead>
+                    <TableHead>قیمت فروش</TableHead>
+                    <TableHead>تعداد برچسب</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredProducts.map((product) => (
+                    <TableRow key={product.id}>
+                      <TableCell className="font-medium">
+                        {product.name}
+                        <div className="text-xs text-muted-foreground ltr-content">{product.code}</div>
+                      </TableCell>
+                      <TableCell className="ltr-content">
+                        {product.barcodes![0].code}
+                        <span className="text-xs text-muted-foreground mr-2">{barcodeTypeLabels[product.barcodes![0].type]}</span>
+                      </TableCell>
+                      <TableCell>{product.salePrice ? `${product.salePrice.toLocaleString()} ریال` : "-"}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          className="w-24"
+                          value={copies[product.id] || 0}
+                          onChange={(e) => setCopies({
+                            ...copies,
+                            [product.id]: Math.max(0, parseInt(e.target.value) || 0)
+                          })}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Label sheet: only the labels are printed */}
+      {labels.length > 0 && (
+        <div className="container mx-auto p-6 print:p-0">
+          <h2 className="text-lg font-semibold mb-4 print:hidden">پیش‌نمایش برچسب‌ها</h2>
+          <div className="grid grid-cols-3 gap-2 print:gap-1">
+            {labels.map(({ key, product }) => (
+              <div key={key} className="border rounded p-2 flex flex-col items-center gap-1 break-inside-avoid">
+                <div className="text-sm font-medium text-center">{product.name}</div>
+                <Barcode code={product.barcodes![0].code} type={product.barcodes![0].type} moduleWidth={1.5} height={40} />
+                {product.salePrice ? (
+                  <div className="text-sm font-bold">{product.salePrice.toLocaleString()} ریال</div>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { useForm } from "react-hook-form";
+import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { MainNavigation } from "@/components/navigation/Navigation";
@@ -9,13 +9,16 @@ import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, Search, Edit, Trash2, Package, AlertCircle, CheckCircle, RefreshCw } from "lucide-react";
+import { Plus, Search, Edit, Trash2, Package, AlertCircle, CheckCircle, RefreshCw, X, Layers } from "lucide-react";
 import { persianText, formatPersianNumber } from "@/lib/persian";
 import { apolloClient } from "@/lib/apollo-client";
 import { gql } from "@apollo/client";
+import { BARCODE_TYPES, barcodeTypeLabels, validateBarcode } from "@/lib/barcode";
+import { CategoryNode, flattenCategoryTree, indentCategoryName } from "@/lib/categories";
 
 // GraphQL mutations and queries
 const CREATE_PRODUCT = gql`
@@ -26,9 +29,42 @@ const CREATE_PRODUCT = gql`
       code
       description
       unit
-      category
+      alternateUnits {
+        unit
+        factor
+      }
+      barcodes {
+        code
+        type
+      }
+      salePrice
+      components {
+        product {
+          id
+          name
+          unit
+        }
+        quantity
+      }
+      variantAttributes {
+        name
+        values
+      }
+      parent {
+        id
+        name
+      }
+      variantValues {
+        name
+        value
+      }
+      category {
+        id
+        path
+      }
       minimumStock
       maximumStock
+      trackLots
       isActive
       createdAt
       updatedAt
@@ -44,9 +80,42 @@ const UPDATE_PRODUCT = gql`
       code
       description
       unit
-      category
+      alternateUnits {
+        unit
+        factor
+      }
+      barcodes {
+        code
+        type
+      }
+      salePrice
+      components {
+        product {
+          id
+          name
+          unit
+        }
+        quantity
+      }
+      variantAttributes {
+        name
+        values
+      }
+      parent {
+        id
+        name
+      }
+      variantValues {
+        name
+        value
+      }
+      category {
+        id
+        path
+      }
       minimumStock
       maximumStock
+      trackLots
       isActive
       createdAt
       updatedAt
@@ -60,17 +129,70 @@ const DELETE_PRODUCT = gql`
   }
 `;
 
+const GENERATE_PRODUCT_VARIANTS = gql`
+  mutation GenerateProductVariants($productId: ID!) {
+    generateProductVariants(productId: $productId) {
+      id
+    }
+  }
+`;
+
+const GET_CATEGORIES = gql`
+  query GetCategories {
+    getCategories {
+      id
+      name
+      parent {
+        id
+      }
+    }
+  }
+`;
+
 const GET_PRODUCTS = gql`
-  query GetProducts($search: String, $category: String, $isActive: Boolean) {
+  query GetProducts($search: String, $category: ID, $isActive: Boolean) {
     getProducts(search: $search, category: $category, isActive: $isActive) {
       id
       name
       code
       description
       unit
-      category
+      alternateUnits {
+        unit
+        factor
+      }
+      barcodes {
+        code
+        type
+      }
+      salePrice
+      components {
+        product {
+          id
+          name
+          unit
+        }
+        quantity
+      }
+      variantAttributes {
+        name
+        values
+      }
+      parent {
+        id
+        name
+      }
+      variantValues {
+        name
+        value
+      }
+      category {
+        id
+        path
+      }
       minimumStock
       maximumStock
+      trackLots
       isActive
       createdAt
       updatedAt
@@ -83,27 +205,88 @@ const productSchema = z.object({
   code: z.string().min(1, "کد کالا الزامی است").max(50, "کد کالا نباید بیش از ۵۰ کاراکتر باشد"),
   description: z.string().optional(),
   unit: z.string().min(1, "واحد الزامی است"),
-  category: z.string().optional(),
+  categoryId: z.string().optional(),
   minimumStock: z.number().min(0, "حداقل موجودی نمی‌تواند منفی باشد").optional(),
   maximumStock: z.number().min(0, "حداکثر موجودی نمی‌تواند منفی باشد").optional(),
+  trackLots: z.boolean().optional(),
+  alternateUnits: z.array(z.object({
+    unit: z.string().min(1, "واحد فرعی الزامی است"),
+    factor: z.number().positive("ضریب تبدیل باید بیشتر از صفر باشد"),
+  })).optional(),
+  barcodes: z.array(z.object({
+    code: z.string().trim().min(1, "بارکد الزامی است"),
+    type: z.enum(BARCODE_TYPES),
+  })).optional(),
+  salePrice: z.number().min(0, "قیمت فروش نمی‌تواند منفی باشد").optional(),
+  components: z.array(z.object({
+    productId: z.string().min(1, "کالای جزء الزامی است"),
+    quantity: z.number().positive("مقدار جزء باید بیشتر از صفر باشد"),
+  })).optional(),
+  // Values are entered comma separated and split on submit
+  variantAttributes: z.array(z.object({
+    name: z.string().trim().min(1, "نام ویژگی الزامی است"),
+    values: z.string().trim().min(1, "مقادیر ویژگی الزامی است"),
+  })).optional(),
+}).superRefine((data, ctx) => {
+  const seen = new Set<string>();
+  (data.alternateUnits || []).forEach((alternate, index) => {
+    if (alternate.unit === data.unit) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "واحد فرعی نمی‌تواند همان واحد اصلی باشد", path: ["alternateUnits", index, "unit"] });
+    } else if (seen.has(alternate.unit)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "واحد فرعی تکراری است", path: ["alternateUnits", index, "unit"] });
+    }
+    seen.add(alternate.unit);
+  });
+  const seenBarcodes = new Set<string>();
+  (data.barcodes || []).forEach((barcode, index) => {
+    const error = barcode.code ? validateBarcode(barcode.code, barcode.type) : null;
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: ["barcodes", index, "code"] });
+    } else if (seenBarcodes.has(barcode.code)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "بارکد تکراری است", path: ["barcodes", index, "code"] });
+    }
+    seenBarcodes.add(barcode.code);
+  });
+  const seenComponents = new Set<string>();
+  (data.components || []).forEach((component, index) => {
+    if (component.productId && seenComponents.has(component.productId)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "کالای جزء تکراری است", path: ["components", index, "productId"] });
+    }
+    seenComponents.add(component.productId);
+  });
 });
 
 type ProductFormData = z.infer<typeof productSchema>;
 
+const splitVariantValues = (values: string) => values.split(/[,،]/).map(value => value.trim()).filter(Boolean);
+
 const persianUnits = [
   "عدد", "کیلوگرم", "گرم", "تن", "لیتر", "میلی‌لیتر", "متر", "سانتی‌متر",
   "متر مربع", "متر مکعب", "جعبه", "بسته", "کارتن", "دستگاه", "جفت",
   "ست", "رول", "ورق", "شاخه", "بطری", "قوطی", "بشکه", "کیسه"
 ];
 
+interface ProductUnit {
+  unit: string;
+  factor: number;
+}
+
 interface Product {
   id: string;
   name: string;
   code: string;
   unit: string;
-  category?: string;
+  alternateUnits?: ProductUnit[];
+  barcodes?: { code: string; type: "EAN13" | "CODE128" | "INTERNAL" }[];
+  salePrice?: number | null;
+  components?: { product: { id: string; name: string; unit: string } | null; quantity: number }[];
+  variantAttributes?: { name: string; values: string[] }[];
+  parent?: { id: string; name: string } | null;
+  variantValues?: { name: string; value: string }[];
+  category?: { id: string; path: string } | null;
   minimumStock?: number;
   maximumStock?: number;
+  trackLots?: boolean;
   description?: string;
   isActive?: boolean;
   createdAt?: string;
@@ -112,6 +295,7 @@ interface Product {
 
 export default function ProductsPage() {
   const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<CategoryNode[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
@@ -138,6 +322,8 @@ export default function ProductsPage() {
       if (result.data && (result.data as any).getProducts) {
         setProducts((result.data as any).getProducts);
       }
+      const categoriesResult = await apolloClient.query<{ getCategories: CategoryNode[] }>({ query: GET_CATEGORIES, fetchPolicy: 'no-cache' });
+      setCategories(categoriesResult.data?.getCategories || []);
     } catch (err: any) {
       console.error('Error loading products:', err);
       setError("خطا در بارگذاری کالاها");
@@ -153,12 +339,23 @@ export default function ProductsPage() {
       code: "",
       description: "",
       unit: "",
-      category: "",
+      categoryId: "",
       minimumStock: 0,
       maximumStock: 0,
+      trackLots: false,
+      alternateUnits: [],
+      barcodes: [],
+      salePrice: 0,
+      components: [],
+      variantAttributes: [],
     },
   });
 
+  const alternateUnitFields = useFieldArray({ control: form.control, name: "alternateUnits" });
+  const barcodeFields = useFieldArray({ control: form.control, name: "barcodes" });
+  const componentFields = useFieldArray({ control: form.control, name: "components" });
+  const variantAttributeFields = useFieldArray({ control: form.control, name: "variantAttributes" });
+
   const filteredProducts = products.filter(product =>
     product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     product.code.toLowerCase().includes(searchTerm.toLowerCase())
@@ -183,9 +380,15 @@ export default function ProductsPage() {
               code: data.code,
               description: data.description || "",
               unit: data.unit,
-              category: data.category || "",
+              categoryId: data.categoryId || null,
               minimumStock: data.minimumStock || 0,
               maximumStock: data.maximumStock || 0,
+              trackLots: !!data.trackLots,
+              alternateUnits: data.alternateUnits || [],
+              barcodes: data.barcodes || [],
+              salePrice: data.salePrice || 0,
+              components: data.components || [],
+              variantAttributes: (data.variantAttributes || []).map(({ name, values }) => ({ name, values: splitVariantValues(values) })),
             }
           }
         });
@@ -210,9 +413,15 @@ export default function ProductsPage() {
               code: data.code,
               description: data.description || "",
               unit: data.unit,
-              category: data.category || "",
+              categoryId: data.categoryId || null,
               minimumStock: data.minimumStock || 0,
               maximumStock: data.maximumStock || 0,
+              trackLots: !!data.trackLots,
+              alternateUnits: data.alternateUnits || [],
+              barcodes: data.barcodes || [],
+              salePrice: data.salePrice || 0,
+              components: data.components || [],
+              variantAttributes: (data.variantAttributes || []).map(({ name, values }) => ({ name, values: splitVariantValues(values) })),
             }
           }
         });
@@ -230,9 +439,15 @@ export default function ProductsPage() {
             code: "",
             description: "",
             unit: "",
-            category: "",
+            categoryId: "",
             minimumStock: 0,
             maximumStock: 0,
+            trackLots: false,
+            alternateUnits: [],
+            barcodes: [],
+            salePrice: 0,
+            components: [],
+            variantAttributes: [],
           });
         } else {
           // Close dialog
@@ -247,6 +462,8 @@ export default function ProductsPage() {
       
       if (err.message?.includes('کد کالا قبلاً ثبت شده')) {
         errorMessage = "کد کالا قبلاً ثبت شده است";
+      } else if (err.message?.includes('بارکد') || err.message?.includes('جزء') || err.message?.includes('گونه') || err.message?.includes('ویژگی')) {
+        errorMessage = err.message;
       }
       
       setError(errorMessage);
@@ -262,9 +479,17 @@ export default function ProductsPage() {
       code: product.code,
       description: product.description || "",
       unit: product.unit,
-      category: product.category || "",
+      categoryId: product.category?.id || "",
       minimumStock: product.minimumStock || 0,
       maximumStock: product.maximumStock || 0,
+      trackLots: !!product.trackLots,
+      alternateUnits: (product.alternateUnits || []).map(({ unit, factor }) => ({ unit, factor })),
+      barcodes: (product.barcodes || []).map(({ code, type }) => ({ code, type })),
+      salePrice: product.salePrice || 0,
+      components: (product.components || [])
+        .filter(component => component.product)
+        .map(component => ({ productId: component.product!.id, quantity: component.quantity })),
+      variantAttributes: (product.variantAttributes || []).map(({ name, values }) => ({ name, values: values.join("، ") })),
     });
     setIsDialogOpen(true);
   };
@@ -288,6 +513,24 @@ export default function ProductsPage() {
     }
   };
 
+  // Creates a variant for every combination of the parent's attribute values not yet made
+  const handleGenerateVariants = async (product: Product) => {
+    setError("");
+    setSuccess("");
+    try {
+      const result = await apolloClient.mutate<{ generateProductVariants: { id: string }[] }>({
+        mutation: GENERATE_PRODUCT_VARIANTS,
+        variables: { productId: product.id }
+      });
+      const variants = result.data?.generateProductVariants || [];
+      setSuccess(`کالای ${product.name} اکنون ${formatPersianNumber(variants.length)} گونه دارد`);
+      await loadProducts();
+    } catch (err) {
+      console.error('Error generating variants:', err);
+      setError(err instanceof Error ? err.message : "خطا در ساخت گونه‌ها");
+    }
+  };
+
   const openAddDialog = () => {
     setEditingProduct(null);
     form.reset({
@@ -295,9 +538,15 @@ export default function ProductsPage() {
       code: "",
       description: "",
       unit: "",
-      category: "",
+      categoryId: "",
       minimumStock: 0,
       maximumStock: 0,
+      trackLots: false,
+      alternateUnits: [],
+      barcodes: [],
+      salePrice: 0,
+      components: [],
+      variantAttributes: [],
     });
     setIsDialogOpen(true);
   };
@@ -415,13 +664,25 @@ export default function ProductsPage() {
 
                       <FormField
                         control={form.control}
-                        name="category"
+                        name="categoryId"
                         render={({ field }) => (
                           <FormItem>
                             <FormLabel>دسته‌بندی</FormLabel>
-                            <FormControl>
-                              <Input placeholder="دسته‌بندی" className="text-right" {...field} />
-                            </FormControl>
+                            <Select onValueChange={(value) => field.onChange(value === "none" ? "" : value)} value={field.value || "none"}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="none">بدون دسته‌بندی</SelectItem>
+                                {flattenCategoryTree(categories).map(({ category, level }) => (
+                                  <SelectItem key={category.id} value={category.id}>
+                                    {indentCategoryName(category.name, level)}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
                             <FormMessage />
                           </FormItem>
                         )}
@@ -470,6 +731,284 @@ export default function ProductsPage() {
                       />
                     </div>
 
+                    <FormField
+                      control={form.control}
+                      name="salePrice"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>قیمت فروش (ریال)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              placeholder="0"
+                              className="ltr-content"
+                              {...field}
+                              onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : 0)}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="trackLots"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center gap-2 space-y-0">
+                          <FormControl>
+                            <input
+                              type="checkbox"
+                              checked={!!field.value}
+                              onChange={(e) => field.onChange(e.target.checked)}
+                              className="h-4 w-4"
+                            />
+                          </FormControl>
+                          <FormLabel>پیگیری بچ و تاریخ انقضا</FormLabel>
+                        </FormItem>
+                      )}
+                    />
+
+                    {/* Alternate units: how many base units one of each holds */}
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium">واحدهای فرعی</span>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => alternateUnitFields.append({ unit: "", factor: 1 })}
+                        >
+                          <Plus className="h-4 w-4 ml-1" />
+                          افزودن واحد
+                        </Button>
+                      </div>
+                      {alternateUnitFields.fields.map((alternateField, index) => (
+                        <div key={alternateField.id} className="flex items-start gap-2">
+                          <FormField
+                            control={form.control}
+                            name={`alternateUnits.${index}.unit`}
+                            render={({ field }) => (
+                              <FormItem className="flex-1">
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue placeholder="انتخاب واحد" />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {persianUnits.map((unit) => (
+                                      <SelectItem key={unit} value={unit}>
+                                        {unit}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name={`alternateUnits.${index}.factor`}
+                            render={({ field }) => (
+                              <FormItem className="flex-1">
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    step="any"
+                                    placeholder={`تعداد ${form.watch("unit") || "واحد اصلی"}`}
+                                    className="ltr-content"
+                                    {...field}
+                                    onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : 0)}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <Button type="button" variant="ghost" size="sm" onClick={() => alternateUnitFields.remove(index)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium">بارکدها</span>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => barcodeFields.append({ code: "", type: "EAN13" })}
+                        >
+                          <Plus className="h-4 w-4 ml-1" />
+                          افزودن بارکد
+                        </Button>
+                      </div>
+                      {barcodeFields.fields.map((barcodeField, index) => (
+                        <div key={barcodeField.id} className="flex items-start gap-2">
+                          <FormField
+                            control={form.control}
+                            name={`barcodes.${index}.type`}
+                            render={({ field }) => (
+                              <FormItem className="w-32">
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {BARCODE_TYPES.map((type) => (
+                                      <SelectItem key={type} value={type}>
+                                        {barcodeTypeLabels[type]}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name={`barcodes.${index}.code`}
+                            render={({ field }) => (
+                              <FormItem className="flex-1">
+                                <FormControl>
+                                  <Input placeholder="بارکد" className="ltr-content" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <Button type="button" variant="ghost" size="sm" onClick={() => barcodeFields.remove(index)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium">فهرست مواد (اجزای یک واحد)</span>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => componentFields.append({ productId: "", quantity: 1 })}
+                        >
+                          <Plus className="h-4 w-4 ml-1" />
+                          افزودن جزء
+                        </Button>
+                      </div>
+                      {componentFields.fields.map((componentField, index) => (
+                        <div key={componentField.id} className="flex items-start gap-2">
+                          <FormField
+                            control={form.control}
+                            name={`components.${index}.productId`}
+                            render={({ field }) => (
+                              <FormItem className="flex-1">
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue placeholder="کالای جزء" />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {products
+                                      .filter(product => product.isActive && product.id !== editingProduct?.id)
+                                      .map((product) => (
+                                        <SelectItem key={product.id} value={product.id}>
+                                          {product.name} ({product.unit})
+                                        </SelectItem>
+                                      ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name={`components.${index}.quantity`}
+                            render={({ field }) => (
+                              <FormItem className="w-32">
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    step="any"
+                                    placeholder="مقدار"
+                                    className="ltr-content"
+                                    {...field}
+                                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <Button type="button" variant="ghost" size="sm" onClick={() => componentFields.remove(index)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+
+                    {!editingProduct?.parent && (
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium">ویژگی‌های گونه (مانند سایز و رنگ)</span>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => variantAttributeFields.append({ name: "", values: "" })}
+                          >
+                            <Plus className="h-4 w-4 ml-1" />
+                            افزودن ویژگی
+                          </Button>
+                        </div>
+                        {variantAttributeFields.fields.map((attributeField, index) => (
+                          <div key={attributeField.id} className="flex items-start gap-2">
+                            <FormField
+                              control={form.control}
+                              name={`variantAttributes.${index}.name`}
+                              render={({ field }) => (
+                                <FormItem className="w-32">
+                                  <FormControl>
+                                    <Input placeholder="ویژگی" {...field} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                            <FormField
+                              control={form.control}
+                              name={`variantAttributes.${index}.values`}
+                              render={({ field }) => (
+                                <FormItem className="flex-1">
+                                  <FormControl>
+                                    <Input placeholder="مقادیر، جدا شده با کاما: S، M، L" {...field} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                            <Button type="button" variant="ghost" size="sm" onClick={() => variantAttributeFields.remove(index)}>
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+                        {variantAttributeFields.fields.length > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            کالای مادر موجودی ندارد و در اسناد گونه‌های آن ثبت می‌شوند. کد هر گونه از کد کالا و مقادیر لاتین یا ردیف مقادیر فارسی ساخته می‌شود.
+                          </p>
+                        )}
+                      </div>
+                    )}
+
                     <div className="flex justify-end gap-2 pt-4">
                       <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
                         لغو
@@ -555,10 +1094,44 @@ export default function ProductsPage() {
                 <TableBody>
                   {filteredProducts.map((product) => (
                     <TableRow key={product.id}>
-                      <TableCell className="font-medium">{product.name}</TableCell>
-                      <TableCell className="ltr-content">{product.code}</TableCell>
-                      <TableCell>{product.unit}</TableCell>
-                      <TableCell>{product.category || "-"}</TableCell>
+                      <TableCell className="font-medium">
+                        {product.name}
+                        {product.parent && (
+                          <div className="text-xs text-muted-foreground">
+                            گونه {product.parent.name}: {(product.variantValues || []).map(({ name, value }) => `${name} ${value}`).join("، ")}
+                          </div>
+                        )}
+                        {(product.variantAttributes || []).length > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            {product.variantAttributes!.map(({ name, values }) => `${name}: ${values.join("، ")}`).join(" | ")}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="ltr-content">
+                        {product.code}
+                        {(product.barcodes || []).map((barcode) => (
+                          <div key={barcode.code} className="text-xs text-muted-foreground">{barcode.code}</div>
+                        ))}
+                      </TableCell>
+                      <TableCell>
+                        {product.unit}
+                        {(product.alternateUnits || []).map((alternate) => (
+                          <div key={alternate.unit} className="text-xs text-muted-foreground">
+                            {alternate.unit} = {formatPersianNumber(alternate.factor)} {product.unit}
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell>
+                        {product.category?.path || "-"}
+                        {product.trackLots && (
+                          <Badge variant="outline" className="mr-2">بچ</Badge>
+                        )}
+                        {(product.components || []).length > 0 && (
+                          <Badge variant="outline" className="mr-2">
+                            {formatPersianNumber(product.components!.length)} جزء
+                          </Badge>
+                        )}
+                      </TableCell>
                       <TableCell className="ltr-content">{formatPersianNumber(product.minimumStock || 0)}</TableCell>
                       <TableCell className="ltr-content">{formatPersianNumber(product.maximumStock || 0)}</TableCell>
                       <TableCell>
@@ -566,6 +1139,11 @@ export default function ProductsPage() {
                           <Button size="sm" variant="outline" onClick={() => handleEdit(product)}>
                             <Edit className="h-4 w-4" />
                           </Button>
+                          {(product.variantAttributes || []).length > 0 && (
+                            <Button size="sm" variant="outline" title="ساخت گونه‌ها" onClick={() => handleGenerateVariants(product)}>
+                              <Layers className="h-4 w-4" />
+                            </Button>
+                          )}
                           <Button size="sm" variant="outline" onClick={() => handleDelete(product.id)}>
                             <Trash2 className="h-4 w-4" />
                           </Button>
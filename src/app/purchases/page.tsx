@@ -16,6 +16,7 @@ import { Pencil, Trash2, Plus, Search, Calendar, Package, User, Calculator } fro
 import { apolloClient } from '@/lib/apollo-client';
 import { gql } from 'graphql-tag';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { BarcodeScanInput } from '@/components/barcode/BarcodeScanInput';
 
 // GraphQL Queries and Mutations
 const GET_PURCHASE_DOCUMENTS = gql`
@@ -58,7 +59,10 @@ const GET_PRODUCTS = gql`
       name
       code
       unit
-      category
+      category {
+        id
+        name
+      }
       isActive
     }
   }
@@ -119,7 +123,10 @@ const CREATE_PRODUCT = gql`
       code
       description
       unit
-      category
+      category {
+        id
+        name
+      }
       minimumStock
       maximumStock
       isActive
@@ -157,7 +164,7 @@ interface Product {
   name: string;
   code: string;
   unit: string;
-  category?: string;
+  category?: { id: string; name: string } | null;
   isActive?: boolean;
 }
 
@@ -329,6 +336,34 @@ export default function PurchasesPage() {
     resetItem();
   };
 
+  // A scanned product adds a line of one, or one more on the line already holding it
+  const onScanProduct = (scanned: { id: string }) => {
+    const product = products.find(p => p.id === scanned.id);
+    if (!product) {
+      setError('کالای اسکن شده در فهرست کالاهای فعال نیست');
+      return;
+    }
+
+    if (currentItems.some(item => item.product.id === product.id)) {
+      setCurrentItems(prev => prev.map(item => item.product.id === product.id
+        ? { ...item, quantity: item.quantity + 1, totalPrice: (item.quantity + 1) * item.unitPrice }
+        : item
+      ));
+      return;
+    }
+
+    setCurrentItems(prev => [...prev, { id: nextItemId, product, quantity: 1, unitPrice: 0, totalPrice: 0 }]);
+    setNextItemId(prev => prev + 1);
+  };
+
+  // Scanned lines come in unpriced; their price is filled in the table
+  const updateItemPrice = (itemId: number, unitPrice: number) => {
+    setCurrentItems(prev => prev.map(item => item.id === itemId
+      ? { ...item, unitPrice, totalPrice: item.quantity * unitPrice }
+      : item
+    ));
+  };
+
   const removeItem = (itemId: number) => {
     setCurrentItems(prev => prev.filter(item => item.id !== itemId));
   };
@@ -350,7 +385,6 @@ export default function PurchasesPage() {
         code: newProductCode,
         description: newProductDescription,
         unit: newProductUnit,
-        category: "",
         minimumStock: 0,
         maximumStock: 0,
       };
@@ -504,8 +538,11 @@ export default function PurchasesPage() {
 
             {/* Add Item Form */}
             <Card className="bg-gray-50">
-              <CardHeader>
+              <CardHeader className="flex flex-row items-start justify-between gap-4">
                 <CardTitle className="text-lg">افزودن کالا</CardTitle>
+                <div className="w-64">
+                  <BarcodeScanInput onScan={onScanProduct} />
+                </div>
               </CardHeader>
               <CardContent>
                 <form onSubmit={handleSubmitItem(onAddItem)} className="space-y-4">
@@ -669,7 +706,15 @@ export default function PurchasesPage() {
                             </div>
                           </TableCell>
                           <TableCell>{item.quantity.toLocaleString()}</TableCell>
-                          <TableCell>{item.unitPrice.toLocaleString()} ریال</TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              value={item.unitPrice}
+                              onChange={(e) => updateItemPrice(item.id, e.target.value ? parseFloat(e.target.value) : 0)}
+                              className="w-32"
+                            />
+                          </TableCell>
                           <TableCell className="font-medium">
                             {item.totalPrice.toLocaleString()} ریال
                           </TableCell>
@@ -0,0 +1,378 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { MainNavigation } from "@/components/navigation/Navigation";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { PersianDateField } from "@/components/ui/persian-date-picker";
+import { PackagePlus, RefreshCw, CheckCircle, AlertCircle } from "lucide-react";
+import { formatPersianNumber } from "@/lib/persian";
+import { apolloClient } from "@/lib/apollo-client";
+import { gql } from "@apollo/client";
+
+// GraphQL queries
+const GET_REORDER_SUGGESTIONS = gql`
+  query GetReorderSuggestions($consumptionDays: Int) {
+    getReorderSuggestions(consumptionDays: $consumptionDays) {
+      supplier {
+        id
+        name
+      }
+      items {
+        product {
+          id
+          name
+          code
+          unit
+          trackLots
+        }
+        currentStock
+        reservedStock
+        onOrder
+        averageDailyConsumption
+        projectedStock
+        minimumStock
+        maximumStock
+        suggestedQuantity
+        lastPurchasePrice
+      }
+      totalAmount
+    }
+  }
+`;
+
+const GET_SUPPLIERS = gql`
+  query GetSuppliers($isActive: Boolean) {
+    getSuppliers(isActive: $isActive) {
+      id
+      name
+    }
+  }
+`;
+
+const CREATE_PURCHASE_FROM_REORDER = gql`
+  mutation CreatePurchaseFromReorder(
+    $supplierId: ID!
+    $documentNumber: String!
+    $date: Date!
+    $consumptionDays: Int
+    $productIds: [ID!]
+  ) {
+    createPurchaseFromReorder(
+      supplierId: $supplierId
+      documentNumber: $documentNumber
+      date: $date
+      consumptionDays: $consumptionDays
+      productIds: $productIds
+    ) {
+      id
+      documentNumber
+    }
+  }
+`;
+
+interface ReorderSuggestion {
+  product: { id: string; name: string; code: string; unit: string; trackLots: boolean };
+  currentStock: number;
+  reservedStock: number;
+  onOrder: number;
+  averageDailyConsumption: number | null;
+  projectedStock: number;
+  minimumStock: number;
+  maximumStock: number | null;
+  suggestedQuantity: number;
+  lastPurchasePrice: number | null;
+}
+
+interface ReorderGroup {
+  supplier: { id: string; name: string } | null;
+  items: ReorderSuggestion[];
+  totalAmount: number;
+}
+
+// What the buyer fills in to turn one supplier group into a draft purchase invoice
+interface GroupOrderForm {
+  supplierId: string;
+  documentNumber: string;
+  date?: Date;
+  productIds: string[];
+}
+
+// Products in this unit are tracked by serial number
+const SERIALIZED_UNIT = "دستگاه";
+
+// Incoming lines of these products need lot or serial numbers, so they are ordered by hand
+const needsManualEntry = (item: ReorderSuggestion) => item.product.trackLots || item.product.unit === SERIALIZED_UNIT;
+
+const groupKey = (group: ReorderGroup) => group.supplier?.id || "unassigned";
+
+export default function ReorderPage() {
+  const [groups, setGroups] = useState<ReorderGroup[]>([]);
+  const [suppliers, setSuppliers] = useState<{ id: string; name: string }[]>([]);
+  const [consumptionDays, setConsumptionDays] = useState("");
+  const [forms, setForms] = useState<Record<string, GroupOrderForm>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [submittingGroup, setSubmittingGroup] = useState("");
+  const [success, setSuccess] = useState("");
+  const [error, setError] = useState("");
+
+  const parsedDays = consumptionDays.trim() ? parseInt(consumptionDays, 10) : undefined;
+
+  const loadSuggestions = useCallback(async () => {
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const result = await apolloClient.query<{ getReorderSuggestions: ReorderGroup[] }>({
+        query: GET_REORDER_SUGGESTIONS,
+        variables: { consumptionDays: parsedDays },
+        fetchPolicy: 'no-cache'
+      });
+      const loaded = result.data?.getReorderSuggestions || [];
+      setGroups(loaded);
+      setForms(Object.fromEntries(loaded.map(group => [groupKey(group), {
+        supplierId: group.supplier?.id || "",
+        documentNumber: "",
+        date: new Date(),
+        productIds: group.items.filter(item => !needsManualEntry(item)).map(item => item.product.id)
+      }])));
+    } catch (err) {
+      console.error('Error loading reorder suggestions:', err);
+      setError(err instanceof Error ? `خطا در محاسبه پیشنهاد خرید: ${err.message}` : "خطا در محاسبه پیشنهاد خرید");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [parsedDays]);
+
+  useEffect(() => {
+    loadSuggestions();
+  }, [loadSuggestions]);
+
+  useEffect(() => {
+    apolloClient.query<{ getSuppliers: { id: string; name: string }[] }>({ query: GET_SUPPLIERS, variables: { isActive: true }, fetchPolicy: 'no-cache' })
+      .then(result => setSuppliers(result.data?.getSuppliers || []))
+      .catch(err => console.error('Error loading suppliers:', err));
+  }, []);
+
+  const updateForm = (key: string, changes: Partial<GroupOrderForm>) => {
+    setForms(prev => ({ ...prev, [key]: { ...prev[key], ...changes } }));
+  };
+
+  const handleCreatePurchase = async (group: ReorderGroup) => {
+    const key = groupKey(group);
+    const form = forms[key];
+    if (!form?.supplierId || !form.documentNumber.trim() || !form.date) {
+      setError("تامین‌کننده، شماره سند و تاریخ برای ایجاد فاکتور خرید الزامی است");
+      return;
+    }
+    if (form.productIds.length === 0) {
+      setError("حداقل یک کالا را برای سفارش انتخاب کنید");
+      return;
+    }
+
+    setSubmittingGroup(key);
+    setError("");
+    setSuccess("");
+
+    try {
+      const result = await apolloClient.mutate<{ createPurchaseFromReorder: { id: string; documentNumber: string } }>({
+        mutation: CREATE_PURCHASE_FROM_REORDER,
+        variables: {
+          supplierId: form.supplierId,
+          documentNumber: form.documentNumber.trim(),
+          date: form.date.getTime(),
+          consumptionDays: parsedDays,
+          productIds: form.productIds
+        }
+      });
+      const document = result.data!.createPurchaseFromReorder;
+      setSuccess(`پیش‌نویس فاکتور خرید ${document.documentNumber} ایجاد شد`);
+      await loadSuggestions();
+    } catch (err) {
+      console.error('Error creating purchase from reorder:', err);
+      setError(err instanceof Error ? `خطا در ایجاد فاکتور خرید: ${err.message}` : "خطا در ایجاد فاکتور خرید");
+    } finally {
+      setSubmittingGroup("");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <MainNavigation />
+
+      <div className="container mx-auto p-6 space-y-6">
+        {/* Page Header */}
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <PackagePlus className="h-8 w-8" />
+              پیشنهاد خرید
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              کالاهایی که به حداقل موجودی رسیده‌اند، تا سقف حداکثر موجودی و به تفکیک آخرین تامین‌کننده
+            </p>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label>میانگین مصرف روزانه در</Label>
+              <Input
+                type="number"
+                min="1"
+                value={consumptionDays}
+                onChange={(e) => setConsumptionDays(e.target.value)}
+                placeholder="روز اخیر (اختیاری)"
+                className="w-44"
+              />
+            </div>
+            <Button onClick={loadSuggestions} disabled={isLoading} className="flex items-center gap-2">
+              <RefreshCw className="h-4 w-4" />
+              محاسبه
+            </Button>
+          </div>
+        </div>
+
+        {/* Success/Error Messages */}
+        {success && (
+          <Card className="border-green-200 bg-green-50">
+            <CardContent className="flex items-center gap-2 p-4">
+              <CheckCircle className="h-5 w-5 text-green-600" />
+              <span className="text-green-800">{success}</span>
+            </CardContent>
+          </Card>
+        )}
+
+        {error && (
+          <Card className="border-red-200 bg-red-50">
+            <CardContent className="flex items-center gap-2 p-4">
+              <AlertCircle className="h-5 w-5 text-red-600" />
+              <span className="text-red-800">{error}</span>
+            </CardContent>
+          </Card>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8">در حال محاسبه...</div>
+        ) : groups.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-8 text-muted-foreground">
+              موجودی همه کالاها بالاتر از حداقل موجودی است
+            </CardContent>
+          </Card>
+        ) : groups.map((group) => {
+          const key = groupKey(group);
+          const form = forms[key];
+          return (
+            <Card key={key}>
+              <CardHeader>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <CardTitle>{group.supplier?.name || "بدون تامین‌کننده قبلی"}</CardTitle>
+                  <span className="text-sm text-muted-foreground">
+                    {formatPersianNumber(group.items.length)} کالا - برآورد {Math.round(group.totalAmount).toLocaleString()} ریال
+                  </span>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="rtl-table">
+                      <TableHead></TableHead>
+                      <TableHead>کالا</TableHead>
+                      <TableHead>موجودی</TableHead>
+                      <TableHead>رزرو شده</TableHead>
+                      <TableHead>در راه</TableHead>
+                      {!!parsedDays && <TableHead>مصرف روزانه</TableHead>}
+                      <TableHead>موجودی پیش‌بینی</TableHead>
+                      <TableHead>حداقل / حداکثر</TableHead>
+                      <TableHead>مقدار پیشنهادی</TableHead>
+                      <TableHead>آخرین قیمت خرید</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {group.items.map((item) => (
+                      <TableRow key={item.product.id}>
+                        <TableCell>
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4"
+                            disabled={needsManualEntry(item)}
+                            checked={form?.productIds.includes(item.product.id) || false}
+                            onChange={(e) => updateForm(key, {
+                              productIds: e.target.checked
+                                ? [...form.productIds, item.product.id]
+                                : form.productIds.filter(id => id !== item.product.id)
+                            })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{item.product.name}</div>
+                          <div className="text-xs text-muted-foreground ltr-content">{item.product.code}</div>
+                          {needsManualEntry(item) && (
+                            <Badge variant="secondary" className="mt-1">ثبت دستی (بچ/سریال)</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>{item.currentStock.toLocaleString()} {item.product.unit}</TableCell>
+                        <TableCell>{item.reservedStock ? item.reservedStock.toLocaleString() : "-"}</TableCell>
+                        <TableCell>{item.onOrder ? item.onOrder.toLocaleString() : "-"}</TableCell>
+                        {!!parsedDays && <TableCell>{(item.averageDailyConsumption || 0).toFixed(2)}</TableCell>}
+                        <TableCell className={item.projectedStock < item.minimumStock ? "text-red-600" : ""}>
+                          {item.projectedStock.toLocaleString()}
+                        </TableCell>
+                        <TableCell>
+                          {item.minimumStock.toLocaleString()} / {item.maximumStock !== null ? item.maximumStock.toLocaleString() : "-"}
+                        </TableCell>
+                        <TableCell className="font-bold">{item.suggestedQuantity.toLocaleString()}</TableCell>
+                        <TableCell>
+                          {item.lastPurchasePrice !== null ? `${item.lastPurchasePrice.toLocaleString()} ریال` : "-"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                {form && (
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end border-t pt-4">
+                    {!group.supplier && (
+                      <div className="space-y-2">
+                        <Label>تامین‌کننده *</Label>
+                        <Select value={form.supplierId} onValueChange={(value) => updateForm(key, { supplierId: value })}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="انتخاب تامین‌کننده" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {suppliers.map((supplier) => (
+                              <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <Label>شماره فاکتور خرید *</Label>
+                      <Input
+                        value={form.documentNumber}
+                        onChange={(e) => updateForm(key, { documentNumber: e.target.value })}
+                        className="ltr-content"
+                      />
+                    </div>
+                    <PersianDateField label="تاریخ *" value={form.date} onChange={(date) => updateForm(key, { date })} />
+                    <Button
+                      onClick={() => handleCreatePurchase(group)}
+                      disabled={submittingGroup === key || form.productIds.length === 0}
+                    >
+                      {submittingGroup === key ? "در حال ایجاد..." : "ایجاد پیش‌نویس فاکتور خرید"}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
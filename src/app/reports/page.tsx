@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -25,6 +25,9 @@ import {
 import { apolloClient } from '@/lib/apollo-client';
 import { gql } from 'graphql-tag';
 import { MainNavigation } from '@/components/navigation/Navigation';
+import { PersianDateField } from '@/components/ui/persian-date-picker';
+import { gregorianToJalaali, jalaaliToGregorian } from '@/lib/persian';
+import { CategoryNode, categoryDescendantIds, flattenCategoryTree, indentCategoryName } from '@/lib/categories';
 
 // GraphQL Queries
 const GET_INVENTORY_SUMMARY = gql`
@@ -40,7 +43,9 @@ const GET_INVENTORY_SUMMARY = gql`
         id
         name
         code
-        category
+        category {
+          id
+        }
       }
     }
   }
@@ -52,12 +57,31 @@ const GET_PRODUCTS_SUMMARY = gql`
       id
       name
       code
-      category
+      unit
+      alternateUnits {
+        unit
+        factor
+      }
+      category {
+        id
+      }
       isActive
     }
   }
 `;
 
+const GET_CATEGORIES = gql`
+  query GetCategories {
+    getCategories {
+      id
+      name
+      parent {
+        id
+      }
+    }
+  }
+`;
+
 // Add new GraphQL query for Rial Cardex
 const GET_ALL_DOCUMENTS_FOR_CARDEX = gql`
   query GetAllDocumentsForCardex {
@@ -82,6 +106,228 @@ const GET_ALL_DOCUMENTS_FOR_CARDEX = gql`
   }
 `;
 
+const GET_WAREHOUSES_SUMMARY = gql`
+  query GetWarehousesSummary {
+    getWarehouses(isActive: true) {
+      id
+      name
+      code
+    }
+  }
+`;
+
+const GET_PRODUCT_CARDEX = gql`
+  query GetProductCardex($productId: ID!, $dateFrom: Date, $dateTo: Date, $warehouseId: ID, $lotNumber: String) {
+    getProductCardex(productId: $productId, dateFrom: $dateFrom, dateTo: $dateTo, warehouseId: $warehouseId, lotNumber: $lotNumber) {
+      date
+      isOpeningBalance
+      movementType
+      documentId
+      documentType
+      documentNumber
+      adjustmentReason
+      lotNumber
+      inQuantity
+      inUnitPrice
+      inTotalPrice
+      outQuantity
+      outUnitPrice
+      outTotalPrice
+      balanceQuantity
+      balanceUnitPrice
+      balanceTotalPrice
+    }
+  }
+`;
+
+const GET_ADJUSTMENT_REPORT = gql`
+  query GetAdjustmentReport($dateFrom: Date, $dateTo: Date) {
+    getAdjustmentReport(dateFrom: $dateFrom, dateTo: $dateTo) {
+      reason
+      movementType
+      quantity
+      totalValue
+      movementCount
+    }
+  }
+`;
+
+const GET_INVENTORY_REPORT = gql`
+  query GetInventoryReport($filter: InventoryReportFilter) {
+    getInventoryReport(filter: $filter) {
+      product {
+        id
+        name
+        code
+        unit
+        variantValues {
+          name
+          value
+        }
+      }
+      currentStock
+      reservedStock
+      availableStock
+      averagePrice
+      totalValue
+    }
+  }
+`;
+
+const GET_CATEGORY_STOCK_REPORT = gql`
+  query GetCategoryStockReport($warehouseId: ID) {
+    getCategoryStockReport(warehouseId: $warehouseId) {
+      category {
+        id
+        name
+      }
+      level
+      productCount
+      quantity
+      value
+      subtotalProductCount
+      subtotalQuantity
+      subtotalValue
+    }
+  }
+`;
+
+const GET_GROSS_PROFIT_REPORT = gql`
+  query GetGrossProfitReport($dateFrom: Date!, $dateTo: Date!, $groupBy: GrossProfitGroupBy!) {
+    getGrossProfitReport(dateFrom: $dateFrom, dateTo: $dateTo, groupBy: $groupBy) {
+      key
+      label
+      date
+      quantity
+      revenue
+      costOfGoods
+      grossProfit
+      marginPercent
+    }
+  }
+`;
+
+const GET_OPEN_PURCHASE_ORDERS = gql`
+  query GetOpenPurchaseOrders($supplierId: ID, $overdueOnly: Boolean) {
+    getOpenPurchaseOrders(supplierId: $supplierId, overdueOnly: $overdueOnly) {
+      order {
+        id
+        documentNumber
+        date
+        supplier {
+          id
+          name
+        }
+      }
+      expectedDate
+      isOverdue
+      lines {
+        product {
+          id
+          name
+          code
+          unit
+        }
+        orderedQuantity
+        deliveredQuantity
+        outstandingQuantity
+      }
+      outstandingAmount
+    }
+  }
+`;
+
+const GET_EXPIRING_LOTS = gql`
+  query GetExpiringLots($days: Int!) {
+    getExpiringLots(days: $days) {
+      product {
+        id
+        name
+        code
+        unit
+      }
+      warehouse {
+        id
+        name
+      }
+      lotNumber
+      expiryDate
+      daysToExpiry
+      quantity
+    }
+  }
+`;
+
+const GET_CREDIT_LIMIT_REPORT = gql`
+  query GetCreditLimitReport($warningPercent: Float) {
+    getCreditLimitReport(warningPercent: $warningPercent) {
+      customer {
+        id
+        name
+        phone
+      }
+      creditLimit
+      balance
+      availableCredit
+      usedPercent
+      isOverLimit
+    }
+  }
+`;
+
+const GET_SERIAL_NUMBER_HISTORY = gql`
+  query GetSerialNumberHistory($serialNumber: String!) {
+    getSerialNumberHistory(serialNumber: $serialNumber) {
+      serialNumber
+      product {
+        id
+        name
+        code
+      }
+      inStock
+      warehouse {
+        id
+        name
+      }
+      receivedIn {
+        id
+        documentNumber
+        documentType
+        date
+        supplier {
+          id
+          name
+        }
+      }
+      soldIn {
+        id
+        documentNumber
+        documentType
+        date
+        customer {
+          id
+          name
+        }
+      }
+      movements {
+        id
+        movementType
+        date
+        isReversal
+        warehouse {
+          id
+          name
+        }
+        document {
+          id
+          documentNumber
+          documentType
+        }
+      }
+    }
+  }
+`;
+
 // Add new GraphQL query for Document Search
 const GET_ALL_DOCUMENTS_FOR_SEARCH = gql`
   query GetAllDocumentsForSearch {
@@ -149,7 +395,7 @@ interface InventoryMovement {
     id: string;
     name: string;
     code: string;
-    category?: string;
+    category?: { id: string } | null;
   };
 }
 
@@ -196,15 +442,22 @@ interface Product {
   id: string;
   name: string;
   code: string;
-  category?: string;
+  unit: string;
+  alternateUnits?: { unit: string; factor: number }[] | null;
+  category?: { id: string } | null;
   isActive: boolean;
 }
 
 // Add new interfaces for Rial Cardex
 interface RialCardexItem {
-  date: string;
-  documentType: string;
-  documentNumber: string;
+  date: number;
+  isOpeningBalance: boolean;
+  movementType?: string;
+  documentId?: string;
+  documentType?: string;
+  documentNumber?: string;
+  adjustmentReason?: string;
+  lotNumber?: string;
   inQuantity: number;
   inUnitPrice: number;
   inTotalPrice: number;
@@ -216,6 +469,120 @@ interface RialCardexItem {
   balanceTotalPrice: number;
 }
 
+interface AdjustmentReportItem {
+  reason?: string;
+  movementType: string;
+  quantity: number;
+  totalValue: number;
+  movementCount: number;
+}
+
+interface CategoryStockRow {
+  category: { id: string; name: string } | null;
+  level: number;
+  productCount: number;
+  quantity: number;
+  value: number;
+  subtotalProductCount: number;
+  subtotalQuantity: number;
+  subtotalValue: number;
+}
+
+interface InventoryReportRow {
+  product: {
+    id: string;
+    name: string;
+    code: string;
+    unit: string;
+    variantValues?: { name: string; value: string }[] | null;
+  };
+  currentStock: number;
+  reservedStock: number;
+  availableStock: number;
+  averagePrice?: number | null;
+  totalValue: number;
+}
+
+interface GrossProfitRow {
+  key: string;
+  label: string;
+  date?: number;
+  quantity: number;
+  revenue: number;
+  costOfGoods: number;
+  grossProfit: number;
+  marginPercent: number;
+}
+
+const grossProfitGroupLabels: Record<string, string> = {
+  INVOICE: 'فاکتور',
+  PRODUCT: 'کالا',
+  PARENT_PRODUCT: 'کالای مادر (تجمیع گونه‌ها)',
+  CATEGORY: 'دسته‌بندی',
+  CUSTOMER: 'مشتری'
+};
+
+// First day of the current Jalali month, the default start of the gross profit range
+const startOfPersianMonth = () => {
+  const { jy, jm } = gregorianToJalaali(new Date());
+  return jalaaliToGregorian(jy, jm, 1);
+};
+
+const adjustmentReasonLabels: Record<string, string> = {
+  DAMAGE: 'خرابی',
+  LOSS: 'مفقودی',
+  COUNT_DIFFERENCE: 'مغایرت شمارش',
+  SAMPLE: 'نمونه'
+};
+
+interface OpenPurchaseOrder {
+  order: { id: string; documentNumber: string; date: number; supplier?: { id: string; name: string } | null };
+  expectedDate?: number | null;
+  isOverdue: boolean;
+  lines: {
+    product: { id: string; name: string; code: string; unit: string };
+    orderedQuantity: number;
+    deliveredQuantity: number;
+    outstandingQuantity: number;
+  }[];
+  outstandingAmount: number;
+}
+
+interface ExpiringLot {
+  product: { id: string; name: string; code: string; unit: string };
+  warehouse?: { id: string; name: string } | null;
+  lotNumber: string;
+  expiryDate: number;
+  daysToExpiry: number;
+  quantity: number;
+}
+
+interface CreditLimitRow {
+  customer: { id: string; name: string; phone?: string | null };
+  creditLimit: number;
+  balance: number;
+  availableCredit: number;
+  usedPercent: number;
+  isOverLimit: boolean;
+}
+
+interface SerialNumberHistory {
+  serialNumber: string;
+  product: { id: string; name: string; code: string };
+  inStock: boolean;
+  warehouse?: { id: string; name: string } | null;
+  receivedIn?: { id: string; documentNumber: string; documentType: string; date: number; supplier?: { id: string; name: string } | null } | null;
+  soldIn?: { id: string; documentNumber: string; documentType: string; date: number; customer?: { id: string; name: string } | null } | null;
+  movements: {
+    id: string;
+    movementType: string;
+    date: number;
+    isReversal: boolean;
+    warehouse?: { id: string; name: string } | null;
+    document?: { id: string; documentNumber: string; documentType: string } | null;
+  }[];
+}
+
 interface Supplier {
   id: string;
   name: string;
@@ -294,8 +661,31 @@ export default function ReportsPage() {
 
   // Add state for Rial Cardex
   const [selectedProduct, setSelectedProduct] = useState('');
+  const [selectedWarehouse, setSelectedWarehouse] = useState('all');
+  const [selectedLot, setSelectedLot] = useState('');
+  const [cardexUnit, setCardexUnit] = useState('');
+  const [warehouses, setWarehouses] = useState<{ id: string; name: string; code: string }[]>([]);
   const [rialCardexData, setRialCardexData] = useState<RialCardexItem[]>([]);
   const [isCalculating, setIsCalculating] = useState(false);
+  const [adjustmentReport, setAdjustmentReport] = useState<AdjustmentReportItem[]>([]);
+  const [profitDateFrom, setProfitDateFrom] = useState<Date | undefined>(startOfPersianMonth);
+  const [profitDateTo, setProfitDateTo] = useState<Date | undefined>(() => new Date());
+  const [groupVariants, setGroupVariants] = useState(false);
+  const [inventoryReport, setInventoryReport] = useState<InventoryReportRow[]>([]);
+  const [categories, setCategories] = useState<CategoryNode[]>([]);
+  const [categoryStockWarehouse, setCategoryStockWarehouse] = useState('all');
+  const [categoryStockReport, setCategoryStockReport] = useState<CategoryStockRow[]>([]);
+  const [profitGroupBy, setProfitGroupBy] = useState('INVOICE');
+  const [grossProfitReport, setGrossProfitReport] = useState<GrossProfitRow[]>([]);
+  const [orderSupplierId, setOrderSupplierId] = useState('all');
+  const [overdueOrdersOnly, setOverdueOrdersOnly] = useState(false);
+  const [openPurchaseOrders, setOpenPurchaseOrders] = useState<OpenPurchaseOrder[]>([]);
+  const [expiryDays, setExpiryDays] = useState(30);
+  const [expiringLots, setExpiringLots] = useState<ExpiringLot[]>([]);
+  const [creditWarningPercent, setCreditWarningPercent] = useState(80);
+  const [creditLimitReport, setCreditLimitReport] = useState<CreditLimitRow[]>([]);
+  const [serialQuery, setSerialQuery] = useState('');
+  const [serialHistory, setSerialHistory] = useState<SerialNumberHistory[] | null>(null);
   
   // Add state for Document Search
   const [searchField, setSearchField] = useState('quantity');
@@ -318,7 +708,9 @@ export default function ReportsPage() {
         documentsResult,
         productsResult,
         suppliersResult,
-        customersResult
+        customersResult,
+        warehousesResult,
+        categoriesResult
       ] = await Promise.all([
         apolloClient.query({
           query: GET_INVENTORY_SUMMARY,
@@ -339,6 +731,14 @@ export default function ReportsPage() {
         apolloClient.query({
           query: GET_CUSTOMERS_SUMMARY,
           fetchPolicy: 'no-cache'
+        }),
+        apolloClient.query<{ getWarehouses: { id: string; name: string; code: string }[] }>({
+          query: GET_WAREHOUSES_SUMMARY,
+          fetchPolicy: 'no-cache'
+        }),
+        apolloClient.query<{ getCategories: CategoryNode[] }>({
+          query: GET_CATEGORIES,
+          fetchPolicy: 'no-cache'
         })
       ]);
 
@@ -347,6 +747,8 @@ export default function ReportsPage() {
       setProducts((productsResult.data as any)?.getProducts || []);
       setSuppliers((suppliersResult.data as any)?.getSuppliers || []);
       setCustomers((customersResult.data as any)?.getCustomers || []);
+      setWarehouses(warehousesResult.data?.getWarehouses || []);
+      setCategories(categoriesResult.data?.getCategories || []);
     } catch (err: any) {
       console.error('Error loading reports data:', err);
       setError('خطا در بارگذاری اطلاعات گزارشات');
@@ -374,8 +776,10 @@ export default function ReportsPage() {
   const activeSuppliers = suppliers.filter(s => s.status === 'ACTIVE').length;
   const activeCustomers = customers.filter(c => c.status === 'ACTIVE').length;
 
-  // Get unique categories
-  const categories = [...new Set(products.filter(p => p.category).map(p => p.category))];
+  // A selected category also covers everything filed below it
+  const selectedCategoryIds = selectedCategory && selectedCategory !== 'all'
+    ? categoryDescendantIds(categories, selectedCategory)
+    : null;
 
   // Filter data by date range and category
   const filterByDateAndCategory = (items: any[], dateField = 'date') => {
@@ -383,10 +787,8 @@ export default function ReportsPage() {
       const itemDate = new Date(item[dateField]).toISOString().split('T')[0];
       const matchesDate = (!dateFrom || itemDate >= dateFrom) && 
                          (!dateTo || itemDate <= dateTo);
-      const matchesCategory = !selectedCategory || 
-                             selectedCategory === 'all' ||
-                             (item.product?.category === selectedCategory) ||
-                             (item.category === selectedCategory);
+      const matchesCategory = !selectedCategoryIds ||
+                             selectedCategoryIds.has(item.product?.category?.id);
       return matchesDate && matchesCategory;
     });
   };
@@ -394,20 +796,6 @@ export default function ReportsPage() {
   const filteredMovements = filterByDateAndCategory(inventoryMovements);
   const filteredDocuments = filterByDateAndCategory(documents);
 
-  // Calculate category breakdown
-  const categoryBreakdown = categories.map(category => {
-    const categoryProducts = products.filter(p => p.category === category);
-    const categoryMovements = inventoryMovements.filter(m => m.product.category === category);
-    const categoryValue = categoryMovements.reduce((sum, m) => sum + Math.abs(m.totalPrice), 0);
-    
-    return {
-      category,
-      productsCount: categoryProducts.length,
-      value: categoryValue,
-      percentage: totalInventoryValue > 0 ? (categoryValue / totalInventoryValue) * 100 : 0
-    };
-  });
-
   // Top products by value
   const productValues = inventoryMovements.reduce((acc, movement) => {
     const productId = movement.product.id;
@@ -443,6 +831,12 @@ export default function ReportsPage() {
       case 'IMPORT': return 'واردات';
       case 'SALE_INVOICE': return 'فروش';
       case 'STOCK_ADJUSTMENT': return 'تعدیل';
+      case 'TRANSFER': return 'انتقال بین انبارها';
+      case 'PURCHASE_RETURN': return 'برگشت از خرید';
+      case 'SALE_RETURN': return 'برگشت از فروش';
+      case 'GOODS_RECEIPT': return 'رسید کالا';
+      case 'ASSEMBLY': return 'مونتاژ';
+      case 'DISASSEMBLY': return 'دمونتاژ';
       default: return type;
     }
   };
@@ -457,159 +851,38 @@ export default function ReportsPage() {
     }
   };
 
-  // Function to calculate Rial Cardex
-  const calculateRialCardex = async (productId: string) => {
-    if (!productId) return;
+  // Function to load the Rial Cardex computed on the server for the selected product, warehouse and lot
+  const calculateRialCardex = useCallback(async () => {
+    if (!selectedProduct) {
+      setRialCardexData([]);
+      return;
+    }
     
     setIsCalculating(true);
     setError('');
     setRialCardexData([]);
     
     try {
-      console.log('Calculating Rial Cardex for product ID:', productId);
-      
-      const result = await apolloClient.query({
-        query: GET_ALL_DOCUMENTS_FOR_CARDEX,
+      const result = await apolloClient.query<{ getProductCardex: RialCardexItem[] }>({
+        query: GET_PRODUCT_CARDEX,
+        variables: {
+          productId: selectedProduct,
+          dateFrom: dateFrom ? new Date(`${dateFrom}T00:00:00`).getTime() : undefined,
+          dateTo: dateTo ? new Date(`${dateTo}T23:59:59.999`).getTime() : undefined,
+          warehouseId: selectedWarehouse !== 'all' ? selectedWarehouse : undefined,
+          lotNumber: selectedLot || undefined
+        },
         fetchPolicy: 'no-cache',
         errorPolicy: 'all'
       });
       
-      console.log('GraphQL query result:', result);
-      
-      const documents = (result.data as any)?.getDocuments || [];
-      console.log('Retrieved documents:', documents);
-      
-      // Log all document types to see what we have
-      const documentTypes = [...new Set(documents.map((doc: any) => doc.documentType))];
-      console.log('All document types in system:', documentTypes);
-      
-      // Filter documents that contain this product (INCLUDE BOTH FINALIZED AND DRAFT)
-      const productDocuments = documents.filter((doc: any) => {
-        // Check if any item in the document matches the product ID
-        // Add proper check for items property
-        const hasProduct = doc.items && Array.isArray(doc.items) && 
-          doc.items.some((item: any) => item.product?.id === productId);
-        console.log(`Document ${doc.documentNumber} (${doc.documentType}) isFinalized: ${doc.isFinalized}, hasProduct: ${hasProduct}`);
-        return hasProduct;
-      });
-      
-      console.log('Product documents (including draft):', productDocuments);
-      
-      // Log document types for this product
-      const productDocumentTypes = [...new Set(productDocuments.map((doc: any) => doc.documentType))];
-      console.log('Document types for this product (including draft):', productDocumentTypes);
-      
-      // Process documents to create cardex entries
-      const cardexEntries: any[] = [];
-      
-      productDocuments.forEach((doc: any) => {
-        // Add proper check for items property
-        if (doc.items && Array.isArray(doc.items)) {
-          doc.items.forEach((item: any) => {
-            if (item.product?.id === productId) {
-              cardexEntries.push({
-                date: doc.date, // This is a timestamp number
-                documentType: doc.documentType,
-                documentNumber: doc.documentNumber,
-                quantity: item.quantity,
-                unitPrice: item.unitPrice,
-                totalPrice: item.totalPrice
-              });
-            }
-          });
-        }
-      });
-      
-      console.log('Cardex entries:', cardexEntries);
-      
-      // Sort entries by date (timestamp)
-      cardexEntries.sort((a, b) => a.date - b.date);
-      
-      console.log('Sorted cardex entries:', cardexEntries);
-      
-      // Calculate running balance with weighted average
-      let balanceQuantity = 0;
-      let balanceTotalPrice = 0;
-      const processedEntries: RialCardexItem[] = [];
-      
-      cardexEntries.forEach(entry => {
-        let inQuantity = 0;
-        let inUnitPrice = 0;
-        let inTotalPrice = 0;
-        let outQuantity = 0;
-        let outUnitPrice = 0;
-        let outTotalPrice = 0;
-        
-        // Categorize documents according to requirements:
-        // "وارده" (Incoming): INITIAL_STOCK, PURCHASE_INVOICE, IMPORT
-        // "صادره" (Outgoing): SALE_INVOICE
-        
-        const isIncoming = entry.documentType === 'INITIAL_STOCK' || entry.documentType === 'PURCHASE_INVOICE' || entry.documentType === 'IMPORT';
-        const isOutgoing = entry.documentType === 'SALE_INVOICE';
-        
-        console.log(`Processing ${entry.documentNumber} (${entry.documentType}) - isIncoming: ${isIncoming}, isOutgoing: ${isOutgoing}`);
-        
-        if (isIncoming) {
-          // For incoming items (وارده)
-          inQuantity = Math.abs(entry.quantity);
-          inUnitPrice = entry.unitPrice;
-          inTotalPrice = Math.abs(entry.totalPrice);
-          
-          // Update balance with weighted average
-          balanceQuantity += inQuantity;
-          balanceTotalPrice += inTotalPrice;
-          
-          console.log(`Incoming - quantity: ${inQuantity}, unitPrice: ${inUnitPrice}, totalPrice: ${inTotalPrice}`);
-          console.log(`Balance after incoming - quantity: ${balanceQuantity}, totalPrice: ${balanceTotalPrice}`);
-        } else if (isOutgoing) {
-          // For outgoing items (صادره)
-          outQuantity = Math.abs(entry.quantity);
-          outUnitPrice = entry.unitPrice;
-          // For outgoing, we use the current average cost
-          const averagePrice = balanceQuantity > 0 ? balanceTotalPrice / balanceQuantity : 0;
-          outTotalPrice = outQuantity * averagePrice;
-          
-          // Update balance
-          balanceQuantity -= outQuantity;
-          balanceTotalPrice -= outTotalPrice;
-          
-          console.log(`Outgoing - quantity: ${outQuantity}, unitPrice: ${outUnitPrice}, totalPrice: ${outTotalPrice}`);
-          console.log(`Balance after outgoing - quantity: ${balanceQuantity}, totalPrice: ${balanceTotalPrice}`);
-          
-          // Ensure balance values don't go negative due to rounding
-          if (balanceQuantity < 0) balanceQuantity = 0;
-          if (balanceTotalPrice < 0) balanceTotalPrice = 0;
-        }
-        
-        // Calculate average price for balance
-        const balanceUnitPrice = balanceQuantity > 0 ? balanceTotalPrice / balanceQuantity : 0;
-        
-        processedEntries.push({
-          date: entry.date, // This is a timestamp number
-          documentType: entry.documentType,
-          documentNumber: entry.documentNumber,
-          inQuantity,
-          inUnitPrice,
-          inTotalPrice,
-          outQuantity,
-          outUnitPrice,
-          outTotalPrice,
-          balanceQuantity,
-          balanceUnitPrice,
-          balanceTotalPrice
-        });
-      });
+      if (result.error) {
+        throw result.error;
+      }
       
-      console.log('Processed entries:', processedEntries);
-      setRialCardexData(processedEntries);
+      setRialCardexData(result.data?.getProductCardex || []);
     } catch (err: any) {
       console.error('Error calculating Rial Cardex:', err);
-      console.error('Error details:', {
-        message: err.message,
-        networkError: err.networkError,
-        graphQLErrors: err.graphQLErrors,
-        statusCode: err.statusCode
-      });
       
       // Check if it's a network error
       if (err.networkError) {
@@ -627,6 +900,196 @@ export default function ReportsPage() {
     } finally {
       setIsCalculating(false);
     }
+  }, [selectedProduct, selectedWarehouse, selectedLot, dateFrom, dateTo]);
+
+  // The cardex is kept in the base unit; quantities and unit prices are shown in the chosen alternate unit
+  const cardexProduct = products.find(product => product.id === selectedProduct);
+  const cardexUnitFactor = cardexProduct?.alternateUnits?.find(alternate => alternate.unit === cardexUnit)?.factor || 1;
+  const displayedCardex = rialCardexData.map(item => ({
+    ...item,
+    inQuantity: item.inQuantity / cardexUnitFactor,
+    inUnitPrice: item.inUnitPrice * cardexUnitFactor,
+    outQuantity: item.outQuantity / cardexUnitFactor,
+    outUnitPrice: item.outUnitPrice * cardexUnitFactor,
+    balanceQuantity: item.balanceQuantity / cardexUnitFactor,
+    balanceUnitPrice: item.balanceUnitPrice * cardexUnitFactor
+  }));
+
+  // Recalculate the cardex when the product, warehouse, lot or date filters change
+  useEffect(() => {
+    calculateRialCardex();
+  }, [calculateRialCardex]);
+
+  // Load adjustment totals grouped by reason for the selected date range
+  const loadAdjustmentReport = useCallback(async () => {
+    try {
+      const result = await apolloClient.query<{ getAdjustmentReport: AdjustmentReportItem[] }>({
+        query: GET_ADJUSTMENT_REPORT,
+        variables: {
+          dateFrom: dateFrom ? new Date(`${dateFrom}T00:00:00`).getTime() : undefined,
+          dateTo: dateTo ? new Date(`${dateTo}T23:59:59.999`).getTime() : undefined
+        },
+        fetchPolicy: 'no-cache'
+      });
+      setAdjustmentReport(result.data?.getAdjustmentReport || []);
+    } catch (err) {
+      console.error('Error loading adjustment report:', err);
+      setError('خطا در بارگذاری گزارش تعدیلات: ' + (err instanceof Error ? err.message : 'خطای نامشخص'));
+    }
+  }, [dateFrom, dateTo]);
+
+  useEffect(() => {
+    loadAdjustmentReport();
+  }, [loadAdjustmentReport]);
+
+  // Stock per product, with variants listed one by one or rolled up into their parent product
+  const loadInventoryReport = useCallback(async () => {
+    try {
+      const result = await apolloClient.query<{ getInventoryReport: InventoryReportRow[] }>({
+        query: GET_INVENTORY_REPORT,
+        variables: {
+          filter: {
+            groupVariants,
+            categoryFilter: selectedCategory !== 'all' ? selectedCategory : undefined
+          }
+        },
+        fetchPolicy: 'no-cache'
+      });
+      setInventoryReport(result.data?.getInventoryReport || []);
+    } catch (err) {
+      console.error('Error loading inventory report:', err);
+      setError('خطا در بارگذاری گزارش موجودی: ' + (err instanceof Error ? err.message : 'خطای نامشخص'));
+    }
+  }, [groupVariants, selectedCategory]);
+
+  useEffect(() => {
+    loadInventoryReport();
+  }, [loadInventoryReport]);
+
+  // Stock held in each category, with subtotals that include the subcategories
+  const loadCategoryStockReport = useCallback(async () => {
+    try {
+      const result = await apolloClient.query<{ getCategoryStockReport: CategoryStockRow[] }>({
+        query: GET_CATEGORY_STOCK_REPORT,
+        variables: { warehouseId: categoryStockWarehouse !== 'all' ? categoryStockWarehouse : undefined },
+        fetchPolicy: 'no-cache'
+      });
+      setCategoryStockReport(result.data?.getCategoryStockReport || []);
+    } catch (err) {
+      console.error('Error loading category stock report:', err);
+      setError('خطا در بارگذاری گزارش دسته‌بندی‌ها: ' + (err instanceof Error ? err.message : 'خطای نامشخص'));
+    }
+  }, [categoryStockWarehouse]);
+
+  useEffect(() => {
+    loadCategoryStockReport();
+  }, [loadCategoryStockReport]);
+
+  // Load revenue, cost of goods sold and margin for the selected Jalali range and grouping
+  const loadGrossProfitReport = useCallback(async () => {
+    if (!profitDateFrom || !profitDateTo) {
+      setGrossProfitReport([]);
+      return;
+    }
+    
+    try {
+      const dateTo = new Date(profitDateTo);
+      dateTo.setHours(23, 59, 59, 999);
+      const result = await apolloClient.query<{ getGrossProfitReport: GrossProfitRow[] }>({
+        query: GET_GROSS_PROFIT_REPORT,
+        variables: {
+          dateFrom: profitDateFrom.getTime(),
+          dateTo: dateTo.getTime(),
+          groupBy: profitGroupBy
+        },
+        fetchPolicy: 'no-cache'
+      });
+      setGrossProfitReport(result.data?.getGrossProfitReport || []);
+    } catch (err) {
+      console.error('Error loading gross profit report:', err);
+      setError('خطا در بارگذاری گزارش سود ناخالص: ' + (err instanceof Error ? err.message : 'خطای نامشخص'));
+    }
+  }, [profitDateFrom, profitDateTo, profitGroupBy]);
+
+  useEffect(() => {
+    loadGrossProfitReport();
+  }, [loadGrossProfitReport]);
+
+  // Load purchase orders with goods still to be received, optionally for one supplier or overdue only
+  const loadOpenPurchaseOrders = useCallback(async () => {
+    try {
+      const result = await apolloClient.query<{ getOpenPurchaseOrders: OpenPurchaseOrder[] }>({
+        query: GET_OPEN_PURCHASE_ORDERS,
+        variables: {
+          supplierId: orderSupplierId !== 'all' ? orderSupplierId : undefined,
+          overdueOnly: overdueOrdersOnly
+        },
+        fetchPolicy: 'no-cache'
+      });
+      setOpenPurchaseOrders(result.data?.getOpenPurchaseOrders || []);
+    } catch (err) {
+      console.error('Error loading open purchase orders:', err);
+      setError('خطا در بارگذاری سفارش‌های خرید باز: ' + (err instanceof Error ? err.message : 'خطای نامشخص'));
+    }
+  }, [orderSupplierId, overdueOrdersOnly]);
+
+  useEffect(() => {
+    loadOpenPurchaseOrders();
+  }, [loadOpenPurchaseOrders]);
+
+  // Load lots in stock that expire within the chosen number of days
+  const loadExpiringLots = useCallback(async () => {
+    try {
+      const result = await apolloClient.query<{ getExpiringLots: ExpiringLot[] }>({
+        query: GET_EXPIRING_LOTS,
+        variables: { days: expiryDays },
+        fetchPolicy: 'no-cache'
+      });
+      setExpiringLots(result.data?.getExpiringLots || []);
+    } catch (err) {
+      console.error('Error loading expiring lots:', err);
+      setError('خطا در بارگذاری گزارش انقضا: ' + (err instanceof Error ? err.message : 'خطای نامشخص'));
+    }
+  }, [expiryDays]);
+
+  useEffect(() => {
+    loadExpiringLots();
+  }, [loadExpiringLots]);
+
+  // Load customers whose receivable has used up at least the chosen share of their credit limit
+  const loadCreditLimitReport = useCallback(async () => {
+    try {
+      const result = await apolloClient.query<{ getCreditLimitReport: CreditLimitRow[] }>({
+        query: GET_CREDIT_LIMIT_REPORT,
+        variables: { warningPercent: creditWarningPercent },
+        fetchPolicy: 'no-cache'
+      });
+      setCreditLimitReport(result.data?.getCreditLimitReport || []);
+    } catch (err) {
+      console.error('Error loading credit limit report:', err);
+      setError('خطا در بارگذاری گزارش حد اعتبار: ' + (err instanceof Error ? err.message : 'خطای نامشخص'));
+    }
+  }, [creditWarningPercent]);
+
+  useEffect(() => {
+    loadCreditLimitReport();
+  }, [loadCreditLimitReport]);
+
+  // Look up where a serial number arrived from and which invoice sold it
+  const lookupSerialNumber = async () => {
+    if (!serialQuery.trim()) return;
+    
+    try {
+      const result = await apolloClient.query<{ getSerialNumberHistory: SerialNumberHistory[] }>({
+        query: GET_SERIAL_NUMBER_HISTORY,
+        variables: { serialNumber: serialQuery.trim() },
+        fetchPolicy: 'no-cache'
+      });
+      setSerialHistory(result.data?.getSerialNumberHistory || []);
+    } catch (err) {
+      console.error('Error looking up serial number:', err);
+      setError('خطا در جستجوی شماره سریال: ' + (err instanceof Error ? err.message : 'خطای نامشخص'));
+    }
   };
 
   // Function to search documents
@@ -926,9 +1389,10 @@ export default function ReportsPage() {
                     <SelectValue placeholder="همه دسته‌بندی‌ها" />
                   </SelectTrigger>
                   <SelectContent>
-                    {categories.map((category) => (
-                      <SelectItem key={category} value={category || 'all'}>
-                        {category || 'همه دسته‌بندی‌ها'}
+                    <SelectItem value="all">همه دسته‌بندی‌ها</SelectItem>
+                    {flattenCategoryTree(categories).map(({ category, level }) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {indentCategoryName(category.name, level)}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -1021,15 +1485,128 @@ export default function ReportsPage() {
         </div>
 
         <Tabs defaultValue="products" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-5 no-print">
+          <TabsList className="grid w-full grid-cols-11 no-print">
             <TabsTrigger value="products">گزارش کالاها</TabsTrigger>
             <TabsTrigger value="documents">گزارش اسناد</TabsTrigger>
             <TabsTrigger value="rial-cardex">کاردکس ریالی</TabsTrigger>
             <TabsTrigger value="product-movements">گردش ریالی کالاها</TabsTrigger>
+            <TabsTrigger value="adjustments">گزارش تعدیلات</TabsTrigger>
+            <TabsTrigger value="gross-profit">سود ناخالص</TabsTrigger>
+            <TabsTrigger value="open-orders">سفارش‌های باز</TabsTrigger>
+            <TabsTrigger value="expiring-lots">انقضای بچ‌ها</TabsTrigger>
+            <TabsTrigger value="serial-lookup">شماره سریال</TabsTrigger>
+            <TabsTrigger value="credit-limits">حد اعتبار مشتریان</TabsTrigger>
             <TabsTrigger value="document-search">جستجو در اسناد</TabsTrigger>
           </TabsList>
 
           <TabsContent value="products" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <CardTitle>موجودی کالاها</CardTitle>
+                  <Select value={groupVariants ? 'parent' : 'variant'} onValueChange={(value) => setGroupVariants(value === 'parent')}>
+                    <SelectTrigger className="w-56 no-print">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="variant">به تفکیک گونه</SelectItem>
+                      <SelectItem value="parent">تجمیع گونه‌ها در کالای مادر</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>کالا</TableHead>
+                      <TableHead>کد</TableHead>
+                      <TableHead>موجودی</TableHead>
+                      <TableHead>رزرو شده</TableHead>
+                      <TableHead>قابل فروش</TableHead>
+                      <TableHead>میانگین قیمت</TableHead>
+                      <TableHead>ارزش کل</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {inventoryReport.map((row) => (
+                      <TableRow key={row.product.id}>
+                        <TableCell>
+                          {row.product.name}
+                          {row.product.variantValues && row.product.variantValues.length > 0 && (
+                            <div className="text-xs text-gray-500">
+                              {row.product.variantValues.map(({ name, value }) => `${name}: ${value}`).join('، ')}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>{row.product.code}</TableCell>
+                        <TableCell>{row.currentStock.toLocaleString()} {row.product.unit}</TableCell>
+                        <TableCell>{row.reservedStock.toLocaleString()}</TableCell>
+                        <TableCell>{row.availableStock.toLocaleString()}</TableCell>
+                        <TableCell>{Math.round(row.averagePrice || 0).toLocaleString()} ریال</TableCell>
+                        <TableCell className="font-medium">{Math.round(row.totalValue).toLocaleString()} ریال</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {inventoryReport.length === 0 && (
+                  <div className="text-center py-4 text-gray-500">کالایی یافت نشد</div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <CardTitle>موجودی به تفکیک دسته‌بندی</CardTitle>
+                  <Select value={categoryStockWarehouse} onValueChange={setCategoryStockWarehouse}>
+                    <SelectTrigger className="w-56 no-print">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">همه انبارها</SelectItem>
+                      {warehouses.map((warehouse) => (
+                        <SelectItem key={warehouse.id} value={warehouse.id}>
+                          {warehouse.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>دسته‌بندی</TableHead>
+                      <TableHead>تعداد کالا</TableHead>
+                      <TableHead>موجودی</TableHead>
+                      <TableHead>ارزش</TableHead>
+                      <TableHead>جمع با زیرمجموعه‌ها</TableHead>
+                      <TableHead>ارزش با زیرمجموعه‌ها</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {categoryStockReport.map((row) => (
+                      <TableRow key={row.category?.id || 'uncategorised'}>
+                        <TableCell style={{ paddingRight: `${row.level * 1.5 + 0.5}rem` }}>
+                          {row.category ? row.category.name : <span className="text-gray-500">بدون دسته‌بندی</span>}
+                        </TableCell>
+                        <TableCell>{row.productCount.toLocaleString()}</TableCell>
+                        <TableCell>{row.quantity.toLocaleString()}</TableCell>
+                        <TableCell>{Math.round(row.value).toLocaleString()} ریال</TableCell>
+                        <TableCell>{row.subtotalQuantity.toLocaleString()} ({row.subtotalProductCount.toLocaleString()} کالا)</TableCell>
+                        <TableCell className="font-medium">{Math.round(row.subtotalValue).toLocaleString()} ریال</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {categoryStockReport.length === 0 && (
+                  <div className="text-center py-4 text-gray-500">موجودی‌ای یافت نشد</div>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Top Products by Value */}
             <Card>
               <CardHeader>
@@ -1108,22 +1685,431 @@ export default function ReportsPage() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="adjustments" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>گزارش تعدیلات موجودی</CardTitle>
+                <p className="text-sm text-gray-600">مقدار و ارزش تعدیلات به تفکیک علت</p>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>علت</TableHead>
+                      <TableHead>جهت</TableHead>
+                      <TableHead>تعداد سند</TableHead>
+                      <TableHead>مقدار</TableHead>
+                      <TableHead>ارزش</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {adjustmentReport.map((row, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{row.reason ? adjustmentReasonLabels[row.reason] : 'نامشخص'}</TableCell>
+                        <TableCell>
+                          <Badge className={row.movementType === 'ADJUSTMENT_OUT' ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}>
+                            {row.movementType === 'ADJUSTMENT_OUT' ? 'کاهش' : 'افزایش'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{row.movementCount.toLocaleString()}</TableCell>
+                        <TableCell>{row.quantity.toLocaleString()}</TableCell>
+                        <TableCell>{Math.round(row.totalValue).toLocaleString()} ریال</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {adjustmentReport.length === 0 && (
+                  <div className="text-center py-4 text-gray-500">هیچ تعدیلی در این بازه ثبت نشده است</div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="gross-profit" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>گزارش سود ناخالص فروش</CardTitle>
+                <p className="text-sm text-gray-600">فروش، بهای تمام‌شده کالای فروش رفته و حاشیه سود اسناد نهایی، پس از کسر مرجوعی‌ها و اسناد برگشتی</p>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 no-print">
+                  <PersianDateField label="از تاریخ" value={profitDateFrom} onChange={setProfitDateFrom} />
+                  <PersianDateField label="تا تاریخ" value={profitDateTo} onChange={setProfitDateTo} />
+                  <div className="space-y-2">
+                    <Label>گروه‌بندی بر اساس</Label>
+                    <Select value={profitGroupBy} onValueChange={setProfitGroupBy}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(grossProfitGroupLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{grossProfitGroupLabels[profitGroupBy]}</TableHead>
+                      {profitGroupBy === 'INVOICE' && <TableHead>تاریخ</TableHead>}
+                      <TableHead>مقدار</TableHead>
+                      <TableHead>فروش</TableHead>
+                      <TableHead>بهای تمام‌شده</TableHead>
+                      <TableHead>سود ناخالص</TableHead>
+                      <TableHead>حاشیه سود</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {grossProfitReport.map((row) => (
+                      <TableRow key={row.key}>
+                        <TableCell className="font-medium">{row.label}</TableCell>
+                        {profitGroupBy === 'INVOICE' && <TableCell>{row.date ? formatDate(row.date) : '-'}</TableCell>}
+                        <TableCell>{row.quantity.toLocaleString()}</TableCell>
+                        <TableCell>{Math.round(row.revenue).toLocaleString()} ریال</TableCell>
+                        <TableCell>{Math.round(row.costOfGoods).toLocaleString()} ریال</TableCell>
+                        <TableCell className={row.grossProfit < 0 ? 'text-red-600' : 'text-green-600'}>
+                          {Math.round(row.grossProfit).toLocaleString()} ریال
+                        </TableCell>
+                        <TableCell>{row.marginPercent.toFixed(1)}٪</TableCell>
+                      </TableRow>
+                    ))}
+                    {grossProfitReport.length > 0 && (() => {
+                      const revenue = grossProfitReport.reduce((sum, row) => sum + row.revenue, 0);
+                      const costOfGoods = grossProfitReport.reduce((sum, row) => sum + row.costOfGoods, 0);
+                      return (
+                        <TableRow className="font-bold bg-gray-50">
+                          <TableCell colSpan={profitGroupBy === 'INVOICE' ? 3 : 2}>جمع کل</TableCell>
+                          <TableCell>{Math.round(revenue).toLocaleString()} ریال</TableCell>
+                          <TableCell>{Math.round(costOfGoods).toLocaleString()} ریال</TableCell>
+                          <TableCell>{Math.round(revenue - costOfGoods).toLocaleString()} ریال</TableCell>
+                          <TableCell>{revenue !== 0 ? ((revenue - costOfGoods) / revenue * 100).toFixed(1) : '0.0'}٪</TableCell>
+                        </TableRow>
+                      );
+                    })()}
+                  </TableBody>
+                </Table>
+                {grossProfitReport.length === 0 && (
+                  <div className="text-center py-4 text-gray-500">هیچ فروشی در این بازه ثبت نشده است</div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="open-orders" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-center">
+                  <div>
+                    <CardTitle>سفارش‌های خرید باز</CardTitle>
+                    <p className="text-sm text-gray-600">سفارش‌های خرید نهایی که هنوز همه اقلام آن‌ها دریافت نشده است</p>
+                  </div>
+                  <div className="flex items-end gap-2">
+                    <div>
+                      <Label>تامین‌کننده</Label>
+                      <Select value={orderSupplierId} onValueChange={setOrderSupplierId}>
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">همه تامین‌کنندگان</SelectItem>
+                          {suppliers.map((supplier) => (
+                            <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label>وضعیت</Label>
+                      <Select value={overdueOrdersOnly ? 'overdue' : 'all'} onValueChange={(value) => setOverdueOrdersOnly(value === 'overdue')}>
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">همه سفارش‌ها</SelectItem>
+                          <SelectItem value="overdue">فقط معوق</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>شماره سفارش</TableHead>
+                      <TableHead>تامین‌کننده</TableHead>
+                      <TableHead>تاریخ سفارش</TableHead>
+                      <TableHead>تاریخ تحویل</TableHead>
+                      <TableHead>کالا</TableHead>
+                      <TableHead>سفارش</TableHead>
+                      <TableHead>دریافت شده</TableHead>
+                      <TableHead>مانده</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {openPurchaseOrders.flatMap((openOrder) =>
+                      openOrder.lines
+                        .filter((line) => line.outstandingQuantity > 0)
+                        .map((line, index) => (
+                          <TableRow key={`${openOrder.order.id}:${line.product.id}`}>
+                            {index === 0 && (
+                              <>
+                                <TableCell>{openOrder.order.documentNumber}</TableCell>
+                                <TableCell>{openOrder.order.supplier?.name || '-'}</TableCell>
+                                <TableCell>{formatDate(openOrder.order.date)}</TableCell>
+                                <TableCell>
+                                  {openOrder.expectedDate ? (
+                                    <Badge className={openOrder.isOverdue ? 'bg-red-100 text-red-800' : 'bg-blue-100 text-blue-800'}>
+                                      {formatDate(openOrder.expectedDate)}{openOrder.isOverdue && ' (معوق)'}
+                                    </Badge>
+                                  ) : '-'}
+                                </TableCell>
+                              </>
+                            )}
+                            {index > 0 && <TableCell colSpan={4} />}
+                            <TableCell>{line.product.name} ({line.product.code})</TableCell>
+                            <TableCell>{line.orderedQuantity.toLocaleString()} {line.product.unit}</TableCell>
+                            <TableCell>{line.deliveredQuantity.toLocaleString()}</TableCell>
+                            <TableCell className="font-medium">{line.outstandingQuantity.toLocaleString()}</TableCell>
+                          </TableRow>
+                        ))
+                    )}
+                    {openPurchaseOrders.length > 0 && (
+                      <TableRow className="font-bold bg-gray-50">
+                        <TableCell colSpan={7}>ارزش اقلام دریافت نشده</TableCell>
+                        <TableCell>
+                          {Math.round(openPurchaseOrders.reduce((sum, openOrder) => sum + openOrder.outstandingAmount, 0)).toLocaleString()} ریال
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+                {openPurchaseOrders.length === 0 && (
+                  <div className="text-center py-4 text-gray-500">سفارش خرید بازی وجود ندارد</div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="expiring-lots" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-center">
+                  <div>
+                    <CardTitle>بچ‌های در آستانه انقضا</CardTitle>
+                    <p className="text-sm text-gray-600">بچ‌های موجود که تا تعداد روز انتخابی منقضی می‌شوند، به همراه بچ‌های منقضی شده</p>
+                  </div>
+                  <div className="flex items-end gap-2">
+                    <div>
+                      <Label htmlFor="expiryDays">تعداد روز</Label>
+                      <Input
+                        id="expiryDays"
+                        type="number"
+                        min={0}
+                        value={expiryDays}
+                        onChange={(e) => setExpiryDays(e.target.value ? parseInt(e.target.value) : 0)}
+                        className="w-24"
+                      />
+                    </div>
+                    <Button variant="outline" onClick={() => loadExpiringLots()}>
+                      نمایش
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>کالا</TableHead>
+                      <TableHead>بچ</TableHead>
+                      <TableHead>انبار</TableHead>
+                      <TableHead>تاریخ انقضا</TableHead>
+                      <TableHead>روز مانده</TableHead>
+                      <TableHead>موجودی</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {expiringLots.map((lot, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{lot.product.name} ({lot.product.code})</TableCell>
+                        <TableCell>{lot.lotNumber}</TableCell>
+                        <TableCell>{lot.warehouse?.name || '-'}</TableCell>
+                        <TableCell>{formatDate(lot.expiryDate)}</TableCell>
+                        <TableCell>
+                          <Badge className={lot.daysToExpiry <= 0 ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}>
+                            {lot.daysToExpiry <= 0 ? 'منقضی شده' : `${lot.daysToExpiry.toLocaleString()} روز`}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{lot.quantity.toLocaleString()} {lot.product.unit}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {expiringLots.length === 0 && (
+                  <div className="text-center py-4 text-gray-500">بچی در این بازه منقضی نمی‌شود</div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="credit-limits" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-center">
+                  <div>
+                    <CardTitle>مشتریان نزدیک یا بیش از حد اعتبار</CardTitle>
+                    <p className="text-sm text-gray-600">مشتریانی که مانده حسابشان دست‌کم درصد انتخابی از حد اعتبارشان است</p>
+                  </div>
+                  <div className="flex items-end gap-2">
+                    <div>
+                      <Label htmlFor="creditWarningPercent">درصد هشدار</Label>
+                      <Input
+                        id="creditWarningPercent"
+                        type="number"
+                        min={0}
+                        value={creditWarningPercent}
+                        onChange={(e) => setCreditWarningPercent(e.target.value ? parseFloat(e.target.value) : 0)}
+                        className="w-24"
+                      />
+                    </div>
+                    <Button variant="outline" onClick={() => loadCreditLimitReport()}>
+                      نمایش
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>مشتری</TableHead>
+                      <TableHead>حد اعتبار</TableHead>
+                      <TableHead>مانده حساب</TableHead>
+                      <TableHead>اعتبار باقی‌مانده</TableHead>
+                      <TableHead>درصد استفاده</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {creditLimitReport.map((row) => (
+                      <TableRow key={row.customer.id}>
+                        <TableCell>
+                          {row.customer.name}
+                          {row.customer.phone && <div className="text-xs text-gray-500">{row.customer.phone}</div>}
+                        </TableCell>
+                        <TableCell>{row.creditLimit.toLocaleString()} ریال</TableCell>
+                        <TableCell>{Math.round(row.balance).toLocaleString()} ریال</TableCell>
+                        <TableCell className={row.isOverLimit ? 'text-red-600' : ''}>
+                          {Math.round(row.availableCredit).toLocaleString()} ریال
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={row.isOverLimit ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}>
+                            {row.isOverLimit ? 'بیش از حد اعتبار' : 'نزدیک به حد اعتبار'} ({Math.round(row.usedPercent).toLocaleString()}٪)
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {creditLimitReport.length === 0 && (
+                  <div className="text-center py-4 text-gray-500">مشتری‌ای به این درصد از حد اعتبار خود نرسیده است</div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="serial-lookup" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>ردیابی شماره سریال</CardTitle>
+                <p className="text-sm text-gray-600">مبدا خرید و فاکتور فروش یک دستگاه بر اساس شماره سریال</p>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-end gap-2">
+                  <div className="flex-1">
+                    <Label htmlFor="serialQuery">شماره سریال</Label>
+                    <Input
+                      id="serialQuery"
+                      value={serialQuery}
+                      onChange={(e) => setSerialQuery(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && lookupSerialNumber()}
+                      className="ltr-content"
+                    />
+                  </div>
+                  <Button onClick={lookupSerialNumber}>جستجو</Button>
+                </div>
+
+                {serialHistory && serialHistory.length === 0 && (
+                  <div className="text-center py-4 text-gray-500">این شماره سریال در هیچ سندی ثبت نشده است</div>
+                )}
+
+                {serialHistory?.map((history) => (
+                  <div key={history.product.id} className="border rounded-md p-4 space-y-3">
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium">{history.product.name} ({history.product.code})</span>
+                      <Badge className={history.inStock ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
+                        {history.inStock ? `موجود در ${history.warehouse?.name || 'انبار'}` : 'خارج از انبار'}
+                      </Badge>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+                      <div>
+                        <span className="text-gray-600">ورود: </span>
+                        {history.receivedIn
+                          ? `${getDocumentTypeLabel(history.receivedIn.documentType)} ${history.receivedIn.documentNumber} - ${formatDate(history.receivedIn.date)}${history.receivedIn.supplier ? ` - ${history.receivedIn.supplier.name}` : ''}`
+                          : '-'}
+                      </div>
+                      <div>
+                        <span className="text-gray-600">فروش: </span>
+                        {history.soldIn
+                          ? `${history.soldIn.documentNumber} - ${formatDate(history.soldIn.date)}${history.soldIn.customer ? ` - ${history.soldIn.customer.name}` : ''}`
+                          : '-'}
+                      </div>
+                    </div>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>تاریخ</TableHead>
+                          <TableHead>نوع سند</TableHead>
+                          <TableHead>شماره سند</TableHead>
+                          <TableHead>انبار</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {history.movements.map((movement) => (
+                          <TableRow key={movement.id}>
+                            <TableCell>{formatDate(movement.date)}</TableCell>
+                            <TableCell>
+                              {getDocumentTypeLabel(movement.document?.documentType || '')}
+                              {movement.isReversal && <Badge variant="outline" className="mr-2">برگشتی</Badge>}
+                            </TableCell>
+                            <TableCell>{movement.document?.documentNumber || '-'}</TableCell>
+                            <TableCell>{movement.warehouse?.name || '-'}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="rial-cardex" className="space-y-4">
             <Card>
               <CardHeader>
                 <CardTitle>کاردکس ریالی</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
                   <div>
                     <Label htmlFor="product">کالا</Label>
                     <Select value={selectedProduct} onValueChange={(value) => {
                       setSelectedProduct(value);
-                      if (value) {
-                        calculateRialCardex(value);
-                      } else {
-                        setRialCardexData([]);
-                      }
+                      setSelectedLot('');
+                      setCardexUnit('');
                     }}>
                       <SelectTrigger>
                         <SelectValue placeholder="انتخاب کالا" />
@@ -1139,10 +2125,58 @@ export default function ReportsPage() {
                       </SelectContent>
                     </Select>
                   </div>
+                  <div>
+                    <Label htmlFor="warehouse">انبار</Label>
+                    <Select value={selectedWarehouse} onValueChange={(value) => {
+                      setSelectedWarehouse(value);
+                    }}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="همه انبارها" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">همه انبارها</SelectItem>
+                        {warehouses.map((warehouse) => (
+                          <SelectItem key={warehouse.id} value={warehouse.id}>
+                            {warehouse.name} ({warehouse.code})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {cardexProduct?.alternateUnits?.length ? (
+                    <div>
+                      <Label>واحد نمایش</Label>
+                      <Select value={cardexUnit || cardexProduct.unit} onValueChange={(value) => {
+                        setCardexUnit(value === cardexProduct.unit ? '' : value);
+                      }}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={cardexProduct.unit}>{cardexProduct.unit}</SelectItem>
+                          {cardexProduct.alternateUnits.map((alternate) => (
+                            <SelectItem key={alternate.unit} value={alternate.unit}>
+                              {alternate.unit}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ) : null}
                 </div>
                 
+                {selectedLot && (
+                  <div className="flex items-center gap-2 mb-4">
+                    <Badge variant="outline">بچ {selectedLot}</Badge>
+                    <Button size="sm" variant="outline" onClick={() => setSelectedLot('')}>
+                      همه بچ‌ها
+                    </Button>
+                  </div>
+                )}
+                
                 <div className="bg-blue-50 border border-blue-200 rounded-md p-3 mb-4 text-sm text-blue-800">
                   <p>این گزارش شامل اسناد پیش‌نویس نیز می‌شود تا بتوانید قبل از نهایی کردن اسناد، محاسبات را بررسی کنید.</p>
+                  <p>در صورت انتخاب «از تاریخ» در فیلترها، ردیف اول مانده کالا در ابتدای بازه را نشان می‌دهد.</p>
                 </div>
 
                 {isCalculating && (
@@ -1168,16 +2202,29 @@ export default function ReportsPage() {
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {rialCardexData.map((item, index) => (
-                        <TableRow key={index}>
+                      {displayedCardex.map((item, index) => (
+                        <TableRow key={index} className={item.isOpeningBalance ? 'bg-gray-50 font-medium' : undefined}>
                           <TableCell>{new Date(item.date).toLocaleDateString('fa-IR')}</TableCell>
                           <TableCell>
                             <div className="flex items-center gap-2">
-                              <span>{getDocumentTypeLabel(item.documentType)}</span>
+                              <span>{item.isOpeningBalance ? 'مانده از قبل' : getDocumentTypeLabel(item.documentType || '')}</span>
+                              {item.adjustmentReason && (
+                                <Badge variant="outline">{adjustmentReasonLabels[item.adjustmentReason]}</Badge>
+                              )}
+                              {item.lotNumber && !selectedLot && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  className="h-6 px-2 text-xs"
+                                  onClick={() => setSelectedLot(item.lotNumber!)}
+                                >
+                                  بچ {item.lotNumber}
+                                </Button>
+                              )}
                               {/* Show draft indicator if needed */}
                             </div>
                           </TableCell>
-                          <TableCell>{item.documentNumber}</TableCell>
+                          <TableCell>{item.documentNumber || '-'}</TableCell>
                           <TableCell>{item.inQuantity > 0 ? item.inQuantity.toLocaleString() : '-'}</TableCell>
                           <TableCell>{item.inUnitPrice > 0 ? item.inUnitPrice.toLocaleString() : '-'}</TableCell>
                           <TableCell>{item.inTotalPrice > 0 ? item.inTotalPrice.toLocaleString() : '-'}</TableCell>
@@ -0,0 +1,641 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { MainNavigation } from "@/components/navigation/Navigation";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { PersianDateField } from "@/components/ui/persian-date-picker";
+import { ClipboardList, Plus, Save, CheckCircle, AlertCircle, XCircle } from "lucide-react";
+import { formatPersianNumber } from "@/lib/persian";
+import { CategoryNode, flattenCategoryTree } from "@/lib/categories";
+import { apolloClient } from "@/lib/apollo-client";
+import { gql } from "@apollo/client";
+
+// GraphQL queries
+const STOCK_COUNT_FIELDS = `
+  id
+  countNumber
+  warehouse {
+    id
+    name
+  }
+  date
+  categories {
+    id
+    name
+  }
+  status
+  description
+  items {
+    id
+    product {
+      id
+      name
+      code
+      unit
+    }
+    lotNumber
+    expiryDate
+    expectedQuantity
+    counts {
+      counter
+      quantity
+      countedAt
+    }
+    countedQuantity
+    variance
+  }
+  adjustmentDocument {
+    id
+    documentNumber
+  }
+  postedAt
+`;
+
+const GET_STOCK_COUNTS = gql`
+  query GetStockCounts {
+    getStockCounts {
+      ${STOCK_COUNT_FIELDS}
+    }
+  }
+`;
+
+const GET_WAREHOUSES = gql`
+  query GetWarehouses($isActive: Boolean) {
+    getWarehouses(isActive: $isActive) {
+      id
+      name
+      isDefault
+    }
+  }
+`;
+
+const GET_CATEGORIES = gql`
+  query GetCategories {
+    getCategories {
+      id
+      name
+      parent {
+        id
+      }
+    }
+  }
+`;
+
+const CREATE_STOCK_COUNT = gql`
+  mutation CreateStockCount($input: StockCountInput!) {
+    createStockCount(input: $input) {
+      ${STOCK_COUNT_FIELDS}
+    }
+  }
+`;
+
+const RECORD_STOCK_COUNTS = gql`
+  mutation RecordStockCounts($id: ID!, $counter: String!, $entries: [StockCountEntryInput!]!) {
+    recordStockCounts(id: $id, counter: $counter, entries: $entries) {
+      ${STOCK_COUNT_FIELDS}
+    }
+  }
+`;
+
+const POST_STOCK_COUNT = gql`
+  mutation PostStockCount($id: ID!) {
+    postStockCount(id: $id) {
+      ${STOCK_COUNT_FIELDS}
+    }
+  }
+`;
+
+const CANCEL_STOCK_COUNT = gql`
+  mutation CancelStockCount($id: ID!) {
+    cancelStockCount(id: $id) {
+      ${STOCK_COUNT_FIELDS}
+    }
+  }
+`;
+
+interface Warehouse {
+  id: string;
+  name: string;
+  isDefault: boolean;
+}
+
+interface StockCountItem {
+  id: string;
+  product: { id: string; name: string; code: string; unit: string };
+  lotNumber?: string;
+  expiryDate?: number;
+  expectedQuantity: number;
+  counts: { counter: string; quantity: number; countedAt: number }[];
+  countedQuantity: number | null;
+  variance: number | null;
+}
+
+interface StockCount {
+  id: string;
+  countNumber: string;
+  warehouse?: { id: string; name: string };
+  date: number;
+  categories: { id: string; name: string }[];
+  status: string;
+  description?: string;
+  items: StockCountItem[];
+  adjustmentDocument?: { id: string; documentNumber: string };
+  postedAt?: number;
+}
+
+const statusLabels: Record<string, string> = {
+  COUNTING: "در حال شمارش",
+  POSTED: "ثبت شده",
+  CANCELLED: "لغو شده"
+};
+
+const statusClasses: Record<string, string> = {
+  COUNTING: "bg-blue-100 text-blue-800",
+  POSTED: "bg-green-100 text-green-800",
+  CANCELLED: "bg-gray-100 text-gray-800"
+};
+
+const formatDate = (value: number) => new Date(value).toLocaleDateString('fa-IR');
+
+export default function StockCountsPage() {
+  const [stockCounts, setStockCounts] = useState<StockCount[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [categories, setCategories] = useState<CategoryNode[]>([]);
+  const [selectedCount, setSelectedCount] = useState<StockCount | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [success, setSuccess] = useState("");
+  const [error, setError] = useState("");
+
+  // New count form
+  const [countNumber, setCountNumber] = useState("");
+  const [warehouseId, setWarehouseId] = useState("");
+  const [countDate, setCountDate] = useState<Date | undefined>(() => new Date());
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [description, setDescription] = useState("");
+
+  // Counting
+  const [counterName, setCounterName] = useState("");
+  const [enteredQuantities, setEnteredQuantities] = useState<Record<string, string>>({});
+  const [showVariancesOnly, setShowVariancesOnly] = useState(false);
+
+  const loadStockCounts = async () => {
+    setIsLoading(true);
+    try {
+      const result = await apolloClient.query<{ getStockCounts: StockCount[] }>({ query: GET_STOCK_COUNTS, fetchPolicy: 'no-cache' });
+      const counts = result.data?.getStockCounts || [];
+      setStockCounts(counts);
+      setSelectedCount(current => current ? counts.find(count => count.id === current.id) || null : null);
+    } catch (err) {
+      console.error('Error loading stock counts:', err);
+      setError("خطا در بارگذاری انبارگردانی‌ها");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadOptions = async () => {
+    try {
+      const [warehousesResult, categoriesResult] = await Promise.all([
+        apolloClient.query<{ getWarehouses: Warehouse[] }>({ query: GET_WAREHOUSES, variables: { isActive: true }, fetchPolicy: 'no-cache' }),
+        apolloClient.query<{ getCategories: CategoryNode[] }>({ query: GET_CATEGORIES, fetchPolicy: 'no-cache' })
+      ]);
+      const warehouseList = warehousesResult.data?.getWarehouses || [];
+      setWarehouses(warehouseList);
+      setWarehouseId(current => current || warehouseList.find(warehouse => warehouse.isDefault)?.id || "");
+      setCategories(categoriesResult.data?.getCategories || []);
+    } catch (err) {
+      console.error('Error loading stock count options:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadStockCounts();
+    loadOptions();
+  }, []);
+
+  // Show a count with the active counter's own earlier entries filled in
+  const selectCount = (stockCount: StockCount | null, counter = counterName) => {
+    setSelectedCount(stockCount);
+    const quantities: Record<string, string> = {};
+    for (const item of stockCount?.items || []) {
+      const entry = item.counts.find(count => count.counter === counter.trim());
+      if (entry) quantities[item.id] = String(entry.quantity);
+    }
+    setEnteredQuantities(quantities);
+  };
+
+  const handleCreate = async () => {
+    if (!countNumber.trim() || !warehouseId || !countDate) {
+      setError("شماره، انبار و تاریخ انبارگردانی الزامی است");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError("");
+    setSuccess("");
+
+    try {
+      const result = await apolloClient.mutate<{ createStockCount: StockCount }>({
+        mutation: CREATE_STOCK_COUNT,
+        variables: {
+          input: {
+            countNumber: countNumber.trim(),
+            warehouseId,
+            date: countDate.getTime(),
+            categories: selectedCategories.length > 0 ? selectedCategories : undefined,
+            description: description || undefined
+          }
+        }
+      });
+      const created = result.data!.createStockCount;
+      setStockCounts(prev => [created, ...prev]);
+      selectCount(created);
+      setSuccess(`انبارگردانی ${created.countNumber} با ${formatPersianNumber(created.items.length)} ردیف ایجاد شد`);
+      setIsDialogOpen(false);
+      setCountNumber("");
+      setSelectedCategories([]);
+      setDescription("");
+    } catch (err) {
+      console.error('Error creating stock count:', err);
+      setError(err instanceof Error ? `خطا در ایجاد انبارگردانی: ${err.message}` : "خطا در ایجاد انبارگردانی");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const replaceCount = (updated: StockCount) => {
+    setStockCounts(prev => prev.map(count => count.id === updated.id ? updated : count));
+    setSelectedCount(updated);
+  };
+
+  const handleSaveCounts = async () => {
+    if (!selectedCount) return;
+    if (!counterName.trim()) {
+      setError("نام شمارشگر الزامی است");
+      return;
+    }
+
+    const entries = Object.entries(enteredQuantities)
+      .filter(([, value]) => value.trim() !== "")
+      .map(([itemId, value]) => ({ itemId, quantity: parseFloat(value) }));
+    if (entries.some(entry => isNaN(entry.quantity) || entry.quantity < 0)) {
+      setError("مقدار شمارش شده باید عددی بزرگتر یا مساوی صفر باشد");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError("");
+    setSuccess("");
+
+    try {
+      const result = await apolloClient.mutate<{ recordStockCounts: StockCount }>({
+        mutation: RECORD_STOCK_COUNTS,
+        variables: { id: selectedCount.id, counter: counterName.trim(), entries }
+      });
+      replaceCount(result.data!.recordStockCounts);
+      setSuccess(`شمارش ${formatPersianNumber(entries.length)} ردیف ذخیره شد`);
+    } catch (err) {
+      console.error('Error recording stock counts:', err);
+      setError(err instanceof Error ? `خطا در ذخیره شمارش: ${err.message}` : "خطا در ذخیره شمارش");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePost = async () => {
+    if (!selectedCount) return;
+    const varianceCount = selectedCount.items.filter(item => item.variance).length;
+    if (!confirm(`مغایرت ${formatPersianNumber(varianceCount)} ردیف به صورت سند تعدیل ثبت شود؟ ردیف‌های شمارش نشده نادیده گرفته می‌شوند.`)) return;
+
+    setIsSubmitting(true);
+    setError("");
+    setSuccess("");
+
+    try {
+      const result = await apolloClient.mutate<{ postStockCount: StockCount }>({
+        mutation: POST_STOCK_COUNT,
+        variables: { id: selectedCount.id }
+      });
+      const posted = result.data!.postStockCount;
+      replaceCount(posted);
+      setSuccess(posted.adjustmentDocument
+        ? `مغایرت‌ها با سند تعدیل ${posted.adjustmentDocument.documentNumber} ثبت شد`
+        : "انبارگردانی بدون مغایرت ثبت شد");
+    } catch (err) {
+      console.error('Error posting stock count:', err);
+      setError(err instanceof Error ? `خطا در ثبت انبارگردانی: ${err.message}` : "خطا در ثبت انبارگردانی");
+      await loadStockCounts();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!selectedCount) return;
+    if (!confirm(`انبارگردانی ${selectedCount.countNumber} لغو شود؟`)) return;
+
+    try {
+      const result = await apolloClient.mutate<{ cancelStockCount: StockCount }>({
+        mutation: CANCEL_STOCK_COUNT,
+        variables: { id: selectedCount.id }
+      });
+      replaceCount(result.data!.cancelStockCount);
+      setSuccess("انبارگردانی لغو شد");
+    } catch (err) {
+      console.error('Error cancelling stock count:', err);
+      setError(err instanceof Error ? `خطا در لغو انبارگردانی: ${err.message}` : "خطا در لغو انبارگردانی");
+    }
+  };
+
+  const isOpen = selectedCount?.status === 'COUNTING';
+  const visibleItems = (selectedCount?.items || []).filter(item => !showVariancesOnly || item.variance);
+  const countedItems = (selectedCount?.items || []).filter(item => item.countedQuantity !== null).length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <MainNavigation />
+
+      <div className="container mx-auto p-6 space-y-6">
+        {/* Page Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <ClipboardList className="h-8 w-8" />
+              انبارگردانی
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              شمارش فیزیکی موجودی و ثبت مغایرت‌ها به صورت سند تعدیل
+            </p>
+          </div>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button className="flex items-center gap-2">
+                <Plus className="h-4 w-4" />
+                انبارگردانی جدید
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>انبارگردانی جدید</DialogTitle>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>شماره انبارگردانی *</Label>
+                    <Input value={countNumber} onChange={(e) => setCountNumber(e.target.value)} placeholder="SC-1404-01" className="ltr-content" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>انبار *</Label>
+                    <Select value={warehouseId} onValueChange={setWarehouseId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="انتخاب انبار" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {warehouses.map((warehouse) => (
+                          <SelectItem key={warehouse.id} value={warehouse.id}>{warehouse.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <PersianDateField
+                  label="تاریخ انبارگردانی *"
+                  value={countDate}
+                  onChange={setCountDate}
+                  helperText="موجودی دفتری کالاها در این تاریخ مبنای مغایرت است"
+                />
+
+                <div className="space-y-2">
+                  <Label>دسته‌بندی‌ها</Label>
+                  <p className="text-sm text-muted-foreground">
+                    هر دسته‌بندی زیرمجموعه‌های خود را هم در بر می‌گیرد؛ در صورت عدم انتخاب، همه کالاهای فعال شمارش می‌شوند
+                  </p>
+                  <div className="flex flex-col gap-2 max-h-48 overflow-y-auto">
+                    {flattenCategoryTree(categories).map(({ category, level }) => (
+                      <label key={category.id} className="flex items-center gap-2 text-sm" style={{ paddingRight: `${level * 1.5}rem` }}>
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4"
+                          checked={selectedCategories.includes(category.id)}
+                          onChange={(e) => setSelectedCategories(prev =>
+                            e.target.checked ? [...prev, category.id] : prev.filter(c => c !== category.id)
+                          )}
+                        />
+                        {category.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>توضیحات</Label>
+                  <Input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="توضیحات" />
+                </div>
+
+                <div className="flex justify-end gap-2 pt-4">
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    لغو
+                  </Button>
+                  <Button onClick={handleCreate} disabled={isSubmitting}>
+                    {isSubmitting ? "در حال ثبت..." : "شروع شمارش"}
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {/* Success/Error Messages */}
+        {success && (
+          <Card className="border-green-200 bg-green-50">
+            <CardContent className="flex items-center gap-2 p-4">
+              <CheckCircle className="h-5 w-5 text-green-600" />
+              <span className="text-green-800">{success}</span>
+            </CardContent>
+          </Card>
+        )}
+
+        {error && (
+          <Card className="border-red-200 bg-red-50">
+            <CardContent className="flex items-center gap-2 p-4">
+              <AlertCircle className="h-5 w-5 text-red-600" />
+              <span className="text-red-800">{error}</span>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Stock Counts Table */}
+        <Card>
+          <CardHeader>
+            <CardTitle>لیست انبارگردانی‌ها</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8">در حال بارگذاری...</div>
+            ) : stockCounts.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">هیچ انبارگردانی ثبت نشده است</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="rtl-table">
+                    <TableHead>شماره</TableHead>
+                    <TableHead>انبار</TableHead>
+                    <TableHead>تاریخ</TableHead>
+                    <TableHead>ردیف‌ها</TableHead>
+                    <TableHead>وضعیت</TableHead>
+                    <TableHead>سند تعدیل</TableHead>
+                    <TableHead>عملیات</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stockCounts.map((stockCount) => (
+                    <TableRow key={stockCount.id} className={selectedCount?.id === stockCount.id ? "bg-accent" : ""}>
+                      <TableCell className="font-medium ltr-content">{stockCount.countNumber}</TableCell>
+                      <TableCell>{stockCount.warehouse?.name || "-"}</TableCell>
+                      <TableCell>{formatDate(stockCount.date)}</TableCell>
+                      <TableCell>{formatPersianNumber(stockCount.items.length)}</TableCell>
+                      <TableCell>
+                        <Badge className={statusClasses[stockCount.status]}>{statusLabels[stockCount.status]}</Badge>
+                      </TableCell>
+                      <TableCell>{stockCount.adjustmentDocument?.documentNumber || "-"}</TableCell>
+                      <TableCell>
+                        <Button size="sm" variant="outline" onClick={() => selectCount(stockCount)}>
+                          {stockCount.status === 'COUNTING' ? "شمارش" : "مشاهده"}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Counting and Variance Review */}
+        {selectedCount && (
+          <Card>
+            <CardHeader>
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                  <CardTitle>انبارگردانی {selectedCount.countNumber}</CardTitle>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {selectedCount.warehouse?.name} - {formatDate(selectedCount.date)} - {formatPersianNumber(countedItems)} از {formatPersianNumber(selectedCount.items.length)} ردیف شمارش شده
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-end gap-2">
+                  {isOpen && (
+                    <div className="space-y-1">
+                      <Label>نام شمارشگر</Label>
+                      <Input
+                        value={counterName}
+                        onChange={(e) => setCounterName(e.target.value)}
+                        onBlur={() => selectCount(selectedCount)}
+                        placeholder="نام شمارشگر"
+                        className="w-48"
+                      />
+                    </div>
+                  )}
+                  <label className="flex items-center gap-2 text-sm h-9">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4"
+                      checked={showVariancesOnly}
+                      onChange={(e) => setShowVariancesOnly(e.target.checked)}
+                    />
+                    فقط مغایرت‌ها
+                  </label>
+                  {isOpen && (
+                    <>
+                      <Button onClick={handleSaveCounts} disabled={isSubmitting} className="flex items-center gap-2">
+                        <Save className="h-4 w-4" />
+                        ذخیره شمارش
+                      </Button>
+                      <Button onClick={handlePost} disabled={isSubmitting || countedItems === 0} variant="secondary" className="flex items-center gap-2">
+                        <CheckCircle className="h-4 w-4" />
+                        ثبت مغایرت‌ها
+                      </Button>
+                      <Button onClick={handleCancel} disabled={isSubmitting} variant="outline" className="flex items-center gap-2 text-red-600 hover:text-red-700">
+                        <XCircle className="h-4 w-4" />
+                        لغو
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow className="rtl-table">
+                    <TableHead>کد</TableHead>
+                    <TableHead>کالا</TableHead>
+                    <TableHead>بچ</TableHead>
+                    <TableHead>موجودی دفتری</TableHead>
+                    <TableHead>شمارش‌ها</TableHead>
+                    {isOpen && <TableHead>شمارش من</TableHead>}
+                    <TableHead>جمع شمارش</TableHead>
+                    <TableHead>مغایرت</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleItems.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell className="ltr-content">{item.product.code}</TableCell>
+                      <TableCell className="font-medium">{item.product.name}</TableCell>
+                      <TableCell>
+                        {item.lotNumber || "-"}
+                        {item.expiryDate && (
+                          <div className="text-xs text-muted-foreground">انقضا: {formatDate(item.expiryDate)}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{item.expectedQuantity.toLocaleString()} {item.product.unit}</TableCell>
+                      <TableCell className="text-sm">
+                        {item.counts.length > 0
+                          ? item.counts.map(count => `${count.counter}: ${count.quantity.toLocaleString()}`).join('، ')
+                          : <span className="text-muted-foreground">شمارش نشده</span>}
+                      </TableCell>
+                      {isOpen && (
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="any"
+                            className="w-28"
+                            value={enteredQuantities[item.id] ?? ""}
+                            onChange={(e) => setEnteredQuantities(prev => ({ ...prev, [item.id]: e.target.value }))}
+                          />
+                        </TableCell>
+                      )}
+                      <TableCell>{item.countedQuantity !== null ? item.countedQuantity.toLocaleString() : "-"}</TableCell>
+                      <TableCell>
+                        {item.variance === null ? "-" : (
+                          <span className={item.variance > 0 ? "text-green-600" : item.variance < 0 ? "text-red-600" : ""}>
+                            {item.variance > 0 ? "+" : ""}{item.variance.toLocaleString()}
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {visibleItems.length === 0 && (
+                <div className="text-center py-4 text-muted-foreground">هیچ مغایرتی یافت نشد</div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
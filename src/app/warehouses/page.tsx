@@ -0,0 +1,460 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { MainNavigation } from "@/components/navigation/Navigation";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Badge } from "@/components/ui/badge";
+import { Warehouse as WarehouseIcon, Plus, Search, Edit, Trash2, CheckCircle, AlertCircle } from "lucide-react";
+import { formatPersianNumber } from "@/lib/persian";
+import { apolloClient } from "@/lib/apollo-client";
+import { gql } from "@apollo/client";
+
+// GraphQL queries
+const GET_WAREHOUSES = gql`
+  query GetWarehouses($isActive: Boolean) {
+    getWarehouses(isActive: $isActive) {
+      id
+      name
+      code
+      address
+      description
+      isDefault
+      isActive
+      createdAt
+      updatedAt
+    }
+  }
+`;
+
+const CREATE_WAREHOUSE = gql`
+  mutation CreateWarehouse($input: WarehouseInput!) {
+    createWarehouse(input: $input) {
+      id
+      name
+      code
+      address
+      description
+      isDefault
+      isActive
+      createdAt
+    }
+  }
+`;
+
+const UPDATE_WAREHOUSE = gql`
+  mutation UpdateWarehouse($id: ID!, $input: WarehouseInput!) {
+    updateWarehouse(id: $id, input: $input) {
+      id
+      name
+      code
+      address
+      description
+      isDefault
+      isActive
+      updatedAt
+    }
+  }
+`;
+
+const DELETE_WAREHOUSE = gql`
+  mutation DeleteWarehouse($id: ID!) {
+    deleteWarehouse(id: $id)
+  }
+`;
+
+const warehouseSchema = z.object({
+  name: z.string().min(1, "نام انبار الزامی است"),
+  code: z.string().min(1, "کد انبار الزامی است"),
+  address: z.string().optional(),
+  description: z.string().optional(),
+  isDefault: z.boolean(),
+});
+
+type WarehouseFormData = z.infer<typeof warehouseSchema>;
+
+interface Warehouse {
+  id: string;
+  name: string;
+  code: string;
+  address?: string;
+  description?: string;
+  isDefault: boolean;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export default function WarehousesPage() {
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [filteredWarehouses, setFilteredWarehouses] = useState<Warehouse[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingWarehouse, setEditingWarehouse] = useState<Warehouse | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [success, setSuccess] = useState("");
+  const [error, setError] = useState("");
+
+  const form = useForm<WarehouseFormData>({
+    resolver: zodResolver(warehouseSchema),
+    defaultValues: {
+      name: "",
+      code: "",
+      address: "",
+      description: "",
+      isDefault: false,
+    },
+  });
+
+  const loadWarehouses = async () => {
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const result = await apolloClient.query<{ getWarehouses: Warehouse[] }>({
+        query: GET_WAREHOUSES,
+        variables: { isActive: true },
+        fetchPolicy: 'no-cache'
+      });
+
+      if (result.data?.getWarehouses) {
+        setWarehouses(result.data.getWarehouses);
+        setFilteredWarehouses(result.data.getWarehouses);
+      }
+    } catch (err) {
+      console.error('Error loading warehouses:', err);
+      setError("خطا در بارگذاری انبارها");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Load warehouses from database
+  useEffect(() => {
+    loadWarehouses();
+  }, []);
+
+  // Filter warehouses based on search term
+  useEffect(() => {
+    if (searchTerm.trim()) {
+      const filtered = warehouses.filter(warehouse =>
+        warehouse.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        warehouse.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        warehouse.address?.toLowerCase().includes(searchTerm.toLowerCase())
+      );
+      setFilteredWarehouses(filtered);
+    } else {
+      setFilteredWarehouses(warehouses);
+    }
+  }, [searchTerm, warehouses]);
+
+  const handleSubmit = async (data: WarehouseFormData) => {
+    setIsSubmitting(true);
+    setError("");
+    setSuccess("");
+
+    try {
+      if (editingWarehouse) {
+        // Update existing warehouse
+        await apolloClient.mutate({
+          mutation: UPDATE_WAREHOUSE,
+          variables: { id: editingWarehouse.id, input: data }
+        });
+        setSuccess("انبار با موفقیت به‌روزرسانی شد");
+      } else {
+        // Create new warehouse
+        await apolloClient.mutate({
+          mutation: CREATE_WAREHOUSE,
+          variables: { input: data }
+        });
+        setSuccess("انبار جدید با موفقیت اضافه شد");
+      }
+
+      // Changing the default warehouse affects other rows, so reload the list
+      await loadWarehouses();
+
+      setIsDialogOpen(false);
+      setEditingWarehouse(null);
+      form.reset();
+    } catch (err) {
+      console.error('Error submitting warehouse:', err);
+      setError(err instanceof Error ? `خطا در ثبت انبار: ${err.message}` : "خطا در ثبت انبار");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEdit = (warehouse: Warehouse) => {
+    setEditingWarehouse(warehouse);
+    form.reset({
+      name: warehouse.name,
+      code: warehouse.code,
+      address: warehouse.address || "",
+      description: warehouse.description || "",
+      isDefault: warehouse.isDefault,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (warehouse: Warehouse) => {
+    if (!confirm(`آیا از حذف ${warehouse.name} مطمئن هستید؟`)) return;
+
+    try {
+      const result = await apolloClient.mutate<{ deleteWarehouse: boolean }>({
+        mutation: DELETE_WAREHOUSE,
+        variables: { id: warehouse.id }
+      });
+
+      if (result.data?.deleteWarehouse) {
+        setWarehouses(prev => prev.filter(w => w.id !== warehouse.id));
+        setSuccess("انبار با موفقیت حذف شد");
+      }
+    } catch (err) {
+      console.error('Error deleting warehouse:', err);
+      setError(err instanceof Error ? `خطا در حذف انبار: ${err.message}` : "خطا در حذف انبار");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <MainNavigation />
+
+      <div className="container mx-auto p-6 space-y-6">
+        {/* Page Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <WarehouseIcon className="h-8 w-8" />
+              مدیریت انبارها
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              تعریف انبارها و تعیین انبار پیش‌فرض اسناد
+            </p>
+          </div>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button className="flex items-center gap-2">
+                <Plus className="h-4 w-4" />
+                انبار جدید
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingWarehouse ? "ویرایش انبار" : "انبار جدید"}
+                </DialogTitle>
+              </DialogHeader>
+
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="name"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>نام انبار *</FormLabel>
+                          <FormControl>
+                            <Input placeholder="مثلاً انبار مرکزی" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="code"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>کد انبار *</FormLabel>
+                          <FormControl>
+                            <Input placeholder="WH-01" className="ltr-content" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <FormField
+                    control={form.control}
+                    name="address"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>آدرس</FormLabel>
+                        <FormControl>
+                          <Input placeholder="آدرس انبار" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="description"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>توضیحات</FormLabel>
+                        <FormControl>
+                          <Input placeholder="توضیحات" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="isDefault"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center gap-2 space-y-0">
+                        <FormControl>
+                          <input
+                            type="checkbox"
+                            checked={field.value}
+                            onChange={(e) => field.onChange(e.target.checked)}
+                            disabled={editingWarehouse?.isDefault}
+                            className="h-4 w-4"
+                          />
+                        </FormControl>
+                        <FormLabel>انبار پیش‌فرض (اقلام بدون انبار در این انبار ثبت می‌شوند)</FormLabel>
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="flex justify-end gap-2 pt-4">
+                    <Button type="button" variant="outline" onClick={() => {
+                      setIsDialogOpen(false);
+                      setEditingWarehouse(null);
+                      form.reset();
+                    }}>
+                      لغو
+                    </Button>
+                    <Button type="submit" disabled={isSubmitting}>
+                      {isSubmitting ? "در حال ثبت..." : editingWarehouse ? "به‌روزرسانی" : "ثبت"}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {/* Success/Error Messages */}
+        {success && (
+          <Card className="border-green-200 bg-green-50">
+            <CardContent className="flex items-center gap-2 p-4">
+              <CheckCircle className="h-5 w-5 text-green-600" />
+              <span className="text-green-800">{success}</span>
+            </CardContent>
+          </Card>
+        )}
+
+        {error && (
+          <Card className="border-red-200 bg-red-50">
+            <CardContent className="flex items-center gap-2 p-4">
+              <AlertCircle className="h-5 w-5 text-red-600" />
+              <span className="text-red-800">{error}</span>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Search and Statistics */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card className="md:col-span-2">
+            <CardContent className="p-4">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  placeholder="جستجو در نام، کد، آدرس..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-4">
+              <div className="text-2xl font-bold">{formatPersianNumber(warehouses.length)}</div>
+              <div className="text-sm text-muted-foreground">کل انبارها</div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Warehouses Table */}
+        <Card>
+          <CardHeader>
+            <CardTitle>لیست انبارها</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8">در حال بارگذاری...</div>
+            ) : filteredWarehouses.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                {searchTerm ? "انباری یافت نشد" : "هیچ انباری ثبت نشده است"}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="rtl-table">
+                    <TableHead>نام</TableHead>
+                    <TableHead>کد</TableHead>
+                    <TableHead>آدرس</TableHead>
+                    <TableHead>توضیحات</TableHead>
+                    <TableHead>وضعیت</TableHead>
+                    <TableHead>عملیات</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredWarehouses.map((warehouse) => (
+                    <TableRow key={warehouse.id}>
+                      <TableCell className="font-medium">{warehouse.name}</TableCell>
+                      <TableCell className="ltr-content">{warehouse.code}</TableCell>
+                      <TableCell>{warehouse.address || "-"}</TableCell>
+                      <TableCell>{warehouse.description || "-"}</TableCell>
+                      <TableCell>
+                        {warehouse.isDefault ? (
+                          <Badge>پیش‌فرض</Badge>
+                        ) : (
+                          <Badge variant="secondary">فعال</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button size="sm" variant="outline" onClick={() => handleEdit(warehouse)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleDelete(warehouse)}
+                            disabled={warehouse.isDefault}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { encodeBarcode } from "@/lib/barcode";
+
+interface BarcodeProps {
+  code: string;
+  type: string;
+  moduleWidth?: number;
+  height?: number;
+  className?: string;
+}
+
+// Quiet zone left blank on each side of the bars, in modules
+const QUIET_ZONE = 10;
+
+export function Barcode({ code, type, moduleWidth = 2, height = 60, className }: BarcodeProps) {
+  const modules = encodeBarcode(code, type);
+  const width = (modules.length + QUIET_ZONE * 2) * moduleWidth;
+
+  // Runs of consecutive bar modules are drawn as one rectangle
+  const bars: { x: number; width: number }[] = [];
+  for (let index = 0; index < modules.length; index++) {
+    if (modules[index] !== "1") continue;
+    const start = index;
+    while (modules[index + 1] === "1") index++;
+    bars.push({ x: (start + QUIET_ZONE) * moduleWidth, width: (index - start + 1) * moduleWidth });
+  }
+
+  return (
+    <svg
+      className={className}
+      width={width}
+      height={height + 14}
+      viewBox={`0 0 ${width} ${height + 14}`}
+      xmlns="http://www.w3.org/2000/svg"
+    >
+      <rect width={width} height={height + 14} fill="white" />
+      {bars.map((bar) => (
+        <rect key={bar.x} x={bar.x} y={0} width={bar.width} height={height} fill="black" />
+      ))}
+      <text x={width / 2} y={height + 12} textAnchor="middle" fontSize={12} fontFamily="monospace">
+        {code}
+      </text>
+    </svg>
+  );
+}
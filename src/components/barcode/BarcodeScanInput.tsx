@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import { gql } from "@apollo/client";
+import { ScanBarcode } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { apolloClient } from "@/lib/apollo-client";
+import { persianToEnglish } from "@/lib/persian";
+
+const GET_PRODUCT_BY_BARCODE = gql`
+  query GetProductByBarcode($barcode: String!) {
+    getProductByBarcode(barcode: $barcode) {
+      id
+      name
+      code
+      unit
+      salePrice
+    }
+  }
+`;
+
+interface ScannedProduct {
+  id: string;
+  name: string;
+  code: string;
+  unit: string;
+  salePrice?: number | null;
+}
+
+interface BarcodeScanInputProps {
+  onScan: (product: ScannedProduct) => void;
+  disabled?: boolean;
+}
+
+// Scanners type the barcode and press Enter; the field clears itself for the next scan
+export function BarcodeScanInput({ onScan, disabled }: BarcodeScanInputProps) {
+  const [value, setValue] = useState("");
+  const [message, setMessage] = useState("");
+
+  const handleKeyDown = async (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter") return;
+    // Keep the scan from submitting the surrounding form
+    e.preventDefault();
+
+    const barcode = persianToEnglish(value).trim();
+    if (!barcode) return;
+
+    // Clear at once so the next scan can start while this one is looked up
+    setValue("");
+    setMessage("");
+    try {
+      const result = await apolloClient.query<{ getProductByBarcode: ScannedProduct | null }>({
+        query: GET_PRODUCT_BY_BARCODE,
+        variables: { barcode },
+        fetchPolicy: "no-cache"
+      });
+      const product = result.data?.getProductByBarcode;
+      if (product) {
+        onScan(product);
+        setMessage(`${product.name} افزوده شد`);
+      } else {
+        setMessage(`کالایی با بارکد ${barcode} یافت نشد`);
+      }
+    } catch (err) {
+      console.error("Error looking up barcode:", err);
+      setMessage("خطا در جستجوی بارکد");
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <ScanBarcode className="absolute right-3 top-3 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="اسکن بارکد..."
+          className="pr-9 ltr-content"
+          disabled={disabled}
+        />
+      </div>
+      {message && <p className="text-xs text-muted-foreground">{message}</p>}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { PersianDateField } from "@/components/ui/persian-date-picker";
 import { persianText, validateNationalCode, formatPersianDate, parsePersianDate, formatPersianDateString, gregorianToJalaali, jalaaliToGregorian, isPersianLeapYear } from "@/lib/persian";
@@ -36,6 +37,9 @@ const companySchema = z.object({
   financialYearEnd: z.instanceof(Date, {
     message: "تاریخ پایان سال مالی الزامی است"
   }),
+  allowNegativeStock: z.boolean(),
+  costingMethod: z.enum(["MOVING_AVERAGE", "FIFO"]),
+  creditLimitPolicy: z.enum(["BLOCK", "OVERRIDE"]),
 });
 
 type CompanyFormData = z.infer<typeof companySchema>;
@@ -57,6 +61,9 @@ export function CompanySettingsForm({ onSubmit, initialData, isLoading }: Compan
       email: initialData?.email || "",
       financialYearStart: initialData?.financialYearStart || undefined,
       financialYearEnd: initialData?.financialYearEnd || undefined,
+      allowNegativeStock: initialData?.allowNegativeStock ?? false,
+      costingMethod: initialData?.costingMethod ?? "MOVING_AVERAGE",
+      creditLimitPolicy: initialData?.creditLimitPolicy ?? "BLOCK",
     },
   });
 
@@ -292,6 +299,94 @@ export function CompanySettingsForm({ onSubmit, initialData, isLoading }: Compan
               </div>
             </div>
 
+            {/* Inventory Settings Section */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold border-b pb-2">
+                تنظیمات انبار
+              </h3>
+              
+              <FormField
+                control={form.control}
+                name="allowNegativeStock"
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="flex items-center gap-2">
+                      <FormControl>
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4"
+                          checked={field.value}
+                          onChange={(e) => field.onChange(e.target.checked)}
+                        />
+                      </FormControl>
+                      <FormLabel>اجازه فروش بیش از موجودی (موجودی منفی)</FormLabel>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      در صورت غیرفعال بودن، فاکتور فروشی که موجودی کالا را در تاریخ سند منفی کند ثبت نمی‌شود
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="costingMethod"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>روش قیمت‌گذاری موجودی</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full md:w-80">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="MOVING_AVERAGE">میانگین موزون متحرک</SelectItem>
+                        <SelectItem value="FIFO">FIFO - اولین صادره از اولین وارده</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground">
+                      با تغییر روش، بهای تمام‌شده همه اسناد گذشته بر اساس روش جدید محاسبه می‌شود
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Sales Settings Section */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold border-b pb-2">
+                تنظیمات فروش
+              </h3>
+
+              <FormField
+                control={form.control}
+                name="creditLimitPolicy"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>فاکتور فروش بیش از حد اعتبار مشتری</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full md:w-80">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="BLOCK">ثبت نشود</SelectItem>
+                        <SelectItem value="OVERRIDE">با ذکر علت ثبت شود</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground">
+                      مانده حساب مشتری به همراه مبلغ فاکتور با حد اعتبار او مقایسه می‌شود؛ حد اعتبار صفر یعنی بدون سقف
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             {/* Submit Button */}
             <div className="flex justify-center pt-4">
               <Button 
@@ -17,7 +17,12 @@ import {
   FileText,
   Calculator,
   Calendar,
-  Bug
+  Bug,
+  Warehouse,
+  ClipboardList,
+  PackagePlus,
+  Barcode,
+  FolderTree
 } from "lucide-react";
 
 interface NavigationItem {
@@ -52,6 +57,24 @@ const navigationItems: NavigationItem[] = [
     icon: <Package className="h-5 w-5" />,
     description: "ثبت و مدیریت محصولات"
   },
+  {
+    title: "دسته‌بندی کالاها",
+    href: "/categories",
+    icon: <FolderTree className="h-5 w-5" />,
+    description: "درخت دسته‌بندی کالاها"
+  },
+  {
+    title: "برچسب بارکد",
+    href: "/labels",
+    icon: <Barcode className="h-5 w-5" />,
+    description: "چاپ برچسب بارکد کالاها"
+  },
+  {
+    title: "انبارها",
+    href: "/warehouses",
+    icon: <Warehouse className="h-5 w-5" />,
+    description: "تعریف انبارها"
+  },
   {
     title: "تامین کنندگان",
     href: "/suppliers",
@@ -70,6 +93,12 @@ const navigationItems: NavigationItem[] = [
     icon: <ShoppingCart className="h-5 w-5" />,
     description: "ثبت خرید و فاکتورها"
   },
+  {
+    title: "پیشنهاد خرید",
+    href: "/reorder",
+    icon: <PackagePlus className="h-5 w-5" />,
+    description: "سفارش کالاهای زیر حداقل موجودی"
+  },
   {
     title: "موجودی اولیه",
     href: "/initial-stock",
@@ -82,6 +111,12 @@ const navigationItems: NavigationItem[] = [
     icon: <FileText className="h-5 w-5" />,
     description: "مشاهده تمام اسناد"
   },
+  {
+    title: "انبارگردانی",
+    href: "/stock-counts",
+    icon: <ClipboardList className="h-5 w-5" />,
+    description: "شمارش فیزیکی و ثبت مغایرت‌ها"
+  },
   {
     title: "گزارشات",
     href: "/reports",
@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { formatPersianNumber } from "@/lib/persian";
+
+interface VariantAttribute {
+  name: string;
+  values: string[];
+}
+
+interface Variant {
+  id: string;
+  variantValues?: { name: string; value: string }[] | null;
+}
+
+interface VariantMatrixProps {
+  attributes: VariantAttribute[];
+  variants: Variant[];
+  onAdd: (quantities: { productId: string; quantity: number }[]) => void;
+}
+
+// Quantities for a parent's variants in one grid: the last attribute runs across the columns and
+// every combination of the others gets a row
+export function VariantMatrix({ attributes, variants, onAdd }: VariantMatrixProps) {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+
+  const columnAttribute = attributes[attributes.length - 1];
+  const rowAttributes = attributes.slice(0, -1);
+  let rows: { name: string; value: string }[][] = [[]];
+  for (const attribute of rowAttributes) {
+    rows = rows.flatMap(row => attribute.values.map(value => [...row, { name: attribute.name, value }]));
+  }
+
+  const findVariant = (row: { name: string; value: string }[], columnValue: string) => {
+    const wanted = [...row, { name: columnAttribute.name, value: columnValue }];
+    return variants.find(variant =>
+      wanted.every(({ name, value }) => variant.variantValues?.some(own => own.name === name && own.value === value))
+    );
+  };
+
+  const entered = Object.entries(quantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([productId, quantity]) => ({ productId, quantity }));
+  const total = entered.reduce((sum, entry) => sum + entry.quantity, 0);
+
+  const handleAdd = () => {
+    onAdd(entered);
+    setQuantities({});
+  };
+
+  if (!columnAttribute) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <table className="text-sm border-collapse">
+          <thead>
+            <tr>
+              {rowAttributes.map(attribute => (
+                <th key={attribute.name} className="p-2 text-right font-medium">{attribute.name}</th>
+              ))}
+              {columnAttribute.values.map(value => (
+                <th key={value} className="p-2 text-center font-medium">{value}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.map(({ value }) => value).join("|") || "all"}>
+                {row.map(({ name, value }) => (
+                  <td key={name} className="p-2 font-medium">{value}</td>
+                ))}
+                {columnAttribute.values.map(columnValue => {
+                  const variant = findVariant(row, columnValue);
+                  return (
+                    <td key={columnValue} className="p-1">
+                      {variant ? (
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          className="w-20 ltr-content"
+                          value={quantities[variant.id] || ""}
+                          onChange={(e) => setQuantities({
+                            ...quantities,
+                            [variant.id]: Math.max(0, parseFloat(e.target.value) || 0)
+                          })}
+                        />
+                      ) : (
+                        <div className="w-20 text-center text-muted-foreground">-</div>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm text-muted-foreground">
+          جمع {formatPersianNumber(total)} در {formatPersianNumber(entered.length)} گونه
+        </span>
+        <Button type="button" size="sm" onClick={handleAdd} disabled={entered.length === 0}>
+          افزودن به اقلام
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,17 @@ export const CREATE_OR_UPDATE_COMPANY = gql`
       email
       financialYearStart
       financialYearEnd
+      allowNegativeStock
+      costingMethod
+      creditLimitPolicy
+      costRecalculation {
+        status
+        totalProducts
+        processedProducts
+        error
+        startedAt
+        finishedAt
+      }
       isActive
       createdAt
       updatedAt
@@ -29,9 +40,36 @@ export const GET_COMPANY = gql`
       email
       financialYearStart
       financialYearEnd
+      allowNegativeStock
+      costingMethod
+      creditLimitPolicy
+      costRecalculation {
+        status
+        totalProducts
+        processedProducts
+        error
+        startedAt
+        finishedAt
+      }
       isActive
       createdAt
       updatedAt
     }
   }
-`;
\ No newline at end of file
+`;
+
+export const RESTART_COST_RECALCULATION = gql`
+  mutation RestartCostRecalculation {
+    restartCostRecalculation {
+      id
+      costRecalculation {
+        status
+        totalProducts
+        processedProducts
+        error
+        startedAt
+        finishedAt
+      }
+    }
+  }
+`;
@@ -0,0 +1,102 @@
+import mongoose from 'mongoose';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Company } from '@/models/Company';
+import { Document } from '@/models/Document';
+import { InventoryMovement } from '@/models/InventoryMovement';
+import { Product } from '@/models/Product';
+import { StockCount, StockCountStatus } from '@/models/StockCount';
+import { resolvers } from './resolvers';
+
+vi.mock('@/lib/mongodb', () => ({
+  default: vi.fn(async () => undefined),
+  withTransaction: vi.fn(async (work: (session: null) => Promise<unknown>) => work(null))
+}));
+
+type DocumentUpdateInput = Parameters<typeof resolvers.Mutation.updateDocument>[1]['input'];
+
+// A stand-in for a mongoose query that can be chained and awaited
+const query = <T>(result: T) => {
+  const chain = {
+    session: () => chain,
+    populate: () => chain,
+    then: <R>(resolve: (value: T) => R, reject?: (reason: unknown) => R) => Promise.resolve(result).then(resolve, reject)
+  };
+  return chain;
+};
+
+const storedInvoice = () => {
+  const fields = {
+    _id: new mongoose.Types.ObjectId(),
+    documentType: 'SALE_INVOICE',
+    documentNumber: 'S-1',
+    description: '',
+    date: new Date('2026-10-01'),
+    isFinalized: false,
+    creditLimitOverrideReason: 'تایید مدیر فروش',
+    items: [],
+    supplier: null,
+    customer: null
+  };
+  return { ...fields, toObject: () => fields };
+};
+
+describe('updateDocument', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the credit limit override of an invoice whose header alone is updated', async () => {
+    const invoice = storedInvoice();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(Document, 'findById').mockImplementation(() => query(invoice) as never);
+    const findByIdAndUpdate = vi.spyOn(Document, 'findByIdAndUpdate').mockImplementation(() => query(invoice) as never);
+    vi.spyOn(InventoryMovement, 'find').mockImplementation(() => query([]) as never);
+    vi.spyOn(InventoryMovement, 'deleteMany').mockImplementation(() => query({}) as never);
+    vi.spyOn(InventoryMovement, 'create').mockResolvedValue([] as never);
+    vi.spyOn(InventoryMovement, 'recalculateCosts').mockResolvedValue(undefined as never);
+    vi.spyOn(Company, 'findOne').mockImplementation(() => query(null) as never);
+
+    const input = {
+      documentType: 'SALE_INVOICE',
+      documentNumber: 'S-1',
+      description: 'تحویل در انبار مشتری',
+      date: new Date('2026-10-02').getTime()
+    };
+    await resolvers.Mutation.updateDocument(null, { id: invoice._id.toString(), input: input as DocumentUpdateInput });
+
+    const [, update] = findByIdAndUpdate.mock.calls[0];
+    expect(update).toMatchObject({ description: 'تحویل در انبار مشتری' });
+    expect(update).not.toHaveProperty('creditLimitOverrideReason');
+  });
+});
+
+describe('recordStockCounts', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('refuses a surplus of a lot-tracked product on a line without a lot', async () => {
+    const product = { _id: new mongoose.Types.ObjectId(), name: 'شربت سرفه', trackLots: true };
+    const item = {
+      _id: new mongoose.Types.ObjectId(),
+      product: product._id,
+      expectedQuantity: 5,
+      counts: [{ counter: 'علی', quantity: 3, countedAt: new Date() }]
+    };
+    const stockCount = {
+      _id: new mongoose.Types.ObjectId(),
+      status: StockCountStatus.COUNTING,
+      items: Object.assign([item], { id: (itemId: string) => (itemId === item._id.toString() ? item : null) })
+    };
+    vi.spyOn(StockCount, 'findById').mockImplementation(() => query(stockCount) as never);
+    vi.spyOn(Product, 'find').mockImplementation(() => query([product]) as never);
+    const bulkWrite = vi.spyOn(StockCount, 'bulkWrite').mockResolvedValue({} as never);
+
+    await expect(resolvers.Mutation.recordStockCounts(null, {
+      id: stockCount._id.toString(),
+      counter: 'مریم',
+      entries: [{ itemId: item._id.toString(), quantity: 3 }]
+    })).rejects.toThrow('بدون شماره بچ');
+    expect(bulkWrite).not.toHaveBeenCalled();
+  });
+});
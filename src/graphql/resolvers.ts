@@ -1,13 +1,22 @@
-import { GraphQLScalarType, Kind } from 'graphql';
-import dbConnect from '@/lib/mongodb';
+import { GraphQLError, GraphQLScalarType, Kind } from 'graphql';
+import mongoose from 'mongoose';
+import dbConnect, { withTransaction } from '@/lib/mongodb';
 
 // Import all models to ensure they are registered with Mongoose
-import { Company } from '@/models/Company';
-import { Product } from '@/models/Product';
+import { Company, CostingMethod, CreditLimitPolicy } from '@/models/Company';
+import { Product, SERIALIZED_UNIT } from '@/models/Product';
 import { Supplier } from '@/models/Supplier';
 import { Customer } from '@/models/Customer';
-import { Document } from '@/models/Document';
-import { InventoryMovement } from '@/models/InventoryMovement';
+import { Document, IDocument, IDocumentItem, RETURNABLE_DOCUMENT_TYPES } from '@/models/Document';
+import { ILotStock, InventoryMovement } from '@/models/InventoryMovement';
+import { Warehouse } from '@/models/Warehouse';
+import { IStockCount, IStockCountItem, StockCount, StockCountStatus } from '@/models/StockCount';
+import { Category } from '@/models/Category';
+import { CustomerLedgerEntry, LedgerEntryType, PaymentMethod } from '@/models/CustomerLedgerEntry';
+import { validateBarcode } from '@/lib/barcode';
+import { isCostRecalculationRunning, resumeCostRecalculation, runCostRecalculation, startCostRecalculation } from '@/lib/costRecalculation';
+import { allocateLots, isLotExpired } from '@/lib/lots';
+import { findShortage, groupStockRequests, StockLine, StockShortage, sumReserved } from '@/lib/stock';
 
 // Ensure all models are registered by accessing them
 const ensureModelsRegistered = () => {
@@ -18,8 +27,51 @@ const ensureModelsRegistered = () => {
   Customer;
   Document;
   InventoryMovement;
+  Warehouse;
+  StockCount;
+  Category;
+  CustomerLedgerEntry;
 };
 
+// A document line as the client sends it, plus the prices and units the line is prepared with
+interface DocumentItemInput {
+  productId: string;
+  warehouseId?: string | null;
+  quantity: number;
+  unitPrice: number;
+  unitCost?: number;
+  adjustmentDirection?: string | null;
+  adjustmentReason?: string | null;
+  lotNumber?: string | null;
+  expiryDate?: Date | null;
+  serialNumbers?: string[] | null;
+  unit?: string | null;
+  unitFactor?: number;
+  assemblyRole?: string | null;
+  description?: string | null;
+}
+
+// A document as the client sends it; mutations that build documents themselves pass the date as a timestamp
+interface DocumentInput {
+  documentType: string;
+  documentNumber: string;
+  supplierId?: string | null;
+  customerId?: string | null;
+  sourceWarehouseId?: string | null;
+  destinationWarehouseId?: string | null;
+  returnOfId?: string | null;
+  purchaseOrderId?: string | null;
+  expectedDate?: Date | null;
+  quotationId?: string | null;
+  salesOrderId?: string | null;
+  labourCost?: number | null;
+  overheadCost?: number | null;
+  creditLimitOverrideReason?: string | null;
+  items: DocumentItemInput[];
+  description?: string | null;
+  date: Date | number;
+}
+
 // Helper function to process document items safely
 const processDocumentItem = (item: any) => {
   const itemObject = item.toObject ? item.toObject() : item;
@@ -55,354 +107,2709 @@ const processDocumentItem = (item: any) => {
     quantity: quantity,
     unitPrice: unitPrice,
     totalPrice: totalPrice,
-    product: product
+    product: product,
+    warehouse: item.warehouse && item.warehouse._id ? {
+      id: item.warehouse._id.toString(),
+      ...(item.warehouse.toObject ? item.warehouse.toObject() : item.warehouse)
+    } : null
   };
 };
 
-// Custom Date scalar
-const DateScalar = new GraphQLScalarType({
-  name: 'Date',
-  description: 'Date custom scalar type',
-  serialize(value: unknown) {
-    if (value instanceof Date) {
-      return value.getTime(); // Convert outgoing Date to integer for JSON
+// A document with its supplier, customer and line products populated
+type PopulatedDocument = mongoose.Document<mongoose.Types.ObjectId> & {
+  supplier?: mongoose.Document<mongoose.Types.ObjectId> | null;
+  customer?: mongoose.Document<mongoose.Types.ObjectId> | null;
+  items: unknown[];
+};
+
+// Shapes a populated document for GraphQL
+const formatDocument = (document: PopulatedDocument) => {
+  const docObject = document.toObject();
+  return {
+    id: document._id.toString(),
+    ...docObject,
+    supplier: document.supplier && document.supplier._id ? {
+      id: document.supplier._id.toString(),
+      ...document.supplier.toObject()
+    } : null,
+    customer: document.customer && document.customer._id ? {
+      id: document.customer._id.toString(),
+      ...document.customer.toObject()
+    } : null,
+    items: document.items.map(processDocumentItem)
+  };
+};
+
+// Loads and shapes a referenced document, e.g. the other side of a reversal
+const loadFormattedDocument = async (id?: mongoose.Types.ObjectId | string | null) => {
+  if (!id) return null;
+  const document = await Document.findById(id)
+    .populate('supplier')
+    .populate('customer')
+    .populate('items.product')
+    .populate('items.warehouse');
+  return document ? formatDocument(document) : null;
+};
+
+interface WarehouseInput {
+  name: string;
+  code: string;
+  address?: string | null;
+  description?: string | null;
+  isDefault?: boolean | null;
+}
+
+// Returns the default warehouse, creating it on a fresh database. Stock recorded before
+// warehouses existed is assigned to it by the default-warehouse migration.
+const getDefaultWarehouse = async () => {
+  const existing = await Warehouse.findOne({ isDefault: true, isActive: true });
+  if (existing) {
+    return existing;
+  }
+  
+  try {
+    return await Warehouse.create({
+      name: 'انبار مرکزی',
+      code: 'MAIN',
+      isDefault: true,
+      isActive: true
+    });
+  } catch (error) {
+    // A concurrent request created it first; the unique default index lets only one through
+    if ((error as { code?: number }).code !== 11000) throw error;
+    return Warehouse.findOne({ isDefault: true, isActive: true });
+  }
+};
+
+// A product is low on stock once it reaches its minimum stock level
+const isLowStock = (minimumStock: number | undefined, currentStock: number) => {
+  return !!minimumStock && currentStock <= minimumStock;
+};
+
+// A reference that may or may not have been populated
+type Populatable = mongoose.Types.ObjectId | string | mongoose.Document<mongoose.Types.ObjectId> | null;
+
+// Shapes a product, populated or referenced by id, for GraphQL
+const loadFormattedProduct = async (product?: Populatable) => {
+  if (!product) return null;
+  // Ids carry an _id getter of their own, so only a document or a plain object counts as loaded
+  const found = product instanceof mongoose.Types.ObjectId || typeof product === 'string'
+    ? await Product.findById(product)
+    : product;
+  if (!found) return null;
+  return {
+    id: found._id.toString(),
+    ...(found.toObject ? found.toObject() : found)
+  };
+};
+
+// A product's row in the inventory report; the opening, incoming and outgoing columns are only
+// filled in for a report with a start date
+interface InventoryReportRow {
+  product: { id: string; parent?: mongoose.Types.ObjectId | null; minimumStock?: number };
+  openingStock: number | null;
+  incomingQuantity: number | null;
+  outgoingQuantity: number | null;
+  currentStock: number;
+  reservedStock: number;
+  availableStock: number;
+  averagePrice: number;
+  totalValue: number;
+  lastMovementDate: Date | null;
+}
+
+// Folds the inventory report rows of variants into one row for their parent product
+const rollUpVariantRows = async (rows: InventoryReportRow[]) => {
+  const parents = await Product.find({
+    _id: { $in: rows.map(row => row.product.parent).filter(Boolean) }
+  });
+  const parentById = new Map(parents.map(parent => [parent._id.toString(), parent]));
+  
+  const grouped = new Map<string, InventoryReportRow>();
+  for (const row of rows) {
+    const parent = row.product.parent && parentById.get(row.product.parent.toString());
+    if (!parent) {
+      grouped.set(row.product.id, row);
+      continue;
     }
-    throw Error('GraphQL Date Scalar serializer expected a `Date` object');
-  },
-  parseValue(value: unknown) {
-    if (typeof value === 'number') {
-      return new Date(value); // Convert incoming integer to Date
+    const group: InventoryReportRow = grouped.get(parent._id.toString()) || {
+      product: { id: parent._id.toString(), ...parent.toObject() },
+      openingStock: row.openingStock === null ? null : 0,
+      incomingQuantity: row.incomingQuantity === null ? null : 0,
+      outgoingQuantity: row.outgoingQuantity === null ? null : 0,
+      currentStock: 0,
+      reservedStock: 0,
+      availableStock: 0,
+      averagePrice: 0,
+      totalValue: 0,
+      lastMovementDate: null
+    };
+    if (row.openingStock !== null) {
+      group.openingStock = (group.openingStock || 0) + row.openingStock;
+      group.incomingQuantity = (group.incomingQuantity || 0) + (row.incomingQuantity || 0);
+      group.outgoingQuantity = (group.outgoingQuantity || 0) + (row.outgoingQuantity || 0);
     }
-    throw new Error('GraphQL Date Scalar parser expected a `number`');
-  },
-  parseLiteral(ast) {
-    if (ast.kind === Kind.INT) {
-      return new Date(parseInt(ast.value, 10)); // Convert hard-coded AST string to integer and then to Date
+    group.currentStock += row.currentStock;
+    group.reservedStock += row.reservedStock;
+    group.availableStock += row.availableStock;
+    group.totalValue += row.totalValue;
+    if (row.lastMovementDate && (!group.lastMovementDate || row.lastMovementDate > group.lastMovementDate)) {
+      group.lastMovementDate = row.lastMovementDate;
     }
-    return null; // Invalid hard-coded value (not an integer)
-  },
+    group.averagePrice = group.currentStock > 0 ? group.totalValue / group.currentStock : 0;
+    grouped.set(parent._id.toString(), group);
+  }
+  return [...grouped.values()];
+};
+
+// Shapes a warehouse, populated or referenced by id, for GraphQL
+const loadFormattedWarehouse = async (warehouse?: Populatable) => {
+  if (!warehouse) return null;
+  const found = warehouse instanceof mongoose.Types.ObjectId || typeof warehouse === 'string'
+    ? await Warehouse.findById(warehouse)
+    : warehouse;
+  if (!found) return null;
+  return {
+    id: found._id.toString(),
+    ...(found.toObject ? found.toObject() : found)
+  };
+};
+
+// Shapes a category, populated or referenced by id, for GraphQL
+const loadFormattedCategory = async (category?: Populatable) => {
+  if (!category) return null;
+  const found = category instanceof mongoose.Types.ObjectId || typeof category === 'string'
+    ? mongoose.Types.ObjectId.isValid(category) ? await Category.findById(category) : null
+    : category;
+  if (!found) return null;
+  return {
+    id: found._id.toString(),
+    ...(found.toObject ? found.toObject() : found)
+  };
+};
+
+// Ids of the given categories and of every active category below them
+const withDescendantCategories = async (categoryIds: string[]) => {
+  const categories = await Category.find({ isActive: true }, 'parent');
+  const ids = new Set(categoryIds.filter(id => mongoose.Types.ObjectId.isValid(id)).map(id => id.toString()));
+  let added = true;
+  while (added) {
+    added = false;
+    for (const category of categories) {
+      if (category.parent && ids.has(category.parent.toString()) && !ids.has(category._id.toString())) {
+        ids.add(category._id.toString());
+        added = true;
+      }
+    }
+  }
+  return [...ids].map(id => new mongoose.Types.ObjectId(id));
+};
+
+// Checks a category's parent exists and is not the category or one below it, and that no
+// sibling already has its name
+const assertValidCategory = async (input: { name?: string; parentId?: string | null }, categoryId?: string) => {
+  const name = input.name?.trim();
+  if (!name) {
+    throw new Error('نام دسته‌بندی الزامی است');
+  }
+  if (input.parentId) {
+    if (!mongoose.Types.ObjectId.isValid(input.parentId) || !await Category.exists({ _id: input.parentId, isActive: true })) {
+      throw new Error('دسته‌بندی بالادست یافت نشد');
+    }
+    if (categoryId && (await withDescendantCategories([categoryId])).some(id => id.toString() === input.parentId)) {
+      throw new Error('دسته‌بندی نمی‌تواند زیرمجموعه خودش یا زیرمجموعه‌های خودش باشد');
+    }
+  }
+  
+  const siblingFilter: Record<string, unknown> = { name, parent: input.parentId || null, isActive: true };
+  if (categoryId) {
+    siblingFilter._id = { $ne: categoryId };
+  }
+  if (await Category.exists(siblingFilter)) {
+    throw new Error(`دسته‌بندی ${name} در این سطح قبلاً ثبت شده است`);
+  }
+  return name;
+};
+
+// A product's category must be an active category
+const resolveProductCategory = async (categoryId?: string | null) => {
+  if (!categoryId) return null;
+  if (!mongoose.Types.ObjectId.isValid(categoryId) || !await Category.exists({ _id: categoryId, isActive: true })) {
+    throw new Error('دسته‌بندی یافت نشد');
+  }
+  return categoryId;
+};
+
+// Document types whose lines take goods out of stock and must not exceed what is available
+const STOCK_CHECKED_DOCUMENT_TYPES = ['SALE_INVOICE', 'TRANSFER', 'PURCHASE_RETURN'];
+
+// Assembly document types and the side of them that leaves stock: components go into an
+// assembly, the finished product into a disassembly
+const ASSEMBLY_OUTGOING_ROLES: Record<string, string> = {
+  ASSEMBLY: 'COMPONENT',
+  DISASSEMBLY: 'FINISHED'
+};
+
+// Lines of a document that take goods out of stock; for adjustments only the outgoing ones
+const getOutgoingItems = <T extends { assemblyRole?: string | null; adjustmentDirection?: string | null }>(documentType: string, items: T[]) => {
+  if (STOCK_CHECKED_DOCUMENT_TYPES.includes(documentType)) {
+    return items;
+  }
+  if (ASSEMBLY_OUTGOING_ROLES[documentType]) {
+    return items.filter(item => item.assemblyRole === ASSEMBLY_OUTGOING_ROLES[documentType]);
+  }
+  if (documentType === 'STOCK_ADJUSTMENT') {
+    return items.filter(item => item.adjustmentDirection === 'OUT');
+  }
+  return [];
+};
+
+// Document types that only record an agreement and move no stock
+const NON_STOCK_DOCUMENT_TYPES = ['PURCHASE_ORDER', 'QUOTATION', 'SALES_ORDER'];
+
+// Maps each document line to the inventory movement(s) it produces. A reversal is mapped before it is
+// saved, to check its movements against stock, so the document may not have an id yet.
+const buildDocumentMovements = (
+  document: Pick<IDocument, 'documentType' | 'items' | 'reversalOf' | 'sourceWarehouse' | 'destinationWarehouse' | 'date'> &
+    { _id?: mongoose.Types.ObjectId }
+) => {
+  if (NON_STOCK_DOCUMENT_TYPES.includes(document.documentType)) {
+    return [];
+  }
+  
+  // Reversal documents cancel the original's movements with opposite quantities
+  const direction = document.reversalOf ? -1 : 1;
+  
+  // A transfer line leaves the source and enters the destination at the same cost
+  if (document.documentType === 'TRANSFER') {
+    return document.items.flatMap(item => {
+      const quantity = Math.abs(item.quantity);
+      const shared = {
+        product: item.product,
+        unitPrice: item.unitPrice,
+        totalPrice: quantity * item.unitPrice,
+        description: item.description,
+        document: document._id,
+        isReversal: direction < 0,
+        lotNumber: item.lotNumber,
+        expiryDate: item.expiryDate,
+        serialNumbers: item.serialNumbers,
+        date: document.date
+      };
+      return [
+        { ...shared, warehouse: document.sourceWarehouse, movementType: 'TRANSFER_OUT', quantity: -direction * quantity },
+        { ...shared, warehouse: document.destinationWarehouse, movementType: 'TRANSFER_IN', quantity: direction * quantity }
+      ];
+    });
+  }
+  
+  const assemblyOutgoingRole = ASSEMBLY_OUTGOING_ROLES[document.documentType];
+  
+  return document.items.map(item => {
+    // Ensure quantity is positive for incoming documents and negative for sales
+    const quantity = assemblyOutgoingRole ? (item.assemblyRole === assemblyOutgoingRole ? -Math.abs(item.quantity) : Math.abs(item.quantity)) : document.documentType === 'INITIAL_STOCK' ? Math.abs(item.quantity) : 
+                    document.documentType === 'PURCHASE_INVOICE' ? Math.abs(item.quantity) :
+                    document.documentType === 'IMPORT' ? Math.abs(item.quantity) :
+                    document.documentType === 'GOODS_RECEIPT' ? Math.abs(item.quantity) :
+                    document.documentType === 'SALE_RETURN' ? Math.abs(item.quantity) :
+                    document.documentType === 'SALE_INVOICE' ? -Math.abs(item.quantity) : 
+                    document.documentType === 'PURCHASE_RETURN' ? -Math.abs(item.quantity) :
+                    document.documentType === 'STOCK_ADJUSTMENT' && item.adjustmentDirection === 'OUT' ? -Math.abs(item.quantity) :
+                    item.quantity;
+    
+    const movementType = document.documentType === 'INITIAL_STOCK' ? 'INITIAL_STOCK' :
+                       document.documentType === 'PURCHASE_INVOICE' ? 'PURCHASE' :
+                       document.documentType === 'IMPORT' ? 'PURCHASE' :
+                       document.documentType === 'GOODS_RECEIPT' ? 'PURCHASE' :
+                       document.documentType === 'SALE_INVOICE' ? 'SALE' :
+                       document.documentType === 'PURCHASE_RETURN' ? 'PURCHASE_RETURN' :
+                       document.documentType === 'SALE_RETURN' ? 'SALE_RETURN' :
+                       assemblyOutgoingRole ? (item.assemblyRole === assemblyOutgoingRole ? 'ASSEMBLY_OUT' : 'ASSEMBLY_IN') :
+                       item.adjustmentDirection === 'OUT' ? 'ADJUSTMENT_OUT' : 'ADJUSTMENT_IN';
+    
+    // Sale returns carry their selling price on the line but re-enter stock at cost
+    const unitPrice = item.unitCost ?? item.unitPrice;
+    
+    return {
+      product: item.product,
+      warehouse: item.warehouse,
+      movementType: movementType,
+      quantity: direction * quantity,
+      unitPrice: unitPrice,
+      totalPrice: Math.abs(quantity) * unitPrice,
+      description: item.description,
+      document: document._id,
+      isReversal: direction < 0,
+      adjustmentReason: document.documentType === 'STOCK_ADJUSTMENT' ? item.adjustmentReason : undefined,
+      lotNumber: item.lotNumber,
+      expiryDate: item.expiryDate,
+      serialNumbers: item.serialNumbers,
+      date: document.date
+    };
+  });
+};
+
+// The active company's inventory costing method; moving average until a company is set up
+const getCostingMethod = async () => {
+  const company = await Company.findOne({ isActive: true });
+  return company?.costingMethod || CostingMethod.MOVING_AVERAGE;
+};
+
+// Re-costs the outflows of the given products under the active company's costing method, from
+// the date of the earliest change onward, or over their whole history without one
+const recalculateProductCosts = async (productIds: mongoose.Types.ObjectId[], session?: mongoose.ClientSession, fromDate?: Date) => {
+  const uniqueIds = [...new Set(productIds.map(id => id.toString()))];
+  await InventoryMovement.recalculateCosts(
+    uniqueIds.map(id => new mongoose.Types.ObjectId(id)),
+    await getCostingMethod(),
+    session,
+    fromDate
+  );
+};
+
+// Replaces the inventory movements of a document with ones matching its current lines,
+// then re-costs every product the document touches or used to touch from its earlier date on.
+// Must run inside a transaction so stock never reflects a half-written document.
+const syncDocumentMovements = async (document: IDocument, session: mongoose.ClientSession) => {
+  const previous = await InventoryMovement.find({ document: document._id }, 'product date').session(session);
+  await InventoryMovement.deleteMany({ document: document._id }, { session });
+  const movements = await InventoryMovement.create(buildDocumentMovements(document), { session, ordered: true });
+  const fromDate = new Date(Math.min(new Date(document.date).getTime(), ...previous.map(movement => movement.date.getTime())));
+  await recalculateProductCosts(
+    [...previous, ...movements].map(movement => movement.product),
+    session,
+    fromDate
+  );
+  return movements;
+};
+
+// Throws a structured CREDIT_LIMIT_EXCEEDED error when a sale invoice of the given amount would take
+// its customer's receivable past their credit limit; a limit of zero leaves the customer unlimited.
+// When the company lets such invoices through with an override, a stated reason is accepted instead
+// and returned for the document to record.
+const assertCreditAvailable = async (customerId: string | null | undefined, amount: number, overrideReason?: string | null) => {
+  if (!customerId || !mongoose.Types.ObjectId.isValid(customerId)) {
+    return undefined;
+  }
+  const customer = await Customer.findById(customerId);
+  if (!customer?.creditLimit) {
+    return undefined;
+  }
+  
+  const [row] = await CustomerLedgerEntry.getBalances([customer._id]);
+  const balance = row?.balance || 0;
+  if (balance + amount <= customer.creditLimit) {
+    return undefined;
+  }
+  
+  const company = await Company.findOne({ isActive: true });
+  const policy = company?.creditLimitPolicy || CreditLimitPolicy.BLOCK;
+  const reason = overrideReason?.trim();
+  if (policy === CreditLimitPolicy.OVERRIDE && reason) {
+    return reason;
+  }
+  
+  const details = `حد اعتبار: ${customer.creditLimit.toLocaleString()}، مانده حساب: ${Math.round(balance).toLocaleString()}، مبلغ فاکتور: ${Math.round(amount).toLocaleString()} ریال`;
+  throw new GraphQLError(
+    policy === CreditLimitPolicy.OVERRIDE
+      ? `این فاکتور مانده حساب ${customer.name} را از حد اعتبار بیشتر می‌کند (${details})؛ برای ثبت آن علت عبور از حد اعتبار را وارد کنید`
+      : `این فاکتور مانده حساب ${customer.name} را از حد اعتبار بیشتر می‌کند (${details})`,
+    {
+      extensions: {
+        code: 'CREDIT_LIMIT_EXCEEDED',
+        policy,
+        creditLimit: customer.creditLimit,
+        balance,
+        amount
+      }
+    }
+  );
+};
+
+// A ledger entry as it is shown, with the sale document it posts populated on statements
+interface LedgerEntryRow {
+  _id: mongoose.Types.ObjectId;
+  entryType: string;
+  date: Date;
+  debit: number;
+  credit: number;
+  document?: { _id: mongoose.Types.ObjectId; documentNumber?: string; reversalOf?: mongoose.Types.ObjectId } | null;
+  paymentMethod?: string;
+  reference?: string;
+  description?: string;
+}
+
+const formatLedgerEntry = (entry: LedgerEntryRow, balance?: number) => ({
+  id: entry._id.toString(),
+  entryType: entry.entryType,
+  date: entry.date,
+  debit: entry.debit,
+  credit: entry.credit,
+  balance,
+  documentId: entry.document?._id?.toString(),
+  documentNumber: entry.document?.documentNumber,
+  isReversal: !!entry.document?.reversalOf,
+  paymentMethod: entry.paymentMethod,
+  reference: entry.reference,
+  description: entry.description
 });
 
-export const resolvers = {
-  Date: DateScalar,
+// Alternate units must differ from the base unit and from each other, each holding a positive number of base units
+const assertValidAlternateUnits = (baseUnit: string, alternateUnits?: { unit: string; factor: number }[] | null) => {
+  const seen = new Set<string>();
+  for (const alternate of alternateUnits || []) {
+    if (alternate.unit === baseUnit) {
+      throw new Error(`واحد فرعی ${alternate.unit} همان واحد اصلی کالا است`);
+    }
+    if (seen.has(alternate.unit)) {
+      throw new Error(`واحد فرعی ${alternate.unit} تکراری است`);
+    }
+    if (!(alternate.factor > 0)) {
+      throw new Error(`ضریب تبدیل واحد ${alternate.unit} باید بیشتر از صفر باشد`);
+    }
+    seen.add(alternate.unit);
+  }
+};
 
-  Query: {
-    // Company queries
-    getCompany: async () => {
+// Barcodes must be valid for their type and belong to one active product only; returns them trimmed
+const prepareBarcodes = async (barcodes?: { code: string; type: string }[] | null, excludeProductId?: string) => {
+  const prepared = (barcodes || []).map(barcode => ({ code: String(barcode.code || '').trim(), type: barcode.type }));
+  
+  const seen = new Set<string>();
+  for (const barcode of prepared) {
+    const error = validateBarcode(barcode.code, barcode.type);
+    if (error) {
+      throw new Error(error);
+    }
+    if (seen.has(barcode.code)) {
+      throw new Error(`بارکد ${barcode.code} تکراری است`);
+    }
+    seen.add(barcode.code);
+  }
+  
+  if (prepared.length > 0) {
+    const owner = await Product.findOne({
+      'barcodes.code': { $in: prepared.map(barcode => barcode.code) },
+      isActive: true,
+      ...(excludeProductId && { _id: { $ne: excludeProductId } })
+    });
+    if (owner) {
+      const taken = owner.barcodes.find((barcode: { code: string }) => seen.has(barcode.code));
+      throw new Error(`بارکد ${taken?.code} قبلاً برای کالای ${owner.name} ثبت شده است`);
+    }
+  }
+  
+  return prepared;
+};
+
+// A bill of materials lists existing products once each, never the product itself or anything
+// assembled from it, so that exploding it always ends; returns it in the model's shape
+const prepareBomComponents = async (components?: { productId: string; quantity: number }[] | null, productId?: string) => {
+  const prepared = (components || []).map(component => ({ product: component.productId, quantity: component.quantity }));
+  
+  const seen = new Set<string>();
+  for (const component of prepared) {
+    if (!mongoose.Types.ObjectId.isValid(component.product)) {
+      throw new Error('کالای جزء معتبر نیست');
+    }
+    if (component.product === productId) {
+      throw new Error('کالا نمی‌تواند جزء خودش باشد');
+    }
+    if (seen.has(component.product)) {
+      throw new Error('هر کالا فقط یک بار در فهرست مواد می‌آید');
+    }
+    if (!(component.quantity > 0)) {
+      throw new Error('مقدار جزء باید بیشتر از صفر باشد');
+    }
+    seen.add(component.product);
+  }
+  
+  if (seen.size > 0 && await Product.countDocuments({ _id: { $in: [...seen] }, isActive: true }) !== seen.size) {
+    throw new Error('کالای جزء یافت نشد');
+  }
+  
+  // Walk down the components' own bills of materials looking for the product
+  if (productId) {
+    const visited = new Set<string>(seen);
+    let level = [...seen];
+    while (level.length > 0) {
+      const products = await Product.find({ _id: { $in: level } }, 'name components');
+      level = [];
+      for (const product of products) {
+        for (const component of product.components || []) {
+          const componentId = component.product.toString();
+          if (componentId === productId) {
+            throw new Error(`کالای ${product.name} خود از این کالا ساخته می‌شود و نمی‌تواند جزء آن باشد`);
+          }
+          if (!visited.has(componentId)) {
+            visited.add(componentId);
+            level.push(componentId);
+          }
+        }
+      }
+    }
+  }
+  
+  return prepared;
+};
+
+// Checks the attributes a parent product varies by. Only a product that has never moved can become
+// a parent, since parents hold no stock of their own, and a parent with variants must keep its attributes.
+const prepareVariantAttributes = async (attributes?: { name: string; values: string[] }[] | null, productId?: string) => {
+  const prepared = (attributes || []).map(attribute => ({
+    name: (attribute.name || '').trim(),
+    values: (attribute.values || []).map(value => value.trim()).filter(value => value)
+  }));
+  
+  const names = new Set<string>();
+  for (const attribute of prepared) {
+    if (!attribute.name) {
+      throw new Error('نام ویژگی الزامی است');
+    }
+    if (names.has(attribute.name)) {
+      throw new Error(`ویژگی ${attribute.name} تکراری است`);
+    }
+    if (attribute.values.length === 0) {
+      throw new Error(`ویژگی ${attribute.name} هیچ مقداری ندارد`);
+    }
+    if (new Set(attribute.values).size !== attribute.values.length) {
+      throw new Error(`ویژگی ${attribute.name} مقدار تکراری دارد`);
+    }
+    names.add(attribute.name);
+  }
+  
+  if (productId && prepared.length > 0) {
+    const product = await Product.findById(productId, 'parent');
+    if (product?.parent) {
+      throw new Error('گونه یک کالا نمی‌تواند خود گونه داشته باشد');
+    }
+    if (await InventoryMovement.exists({ product: productId })) {
+      throw new Error('کالایی که گردش دارد نمی‌تواند گونه داشته باشد');
+    }
+  }
+  if (productId && prepared.length === 0 && await Product.exists({ parent: productId, isActive: true })) {
+    throw new Error('کالا گونه دارد؛ ابتدا گونه‌های آن را حذف کنید');
+  }
+  
+  return prepared;
+};
+
+// A variant's code adds each of its values to the parent's code: as written when the value is
+// Latin, otherwise by its position among the attribute's values
+const variantCodePart = (value: string, index: number) =>
+  /^[A-Za-z0-9]+$/.test(value) ? value.toUpperCase() : String(index + 1).padStart(2, '0');
+
+// Parent products only group their variants; stock moves on the variants themselves
+const assertNoVariantParents = async (items: DocumentItemInput[]) => {
+  const parent = await Product.findOne({
+    _id: { $in: items.map(item => item.productId).filter(id => mongoose.Types.ObjectId.isValid(id)) },
+    'variantAttributes.0': { $exists: true }
+  });
+  if (parent) {
+    throw new Error(`کالای ${parent.name} گونه دارد؛ یکی از گونه‌های آن را انتخاب کنید`);
+  }
+};
+
+// Converts lines entered in an alternate unit to the product's base unit, the unit stock is kept in:
+// the quantity is multiplied and the unit price divided by the unit's factor. The entered unit and
+// its factor stay on the line so it can be shown as entered.
+const convertItemUnits = async (items: DocumentItemInput[]): Promise<DocumentItemInput[]> => {
+  const products = await Product.find({
+    _id: { $in: items.filter(item => item.unit).map(item => item.productId).filter(id => mongoose.Types.ObjectId.isValid(id)) }
+  });
+  const productById = new Map(products.map(product => [product._id.toString(), product]));
+  
+  return items.map(item => {
+    const product = productById.get(item.productId);
+    if (!item.unit || !product || item.unit === product.unit) {
+      return { ...item, unit: undefined, unitFactor: undefined };
+    }
+    
+    const alternate = (product.alternateUnits || []).find((alternateUnit: { unit: string; factor: number }) => alternateUnit.unit === item.unit);
+    if (!alternate) {
+      throw new Error(`واحد ${item.unit} برای کالای ${product.name} تعریف نشده است`);
+    }
+    
+    return {
+      ...item,
+      quantity: item.quantity * alternate.factor,
+      unitPrice: item.unitPrice / alternate.factor,
+      unitFactor: alternate.factor
+    };
+  });
+};
+
+// Prices transfer lines at the company-wide cost goods would leave stock at on the transfer date
+const priceTransferItems = async (items: DocumentItemInput[], sourceWarehouseId: string, date: Date) => {
+  const costingMethod = await getCostingMethod();
+  
+  return Promise.all(items.map(async item => ({
+    ...item,
+    warehouseId: sourceWarehouseId,
+    unitPrice: mongoose.Types.ObjectId.isValid(item.productId)
+      ? await InventoryMovement.getOutgoingUnitCost(
+          new mongoose.Types.ObjectId(item.productId),
+          Math.abs(item.quantity),
+          date,
+          costingMethod
+        )
+      : 0
+  })));
+};
+
+// Summarises, per product, what an invoice sold or bought and how much of it active returns
+// (not reversed, drafts included) already took back
+const getReturnableQuantities = async (original: IDocument, excludeDocumentId?: string) => {
+  const lines = new Map<string, {
+    productId: string;
+    warehouseId: string | null;
+    lotNumber: string | null;
+    invoicedQuantity: number;
+    invoicedAmount: number;
+    returnedQuantity: number;
+  }>();
+  
+  for (const item of original.items) {
+    const productId = item.product.toString();
+    const existing = lines.get(productId);
+    const line = existing || {
+      productId,
+      warehouseId: item.warehouse ? item.warehouse.toString() : null,
+      lotNumber: item.lotNumber || null,
+      invoicedQuantity: 0,
+      invoicedAmount: 0,
+      returnedQuantity: 0
+    };
+    // Only an invoice that moved a single lot of the product suggests it for returns
+    if (existing && line.lotNumber !== (item.lotNumber || null)) {
+      line.lotNumber = null;
+    }
+    line.invoicedQuantity += item.quantity;
+    line.invoicedAmount += item.totalPrice;
+    lines.set(productId, line);
+  }
+  
+  const returnFilter: mongoose.FilterQuery<IDocument> = { returnOf: original._id, reversalOf: null, reversedBy: null };
+  if (excludeDocumentId) {
+    returnFilter._id = { $ne: excludeDocumentId };
+  }
+  const returns = await Document.find(returnFilter);
+  for (const returnDocument of returns) {
+    for (const item of returnDocument.items) {
+      const line = lines.get(item.product.toString());
+      if (line) {
+        line.returnedQuantity += item.quantity;
+      }
+    }
+  }
+  
+  return lines;
+};
+
+// Validates a return against its original invoice and prices its lines from it:
+// purchase returns leave at the invoiced cost, sale returns come back at the cost
+// the goods originally left stock with, while keeping the invoiced selling price
+const prepareReturnItems = async (input: DocumentInput, excludeDocumentId?: string) => {
+  if (!input.returnOfId || !mongoose.Types.ObjectId.isValid(input.returnOfId)) {
+    throw new Error('فاکتور مرجع برای سند مرجوعی الزامی است');
+  }
+  
+  const original = await Document.findById(input.returnOfId);
+  if (!original) {
+    throw new Error('فاکتور مرجع یافت نشد');
+  }
+  if (!RETURNABLE_DOCUMENT_TYPES[input.documentType].includes(original.documentType)) {
+    throw new Error('نوع فاکتور مرجع با نوع سند مرجوعی سازگار نیست');
+  }
+  if (!original.isFinalized || original.reversalOf || original.reversedBy) {
+    throw new Error('مرجوعی فقط برای فاکتورهای نهایی و برگشت نخورده قابل ثبت است');
+  }
+  
+  const lines = await getReturnableQuantities(original, excludeDocumentId);
+  
+  // Several lines may return the same product
+  const requestedByProduct = new Map<string, number>();
+  for (const item of input.items) {
+    requestedByProduct.set(item.productId, (requestedByProduct.get(item.productId) || 0) + item.quantity);
+  }
+  
+  const products = await Product.find({ _id: { $in: [...requestedByProduct.keys()].filter(id => mongoose.Types.ObjectId.isValid(id)) } });
+  const productById = new Map(products.map(product => [product._id.toString(), product]));
+  
+  for (const [productId, requested] of requestedByProduct) {
+    const line = lines.get(productId);
+    const productName = productById.get(productId)?.name || productId;
+    if (!line) {
+      throw new Error(`کالای ${productName} در فاکتور مرجع وجود ندارد`);
+    }
+    const remaining = line.invoicedQuantity - line.returnedQuantity;
+    if (requested > remaining) {
+      throw new Error(`تعداد مرجوعی ${productName} بیش از مانده قابل برگشت فاکتور است (مانده: ${remaining}، درخواستی: ${requested})`);
+    }
+  }
+  
+  const unitCostByProduct = new Map<string, number>();
+  if (input.documentType === 'SALE_RETURN') {
+    for (const productId of requestedByProduct.keys()) {
+      unitCostByProduct.set(
+        productId,
+        await InventoryMovement.getDocumentOutgoingCost(new mongoose.Types.ObjectId(productId), original._id)
+      );
+    }
+  }
+  
+  const items = input.items.map(item => {
+    const line = lines.get(item.productId)!;
+    return {
+      ...item,
+      warehouseId: item.warehouseId || line.warehouseId,
+      lotNumber: item.lotNumber || line.lotNumber,
+      unitPrice: line.invoicedQuantity > 0 ? line.invoicedAmount / line.invoicedQuantity : 0,
+      unitCost: unitCostByProduct.get(item.productId)
+    };
+  });
+  
+  return { original, items };
+};
+
+// Order document types and how they are delivered: the field delivering documents (goods receipts,
+// sale invoices) refer to the order by, and the input carrying it
+const ORDER_DELIVERIES: Record<string, { referenceField: 'purchaseOrder' | 'salesOrder'; inputField: 'purchaseOrderId' | 'salesOrderId'; label: string }> = {
+  PURCHASE_ORDER: { referenceField: 'purchaseOrder', inputField: 'purchaseOrderId', label: 'سفارش خرید' },
+  SALES_ORDER: { referenceField: 'salesOrder', inputField: 'salesOrderId', label: 'سفارش فروش' }
+};
+
+// What was ordered of a product on an order, and how much of it was delivered
+interface OrderLine {
+  orderId: string;
+  productId: string;
+  warehouseId: string | null;
+  orderedQuantity: number;
+  orderedAmount: number;
+  deliveredQuantity: number;
+}
+
+// Summarises, per order and product, what was ordered and how much of it active deliveries
+// (not reversed, drafts included) already delivered
+const getOrderQuantities = async (orders: IDocument[], excludeDocumentId?: string) => {
+  const lines = new Map<string, OrderLine>();
+  
+  for (const order of orders) {
+    for (const item of order.items) {
+      const key = `${order._id}:${item.product}`;
+      const line = lines.get(key) || {
+        orderId: order._id.toString(),
+        productId: item.product.toString(),
+        warehouseId: item.warehouse ? item.warehouse.toString() : null,
+        orderedQuantity: 0,
+        orderedAmount: 0,
+        deliveredQuantity: 0
+      };
+      line.orderedQuantity += item.quantity;
+      line.orderedAmount += item.totalPrice;
+      lines.set(key, line);
+    }
+  }
+  
+  const orderIds = orders.map(order => order._id);
+  const deliveryFilter: mongoose.FilterQuery<IDocument> = {
+    $or: [{ purchaseOrder: { $in: orderIds } }, { salesOrder: { $in: orderIds } }],
+    reversalOf: null,
+    reversedBy: null
+  };
+  if (excludeDocumentId) {
+    deliveryFilter._id = { $ne: excludeDocumentId };
+  }
+  const deliveries = await Document.find(deliveryFilter);
+  for (const delivery of deliveries) {
+    for (const item of delivery.items) {
+      const line = lines.get(`${delivery.purchaseOrder || delivery.salesOrder}:${item.product}`);
+      if (line) {
+        line.deliveredQuantity += item.quantity;
+      }
+    }
+  }
+  
+  return lines;
+};
+
+// Validates a delivery (goods receipt or sale invoice) against its order: only what is still
+// outstanding on the order may be delivered, at the ordered price and from or into the ordered
+// warehouse unless another is given
+const prepareOrderItems = async (input: DocumentInput, orderType: string, excludeDocumentId?: string) => {
+  const { inputField, label } = ORDER_DELIVERIES[orderType];
+  const orderId = input[inputField];
+  if (!orderId || !mongoose.Types.ObjectId.isValid(orderId)) {
+    throw new Error(`${label} معتبر نیست`);
+  }
+  
+  const order = await Document.findById(orderId);
+  if (!order || order.documentType !== orderType) {
+    throw new Error(`${label} یافت نشد`);
+  }
+  if (!order.isFinalized || order.reversalOf || order.reversedBy) {
+    throw new Error(`تحویل فقط برای ${label} نهایی و برگشت نخورده قابل ثبت است`);
+  }
+  
+  const lines = await getOrderQuantities([order], excludeDocumentId);
+  
+  // Several lines may deliver the same product, e.g. into or from different lots
+  const deliveredByProduct = new Map<string, number>();
+  for (const item of input.items) {
+    deliveredByProduct.set(item.productId, (deliveredByProduct.get(item.productId) || 0) + item.quantity);
+  }
+  
+  const products = await Product.find({ _id: { $in: [...deliveredByProduct.keys()].filter(id => mongoose.Types.ObjectId.isValid(id)) } });
+  const productById = new Map(products.map(product => [product._id.toString(), product]));
+  
+  for (const [productId, delivered] of deliveredByProduct) {
+    const line = lines.get(`${order._id}:${productId}`);
+    const productName = productById.get(productId)?.name || productId;
+    if (!line) {
+      throw new Error(`کالای ${productName} در ${label} وجود ندارد`);
+    }
+    const outstanding = line.orderedQuantity - line.deliveredQuantity;
+    if (delivered > outstanding) {
+      throw new Error(`تعداد ${productName} بیش از مانده ${label} است (مانده: ${outstanding}، درخواستی: ${delivered})`);
+    }
+  }
+  
+  const items = input.items.map(item => {
+    const line = lines.get(`${order._id}:${item.productId}`)!;
+    return {
+      ...item,
+      warehouseId: item.warehouseId || line.warehouseId,
+      unitPrice: line.orderedQuantity > 0 ? line.orderedAmount / line.orderedQuantity : 0
+    };
+  });
+  
+  return { order, items };
+};
+
+// Shapes the lines of orders with what is still outstanding on each
+const formatOrderLines = async (lines: OrderLine[]) => {
+  const products = await Product.find({ _id: { $in: lines.map(line => line.productId) } });
+  const productById = new Map(products.map(product => [product._id.toString(), product]));
+  
+  return lines
+    .filter(line => productById.has(line.productId))
+    .map(line => {
+      const product = productById.get(line.productId)!;
+      return {
+        product: { id: line.productId, ...product.toObject() },
+        warehouse: line.warehouseId,
+        orderedQuantity: line.orderedQuantity,
+        deliveredQuantity: line.deliveredQuantity,
+        outstandingQuantity: Math.max(line.orderedQuantity - line.deliveredQuantity, 0),
+        unitPrice: line.orderedQuantity > 0 ? line.orderedAmount / line.orderedQuantity : 0
+      };
+    });
+};
+
+// What finalized sales orders still hold for their customers, per product and warehouse
+// (keyed "product:warehouse"); goods invoiced against an order are no longer reserved
+const getReservedQuantities = async (productIds?: mongoose.Types.ObjectId[], excludeOrderId?: string) => {
+  const filter: mongoose.FilterQuery<IDocument> = { documentType: 'SALES_ORDER', isFinalized: true, reversalOf: null, reversedBy: null };
+  if (productIds) {
+    filter['items.product'] = { $in: productIds };
+  }
+  if (excludeOrderId) {
+    filter._id = { $ne: excludeOrderId };
+  }
+  const orders = await Document.find(filter);
+  
+  const reserved = new Map<string, number>();
+  for (const line of (await getOrderQuantities(orders)).values()) {
+    const outstanding = line.orderedQuantity - line.deliveredQuantity;
+    if (outstanding > 0) {
+      const key = `${line.productId}:${line.warehouseId}`;
+      reserved.set(key, (reserved.get(key) || 0) + outstanding);
+    }
+  }
+  return reserved;
+};
+
+// Sale invoices and sales orders may not take stock other sales orders reserve; an invoice of
+// an order, or the order itself, may use what that order reserves
+const getStockReservations = (documentType: string, orderId?: string | null) => {
+  return documentType === 'SALE_INVOICE' || documentType === 'SALES_ORDER'
+    ? { excludeOrderId: orderId || undefined }
+    : undefined;
+};
+
+// A sales order may be converted from a finalized, unreversed quotation that no other
+// active order was converted from
+const assertQuotationConvertible = async (quotationId: string, excludeOrderId?: string) => {
+  if (!mongoose.Types.ObjectId.isValid(quotationId)) {
+    throw new Error('پیش‌فاکتور معتبر نیست');
+  }
+  const quotation = await Document.findById(quotationId);
+  if (!quotation || quotation.documentType !== 'QUOTATION') {
+    throw new Error('پیش‌فاکتور یافت نشد');
+  }
+  if (!quotation.isFinalized || quotation.reversalOf || quotation.reversedBy) {
+    throw new Error('فقط پیش‌فاکتورهای نهایی و برگشت نخورده قابل تبدیل به سفارش هستند');
+  }
+  const orderFilter: mongoose.FilterQuery<IDocument> = { quotation: quotation._id, reversalOf: null, reversedBy: null };
+  if (excludeOrderId) {
+    orderFilter._id = { $ne: excludeOrderId };
+  }
+  if (await Document.exists(orderFilter)) {
+    throw new Error(`پیش‌فاکتور ${quotation.documentNumber} قبلاً به سفارش فروش تبدیل شده است`);
+  }
+  return quotation;
+};
+
+// Requires a reason on every adjustment line and prices outgoing lines at the
+// company-wide cost they would leave stock at, the cost the cardex takes them out at
+const prepareAdjustmentItems = async (items: DocumentItemInput[], date: Date) => {
+  for (const item of items) {
+    if (!item.adjustmentReason) {
+      throw new Error('علت تعدیل برای هر قلم الزامی است');
+    }
+  }
+  
+  const costingMethod = await getCostingMethod();
+  
+  return Promise.all(items.map(async item => ({
+    ...item,
+    adjustmentDirection: item.adjustmentDirection || 'IN',
+    unitPrice: item.adjustmentDirection !== 'OUT'
+      ? item.unitPrice
+      : mongoose.Types.ObjectId.isValid(item.productId)
+        ? await InventoryMovement.getOutgoingUnitCost(
+            new mongoose.Types.ObjectId(item.productId),
+            Math.abs(item.quantity),
+            date,
+            costingMethod
+          )
+        : 0
+  })));
+};
+
+// Explodes the finished product line of an assembly or disassembly into its bill of materials, with
+// the components taken from or put into the finished line's warehouse. An assembly consumes the
+// components at the cost they leave stock at and produces the finished product at their rolled-up
+// cost plus labour and overhead. A disassembly takes the finished product out at its cost and
+// spreads that, plus labour and overhead, over the components in proportion to their own cost.
+const prepareAssemblyItems = async (input: DocumentInput, date: Date): Promise<DocumentItemInput[]> => {
+  const finishedLines = input.items.filter(item => item.assemblyRole !== 'COMPONENT');
+  if (finishedLines.length !== 1) {
+    throw new Error('سند مونتاژ و دمونتاژ باید دقیقاً یک کالای ساخته شده داشته باشد');
+  }
+  
+  const finishedLine = finishedLines[0];
+  const finished = mongoose.Types.ObjectId.isValid(finishedLine.productId) ? await Product.findById(finishedLine.productId) : null;
+  if (!finished) {
+    throw new Error('کالای ساخته شده یافت نشد');
+  }
+  if (!finished.components?.length) {
+    throw new Error(`فهرست مواد کالای ${finished.name} تعریف نشده است`);
+  }
+  
+  const costingMethod = await getCostingMethod();
+  const defaultWarehouse = await getDefaultWarehouse();
+  const warehouseId = finishedLine.warehouseId || defaultWarehouse._id.toString();
+  const addedCost = (input.labourCost || 0) + (input.overheadCost || 0);
+  
+  const components = await Promise.all(finished.components.map(async (component: { product: mongoose.Types.ObjectId; quantity: number }) => {
+    const quantity = component.quantity * finishedLine.quantity;
+    return {
+      productId: component.product.toString(),
+      quantity,
+      cost: await InventoryMovement.getOutgoingUnitCost(component.product, quantity, date, costingMethod)
+    };
+  }));
+  const componentsCost = components.reduce((sum, component) => sum + component.quantity * component.cost, 0);
+  
+  let finishedUnitPrice: number;
+  let componentPrices: number[];
+  if (input.documentType === 'ASSEMBLY') {
+    finishedUnitPrice = (componentsCost + addedCost) / finishedLine.quantity;
+    componentPrices = components.map(component => component.cost);
+  } else {
+    finishedUnitPrice = await InventoryMovement.getOutgoingUnitCost(finished._id, finishedLine.quantity, date, costingMethod);
+    const totalCost = finishedUnitPrice * finishedLine.quantity + addedCost;
+    const totalQuantity = components.reduce((sum, component) => sum + component.quantity, 0);
+    componentPrices = components.map(component => componentsCost > 0
+      ? component.cost * totalCost / componentsCost
+      : totalCost / totalQuantity
+    );
+  }
+  
+  return [
+    { ...finishedLine, warehouseId, unitPrice: finishedUnitPrice, assemblyRole: 'FINISHED' },
+    ...components.map((component, index) => ({
+      productId: component.productId,
+      warehouseId,
+      quantity: component.quantity,
+      unitPrice: componentPrices[index],
+      assemblyRole: 'COMPONENT',
+      description: `جزء ${finished.name}`
+    }))
+  ];
+};
+
+// Resolves the lots of lot-tracked products. Incoming lines must name the lot they receive,
+// which keeps its expiry date if it already exists; outgoing lines without a lot are split
+// over the unexpired lots in stock, first expired first out. Other products carry no lot.
+const prepareLotItems = async (documentType: string, items: DocumentItemInput[], date: Date, excludeDocumentId?: string) => {
+  const trackedProducts = await Product.find({
+    _id: { $in: items.map(item => item.productId).filter(id => mongoose.Types.ObjectId.isValid(id)) },
+    trackLots: true
+  });
+  const trackedById = new Map(trackedProducts.map(product => [product._id.toString(), product]));
+  if (trackedById.size === 0) {
+    return items.map(item => ({ ...item, lotNumber: undefined, expiryDate: undefined }));
+  }
+  
+  const outgoingItems = new Set(getOutgoingItems(documentType, items));
+  const defaultWarehouse = await getDefaultWarehouse();
+  
+  // Lot stock per product and warehouse, reduced as earlier lines of the document draw on it
+  const lotsByStock = new Map<string, ILotStock[]>();
+  const getLots = async (productId: string, warehouseId: string) => {
+    const key = `${productId}:${warehouseId}`;
+    if (!lotsByStock.has(key)) {
+      lotsByStock.set(key, await InventoryMovement.getLotStock(
+        new mongoose.Types.ObjectId(productId),
+        date,
+        new mongoose.Types.ObjectId(warehouseId),
+        excludeDocumentId ? new mongoose.Types.ObjectId(excludeDocumentId) : undefined
+      ));
+    }
+    return lotsByStock.get(key)!;
+  };
+  
+  const prepared: DocumentItemInput[] = [];
+  for (const item of items) {
+    const product = trackedById.get(item.productId);
+    if (!product) {
+      prepared.push({ ...item, lotNumber: undefined, expiryDate: undefined });
+      continue;
+    }
+    
+    if (!outgoingItems.has(item)) {
+      if (!item.lotNumber) {
+        throw new Error(`شماره بچ برای کالای ${product.name} الزامی است`);
+      }
+      const existingLot = item.expiryDate ? null : await InventoryMovement.findOne({
+        product: product._id,
+        lotNumber: item.lotNumber,
+        expiryDate: { $ne: null }
+      });
+      prepared.push({ ...item, expiryDate: item.expiryDate || existingLot?.expiryDate });
+      continue;
+    }
+    
+    const lots = await getLots(item.productId, item.warehouseId || defaultWarehouse._id.toString());
+    
+    if (item.lotNumber) {
+      const lot = lots.find(candidate => candidate.lotNumber === item.lotNumber);
+      if (lot) {
+        lot.quantity -= item.quantity;
+      }
+      prepared.push({ ...item, expiryDate: lot?.expiryDate || undefined });
+      continue;
+    }
+    
+    const { allocations, remaining } = allocateLots(lots, item.quantity, date);
+    for (const allocation of allocations) {
+      prepared.push({
+        ...item,
+        quantity: allocation.quantity,
+        lotNumber: allocation.lotNumber || undefined,
+        expiryDate: allocation.expiryDate || undefined
+      });
+    }
+    if (remaining > 0) {
+      // Expired lots are only sold when a line names them
+      const expiredLots = lots.filter(lot => lot.quantity > 0 && isLotExpired(lot, date));
+      if (expiredLots.length > 0) {
+        throw new Error(
+          `موجودی باقیمانده کالای ${product.name} تاریخ گذشته است (بچ ${expiredLots.map(lot => lot.lotNumber).join('، ')}); ` +
+          'برای فروش آن شماره بچ را در سطر سند مشخص کنید'
+        );
+      }
+      // Whatever the lots cannot cover stays without a lot; the stock check reports the shortage
+      prepared.push({ ...item, quantity: remaining, lotNumber: undefined, expiryDate: undefined });
+    }
+  }
+  
+  return prepared;
+};
+
+// The serial numbers a document line moves, and which way
+interface SerialLine {
+  productId: string;
+  productName: string;
+  warehouseId?: string;
+  serialNumbers: string[];
+  isOutgoing: boolean;
+}
+
+// Rejects serials that are not where a document line expects them: outgoing serials must be
+// in stock in the line's warehouse, incoming ones must not be in stock anywhere yet
+const assertSerialsValid = async (lines: SerialLine[], excludeDocumentId?: string) => {
+  const serials = lines.flatMap(line => line.serialNumbers);
+  if (serials.length === 0) {
+    return;
+  }
+  
+  const stock = await InventoryMovement.getSerialStock(
+    serials,
+    excludeDocumentId ? new mongoose.Types.ObjectId(excludeDocumentId) : undefined
+  );
+  
+  for (const line of lines) {
+    for (const serialNumber of line.serialNumbers) {
+      const inStock = stock.filter(entry => entry.serialNumber === serialNumber && entry.product.toString() === line.productId);
+      if (line.isOutgoing && !inStock.some(entry => entry.warehouse?.toString() === line.warehouseId)) {
+        const warehouse = await Warehouse.findById(line.warehouseId);
+        throw new Error(`شماره سریال ${serialNumber} از کالای ${line.productName} در ${warehouse?.name || 'انبار'} موجود نیست`);
+      }
+      if (!line.isOutgoing && inStock.length > 0) {
+        throw new Error(`شماره سریال ${serialNumber} از کالای ${line.productName} قبلاً دریافت شده و در انبار موجود است`);
+      }
+    }
+  }
+};
+
+// Requires one unique serial number per unit on lines of serialized products and checks them
+// against stock; other products carry no serials
+const prepareSerialItems = async (documentType: string, items: DocumentItemInput[], excludeDocumentId?: string) => {
+  const serializedProducts = await Product.find({
+    _id: { $in: items.map(item => item.productId).filter(id => mongoose.Types.ObjectId.isValid(id)) },
+    unit: SERIALIZED_UNIT
+  });
+  const serializedById = new Map(serializedProducts.map(product => [product._id.toString(), product]));
+  
+  const outgoingItems = new Set(getOutgoingItems(documentType, items));
+  const defaultWarehouse = await getDefaultWarehouse();
+  const seen = new Set<string>();
+  const lines: SerialLine[] = [];
+  
+  const prepared = items.map(item => {
+    const product = serializedById.get(item.productId);
+    if (!product) {
+      return { ...item, serialNumbers: undefined };
+    }
+    
+    const serialNumbers = (item.serialNumbers || [])
+      .map((serialNumber: string) => serialNumber.trim())
+      .filter(Boolean);
+    if (serialNumbers.length !== item.quantity) {
+      throw new Error(`تعداد شماره سریال‌های ${product.name} باید با تعداد آن (${item.quantity}) برابر باشد`);
+    }
+    for (const serialNumber of serialNumbers) {
+      const key = `${item.productId}:${serialNumber}`;
+      if (seen.has(key)) {
+        throw new Error(`شماره سریال ${serialNumber} بیش از یک بار در سند آمده است`);
+      }
+      seen.add(key);
+    }
+    
+    lines.push({
+      productId: item.productId,
+      productName: product.name,
+      warehouseId: item.warehouseId || defaultWarehouse._id.toString(),
+      serialNumbers,
+      isOutgoing: outgoingItems.has(item)
+    });
+    return { ...item, serialNumbers };
+  });
+  
+  await assertSerialsValid(lines, excludeDocumentId);
+  return prepared;
+};
+
+// Document types that buy goods in; a draft one is stock still on order
+const PURCHASE_DOCUMENT_TYPES = ['PURCHASE_INVOICE', 'IMPORT', 'GOODS_RECEIPT'];
+
+// A product suggested for reordering, with the figures the suggestion rests on
+interface ReorderItem {
+  product: { id: string; trackLots?: boolean; unit?: string };
+  currentStock: number;
+  reservedStock: number;
+  onOrder: number;
+  averageDailyConsumption: number | null;
+  projectedStock: number;
+  minimumStock: number;
+  maximumStock: number | null;
+  suggestedQuantity: number;
+  lastPurchasePrice: number | null;
+}
+
+// Suggests what to reorder for products with stock levels set. Goods on draft purchase documents
+// count as on order rather than on hand, as does what open purchase orders have yet to deliver,
+// while what sales orders reserve is already spoken for. With consumptionDays, stock is projected that many days
+// ahead at the daily sales rate of the past as many days. A product is suggested once its projected
+// stock falls to its minimum, topped up to its maximum (its minimum if it has none), and grouped
+// under the supplier it was last bought from.
+const buildReorderSuggestions = async (consumptionDays?: number) => {
+  if (consumptionDays !== undefined && consumptionDays !== null && consumptionDays <= 0) {
+    throw new Error('تعداد روز مصرف باید بیشتر از صفر باشد');
+  }
+  
+  // Parents are reordered through their variants
+  const products = await Product.find({
+    isActive: true,
+    'variantAttributes.0': { $exists: false },
+    $or: [{ minimumStock: { $gt: 0 } }, { maximumStock: { $gt: 0 } }]
+  }).sort({ name: 1 });
+  const productIds = products.map(product => product._id);
+  
+  const summaries = await InventoryMovement.getStockSummary(productIds);
+  const stockByProduct = new Map(summaries.map(summary => [summary.product.toString(), summary.currentStock]));
+  const reserved = await getReservedQuantities(productIds);
+  
+  const drafts = await Document.find({
+    documentType: { $in: PURCHASE_DOCUMENT_TYPES },
+    isFinalized: false,
+    'items.product': { $in: productIds }
+  });
+  const draftByProduct = new Map<string, number>();
+  for (const draft of drafts) {
+    for (const item of draft.items) {
+      const key = item.product.toString();
+      draftByProduct.set(key, (draftByProduct.get(key) || 0) + item.quantity);
+    }
+  }
+  
+  const openOrders = await Document.find({
+    documentType: 'PURCHASE_ORDER',
+    isFinalized: true,
+    reversalOf: null,
+    reversedBy: null,
+    'items.product': { $in: productIds }
+  });
+  const outstandingByProduct = new Map<string, number>();
+  for (const line of (await getOrderQuantities(openOrders)).values()) {
+    const outstanding = Math.max(line.orderedQuantity - line.deliveredQuantity, 0);
+    outstandingByProduct.set(line.productId, (outstandingByProduct.get(line.productId) || 0) + outstanding);
+  }
+  
+  const sales = consumptionDays
+    ? await InventoryMovement.getNetSales(productIds, new Date(Date.now() - consumptionDays * 24 * 60 * 60 * 1000))
+    : [];
+  const salesByProduct = new Map(sales.map(row => [row.product.toString(), row.quantity]));
+  
+  // The latest purchase of each product that was not reversed
+  const lastPurchases = await Document.aggregate<{ _id: mongoose.Types.ObjectId; supplier: mongoose.Types.ObjectId; unitPrice: number }>([
+    {
+      $match: {
+        documentType: { $in: PURCHASE_DOCUMENT_TYPES },
+        supplier: { $ne: null },
+        reversalOf: null,
+        reversedBy: null
+      }
+    },
+    { $unwind: '$items' },
+    { $match: { 'items.product': { $in: productIds } } },
+    { $sort: { date: -1, createdAt: -1 } },
+    {
+      $group: {
+        _id: '$items.product',
+        supplier: { $first: '$supplier' },
+        unitPrice: { $first: '$items.unitPrice' }
+      }
+    }
+  ]);
+  const lastPurchaseByProduct = new Map(lastPurchases.map(row => [row._id.toString(), row]));
+  
+  const groups = new Map<string, { supplierId: string | null; items: ReorderItem[] }>();
+  for (const product of products) {
+    const key = product._id.toString();
+    // Draft purchases already post movements, so their goods are taken out of the on-hand figure
+    const draftQuantity = draftByProduct.get(key) || 0;
+    const currentStock = (stockByProduct.get(key) || 0) - draftQuantity;
+    const onOrder = draftQuantity + (outstandingByProduct.get(key) || 0);
+    const reservedStock = sumReserved(reserved, key);
+    const averageDailyConsumption = consumptionDays ? Math.max(salesByProduct.get(key) || 0, 0) / consumptionDays : null;
+    const projectedStock = currentStock + onOrder - reservedStock - (averageDailyConsumption || 0) * (consumptionDays || 0);
+    const minimumStock = product.minimumStock || 0;
+    const targetStock = product.maximumStock || minimumStock;
+    
+    if (projectedStock > minimumStock || projectedStock >= targetStock) {
+      continue;
+    }
+    
+    const lastPurchase = lastPurchaseByProduct.get(key);
+    const supplierId = lastPurchase?.supplier?.toString() || null;
+    const group = groups.get(supplierId || '') || { supplierId, items: [] as ReorderItem[] };
+    group.items.push({
+      product: { id: key, ...product.toObject() },
+      currentStock,
+      reservedStock,
+      onOrder,
+      averageDailyConsumption,
+      projectedStock,
+      minimumStock,
+      maximumStock: product.maximumStock || null,
+      suggestedQuantity: Math.ceil(targetStock - projectedStock),
+      lastPurchasePrice: lastPurchase?.unitPrice ?? null
+    });
+    groups.set(supplierId || '', group);
+  }
+  
+  const suppliers = await Supplier.find({ _id: { $in: [...groups.values()].map(group => group.supplierId).filter(Boolean) } });
+  const supplierById = new Map(suppliers.map(supplier => [supplier._id.toString(), supplier]));
+  
+  return [...groups.values()]
+    .map(group => {
+      const supplier = group.supplierId ? supplierById.get(group.supplierId) : null;
+      return {
+        supplier: supplier ? { id: supplier._id.toString(), ...supplier.toObject() } : null,
+        items: group.items,
+        totalAmount: group.items.reduce((sum, item) => sum + item.suggestedQuantity * (item.lastPurchasePrice || 0), 0)
+      };
+    })
+    // Products never bought from a known supplier come last
+    .sort((a, b) => !a.supplier ? 1 : !b.supplier ? -1 : a.supplier.name.localeCompare(b.supplier.name, 'fa'));
+};
+
+// Shapes a stock count for GraphQL. A line's counted quantity is the sum of what each counter
+// found; lines nobody has counted yet have neither a counted quantity nor a variance.
+const formatStockCount = async (stockCount: IStockCount) => {
+  const products = await Product.find({ _id: { $in: stockCount.items.map(item => item.product) } });
+  const productById = new Map(products.map(product => [product._id.toString(), product]));
+  
+  return {
+    id: stockCount._id.toString(),
+    ...stockCount.toObject(),
+    warehouse: await loadFormattedWarehouse(stockCount.warehouse),
+    adjustmentDocument: await loadFormattedDocument(stockCount.adjustmentDocument),
+    items: stockCount.items
+      .filter(item => productById.has(item.product.toString()))
+      .map(item => {
+        const product = productById.get(item.product.toString());
+        const countedQuantity = item.counts.length > 0
+          ? item.counts.reduce((sum, entry) => sum + entry.quantity, 0)
+          : null;
+        return {
+          ...item.toObject(),
+          id: item._id.toString(),
+          product: { id: product._id.toString(), ...product.toObject() },
+          countedQuantity,
+          variance: countedQuantity === null ? null : countedQuantity - item.expectedQuantity
+        };
+      })
+  };
+};
+
+// Loads a stock count that is still being counted, for mutations that change it
+const findOpenStockCount = async (id: string) => {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw new Error('شناسه انبارگردانی معتبر نیست');
+  }
+  const stockCount = await StockCount.findById(id);
+  if (!stockCount) {
+    throw new Error('انبارگردانی یافت نشد');
+  }
+  if (stockCount.status !== StockCountStatus.COUNTING) {
+    throw new Error('انبارگردانی ثبت یا لغو شده قابل تغییر نیست');
+  }
+  return stockCount;
+};
+
+// Shapes lot stock rows with their product, warehouse and days left until expiry
+const formatLotStocks = async (lots: ILotStock[]) => {
+  const products = await Product.find({ _id: { $in: lots.map(lot => lot.product) } });
+  const productById = new Map(products.map(product => [product._id.toString(), product]));
+  const warehouses = await Warehouse.find({ _id: { $in: lots.map(lot => lot.warehouse).filter(Boolean) } });
+  const warehouseById = new Map(warehouses.map(warehouse => [warehouse._id.toString(), warehouse]));
+  const now = Date.now();
+  
+  return lots
+    .filter(lot => productById.has(lot.product.toString()))
+    .map(lot => {
+      const product = productById.get(lot.product.toString());
+      const warehouse = lot.warehouse ? warehouseById.get(lot.warehouse.toString()) : null;
+      return {
+        product: { id: product._id.toString(), ...product.toObject() },
+        warehouse: warehouse ? { id: warehouse._id.toString(), ...warehouse.toObject() } : null,
+        lotNumber: lot.lotNumber,
+        expiryDate: lot.expiryDate,
+        daysToExpiry: lot.expiryDate ? Math.ceil((lot.expiryDate.getTime() - now) / (24 * 60 * 60 * 1000)) : null,
+        quantity: lot.quantity
+      };
+    });
+};
+
+// Rejects transfers without a valid, distinct source and destination warehouse
+const assertValidTransfer = (input: DocumentInput) => {
+  if (!input.sourceWarehouseId || !input.destinationWarehouseId) {
+    throw new Error('انبار مبدا و مقصد برای انتقال کالا الزامی است');
+  }
+  if (!mongoose.Types.ObjectId.isValid(input.sourceWarehouseId) || !mongoose.Types.ObjectId.isValid(input.destinationWarehouseId)) {
+    throw new Error('شناسه انبار معتبر نیست');
+  }
+  if (input.sourceWarehouseId === input.destinationWarehouseId) {
+    throw new Error('انبار مبدا و مقصد نمی‌توانند یکسان باشند');
+  }
+  if (input.supplierId || input.customerId) {
+    throw new Error('سند انتقال کالا طرف حساب ندارد');
+  }
+};
+
+// Throws a structured INSUFFICIENT_STOCK error when outgoing items exceed the stock
+// available in their warehouse (and lot, if they name one) on the document date,
+// unless the company allows negative stock. When reservations are respected, what sales
+// orders other than excludeOrderId reserve in the warehouse is not available either.
+const assertStockAvailable = async (
+  items: StockLine[],
+  date: Date,
+  excludeDocumentId?: string,
+  reservations?: { excludeOrderId?: string }
+) => {
+  const company = await Company.findOne({ isActive: true });
+  if (company?.allowNegativeStock) {
+    return;
+  }
+  
+  const defaultWarehouse = await getDefaultWarehouse();
+  
+  // Several lines may draw on the same product in the same warehouse, or on the same lot of it
+  const requests = groupStockRequests(
+    items.filter(item => mongoose.Types.ObjectId.isValid(item.productId)),
+    defaultWarehouse._id.toString()
+  );
+  
+  const reserved = reservations
+    ? await getReservedQuantities(
+        [...new Set(items.map(item => item.productId))]
+          .filter(id => mongoose.Types.ObjectId.isValid(id))
+          .map(id => new mongoose.Types.ObjectId(id)),
+        reservations.excludeOrderId
+      )
+    : new Map<string, number>();
+  
+  const shortages: StockShortage[] = [];
+  for (const request of requests) {
+    const onHand = await InventoryMovement.getCurrentStock(
+      new mongoose.Types.ObjectId(request.productId),
+      date,
+      excludeDocumentId ? new mongoose.Types.ObjectId(excludeDocumentId) : undefined,
+      new mongoose.Types.ObjectId(request.warehouseId),
+      request.lotNumber
+    );
+    const shortage = findShortage(request, onHand, reserved);
+    if (shortage) {
+      shortages.push(shortage);
+    }
+  }
+  
+  if (shortages.length === 0) {
+    return;
+  }
+  
+  const products = await Product.find({ _id: { $in: shortages.map(shortage => shortage.productId) } });
+  const productById = new Map(products.map(product => [product._id.toString(), product]));
+  const warehouses = await Warehouse.find({ _id: { $in: shortages.map(shortage => shortage.warehouseId) } });
+  const warehouseById = new Map(warehouses.map(warehouse => [warehouse._id.toString(), warehouse]));
+  const detailedShortages = shortages.map(shortage => {
+    const product = productById.get(shortage.productId);
+    return {
+      ...shortage,
+      productName: product?.name || 'کالای حذف شده',
+      productCode: product?.code || '',
+      warehouseName: warehouseById.get(shortage.warehouseId)?.name || ''
+    };
+  });
+  
+  const details = detailedShortages
+    .map(shortage => `${shortage.productName}${shortage.lotNumber ? ` بچ ${shortage.lotNumber}` : ''} در ${shortage.warehouseName} (موجودی: ${shortage.available}${shortage.reserved ? `، رزرو شده: ${shortage.reserved}` : ''}، درخواستی: ${shortage.requested})`)
+    .join('، ');
+  
+  throw new GraphQLError(`موجودی کالا کافی نیست: ${details}`, {
+    extensions: {
+      code: 'INSUFFICIENT_STOCK',
+      shortages: detailedShortages
+    }
+  });
+};
+
+// Custom Date scalar
+const DateScalar = new GraphQLScalarType({
+  name: 'Date',
+  description: 'Date custom scalar type',
+  serialize(value: unknown) {
+    if (value instanceof Date) {
+      return value.getTime(); // Convert outgoing Date to integer for JSON
+    }
+    throw Error('GraphQL Date Scalar serializer expected a `Date` object');
+  },
+  parseValue(value: unknown) {
+    if (typeof value === 'number') {
+      return new Date(value); // Convert incoming integer to Date
+    }
+    throw new Error('GraphQL Date Scalar parser expected a `number`');
+  },
+  parseLiteral(ast) {
+    if (ast.kind === Kind.INT) {
+      return new Date(parseInt(ast.value, 10)); // Convert hard-coded AST string to integer and then to Date
+    }
+    return null; // Invalid hard-coded value (not an integer)
+  },
+});
+
+// A sale invoice or return as the gross-profit report loads it, with its customer and products populated
+interface SaleDocumentRow {
+  _id: mongoose.Types.ObjectId;
+  documentType: string;
+  documentNumber: string;
+  date: Date;
+  reversalOf?: mongoose.Types.ObjectId;
+  returnOf?: mongoose.Types.ObjectId;
+  customer?: { _id: mongoose.Types.ObjectId; name: string } | null;
+  items: {
+    product: { _id: mongoose.Types.ObjectId; name: string; parent?: mongoose.Types.ObjectId; category?: mongoose.Types.ObjectId } | null;
+    quantity: number;
+    totalPrice: number;
+  }[];
+}
+
+export const resolvers = {
+  Date: DateScalar,
+
+  Document: {
+    reversalOf: (parent: IDocument) => loadFormattedDocument(parent.reversalOf),
+    reversedBy: (parent: IDocument) => loadFormattedDocument(parent.reversedBy),
+    sourceWarehouse: (parent: IDocument) => loadFormattedWarehouse(parent.sourceWarehouse),
+    destinationWarehouse: (parent: IDocument) => loadFormattedWarehouse(parent.destinationWarehouse),
+    returnOf: (parent: IDocument) => loadFormattedDocument(parent.returnOf),
+    purchaseOrder: (parent: IDocument) => loadFormattedDocument(parent.purchaseOrder),
+    quotation: (parent: IDocument) => loadFormattedDocument(parent.quotation),
+    salesOrder: (parent: IDocument) => loadFormattedDocument(parent.salesOrder),
+  },
+
+  ReturnableItem: {
+    warehouse: (parent: { warehouse: string | null }) => loadFormattedWarehouse(parent.warehouse),
+  },
+
+  OrderLine: {
+    warehouse: (parent: { warehouse: string | null }) => loadFormattedWarehouse(parent.warehouse),
+  },
+
+  BomComponent: {
+    product: (parent: { product: mongoose.Types.ObjectId }) => loadFormattedProduct(parent.product),
+  },
+
+  Customer: {
+    // Read off the ledger; customer lists pass in balances summed for all of them at once
+    currentBalance: async (parent: { id: string; ledgerBalance?: number }) => {
+      if (typeof parent.ledgerBalance === 'number') {
+        return parent.ledgerBalance;
+      }
+      const [row] = await CustomerLedgerEntry.getBalances([new mongoose.Types.ObjectId(parent.id)]);
+      return row?.balance || 0;
+    },
+  },
+
+  Category: {
+    parent: (category: { parent?: mongoose.Types.ObjectId | null }) => loadFormattedCategory(category.parent),
+    // Names from the top-level category down to this one
+    path: async (category: { name: string; parent?: mongoose.Types.ObjectId | null }) => {
+      const names = [category.name];
+      let parentId = category.parent;
+      while (parentId) {
+        const parent = await Category.findById(parentId, 'name parent');
+        if (!parent) break;
+        names.unshift(parent.name);
+        parentId = parent.parent;
+      }
+      return names.join(' / ');
+    },
+  },
+
+  StockCount: {
+    categories: async (stockCount: { categories?: mongoose.Types.ObjectId[] }) => {
+      const categories = await Category.find({ _id: { $in: stockCount.categories || [] } }).sort({ name: 1 });
+      return categories.map(category => ({
+        id: category._id.toString(),
+        ...category.toObject()
+      }));
+    },
+  },
+
+  Product: {
+    category: (product: { category?: mongoose.Types.ObjectId | null }) => loadFormattedCategory(product.category),
+    parent: (product: { parent?: mongoose.Types.ObjectId | null }) => loadFormattedProduct(product.parent),
+    variants: async (product: { _id?: mongoose.Types.ObjectId; id?: string }) => {
+      const variants = await Product.find({ parent: product._id || product.id, isActive: true }).sort({ code: 1 });
+      return variants.map(variant => ({
+        id: variant._id.toString(),
+        ...variant.toObject()
+      }));
+    },
+  },
+
+  Query: {
+    // Company queries
+    getCompany: async () => {
+      await dbConnect();
+      let company = await Company.findOne({ isActive: true });
+      if (!company) return null;
+      // The settings page polls this while re-costing runs, so a job that was cut off resumes here
+      if (await resumeCostRecalculation(company._id)) {
+        runCostRecalculation(company._id, company.costingMethod);
+        company = await Company.findById(company._id);
+      }
+      return {
+        id: company._id.toString(),
+        ...company.toObject()
+      };
+    },
+
+    // Product queries
+    getProducts: async (
+      _: any,
+      { search, category, isActive }: { search?: string; category?: string; isActive?: boolean }
+    ) => {
+      await dbConnect();
+      const filter: any = {};
+      
+      if (search) {
+        filter.$or = [
+          { name: { $regex: search, $options: 'i' } },
+          { code: { $regex: search, $options: 'i' } },
+          { description: { $regex: search, $options: 'i' } },
+          { 'barcodes.code': search.trim() }
+        ];
+      }
+      
+      // A category takes in the products of every category below it
+      if (category) {
+        filter.category = { $in: await withDescendantCategories([category]) };
+      }
+      
+      if (isActive !== undefined) {
+        filter.isActive = isActive;
+      }
+      
+      const products = await Product.find(filter).sort({ name: 1 });
+      return products.map(product => ({
+        id: product._id.toString(),
+        ...product.toObject()
+      }));
+    },
+
+    getProduct: async (_: any, { id }: { id: string }) => {
+      await dbConnect();
+      const product = await Product.findById(id);
+      if (!product) return null;
+      return {
+        id: product._id.toString(),
+        ...product.toObject()
+      };
+    },
+
+    // Scanned barcodes resolve to the active product carrying them
+    getProductByBarcode: async (_: any, { barcode }: { barcode: string }) => {
+      await dbConnect();
+      const product = await Product.findOne({ 'barcodes.code': barcode.trim(), isActive: true });
+      if (!product) return null;
+      return {
+        id: product._id.toString(),
+        ...product.toObject()
+      };
+    },
+
+    // Category queries
+    getCategories: async () => {
+      await dbConnect();
+      const categories = await Category.find({ isActive: true }).sort({ name: 1 });
+      return categories.map(category => ({
+        id: category._id.toString(),
+        ...category.toObject()
+      }));
+    },
+
+    // Supplier queries
+    getSuppliers: async (
+      _: any,
+      { search, isActive }: { search?: string; isActive?: boolean }
+    ) => {
+      await dbConnect();
+      const filter: any = {};
+      
+      if (search) {
+        filter.$or = [
+          { name: { $regex: search, $options: 'i' } },
+          { nationalCode: { $regex: search, $options: 'i' } },
+          { economicCode: { $regex: search, $options: 'i' } }
+        ];
+      }
+      
+      if (isActive !== undefined) {
+        filter.isActive = isActive;
+      }
+      
+      const suppliers = await Supplier.find(filter).sort({ name: 1 });
+      return suppliers.map(supplier => ({
+        id: supplier._id.toString(),
+        ...supplier.toObject()
+      }));
+    },
+
+    getSupplier: async (_: any, { id }: { id: string }) => {
+      await dbConnect();
+      const supplier = await Supplier.findById(id);
+      if (!supplier) return null;
+      return {
+        id: supplier._id.toString(),
+        ...supplier.toObject()
+      };
+    },
+
+    // Customer queries
+    getCustomers: async (
+      _: any,
+      { search, isActive }: { search?: string; isActive?: boolean }
+    ) => {
+      await dbConnect();
+      const filter: any = {};
+      
+      if (search) {
+        filter.$or = [
+          { name: { $regex: search, $options: 'i' } },
+          { nationalCode: { $regex: search, $options: 'i' } },
+          { economicCode: { $regex: search, $options: 'i' } }
+        ];
+      }
+      
+      if (isActive !== undefined) {
+        filter.isActive = isActive;
+      }
+      
+      const customers = await Customer.find(filter).sort({ name: 1 });
+      const balances = await CustomerLedgerEntry.getBalances(customers.map(customer => customer._id));
+      const balanceById = new Map(balances.map(row => [row.customer.toString(), row.balance]));
+      
+      // Ensure all customers have default values for required enum fields
+      const processedCustomers = customers.map(customer => ({
+        id: customer._id.toString(), // Map _id to id
+        ...customer.toObject(),
+        customerType: customer.customerType || 'RETAIL',
+        status: customer.status || 'ACTIVE',
+        creditLimit: customer.creditLimit || 0,
+        ledgerBalance: balanceById.get(customer._id.toString()) || 0
+      }));
+      
+      return processedCustomers;
+    },
+
+    getCustomer: async (_: any, { id }: { id: string }) => {
+      await dbConnect();
+      const customer = await Customer.findById(id);
+      
+      if (!customer) return null;
+      
+      // Ensure customer has default values for required enum fields
+      return {
+        id: customer._id.toString(), // Map _id to id
+        ...customer.toObject(),
+        customerType: customer.customerType || 'RETAIL',
+        status: customer.status || 'ACTIVE',
+        creditLimit: customer.creditLimit || 0
+      };
+    },
+
+    // Customers whose receivable has used up at least warningPercent of their credit limit,
+    // fullest first
+    getCreditLimitReport: async (_: any, { warningPercent = 80 }: { warningPercent?: number }) => {
+      await dbConnect();
+      ensureModelsRegistered();
+      
+      if (warningPercent < 0) {
+        throw new Error('درصد هشدار نمی‌تواند منفی باشد');
+      }
+      
+      const customers = await Customer.find({ isActive: true, creditLimit: { $gt: 0 } });
+      const balances = await CustomerLedgerEntry.getBalances(customers.map(customer => customer._id));
+      const balanceById = new Map(balances.map(row => [row.customer.toString(), row.balance]));
+      
+      return customers
+        .map(customer => {
+          const balance = balanceById.get(customer._id.toString()) || 0;
+          return {
+            customer: {
+              id: customer._id.toString(),
+              ...customer.toObject(),
+              ledgerBalance: balance
+            },
+            creditLimit: customer.creditLimit,
+            balance,
+            availableCredit: customer.creditLimit - balance,
+            usedPercent: (balance / customer.creditLimit) * 100,
+            isOverLimit: balance > customer.creditLimit
+          };
+        })
+        .filter(row => row.usedPercent >= warningPercent)
+        .sort((a, b) => b.usedPercent - a.usedPercent);
+    },
+
+    // A customer's ledger over a date range with the balance after each entry; entries before
+    // the range are carried in as the opening balance
+    getCustomerStatement: async (
+      _: any,
+      { customerId, dateFrom, dateTo }: { customerId: string; dateFrom?: number; dateTo?: number }
+    ) => {
+      await dbConnect();
+      ensureModelsRegistered();
+      
+      if (!mongoose.Types.ObjectId.isValid(customerId)) {
+        throw new Error('شناسه مشتری معتبر نیست');
+      }
+      if (dateFrom && dateTo && dateFrom > dateTo) {
+        throw new Error('تاریخ شروع نباید بعد از تاریخ پایان باشد');
+      }
+      
+      const customer = await Customer.findById(customerId);
+      if (!customer) {
+        throw new Error('مشتری یافت نشد');
+      }
+      
+      const statement = await CustomerLedgerEntry.getStatement(
+        customer._id,
+        dateFrom ? new Date(dateFrom) : undefined,
+        dateTo ? new Date(dateTo) : undefined
+      );
+      return {
+        customer: {
+          id: customer._id.toString(),
+          ...customer.toObject(),
+          ledgerBalance: statement.closingBalance
+        },
+        dateFrom,
+        dateTo,
+        openingBalance: statement.openingBalance,
+        totalDebit: statement.totalDebit,
+        totalCredit: statement.totalCredit,
+        closingBalance: statement.closingBalance,
+        entries: statement.entries.map(({ entry, balance }) => formatLedgerEntry(entry, balance))
+      };
+    },
+
+    // Warehouse queries
+    getWarehouses: async (_: any, { isActive }: { isActive?: boolean }) => {
+      await dbConnect();
+      await getDefaultWarehouse();
+      
+      const filter: Record<string, unknown> = {};
+      if (isActive !== undefined) {
+        filter.isActive = isActive;
+      }
+      
+      const warehouses = await Warehouse.find(filter).sort({ isDefault: -1, name: 1 });
+      return warehouses.map(warehouse => ({
+        id: warehouse._id.toString(),
+        ...warehouse.toObject()
+      }));
+    },
+
+    getWarehouse: async (_: any, { id }: { id: string }) => {
+      await dbConnect();
+      const warehouse = await Warehouse.findById(id);
+      if (!warehouse) return null;
+      return {
+        id: warehouse._id.toString(),
+        ...warehouse.toObject()
+      };
+    },
+
+    // Dashboard stats
+    getDashboardStats: async () => {
+      await dbConnect();
+      
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      const tomorrow = new Date(today);
+      tomorrow.setDate(tomorrow.getDate() + 1);
+
+      // Get total products
+      const totalProducts = await Product.countDocuments({ isActive: true });
+
+      // Get today's purchases (count of purchase documents)
+      const todayPurchases = await Document.countDocuments({
+        documentType: 'PURCHASE_INVOICE',
+        date: { $gte: today, $lt: tomorrow },
+        isFinalized: true
+      });
+
+      // Get today's sales (total amount)
+      const todaySalesAgg = await Document.aggregate([
+        {
+          $match: {
+            documentType: 'SALE_INVOICE',
+            date: { $gte: today, $lt: tomorrow },
+            isFinalized: true
+          }
+        },
+        {
+          $group: {
+            _id: null,
+            total: { $sum: '$totalAmount' }
+          }
+        }
+      ]);
+      const todaySales = todaySalesAgg.length > 0 ? todaySalesAgg[0].total : 0;
+
+      // Calculate total inventory value and low stock products from actual movements
+      const activeProducts = await Product.find({ isActive: true, 'variantAttributes.0': { $exists: false } }).sort({ name: 1 });
+      const summaries = await InventoryMovement.getStockSummary(activeProducts.map(product => product._id));
+      const summaryByProduct = new Map(summaries.map(summary => [summary.product.toString(), summary]));
+      const reserved = await getReservedQuantities(activeProducts.map(product => product._id));
+      
+      let totalInventoryValue = 0;
+      const lowStockItems = [];
+      
+      for (const product of activeProducts) {
+        const summary = summaryByProduct.get(product._id.toString());
+        const currentStock = summary?.currentStock || 0;
+        const reservedStock = sumReserved(reserved, product._id.toString());
+        
+        totalInventoryValue += summary?.totalValue || 0;
+        
+        // Stock promised on sales orders is not there to sell, so it counts against the minimum
+        if (isLowStock(product.minimumStock, currentStock - reservedStock)) {
+          lowStockItems.push({
+            product: {
+              id: product._id.toString(),
+              ...product.toObject()
+            },
+            currentStock,
+            reservedStock,
+            availableStock: currentStock - reservedStock,
+            minimumStock: product.minimumStock
+          });
+        }
+      }
+
+      return {
+        totalProducts,
+        totalInventoryValue,
+        todayPurchases,
+        todaySales,
+        lowStockProducts: lowStockItems.length,
+        lowStockItems
+      };
+    },
+
+    // Document queries
+    getDocuments: async (
+      _: any,
+      { documentType, dateFrom, dateTo, supplierId, customerId, isFinalized }: {
+        documentType?: string;
+        dateFrom?: number;
+        dateTo?: number;
+        supplierId?: string;
+        customerId?: string;
+        isFinalized?: boolean;
+      }
+    ) => {
+      await dbConnect();
+      
+      // Ensure all models are registered
+      ensureModelsRegistered();
+      const filter: any = {};
+      
+      if (documentType) {
+        filter.documentType = documentType;
+      }
+      
+      if (dateFrom || dateTo) {
+        filter.date = {};
+        if (dateFrom) filter.date.$gte = new Date(dateFrom);
+        if (dateTo) filter.date.$lte = new Date(dateTo);
+      }
+      
+      if (supplierId) {
+        filter.supplier = supplierId;
+      }
+      
+      if (customerId) {
+        filter.customer = customerId;
+      }
+      
+      if (isFinalized !== undefined) {
+        filter.isFinalized = isFinalized;
+      }
+      
+      const documents = await Document.find(filter)
+        .populate('supplier')
+        .populate('customer')
+        .populate('items.product')
+        .populate('items.warehouse')
+        .sort({ date: -1 });
+      
+      const result = documents.map(doc => {
+        const docObject = doc.toObject();
+        const processedDoc = {
+          id: doc._id.toString(),
+          ...docObject,
+          supplier: doc.supplier && doc.supplier._id ? {
+            id: doc.supplier._id.toString(),
+            ...doc.supplier.toObject()
+          } : null,
+          customer: doc.customer ? {
+            id: doc.customer._id.toString(),
+            ...doc.customer.toObject()
+          } : null,
+          items: doc.items.map(processDocumentItem)
+        };
+        return processedDoc;
+      });
+      
+      return result;
+    },
+
+    getDocument: async (_: any, { id }: { id: string }) => {
+      await dbConnect();
+      const document = await Document.findById(id)
+        .populate('supplier')
+        .populate('customer')
+        .populate('items.product')
+        .populate('items.warehouse');
+      if (!document) return null;
+      const docObject = document.toObject();
+      return {
+        id: document._id.toString(),
+        ...docObject,
+        supplier: document.supplier && document.supplier._id ? {
+          id: document.supplier._id.toString(),
+          ...document.supplier.toObject()
+        } : null,
+        customer: document.customer ? {
+          id: document.customer._id.toString(),
+          ...document.customer.toObject()
+        } : null,
+        items: document.items.map(processDocumentItem)
+      };
+    },
+
+    // Lines of an invoice that can still be returned
+    getReturnableItems: async (_: any, { documentId }: { documentId: string }) => {
+      await dbConnect();
+      
+      const original = await Document.findById(documentId);
+      if (!original) {
+        throw new Error('فاکتور مرجع یافت نشد');
+      }
+      
+      const lines = await getReturnableQuantities(original);
+      const products = await Product.find({ _id: { $in: [...lines.keys()] } });
+      const productById = new Map(products.map(product => [product._id.toString(), product]));
+      
+      return [...lines.values()]
+        .filter(line => productById.has(line.productId))
+        .map(line => {
+          const product = productById.get(line.productId)!;
+          return {
+            product: {
+              id: product._id.toString(),
+              ...product.toObject()
+            },
+            warehouse: line.warehouseId,
+            lotNumber: line.lotNumber,
+            invoicedQuantity: line.invoicedQuantity,
+            returnedQuantity: line.returnedQuantity,
+            remainingQuantity: line.invoicedQuantity - line.returnedQuantity,
+            unitPrice: line.invoicedQuantity > 0 ? line.invoicedAmount / line.invoicedQuantity : 0
+          };
+        });
+    },
+
+    // Lines of a purchase or sales order with what is still to be delivered
+    getOrderLines: async (_: any, { documentId }: { documentId: string }) => {
+      await dbConnect();
+      
+      const order = await Document.findById(documentId);
+      if (!order || !ORDER_DELIVERIES[order.documentType]) {
+        throw new Error('سفارش یافت نشد');
+      }
+      
+      return formatOrderLines([...(await getOrderQuantities([order])).values()]);
+    },
+
+    // Finalized purchase orders with goods still outstanding, the soonest expected first.
+    // An order is overdue once its expected date has passed.
+    getOpenPurchaseOrders: async (_: any, { supplierId, overdueOnly }: { supplierId?: string; overdueOnly?: boolean }) => {
       await dbConnect();
-      const company = await Company.findOne({ isActive: true });
-      if (!company) return null;
-      return {
-        id: company._id.toString(),
-        ...company.toObject()
-      };
+      
+      const filter: mongoose.FilterQuery<IDocument> = { documentType: 'PURCHASE_ORDER', isFinalized: true, reversalOf: null, reversedBy: null };
+      if (supplierId) {
+        filter.supplier = supplierId;
+      }
+      const orders = await Document.find(filter).sort({ date: 1 });
+      const lines = [...(await getOrderQuantities(orders)).values()];
+      
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      
+      const openOrders = [];
+      for (const order of orders) {
+        const orderLines = await formatOrderLines(lines.filter(line => line.orderId === order._id.toString()));
+        if (!orderLines.some(line => line.outstandingQuantity > 0)) {
+          continue;
+        }
+        const isOverdue = !!order.expectedDate && order.expectedDate < today;
+        if (overdueOnly && !isOverdue) {
+          continue;
+        }
+        openOrders.push({
+          order: await loadFormattedDocument(order._id),
+          expectedDate: order.expectedDate,
+          isOverdue,
+          lines: orderLines,
+          outstandingAmount: orderLines.reduce((sum, line) => sum + line.outstandingQuantity * line.unitPrice, 0)
+        });
+      }
+      
+      // Orders without an expected date come last
+      return openOrders.sort((a, b) =>
+        (a.expectedDate?.getTime() ?? Infinity) - (b.expectedDate?.getTime() ?? Infinity)
+      );
     },
 
-    // Product queries
-    getProducts: async (
+    // Inventory queries
+    getInventoryMovements: async (
       _: any,
-      { search, category, isActive }: { search?: string; category?: string; isActive?: boolean }
+      { productId, warehouseId, movementType, dateFrom, dateTo }: {
+        productId?: string;
+        warehouseId?: string;
+        movementType?: string;
+        dateFrom?: number;
+        dateTo?: number;
+      }
     ) => {
       await dbConnect();
       const filter: any = {};
       
-      if (search) {
-        filter.$or = [
-          { name: { $regex: search, $options: 'i' } },
-          { code: { $regex: search, $options: 'i' } },
-          { description: { $regex: search, $options: 'i' } }
-        ];
+      if (productId) {
+        filter.product = productId;
       }
       
-      if (category) {
-        filter.category = category;
+      if (warehouseId) {
+        filter.warehouse = warehouseId;
       }
       
-      if (isActive !== undefined) {
-        filter.isActive = isActive;
+      if (movementType) {
+        filter.movementType = movementType;
       }
       
-      const products = await Product.find(filter).sort({ name: 1 });
-      return products.map(product => ({
-        id: product._id.toString(),
-        ...product.toObject()
-      }));
+      if (dateFrom || dateTo) {
+        filter.date = {};
+        if (dateFrom) filter.date.$gte = new Date(dateFrom);
+        if (dateTo) filter.date.$lte = new Date(dateTo);
+      }
+      
+      const movements = await InventoryMovement.find(filter)
+        .populate('product')
+        .populate('warehouse')
+        .populate('document')
+        .sort({ date: -1 });
+      
+      return movements;
     },
 
-    getProduct: async (_: any, { id }: { id: string }) => {
+    // Stock of a product in each warehouse
+    getWarehouseStock: async (
+      _: any,
+      { productId, upToDate }: { productId: string; upToDate?: number }
+    ) => {
       await dbConnect();
-      const product = await Product.findById(id);
-      if (!product) return null;
-      return {
-        id: product._id.toString(),
-        ...product.toObject()
-      };
+      
+      if (!mongoose.Types.ObjectId.isValid(productId)) {
+        throw new Error('شناسه کالا معتبر نیست');
+      }
+      
+      const stocks = await InventoryMovement.getStockByWarehouse(
+        new mongoose.Types.ObjectId(productId),
+        upToDate ? new Date(upToDate) : undefined
+      );
+      const warehouses = await Warehouse.find({ _id: { $in: stocks.map(stock => stock.warehouse) } });
+      const warehouseById = new Map(warehouses.map(warehouse => [warehouse._id.toString(), warehouse]));
+      const reserved = await getReservedQuantities([new mongoose.Types.ObjectId(productId)]);
+      
+      return stocks.map(stock => {
+        const warehouse = stock.warehouse ? warehouseById.get(stock.warehouse.toString()) : null;
+        const reservedQuantity = stock.warehouse ? sumReserved(reserved, productId, stock.warehouse.toString()) : 0;
+        return {
+          warehouse: warehouse ? { id: warehouse._id.toString(), ...warehouse.toObject() } : null,
+          quantity: stock.quantity,
+          reservedQuantity,
+          availableQuantity: stock.quantity - reservedQuantity
+        };
+      });
     },
 
-    // Supplier queries
-    getSuppliers: async (
+    // On-hand quantity of a product per lot, in FEFO order
+    getLotStock: async (
       _: any,
-      { search, isActive }: { search?: string; isActive?: boolean }
+      { productId, warehouseId, upToDate }: { productId: string; warehouseId?: string; upToDate?: number }
     ) => {
       await dbConnect();
-      const filter: any = {};
       
-      if (search) {
-        filter.$or = [
-          { name: { $regex: search, $options: 'i' } },
-          { nationalCode: { $regex: search, $options: 'i' } },
-          { economicCode: { $regex: search, $options: 'i' } }
-        ];
+      if (!mongoose.Types.ObjectId.isValid(productId)) {
+        throw new Error('شناسه کالا معتبر نیست');
       }
-      
-      if (isActive !== undefined) {
-        filter.isActive = isActive;
+      if (warehouseId && !mongoose.Types.ObjectId.isValid(warehouseId)) {
+        throw new Error('شناسه انبار معتبر نیست');
       }
       
-      const suppliers = await Supplier.find(filter).sort({ name: 1 });
-      return suppliers.map(supplier => ({
-        id: supplier._id.toString(),
-        ...supplier.toObject()
-      }));
+      const lots = await InventoryMovement.getLotStock(
+        new mongoose.Types.ObjectId(productId),
+        upToDate ? new Date(upToDate) : undefined,
+        warehouseId ? new mongoose.Types.ObjectId(warehouseId) : undefined
+      );
+      return formatLotStocks(lots);
     },
 
-    getSupplier: async (_: any, { id }: { id: string }) => {
+    // Where a serial number came from and where it went, per product carrying it
+    getSerialNumberHistory: async (_: any, { serialNumber }: { serialNumber: string }) => {
       await dbConnect();
-      const supplier = await Supplier.findById(id);
-      if (!supplier) return null;
-      return {
-        id: supplier._id.toString(),
-        ...supplier.toObject()
-      };
+      ensureModelsRegistered();
+      
+      const serial = serialNumber?.trim();
+      if (!serial) {
+        throw new Error('شماره سریال الزامی است');
+      }
+      
+      const movements = await InventoryMovement.find({ serialNumbers: serial })
+        .populate<{ product: mongoose.Document<mongoose.Types.ObjectId> | null }>('product')
+        .populate('warehouse')
+        .populate<{ document: IDocument | null }>('document')
+        .sort({ date: 1, createdAt: 1 });
+      const stock = await InventoryMovement.getSerialStock([serial]);
+      
+      const movementsByProduct = new Map<string, typeof movements>();
+      for (const movement of movements) {
+        if (!movement.product) continue;
+        const productId = movement.product._id.toString();
+        movementsByProduct.set(productId, [...(movementsByProduct.get(productId) || []), movement]);
+      }
+      
+      return Promise.all([...movementsByProduct.entries()].map(async ([productId, productMovements]) => {
+        // The latest receipt and sale not cancelled by a reversal
+        const effective = productMovements
+          .filter(movement => !movement.isReversal && !movement.document?.reversedBy)
+          .reverse();
+        const received = effective.find(movement => ['PURCHASE', 'INITIAL_STOCK', 'ADJUSTMENT_IN'].includes(movement.movementType));
+        const sold = effective.find(movement => movement.movementType === 'SALE');
+        const inStock = stock.find(entry => entry.product.toString() === productId);
+        const product = productMovements[0].product!;
+        
+        return {
+          serialNumber: serial,
+          product: { id: productId, ...product.toObject() },
+          inStock: !!inStock,
+          warehouse: await loadFormattedWarehouse(inStock?.warehouse),
+          receivedIn: await loadFormattedDocument(received?.document?._id),
+          soldIn: await loadFormattedDocument(sold?.document?._id),
+          movements: productMovements
+        };
+      }));
     },
 
-    // Customer queries
-    getCustomers: async (
+    // Report queries
+    getInventoryReport: async (
       _: any,
-      { search, isActive }: { search?: string; isActive?: boolean }
+      { filter }: {
+        filter?: {
+          categoryFilter?: string;
+          warehouseId?: string;
+          lowStockOnly?: boolean;
+          groupVariants?: boolean;
+          dateFrom?: number;
+          dateTo?: number;
+        };
+      }
     ) => {
       await dbConnect();
-      const filter: any = {};
-      
-      if (search) {
-        filter.$or = [
-          { name: { $regex: search, $options: 'i' } },
-          { nationalCode: { $regex: search, $options: 'i' } },
-          { economicCode: { $regex: search, $options: 'i' } }
-        ];
+      const productFilter: Record<string, unknown> = { isActive: true };
+      if (filter?.categoryFilter) {
+        productFilter.category = { $in: await withDescendantCategories([filter.categoryFilter]) };
       }
       
-      if (isActive !== undefined) {
-        filter.isActive = isActive;
+      if (filter?.warehouseId && !mongoose.Types.ObjectId.isValid(filter.warehouseId)) {
+        throw new Error('شناسه انبار معتبر نیست');
       }
       
-      const customers = await Customer.find(filter).sort({ name: 1 });
+      const dateFrom = filter?.dateFrom ? new Date(filter.dateFrom) : undefined;
+      const dateTo = filter?.dateTo ? new Date(filter.dateTo) : undefined;
       
-      // Ensure all customers have default values for required enum fields
-      const processedCustomers = customers.map(customer => ({
-        id: customer._id.toString(), // Map _id to id
-        ...customer.toObject(),
-        customerType: customer.customerType || 'RETAIL',
-        status: customer.status || 'ACTIVE',
-        creditLimit: customer.creditLimit || 0,
-        currentBalance: customer.currentBalance || 0
-      }));
+      const products = await Product.find(productFilter).sort({ name: 1 });
+      const summaries = await InventoryMovement.getStockSummary(
+        products.map(product => product._id),
+        dateTo,
+        filter?.warehouseId ? new mongoose.Types.ObjectId(filter.warehouseId) : undefined
+      );
+      const summaryByProduct = new Map(summaries.map(summary => [summary.product.toString(), summary]));
+      const reserved = await getReservedQuantities(products.map(product => product._id));
       
-      return processedCustomers;
+      // With a start date each row also shows the stock it opened the window with and what moved
+      // in and out until dateTo; its current stock is then the closing stock
+      const openingByProduct = new Map<string, number>();
+      const totalsByProduct = new Map<string, { incomingQuantity: number; outgoingQuantity: number }>();
+      if (dateFrom) {
+        const warehouseId = filter?.warehouseId ? new mongoose.Types.ObjectId(filter.warehouseId) : undefined;
+        const productIds = products.map(product => product._id);
+        const [openings, totals] = await Promise.all([
+          InventoryMovement.getStockSummary(productIds, new Date(dateFrom.getTime() - 1), warehouseId),
+          InventoryMovement.getMovementTotals(productIds, dateFrom, dateTo, warehouseId)
+        ]);
+        openings.forEach(opening => openingByProduct.set(opening.product.toString(), opening.currentStock));
+        totals.forEach(total => totalsByProduct.set(total.product.toString(), total));
+      }
+      
+      // Parents hold no stock; their variants are reported one by one or rolled up into them
+      const variantRows = products.filter(product => !product.variantAttributes?.length).map((product): InventoryReportRow => {
+        const summary = summaryByProduct.get(product._id.toString());
+        const currentStock = summary?.currentStock || 0;
+        const reservedStock = sumReserved(reserved, product._id.toString(), filter?.warehouseId);
+        const totals = totalsByProduct.get(product._id.toString());
+        return {
+          product: {
+            id: product._id.toString(),
+            ...product.toObject()
+          },
+          openingStock: dateFrom ? openingByProduct.get(product._id.toString()) || 0 : null,
+          incomingQuantity: dateFrom ? totals?.incomingQuantity || 0 : null,
+          outgoingQuantity: dateFrom ? totals?.outgoingQuantity || 0 : null,
+          currentStock,
+          reservedStock,
+          availableStock: currentStock - reservedStock,
+          averagePrice: summary?.averagePrice || 0,
+          totalValue: summary?.totalValue || 0,
+          lastMovementDate: summary?.lastMovementDate || null
+        };
+      });
+      const report = filter?.groupVariants ? await rollUpVariantRows(variantRows) : variantRows;
+      
+      return report.filter(row => {
+        return !filter?.lowStockOnly || isLowStock(row.product.minimumStock, row.availableStock);
+      });
     },
 
-    getCustomer: async (_: any, { id }: { id: string }) => {
+    getStockMovementReport: async (
+      _: any,
+      { productId, dateFrom, dateTo, warehouseId }: {
+        productId: string;
+        dateFrom: number;
+        dateTo: number;
+        warehouseId?: string;
+      }
+    ) => {
       await dbConnect();
-      const customer = await Customer.findById(id);
       
-      if (!customer) return null;
+      if (!mongoose.Types.ObjectId.isValid(productId)) {
+        throw new Error('شناسه کالا معتبر نیست');
+      }
+      if (warehouseId && !mongoose.Types.ObjectId.isValid(warehouseId)) {
+        throw new Error('شناسه انبار معتبر نیست');
+      }
       
-      // Ensure customer has default values for required enum fields
-      return {
-        id: customer._id.toString(), // Map _id to id
-        ...customer.toObject(),
-        customerType: customer.customerType || 'RETAIL',
-        status: customer.status || 'ACTIVE',
-        creditLimit: customer.creditLimit || 0,
-        currentBalance: customer.currentBalance || 0
-      };
+      return InventoryMovement.getDailyMovements(
+        new mongoose.Types.ObjectId(productId),
+        new Date(dateFrom),
+        new Date(dateTo),
+        warehouseId ? new mongoose.Types.ObjectId(warehouseId) : undefined
+      );
     },
 
-    // Dashboard stats
-    getDashboardStats: async () => {
+    // Rial cardex (weighted average) for a single product
+    getProductCardex: async (
+      _: any,
+      { productId, dateFrom, dateTo, warehouseId, lotNumber }: {
+        productId: string;
+        dateFrom?: number;
+        dateTo?: number;
+        warehouseId?: string;
+        lotNumber?: string;
+      }
+    ) => {
       await dbConnect();
+      ensureModelsRegistered();
       
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-
-      // Get total products
-      const totalProducts = await Product.countDocuments({ isActive: true });
+      if (!mongoose.Types.ObjectId.isValid(productId)) {
+        throw new Error('شناسه کالا معتبر نیست');
+      }
+      if (warehouseId && !mongoose.Types.ObjectId.isValid(warehouseId)) {
+        throw new Error('شناسه انبار معتبر نیست');
+      }
+      
+      return InventoryMovement.getCardex(
+        new mongoose.Types.ObjectId(productId),
+        dateFrom ? new Date(dateFrom) : undefined,
+        dateTo ? new Date(dateTo) : undefined,
+        warehouseId ? new mongoose.Types.ObjectId(warehouseId) : undefined,
+        lotNumber || undefined,
+        await getCostingMethod()
+      );
+    },
 
-      // Get today's purchases (count of purchase documents)
-      const todayPurchases = await Document.countDocuments({
-        documentType: 'PURCHASE_INVOICE',
-        date: { $gte: today, $lt: tomorrow },
-        isFinalized: true
-      });
+    // Manual stock adjustments totalled per reason code
+    getAdjustmentReport: async (
+      _: any,
+      { dateFrom, dateTo, warehouseId }: {
+        dateFrom?: number;
+        dateTo?: number;
+        warehouseId?: string;
+      }
+    ) => {
+      await dbConnect();
+      
+      if (warehouseId && !mongoose.Types.ObjectId.isValid(warehouseId)) {
+        throw new Error('شناسه انبار معتبر نیست');
+      }
+      
+      return InventoryMovement.getAdjustmentSummary(
+        dateFrom ? new Date(dateFrom) : undefined,
+        dateTo ? new Date(dateTo) : undefined,
+        warehouseId ? new mongoose.Types.ObjectId(warehouseId) : undefined
+      );
+    },
 
-      // Get today's sales (total amount)
-      const todaySalesAgg = await Document.aggregate([
+    // Revenue, cost of goods sold and gross profit of finalized sales in a date range, net of
+    // returns and reversals, grouped by invoice, product, category or customer
+    getGrossProfitReport: async (
+      _: any,
+      { dateFrom, dateTo, groupBy }: { dateFrom: number; dateTo: number; groupBy: string }
+    ) => {
+      await dbConnect();
+      ensureModelsRegistered();
+      
+      if (dateFrom > dateTo) {
+        throw new Error('تاریخ شروع نباید بعد از تاریخ پایان باشد');
+      }
+      
+      const documents: SaleDocumentRow[] = await Document.find({
+        documentType: { $in: ['SALE_INVOICE', 'SALE_RETURN'] },
+        isFinalized: true,
+        date: { $gte: new Date(dateFrom), $lte: new Date(dateTo) }
+      })
+        .populate('customer')
+        .populate('items.product');
+      
+      // Returns and reversals count against the invoice they go back to, which may fall
+      // outside the range; a reversed return is two steps away from its invoice
+      const loaded = new Map(documents.map(document => [document._id.toString(), document]));
+      const parentOf = (document: SaleDocumentRow) =>
+        document.reversalOf || (document.documentType === 'SALE_RETURN' ? document.returnOf : undefined);
+      for (let depth = 0; depth < 2; depth++) {
+        const missingIds = [...loaded.values()]
+          .map(parentOf)
+          .filter(id => id && !loaded.has(id.toString()));
+        if (missingIds.length === 0) break;
+        const parents: SaleDocumentRow[] = await Document.find({ _id: { $in: missingIds } }).populate('customer');
+        parents.forEach(parent => loaded.set(parent._id.toString(), parent));
+      }
+      const invoiceOf = (document: SaleDocumentRow) => {
+        let current = document;
+        for (let parentId = parentOf(current); parentId && loaded.has(parentId.toString()); parentId = parentOf(current)) {
+          current = loaded.get(parentId.toString())!;
+        }
+        return current;
+      };
+      
+      // Sales leave stock at their stored cost of goods; returns bring goods back at the cost they carry
+      const lineCosts = await InventoryMovement.aggregate<{
+        _id: { document: mongoose.Types.ObjectId; product: mongoose.Types.ObjectId };
+        cost: number;
+      }>([
         {
           $match: {
-            documentType: 'SALE_INVOICE',
-            date: { $gte: today, $lt: tomorrow },
-            isFinalized: true
+            document: { $in: documents.map(document => document._id) },
+            movementType: { $in: ['SALE', 'SALE_RETURN'] }
           }
         },
         {
           $group: {
-            _id: null,
-            total: { $sum: '$totalAmount' }
+            _id: { document: '$document', product: '$product' },
+            cost: {
+              $sum: { $cond: [{ $eq: ['$movementType', 'SALE'] }, { $ifNull: ['$costOfGoods', 0] }, '$totalPrice'] }
+            }
           }
         }
       ]);
-      const todaySales = todaySalesAgg.length > 0 ? todaySalesAgg[0].total : 0;
-
-      // Calculate total inventory value and low stock products
-      // This would require more complex aggregation with inventory movements
-      // For now, we'll return placeholder values
-      const totalInventoryValue = 15750000; // This should be calculated from actual inventory
-      const lowStockProducts = 5; // This should be calculated based on minimum stock levels
-
-      return {
-        totalProducts,
-        totalInventoryValue,
-        todayPurchases,
-        todaySales,
-        lowStockProducts
-      };
-    },
-
-    // Document queries
-    getDocuments: async (
-      _: any,
-      { documentType, dateFrom, dateTo, supplierId, customerId, isFinalized }: {
-        documentType?: string;
-        dateFrom?: number;
-        dateTo?: number;
-        supplierId?: string;
-        customerId?: string;
-        isFinalized?: boolean;
-      }
-    ) => {
-      await dbConnect();
+      // Grouped by parent product, variants are reported under the product they vary
+      const parents = groupBy === 'PARENT_PRODUCT'
+        ? await Product.find({
+          _id: { $in: documents.flatMap(document => document.items.map(item => item.product?.parent)).filter(Boolean) }
+        })
+        : [];
+      const parentById = new Map(parents.map(parent => [parent._id.toString(), parent]));
+      const categories = groupBy === 'CATEGORY' ? await Category.find({}) : [];
+      const categoryById = new Map(categories.map(category => [category._id.toString(), category]));
       
-      // Ensure all models are registered
-      ensureModelsRegistered();
-      const filter: any = {};
+      const costByLine = new Map(lineCosts.map(row => [`${row._id.document}:${row._id.product}`, row.cost]));
       
-      if (documentType) {
-        filter.documentType = documentType;
+      const rows = new Map<string, { key: string; label: string; date: Date | null; quantity: number; revenue: number; costOfGoods: number }>();
+      for (const document of documents) {
+        const invoice = invoiceOf(document);
+        const sign = (document.documentType === 'SALE_RETURN' ? -1 : 1) * (document.reversalOf ? -1 : 1);
+        
+        for (const item of document.items) {
+          const product = item.product;
+          const productId = product?._id.toString() || '';
+          // Several lines of one product share its cost in proportion to their quantities
+          const productQuantity = document.items
+            .filter(other => (other.product?._id.toString() || '') === productId)
+            .reduce((sum, other) => sum + other.quantity, 0);
+          const cost = (costByLine.get(`${document._id}:${productId}`) || 0) * item.quantity / productQuantity;
+          const parent = product?.parent ? parentById.get(product.parent.toString()) : undefined;
+          
+          const [key, label] =
+            groupBy === 'INVOICE' ? [invoice._id.toString(), invoice.documentNumber] :
+            groupBy === 'PRODUCT' ? [productId, product?.name || 'کالای حذف شده'] :
+            groupBy === 'PARENT_PRODUCT' ? [parent?._id.toString() || productId, parent?.name || product?.name || 'کالای حذف شده'] :
+            groupBy === 'CATEGORY' ? [product?.category?.toString() || '', categoryById.get(product?.category?.toString())?.name || 'بدون دسته‌بندی'] :
+            [invoice.customer?._id?.toString() || '', invoice.customer?.name || 'مشتری نامشخص'];
+          
+          const row = rows.get(key) || {
+            key,
+            label,
+            date: groupBy === 'INVOICE' ? invoice.date : null,
+            quantity: 0,
+            revenue: 0,
+            costOfGoods: 0
+          };
+          row.quantity += sign * item.quantity;
+          row.revenue += sign * item.totalPrice;
+          row.costOfGoods += sign * cost;
+          rows.set(key, row);
+        }
       }
       
-      if (dateFrom || dateTo) {
-        filter.date = {};
-        if (dateFrom) filter.date.$gte = new Date(dateFrom);
-        if (dateTo) filter.date.$lte = new Date(dateTo);
-      }
+      return [...rows.values()]
+        .map(row => ({
+          ...row,
+          grossProfit: row.revenue - row.costOfGoods,
+          marginPercent: row.revenue !== 0 ? (row.revenue - row.costOfGoods) / row.revenue * 100 : 0
+        }))
+        .sort((a, b) => groupBy === 'INVOICE' ? a.date!.getTime() - b.date!.getTime() : b.grossProfit - a.grossProfit);
+    },
+
+    // Stock value per category in tree order. Each row carries what is filed directly under the
+    // category and a subtotal that adds everything below it; uncategorised products come last.
+    getCategoryStockReport: async (_: any, { warehouseId }: { warehouseId?: string }) => {
+      await dbConnect();
       
-      if (supplierId) {
-        filter.supplier = supplierId;
+      if (warehouseId && !mongoose.Types.ObjectId.isValid(warehouseId)) {
+        throw new Error('شناسه انبار معتبر نیست');
       }
       
-      if (customerId) {
-        filter.customer = customerId;
-      }
+      const categories = await Category.find({ isActive: true }).sort({ name: 1 });
+      const products = await Product.find({ isActive: true, 'variantAttributes.0': { $exists: false } }, 'category');
+      const summaries = await InventoryMovement.getStockSummary(
+        products.map(product => product._id),
+        undefined,
+        warehouseId ? new mongoose.Types.ObjectId(warehouseId) : undefined
+      );
+      const summaryByProduct = new Map(summaries.map(summary => [summary.product.toString(), summary]));
       
-      if (isFinalized !== undefined) {
-        filter.isFinalized = isFinalized;
+      const categoryIds = new Set(categories.map(category => category._id.toString()));
+      const own = new Map<string, { productCount: number; quantity: number; value: number }>();
+      for (const product of products) {
+        const key = product.category && categoryIds.has(product.category.toString()) ? product.category.toString() : '';
+        const totals = own.get(key) || { productCount: 0, quantity: 0, value: 0 };
+        const summary = summaryByProduct.get(product._id.toString());
+        totals.productCount += 1;
+        totals.quantity += summary?.currentStock || 0;
+        totals.value += summary?.totalValue || 0;
+        own.set(key, totals);
       }
       
-      const documents = await Document.find(filter)
-        .populate('supplier')
-        .populate('customer')
-        .populate('items.product')
-        .sort({ date: -1 });
-      
-      const result = documents.map(doc => {
-        const docObject = doc.toObject();
-        const processedDoc = {
-          id: doc._id.toString(),
-          ...docObject,
-          supplier: doc.supplier && doc.supplier._id ? {
-            id: doc.supplier._id.toString(),
-            ...doc.supplier.toObject()
-          } : null,
-          customer: doc.customer ? {
-            id: doc.customer._id.toString(),
-            ...doc.customer.toObject()
-          } : null,
-          items: doc.items.map(processDocumentItem)
+      const childrenOf = (parentId: string | null) => categories.filter(category =>
+        (category.parent && categoryIds.has(category.parent.toString()) ? category.parent.toString() : null) === parentId
+      );
+      const rows: {
+        category: { id: string } | null;
+        level: number;
+        productCount: number;
+        quantity: number;
+        value: number;
+        subtotalProductCount: number;
+        subtotalQuantity: number;
+        subtotalValue: number;
+      }[] = [];
+      const visit = (category: mongoose.Document<mongoose.Types.ObjectId>, level: number) => {
+        const totals = own.get(category._id.toString()) || { productCount: 0, quantity: 0, value: 0 };
+        const row = {
+          category: { id: category._id.toString(), ...category.toObject() },
+          level,
+          ...totals,
+          subtotalProductCount: totals.productCount,
+          subtotalQuantity: totals.quantity,
+          subtotalValue: totals.value
         };
-        return processedDoc;
-      });
+        rows.push(row);
+        for (const child of childrenOf(category._id.toString())) {
+          const childRow = visit(child, level + 1);
+          row.subtotalProductCount += childRow.subtotalProductCount;
+          row.subtotalQuantity += childRow.subtotalQuantity;
+          row.subtotalValue += childRow.subtotalValue;
+        }
+        return row;
+      };
+      childrenOf(null).forEach(category => visit(category, 0));
       
-      return result;
+      const uncategorised = own.get('');
+      if (uncategorised) {
+        rows.push({
+          category: null,
+          level: 0,
+          ...uncategorised,
+          subtotalProductCount: uncategorised.productCount,
+          subtotalQuantity: uncategorised.quantity,
+          subtotalValue: uncategorised.value
+        });
+      }
+      return rows;
     },
 
-    getDocument: async (_: any, { id }: { id: string }) => {
+    // Lots still in stock that expire within the given number of days, expired ones included
+    getExpiringLots: async (_: any, { days, warehouseId }: { days: number; warehouseId?: string }) => {
       await dbConnect();
-      const document = await Document.findById(id)
-        .populate('supplier')
-        .populate('customer')
-        .populate('items.product');
-      if (!document) return null;
-      const docObject = document.toObject();
-      return {
-        id: document._id.toString(),
-        ...docObject,
-        supplier: document.supplier && document.supplier._id ? {
-          id: document.supplier._id.toString(),
-          ...document.supplier.toObject()
-        } : null,
-        customer: document.customer ? {
-          id: document.customer._id.toString(),
-          ...document.customer.toObject()
-        } : null,
-        items: document.items.map(processDocumentItem)
-      };
+      
+      if (days < 0) {
+        throw new Error('تعداد روز نمی‌تواند منفی باشد');
+      }
+      if (warehouseId && !mongoose.Types.ObjectId.isValid(warehouseId)) {
+        throw new Error('شناسه انبار معتبر نیست');
+      }
+      
+      const lots = await InventoryMovement.getExpiringLots(
+        new Date(Date.now() + days * 24 * 60 * 60 * 1000),
+        warehouseId ? new mongoose.Types.ObjectId(warehouseId) : undefined
+      );
+      return formatLotStocks(lots);
     },
 
-    // Inventory queries
-    getInventoryMovements: async (
-      _: any,
-      { productId, movementType, dateFrom, dateTo }: {
-        productId?: string;
-        movementType?: string;
-        dateFrom?: number;
-        dateTo?: number;
-      }
-    ) => {
+    // Reorder suggestions grouped by last-used supplier
+    getReorderSuggestions: async (_: any, { consumptionDays }: { consumptionDays?: number }) => {
       await dbConnect();
-      const filter: any = {};
       
-      if (productId) {
-        filter.product = productId;
-      }
+      return buildReorderSuggestions(consumptionDays);
+    },
+
+    // Stock count queries
+    getStockCounts: async (_: any, { status }: { status?: string }) => {
+      await dbConnect();
       
-      if (movementType) {
-        filter.movementType = movementType;
-      }
+      const stockCounts = await StockCount.find(status ? { status } : {}).sort({ date: -1, createdAt: -1 });
+      return Promise.all(stockCounts.map(formatStockCount));
+    },
+
+    getStockCount: async (_: any, { id }: { id: string }) => {
+      await dbConnect();
       
-      if (dateFrom || dateTo) {
-        filter.date = {};
-        if (dateFrom) filter.date.$gte = new Date(dateFrom);
-        if (dateTo) filter.date.$lte = new Date(dateTo);
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        throw new Error('شناسه انبارگردانی معتبر نیست');
       }
-      
-      const movements = await InventoryMovement.find(filter)
-        .populate('product')
-        .populate('document')
-        .sort({ date: -1 });
-      
-      return movements;
+      const stockCount = await StockCount.findById(id);
+      return stockCount ? formatStockCount(stockCount) : null;
     },
   },
 
@@ -426,6 +2833,13 @@ export const resolvers = {
         console.log('financialYearEnd as Date:', input.financialYearEnd.toISOString());
       }
       
+      const previousCompany = await Company.findOne({ isActive: true });
+      const costingMethodChanged = (previousCompany?.costingMethod || CostingMethod.MOVING_AVERAGE) !==
+        (input.costingMethod || CostingMethod.MOVING_AVERAGE);
+      if (costingMethodChanged && isCostRecalculationRunning(previousCompany)) {
+        throw new Error('محاسبه مجدد بهای تمام شده موجودی در جریان است؛ پس از پایان آن روش قیمت‌گذاری را تغییر دهید');
+      }
+      
       // Deactivate existing company
       await Company.updateMany({}, { isActive: false });
       
@@ -434,10 +2848,36 @@ export const resolvers = {
         isActive: true
       });
       
+      // Stored outflow costs follow the costing method, so switching it re-costs all stock history
+      if (costingMethodChanged) {
+        await startCostRecalculation(company._id);
+        // Not awaited: the job records its progress, and getCompany resumes it if it is cut off
+        runCostRecalculation(company._id, company.costingMethod);
+      }
+      
       console.log('=== Company created in database ===');
       console.log('Saved company:', JSON.stringify(company.toObject(), null, 2));
       
-      return company;
+      return Company.findById(company._id);
+    },
+
+    restartCostRecalculation: async () => {
+      await dbConnect();
+      
+      const company = await Company.findOne({ isActive: true });
+      if (!company) {
+        throw new Error('اطلاعات شرکت یافت نشد');
+      }
+      if (isCostRecalculationRunning(company)) {
+        throw new Error('محاسبه مجدد بهای تمام شده موجودی در جریان است');
+      }
+      
+      // A failed or cut off job carries on from its cursor; anything else starts over
+      if (!await resumeCostRecalculation(company._id, true)) {
+        await startCostRecalculation(company._id);
+      }
+      runCostRecalculation(company._id, company.costingMethod);
+      return Company.findById(company._id);
     },
 
     // Product mutations
@@ -450,6 +2890,12 @@ export const resolvers = {
         throw new Error('کد کالا قبلاً ثبت شده است');
       }
       
+      assertValidAlternateUnits(input.unit, input.alternateUnits);
+      input.barcodes = await prepareBarcodes(input.barcodes);
+      input.components = await prepareBomComponents(input.components);
+      input.variantAttributes = await prepareVariantAttributes(input.variantAttributes);
+      input.category = await resolveProductCategory(input.categoryId);
+      
       const product = await Product.create({
         ...input,
         isActive: true
@@ -474,6 +2920,20 @@ export const resolvers = {
         throw new Error('کد کالا قبلاً ثبت شده است');
       }
       
+      assertValidAlternateUnits(input.unit, input.alternateUnits);
+      if (input.barcodes) {
+        input.barcodes = await prepareBarcodes(input.barcodes, id);
+      }
+      if (input.components) {
+        input.components = await prepareBomComponents(input.components, id);
+      }
+      if (input.variantAttributes) {
+        input.variantAttributes = await prepareVariantAttributes(input.variantAttributes, id);
+      }
+      if (input.categoryId !== undefined) {
+        input.category = await resolveProductCategory(input.categoryId);
+      }
+      
       const product = await Product.findByIdAndUpdate(
         id,
         { ...input, updatedAt: new Date() },
@@ -496,10 +2956,130 @@ export const resolvers = {
         { isActive: false, updatedAt: new Date() },
         { new: true }
       );
+      // A parent's variants go with it
+      if (product) {
+        await Product.updateMany({ parent: product._id }, { isActive: false, updatedAt: new Date() });
+      }
       
       return !!product;
     },
 
+    // Creates the variants missing for the combinations of a parent's attribute values; each
+    // starts from the parent's unit, category, prices and lot tracking
+    generateProductVariants: async (_: any, { productId }: { productId: string }) => {
+      await dbConnect();
+      
+      const parent = await Product.findOne({ _id: productId, isActive: true });
+      if (!parent) {
+        throw new Error('کالا یافت نشد');
+      }
+      if (!parent.variantAttributes?.length) {
+        throw new Error('برای این کالا ویژگی گونه تعریف نشده است');
+      }
+      
+      let combinations: { name: string; value: string; code: string }[][] = [[]];
+      for (const attribute of parent.variantAttributes) {
+        combinations = combinations.flatMap(combination => attribute.values.map((value: string, index: number) => [
+          ...combination,
+          { name: attribute.name, value, code: variantCodePart(value, index) }
+        ]));
+      }
+      
+      const keyOf = (values: { name: string; value: string }[]) =>
+        values.map(({ name, value }) => `${name}=${value}`).join('|');
+      const existing = await Product.find({ parent: parent._id, isActive: true });
+      const existingKeys = new Set(existing.map(variant => keyOf(variant.variantValues)));
+      
+      const variants = combinations
+        .filter(combination => !existingKeys.has(keyOf(combination)))
+        .map(combination => ({
+          name: `${parent.name} ${combination.map(part => part.value).join(' ')}`,
+          code: [parent.code, ...combination.map(part => part.code)].join('-'),
+          description: parent.description,
+          unit: parent.unit,
+          alternateUnits: parent.alternateUnits,
+          category: parent.category,
+          salePrice: parent.salePrice,
+          trackLots: parent.trackLots,
+          parent: parent._id,
+          variantValues: combination.map(({ name, value }) => ({ name, value })),
+          isActive: true
+        }));
+      
+      const taken = await Product.findOne({ code: { $in: variants.map(variant => variant.code) }, isActive: true });
+      if (taken) {
+        throw new Error(`کد ${taken.code} قبلاً برای کالای ${taken.name} ثبت شده است`);
+      }
+      await Product.insertMany(variants);
+      
+      const products = await Product.find({ parent: parent._id, isActive: true }).sort({ code: 1 });
+      return products.map(product => ({
+        id: product._id.toString(),
+        ...product.toObject()
+      }));
+    },
+
+    // Category mutations
+    createCategory: async (_: any, { input }: { input: { name: string; parentId?: string | null } }) => {
+      await dbConnect();
+      
+      const name = await assertValidCategory(input);
+      const category = await Category.create({
+        name,
+        parent: input.parentId || undefined,
+        isActive: true
+      });
+      
+      return {
+        id: category._id.toString(),
+        ...category.toObject()
+      };
+    },
+
+    updateCategory: async (_: any, { id, input }: { id: string; input: { name: string; parentId?: string | null } }) => {
+      await dbConnect();
+      
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        throw new Error('شناسه دسته‌بندی معتبر نیست');
+      }
+      const name = await assertValidCategory(input, id);
+      const category = await Category.findOneAndUpdate(
+        { _id: id, isActive: true },
+        { name, parent: input.parentId || null, updatedAt: new Date() },
+        { new: true }
+      );
+      if (!category) {
+        throw new Error('دسته‌بندی یافت نشد');
+      }
+      
+      return {
+        id: category._id.toString(),
+        ...category.toObject()
+      };
+    },
+
+    // Only an empty category can be removed: no subcategories and no active products
+    deleteCategory: async (_: any, { id }: { id: string }) => {
+      await dbConnect();
+      
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        throw new Error('شناسه دسته‌بندی معتبر نیست');
+      }
+      if (await Category.exists({ parent: id, isActive: true })) {
+        throw new Error('دسته‌بندی زیرمجموعه دارد؛ ابتدا زیرمجموعه‌ها را حذف یا جابه‌جا کنید');
+      }
+      if (await Product.exists({ category: id, isActive: true })) {
+        throw new Error('کالاهایی در این دسته‌بندی ثبت شده‌اند');
+      }
+      
+      const category = await Category.findByIdAndUpdate(
+        id,
+        { isActive: false, updatedAt: new Date() },
+        { new: true }
+      );
+      return !!category;
+    },
+
     // Supplier mutations
     createSupplier: async (_: any, { input }: { input: any }) => {
       await dbConnect();
@@ -583,7 +3163,6 @@ export const resolvers = {
           email: input.email?.trim() || undefined,
           taxNumber: input.taxNumber?.trim() || undefined,
           creditLimit: input.creditLimit || 0,
-          currentBalance: input.currentBalance || 0,
           customerType: input.customerType || 'RETAIL',
           status: input.status || 'ACTIVE',
           notes: input.notes?.trim() || undefined,
@@ -663,8 +3242,163 @@ export const resolvers = {
       }
     },
 
+    // A payment received from a customer credits their ledger
+    recordCustomerPayment: async (
+      _: any,
+      { input }: {
+        input: {
+          customerId: string;
+          amount: number;
+          date: Date;
+          paymentMethod: PaymentMethod;
+          reference?: string | null;
+          description?: string | null;
+        };
+      }
+    ) => {
+      await dbConnect();
+      
+      if (!mongoose.Types.ObjectId.isValid(input.customerId)) {
+        throw new Error('شناسه مشتری معتبر نیست');
+      }
+      if (!(input.amount > 0)) {
+        throw new Error('مبلغ پرداخت باید بیشتر از صفر باشد');
+      }
+      if (!Object.values(PaymentMethod).includes(input.paymentMethod)) {
+        throw new Error('روش پرداخت معتبر نیست');
+      }
+      
+      const customer = await Customer.findOne({ _id: input.customerId, isActive: true });
+      if (!customer) {
+        throw new Error('مشتری یافت نشد');
+      }
+      
+      const entry = await CustomerLedgerEntry.create({
+        customer: customer._id,
+        entryType: LedgerEntryType.PAYMENT,
+        date: input.date,
+        debit: 0,
+        credit: input.amount,
+        paymentMethod: input.paymentMethod,
+        reference: input.reference?.trim() || undefined,
+        description: input.description?.trim() || undefined
+      });
+      return formatLedgerEntry(entry);
+    },
+
+    // Only payments are removed by hand; sale documents leave the ledger through their reversals
+    deleteCustomerPayment: async (_: any, { id }: { id: string }) => {
+      await dbConnect();
+      
+      const entry = await CustomerLedgerEntry.findById(id);
+      if (!entry) {
+        return false;
+      }
+      if (entry.entryType !== LedgerEntryType.PAYMENT) {
+        throw new Error('فقط پرداخت‌ها قابل حذف هستند؛ فاکتورها و مرجوعی‌ها با سند برگشت اصلاح می‌شوند');
+      }
+      
+      await CustomerLedgerEntry.deleteOne({ _id: entry._id });
+      return true;
+    },
+
+    // Warehouse mutations
+    createWarehouse: async (_: any, { input }: { input: WarehouseInput }) => {
+      await dbConnect();
+      const defaultWarehouse = await getDefaultWarehouse();
+      
+      const existingWarehouse = await Warehouse.findOne({ code: input.code, isActive: true });
+      if (existingWarehouse) {
+        throw new Error('کد انبار قبلاً ثبت شده است');
+      }
+      
+      // Only one warehouse can be the default
+      if (input.isDefault) {
+        await Warehouse.updateOne({ _id: defaultWarehouse._id }, { isDefault: false });
+      }
+      
+      const warehouse = await Warehouse.create({
+        ...input,
+        isDefault: !!input.isDefault,
+        isActive: true
+      });
+      
+      return {
+        id: warehouse._id.toString(),
+        ...warehouse.toObject()
+      };
+    },
+
+    updateWarehouse: async (_: any, { id, input }: { id: string; input: WarehouseInput }) => {
+      await dbConnect();
+      
+      const existingWarehouse = await Warehouse.findOne({
+        code: input.code,
+        isActive: true,
+        _id: { $ne: id }
+      });
+      if (existingWarehouse) {
+        throw new Error('کد انبار قبلاً ثبت شده است');
+      }
+      
+      const current = await Warehouse.findById(id);
+      if (!current) {
+        throw new Error('انبار یافت نشد');
+      }
+      
+      // The default can only be moved to another warehouse, never simply removed
+      const updateData: WarehouseInput & { updatedAt: Date } = { ...input, updatedAt: new Date() };
+      if (current.isDefault) {
+        updateData.isDefault = true;
+      } else if (input.isDefault) {
+        await Warehouse.updateMany({ isDefault: true }, { isDefault: false });
+      } else {
+        updateData.isDefault = false;
+      }
+      
+      const warehouse = await Warehouse.findByIdAndUpdate(id, updateData, { new: true });
+      if (!warehouse) {
+        throw new Error('انبار یافت نشد');
+      }
+      
+      return {
+        id: warehouse._id.toString(),
+        ...warehouse.toObject()
+      };
+    },
+
+    deleteWarehouse: async (_: any, { id }: { id: string }) => {
+      await dbConnect();
+      
+      const warehouse = await Warehouse.findById(id);
+      if (!warehouse) {
+        return false;
+      }
+      
+      if (warehouse.isDefault) {
+        throw new Error('انبار پیش‌فرض قابل حذف نیست');
+      }
+      
+      // Goods still on hand or promised to customers would be stranded in an inactive warehouse
+      const productIds = await InventoryMovement.distinct('product', { warehouse: warehouse._id });
+      for (const productId of productIds) {
+        if (await InventoryMovement.getCurrentStock(productId, undefined, undefined, warehouse._id) !== 0) {
+          const product = await Product.findById(productId);
+          throw new Error(`انبار ${warehouse.name} هنوز موجودی ${product?.name || 'کالا'} را دارد و قابل حذف نیست`);
+        }
+      }
+      const reserved = await getReservedQuantities();
+      if ([...reserved.keys()].some(key => key.endsWith(`:${warehouse._id}`))) {
+        throw new Error(`سفارش‌های فروش از موجودی انبار ${warehouse.name} رزرو کرده‌اند و انبار قابل حذف نیست`);
+      }
+      
+      // Soft delete by setting isActive to false
+      await Warehouse.updateOne({ _id: id }, { isActive: false, updatedAt: new Date() });
+      return true;
+    },
+
     // Document mutations
-    createDocument: async (_: any, { input }: { input: any }) => {
+    createDocument: async (_: any, { input }: { input: DocumentInput }) => {
       await dbConnect();
       
       console.log('=== GraphQL createDocument received ===');
@@ -693,6 +3427,78 @@ export const resolvers = {
         }
       }
       
+      await assertNoVariantParents(input.items);
+      input.items = await convertItemUnits(input.items);
+      
+      // Transfers move goods out of the source warehouse at its average cost
+      if (input.documentType === 'TRANSFER') {
+        assertValidTransfer(input);
+        input.items = await priceTransferItems(input.items, input.sourceWarehouseId!, new Date(input.date));
+      }
+      
+      // Returns are priced from, and bound by, the invoice they refer to
+      if (RETURNABLE_DOCUMENT_TYPES[input.documentType]) {
+        const { original, items } = await prepareReturnItems(input);
+        input.items = items;
+        input.supplierId = original.supplier?.toString();
+        input.customerId = original.customer?.toString();
+      }
+      
+      // Goods receipts deliver what is outstanding on their purchase order
+      if (input.documentType === 'GOODS_RECEIPT') {
+        const { order, items } = await prepareOrderItems(input, 'PURCHASE_ORDER');
+        input.items = items;
+        input.supplierId = order.supplier?.toString();
+      }
+      
+      // Sale invoices of a sales order deliver what is outstanding on it
+      if (input.documentType === 'SALE_INVOICE' && input.salesOrderId) {
+        const { order, items } = await prepareOrderItems(input, 'SALES_ORDER');
+        input.items = items;
+        input.customerId = order.customer?.toString();
+      }
+      
+      if (input.documentType === 'SALES_ORDER' && input.quotationId) {
+        await assertQuotationConvertible(input.quotationId);
+      }
+      
+      if (input.documentType === 'STOCK_ADJUSTMENT') {
+        input.items = await prepareAdjustmentItems(input.items, new Date(input.date));
+      }
+      
+      if (ASSEMBLY_OUTGOING_ROLES[input.documentType]) {
+        input.items = await prepareAssemblyItems(input, new Date(input.date));
+      }
+      
+      // Lot-tracked products receive into named lots and pick from lots in stock; documents that
+      // move no stock leave lots and serials to the documents that do
+      if (NON_STOCK_DOCUMENT_TYPES.includes(input.documentType)) {
+        input.items = input.items.map(item => ({ ...item, lotNumber: undefined, expiryDate: undefined, serialNumbers: undefined }));
+      } else {
+        input.items = await prepareLotItems(input.documentType, input.items, new Date(input.date));
+        input.items = await prepareSerialItems(input.documentType, input.items);
+      }
+      
+      // Outgoing lines may not take stock below zero on the document date
+      const outgoingItems = getOutgoingItems(input.documentType, input.items);
+      if (outgoingItems.length > 0) {
+        await assertStockAvailable(
+          outgoingItems,
+          new Date(input.date),
+          undefined,
+          getStockReservations(input.documentType, input.salesOrderId)
+        );
+      }
+      
+      // Sale invoices may not take the customer past their credit limit without an accepted override
+      const creditLimitOverrideReason = input.documentType === 'SALE_INVOICE'
+        ? await assertCreditAvailable(
+            input.customerId,
+            input.items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0),
+            input.creditLimitOverrideReason
+          )
+        : undefined;
+      
       try {
         // Ensure date is properly converted
         let documentDate;
@@ -708,8 +3514,11 @@ export const resolvers = {
         
         console.log('✅ Converted date:', documentDate.toISOString());
         
+        // Lines without a warehouse are stored in the default warehouse
+        const defaultWarehouse = await getDefaultWarehouse();
+        
         // Prepare items with proper structure for Document model
-        const documentItems = input.items.map((item: any) => {
+        const documentItems = input.items.map(item => {
           // Validate that productId is a valid ObjectId format
           if (!item.productId.match(/^[0-9a-fA-F]{24}$/)) {
             console.error('❌ Invalid ObjectId format for productId:', item.productId);
@@ -724,15 +3533,29 @@ export const resolvers = {
           
           return {
             product: item.productId, // Map productId to product
+            warehouse: item.warehouseId || defaultWarehouse._id,
             quantity: item.quantity,
             unitPrice: item.unitPrice,
+            unitCost: item.unitCost,
             totalPrice: item.quantity * item.unitPrice, // Calculate totalPrice
+            ...(input.documentType === 'STOCK_ADJUSTMENT' && {
+              adjustmentDirection: item.adjustmentDirection,
+              adjustmentReason: item.adjustmentReason
+            }),
+            lotNumber: item.lotNumber,
+            expiryDate: item.expiryDate,
+            serialNumbers: item.serialNumbers,
+            unit: item.unit,
+            unitFactor: item.unitFactor,
+            assemblyRole: ASSEMBLY_OUTGOING_ROLES[input.documentType] ? item.assemblyRole : undefined,
             description: item.description || ''
           };
         });
         
-        // Calculate total amount for the document
-        const totalAmount = documentItems.reduce((sum: number, item: any) => sum + item.totalPrice, 0);
+        // Calculate total amount for the document; component lines make up an assembly's finished product
+        const totalAmount = documentItems
+          .filter(item => item.assemblyRole !== 'COMPONENT')
+          .reduce((sum, item) => sum + item.totalPrice, 0);
         console.log('✅ Calculated total amount:', totalAmount);
         
         // Validate supplier/customer requirements based on document type
@@ -741,11 +3564,19 @@ export const resolvers = {
           throw new Error('تامین‌کننده برای فاکتور خرید و ورود کالا الزامی است');
         }
         
+        if (input.documentType === 'PURCHASE_ORDER' && !input.supplierId) {
+          throw new Error('تامین‌کننده برای سفارش خرید الزامی است');
+        }
+        
         if (input.documentType === 'SALE_INVOICE' && !input.customerId) {
           console.error('❌ Validation failed: Missing customer for sale invoice');
           throw new Error('مشتری برای فاکتور فروش الزامی است');
         }
         
+        if ((input.documentType === 'QUOTATION' || input.documentType === 'SALES_ORDER') && !input.customerId) {
+          throw new Error('مشتری برای پیش‌فاکتور و سفارش فروش الزامی است');
+        }
+        
         console.log('🔍 About to create document with data:', {
           documentType: input.documentType,
           documentNumber: input.documentNumber,
@@ -754,17 +3585,39 @@ export const resolvers = {
           date: documentDate.toISOString()
         });
         
-        // Create the document
-        const document = await Document.create({
-          documentType: input.documentType,
-          documentNumber: input.documentNumber,
-          supplier: input.supplierId || undefined,
-          customer: input.customerId || undefined,
-          items: documentItems,
-          totalAmount: totalAmount,
-          description: input.description,
-          date: documentDate, // Use properly converted date
-          isFinalized: input.documentType === 'INITIAL_STOCK' // Auto-finalize initial stock
+        // Create the document and its inventory movements atomically
+        const document = await withTransaction(async (session) => {
+          const [createdDocument] = await Document.create([{
+            documentType: input.documentType,
+            documentNumber: input.documentNumber,
+            supplier: input.supplierId || undefined,
+            customer: input.customerId || undefined,
+            sourceWarehouse: input.documentType === 'TRANSFER' ? input.sourceWarehouseId : undefined,
+            destinationWarehouse: input.documentType === 'TRANSFER' ? input.destinationWarehouseId : undefined,
+            returnOf: RETURNABLE_DOCUMENT_TYPES[input.documentType] ? input.returnOfId : undefined,
+            purchaseOrder: input.documentType === 'GOODS_RECEIPT' ? input.purchaseOrderId : undefined,
+            expectedDate: input.documentType === 'PURCHASE_ORDER' && input.expectedDate ? input.expectedDate : undefined,
+            quotation: input.documentType === 'SALES_ORDER' && input.quotationId ? input.quotationId : undefined,
+            salesOrder: input.documentType === 'SALE_INVOICE' && input.salesOrderId ? input.salesOrderId : undefined,
+            labourCost: ASSEMBLY_OUTGOING_ROLES[input.documentType] ? input.labourCost || 0 : undefined,
+            overheadCost: ASSEMBLY_OUTGOING_ROLES[input.documentType] ? input.overheadCost || 0 : undefined,
+            creditLimitOverrideReason,
+            items: documentItems,
+            totalAmount: totalAmount,
+            description: input.description,
+            date: documentDate, // Use properly converted date
+            isFinalized: input.documentType === 'INITIAL_STOCK' // Auto-finalize initial stock
+          }], { session });
+          
+          try {
+            const inventoryMovements = await syncDocumentMovements(createdDocument, session);
+            console.log(`✅ Created ${inventoryMovements.length} inventory movements successfully`);
+          } catch (movementError) {
+            console.error('❌ Error creating inventory movement:', movementError);
+            throw new Error(`خطا در ایجاد حرکت انبار: ${(movementError as any).message}`);
+          }
+          
+          return createdDocument;
         });
         
         console.log('✅ Document created successfully with ID:', document._id);
@@ -777,65 +3630,13 @@ export const resolvers = {
           isFinalized: document.isFinalized
         });
         
-        // Create inventory movements for each item
-        const inventoryMovements = [];
-        console.log('🔄 Starting inventory movement creation for', input.items.length, 'items');
-        
-        for (const item of input.items) {
-          console.log('🔄 Creating inventory movement for item:', {
-            productId: item.productId,
-            quantity: item.quantity,
-            unitPrice: item.unitPrice,
-            documentType: input.documentType
-          });
-          
-          try {
-            // Ensure quantity is positive for initial stock and import documents
-            const quantity = input.documentType === 'INITIAL_STOCK' ? Math.abs(item.quantity) : 
-                            input.documentType === 'PURCHASE_INVOICE' ? Math.abs(item.quantity) :
-                            input.documentType === 'IMPORT' ? Math.abs(item.quantity) :
-                            input.documentType === 'SALE_INVOICE' ? -Math.abs(item.quantity) : 
-                            item.quantity;
-            
-            const movementType = input.documentType === 'INITIAL_STOCK' ? 'INITIAL_STOCK' :
-                               input.documentType === 'PURCHASE_INVOICE' ? 'PURCHASE' :
-                               input.documentType === 'IMPORT' ? 'PURCHASE' :
-                               input.documentType === 'SALE_INVOICE' ? 'SALE' : 'ADJUSTMENT_IN';
-            
-            console.log('🔄 Movement details:', {
-              quantity: quantity,
-              movementType: movementType,
-              unitPrice: item.unitPrice,
-              totalPrice: Math.abs(quantity) * item.unitPrice
-            });
-            
-            const movement = await InventoryMovement.create({
-              product: item.productId,
-              movementType: movementType,
-              quantity: quantity,
-              unitPrice: item.unitPrice,
-              totalPrice: Math.abs(quantity) * item.unitPrice,
-              description: item.description,
-              document: document._id,
-              date: documentDate // Use the same converted date
-            });
-            
-            console.log('✅ Created inventory movement with ID:', movement._id);
-            inventoryMovements.push(movement);
-          } catch (movementError) {
-            console.error('❌ Error creating inventory movement:', movementError);
-            throw new Error(`خطا در ایجاد حرکت انبار: ${(movementError as any).message}`);
-          }
-        }
-        
-        console.log(`✅ Created ${inventoryMovements.length} inventory movements successfully`);
-        
         // Populate the document for return
         console.log('🔍 Populating document for return...');
         const populatedDocument = await Document.findById(document._id)
           .populate('supplier')
           .populate('customer')
-          .populate('items.product');
+          .populate('items.product')
+          .populate('items.warehouse');
         
         if (!populatedDocument) {
           console.error('❌ Failed to find populated document');
@@ -880,13 +3681,90 @@ export const resolvers = {
       }
     },
 
-    updateDocument: async (_: any, { id, input }: { id: string; input: any }) => {
+    updateDocument: async (_: any, { id, input }: { id: string; input: DocumentInput }) => {
       await dbConnect();
       
       console.log('=== GraphQL updateDocument received ===');
       console.log('Document ID:', id);
       console.log('Input:', JSON.stringify(input, null, 2));
       
+      if (Array.isArray(input.items)) {
+        await assertNoVariantParents(input.items);
+        input.items = await convertItemUnits(input.items);
+      }
+      
+      if (input.documentType === 'TRANSFER') {
+        assertValidTransfer(input);
+        if (Array.isArray(input.items)) {
+          input.items = await priceTransferItems(input.items, input.sourceWarehouseId!, new Date(input.date));
+        }
+      }
+      
+      if (RETURNABLE_DOCUMENT_TYPES[input.documentType] && Array.isArray(input.items)) {
+        const { original, items } = await prepareReturnItems(input, id);
+        input.items = items;
+        input.supplierId = original.supplier?.toString();
+        input.customerId = original.customer?.toString();
+      }
+      
+      if (input.documentType === 'GOODS_RECEIPT' && Array.isArray(input.items)) {
+        const { order, items } = await prepareOrderItems(input, 'PURCHASE_ORDER', id);
+        input.items = items;
+        input.supplierId = order.supplier?.toString();
+      }
+      
+      if (input.documentType === 'SALE_INVOICE' && input.salesOrderId && Array.isArray(input.items)) {
+        const { order, items } = await prepareOrderItems(input, 'SALES_ORDER', id);
+        input.items = items;
+        input.customerId = order.customer?.toString();
+      }
+      
+      if (input.documentType === 'SALES_ORDER' && input.quotationId) {
+        await assertQuotationConvertible(input.quotationId, id);
+      }
+      
+      if (input.documentType === 'STOCK_ADJUSTMENT' && Array.isArray(input.items)) {
+        input.items = await prepareAdjustmentItems(input.items, new Date(input.date));
+      }
+      
+      if (ASSEMBLY_OUTGOING_ROLES[input.documentType] && Array.isArray(input.items)) {
+        input.items = await prepareAssemblyItems(input, new Date(input.date));
+      }
+      
+      if (Array.isArray(input.items) && NON_STOCK_DOCUMENT_TYPES.includes(input.documentType)) {
+        input.items = input.items.map(item => ({ ...item, lotNumber: undefined, expiryDate: undefined, serialNumbers: undefined }));
+      } else if (Array.isArray(input.items)) {
+        input.items = await prepareLotItems(input.documentType, input.items, new Date(input.date), id);
+        input.items = await prepareSerialItems(input.documentType, input.items, id);
+      }
+      
+      if (input.documentType === 'PURCHASE_ORDER' && !input.supplierId) {
+        throw new Error('تامین‌کننده برای سفارش خرید الزامی است');
+      }
+      
+      if ((input.documentType === 'QUOTATION' || input.documentType === 'SALES_ORDER') && !input.customerId) {
+        throw new Error('مشتری برای پیش‌فاکتور و سفارش فروش الزامی است');
+      }
+      
+      // Outgoing lines may not take stock below zero; the document's current movements are replaced, so ignore them
+      const outgoingItems = Array.isArray(input.items) ? getOutgoingItems(input.documentType, input.items) : [];
+      if (outgoingItems.length > 0) {
+        await assertStockAvailable(
+          outgoingItems,
+          new Date(input.date),
+          id,
+          getStockReservations(input.documentType, input.salesOrderId)
+        );
+      }
+      
+      const creditLimitOverrideReason = input.documentType === 'SALE_INVOICE' && Array.isArray(input.items)
+        ? await assertCreditAvailable(
+            input.customerId,
+            input.items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0),
+            input.creditLimitOverrideReason
+          )
+        : undefined;
+      
       try {
         // Prepare the update data similar to createDocument
         let updateData: any = {
@@ -910,11 +3788,38 @@ export const resolvers = {
           updateData.customer = null;
         }
         
+        // Handle transfer warehouses
+        updateData.sourceWarehouse = input.documentType === 'TRANSFER' ? input.sourceWarehouseId : null;
+        updateData.destinationWarehouse = input.documentType === 'TRANSFER' ? input.destinationWarehouseId : null;
+        
+        // Handle the invoice a return refers to
+        updateData.returnOf = RETURNABLE_DOCUMENT_TYPES[input.documentType] ? input.returnOfId : null;
+        
+        // Handle the purchase order a receipt delivers against and when an order is expected
+        updateData.purchaseOrder = input.documentType === 'GOODS_RECEIPT' ? input.purchaseOrderId : null;
+        updateData.expectedDate = input.documentType === 'PURCHASE_ORDER' && input.expectedDate ? input.expectedDate : null;
+        
+        // Handle the quotation an order came from and the order an invoice delivers
+        updateData.quotation = input.documentType === 'SALES_ORDER' && input.quotationId ? input.quotationId : null;
+        updateData.salesOrder = input.documentType === 'SALE_INVOICE' && input.salesOrderId ? input.salesOrderId : null;
+        
+        // Handle what an assembly adds to the cost of the goods it consumes
+        updateData.labourCost = ASSEMBLY_OUTGOING_ROLES[input.documentType] ? input.labourCost || 0 : null;
+        updateData.overheadCost = ASSEMBLY_OUTGOING_ROLES[input.documentType] ? input.overheadCost || 0 : null;
+        
+        // The credit check only runs again when the lines are resent; otherwise the recorded override stands
+        if (Array.isArray(input.items)) {
+          updateData.creditLimitOverrideReason = creditLimitOverrideReason || null;
+        }
+        
         // Process items if provided
         if (input.items && Array.isArray(input.items)) {
           console.log('Processing items for update:', input.items.length);
           
-          const processedItems = input.items.map((item: any) => {
+          // Lines without a warehouse are stored in the default warehouse
+          const defaultWarehouse = await getDefaultWarehouse();
+          
+          const processedItems = input.items.map(item => {
             console.log('Processing item:', {
               productId: item.productId,
               quantity: item.quantity,
@@ -923,9 +3828,21 @@ export const resolvers = {
             
             return {
               product: item.productId,
+              warehouse: item.warehouseId || defaultWarehouse._id,
               quantity: item.quantity,
               unitPrice: item.unitPrice,
+              unitCost: item.unitCost,
               totalPrice: item.quantity * item.unitPrice,
+              ...(input.documentType === 'STOCK_ADJUSTMENT' && {
+                adjustmentDirection: item.adjustmentDirection,
+                adjustmentReason: item.adjustmentReason
+              }),
+              lotNumber: item.lotNumber,
+              expiryDate: item.expiryDate,
+              serialNumbers: item.serialNumbers,
+              unit: item.unit,
+              unitFactor: item.unitFactor,
+              assemblyRole: ASSEMBLY_OUTGOING_ROLES[input.documentType] ? item.assemblyRole : undefined,
               description: item.description || ''
             };
           });
@@ -933,20 +3850,49 @@ export const resolvers = {
           updateData.items = processedItems;
           
           // Calculate total amount
-          updateData.totalAmount = processedItems.reduce((sum: number, item: any) => sum + item.totalPrice, 0);
+          updateData.totalAmount = processedItems
+            .filter(item => item.assemblyRole !== 'COMPONENT')
+            .reduce((sum, item) => sum + item.totalPrice, 0);
           console.log('Calculated total amount:', updateData.totalAmount);
         }
         
         console.log('Final update data:', JSON.stringify(updateData, null, 2));
         
-        const document = await Document.findByIdAndUpdate(
-          id,
-          updateData,
-          { new: true, runValidators: true }
-        ).populate('supplier').populate('customer').populate('items.product');
+        // Update the document and regenerate its movements atomically
+        await withTransaction(async (session) => {
+          const existingDocument = await Document.findById(id).session(session);
+          
+          if (!existingDocument) {
+            console.error('Document not found for ID:', id);
+            throw new Error('سند یافت نشد');
+          }
+          
+          // Finalized documents are immutable; corrections go through reverseDocument
+          if (existingDocument.isFinalized) {
+            throw new Error('سند نهایی شده قابل ویرایش نیست؛ برای اصلاح آن سند برگشت صادر کنید');
+          }
+          
+          const updatedDocument = await Document.findByIdAndUpdate(
+            id,
+            updateData,
+            { new: true, runValidators: true, session }
+          );
+          
+          if (!updatedDocument) {
+            console.error('Document not found for ID:', id);
+            throw new Error('سند یافت نشد');
+          }
+          
+          await syncDocumentMovements(updatedDocument, session);
+        });
+        
+        const document = await Document.findById(id)
+          .populate('supplier')
+          .populate('customer')
+          .populate('items.product')
+          .populate('items.warehouse');
         
         if (!document) {
-          console.error('Document not found for ID:', id);
           throw new Error('سند یافت نشد');
         }
         
@@ -973,14 +3919,62 @@ export const resolvers = {
       }
     },
 
-    finalizeDocument: async (_: any, { id }: { id: string }) => {
+    finalizeDocument: async (
+      _: any,
+      { id, creditLimitOverrideReason }: { id: string; creditLimitOverrideReason?: string }
+    ) => {
       await dbConnect();
       
-      const document = await Document.findByIdAndUpdate(
-        id,
-        { isFinalized: true, updatedAt: new Date() },
-        { new: true }
-      ).populate('supplier').populate('customer').populate('items.product');
+      const existingDocument = await Document.findById(id);
+      if (!existingDocument) {
+        throw new Error('سند یافت نشد');
+      }
+      
+      // Re-check availability, since other documents may have consumed the stock meanwhile.
+      // A sales order reserves its lines once finalized, so it may only promise what is available.
+      const isSalesOrder = existingDocument.documentType === 'SALES_ORDER';
+      const outgoingItems = isSalesOrder
+        ? existingDocument.items
+        : getOutgoingItems(existingDocument.documentType, existingDocument.items);
+      if (outgoingItems.length > 0 && !existingDocument.isFinalized) {
+        await assertStockAvailable(
+          outgoingItems.map((item: IDocumentItem) => ({
+            productId: item.product.toString(),
+            quantity: item.quantity,
+            warehouseId: item.warehouse?.toString(),
+            lotNumber: item.lotNumber
+          })),
+          existingDocument.date,
+          id,
+          getStockReservations(existingDocument.documentType, isSalesOrder ? id : existingDocument.salesOrder?.toString())
+        );
+      }
+      
+      // The receivable may have grown since the invoice was drafted; an override given when
+      // drafting still stands unless a new reason is given now
+      const finalizeData: { isFinalized: boolean; updatedAt: Date; creditLimitOverrideReason?: string | null } = { isFinalized: true, updatedAt: new Date() };
+      if (existingDocument.documentType === 'SALE_INVOICE' && !existingDocument.isFinalized) {
+        finalizeData.creditLimitOverrideReason = await assertCreditAvailable(
+          existingDocument.customer?.toString(),
+          existingDocument.totalAmount,
+          creditLimitOverrideReason || existingDocument.creditLimitOverrideReason
+        ) || null;
+      }
+      
+      // Finalizing a sale invoice or return posts it to the customer's ledger
+      await withTransaction(async (session) => {
+        const finalizedDocument = await Document.findByIdAndUpdate(
+          id,
+          finalizeData,
+          { new: true, session }
+        );
+        if (finalizedDocument) {
+          await CustomerLedgerEntry.postDocument(finalizedDocument, session);
+        }
+      });
+      
+      const document = await Document.findById(id)
+        .populate('supplier').populate('customer').populate('items.product').populate('items.warehouse');
       
       if (!document) {
         throw new Error('سند یافت نشد');
@@ -1005,14 +3999,496 @@ export const resolvers = {
     deleteDocument: async (_: any, { id }: { id: string }) => {
       await dbConnect();
       
-      // Soft delete the document
-      const document = await Document.findByIdAndUpdate(
-        id,
-        { isActive: false, updatedAt: new Date() },
-        { new: true }
+      // Remove the document together with the movements it produced
+      return withTransaction(async (session) => {
+        const document = await Document.findById(id).session(session);
+        if (!document) {
+          return false;
+        }
+        
+        // Finalized documents are immutable; corrections go through reverseDocument
+        if (document.isFinalized) {
+          throw new Error('سند نهایی شده قابل حذف نیست؛ برای اصلاح آن سند برگشت صادر کنید');
+        }
+        
+        const productIds = await InventoryMovement.distinct('product', { document: document._id }).session(session);
+        await Document.deleteOne({ _id: document._id }, { session });
+        await InventoryMovement.deleteMany({ document: document._id }, { session });
+        await recalculateProductCosts(productIds, session, document.date);
+        return true;
+      });
+    },
+
+    reverseDocument: async (_: any, { id, reason }: { id: string; reason: string }) => {
+      await dbConnect();
+      
+      if (!reason || !reason.trim()) {
+        throw new Error('علت برگشت سند الزامی است');
+      }
+      
+      const original = await Document.findById(id);
+      if (!original) {
+        throw new Error('سند یافت نشد');
+      }
+      if (!original.isFinalized) {
+        throw new Error('فقط اسناد نهایی شده قابل برگشت هستند؛ سند پیش‌نویس را ویرایش یا حذف کنید');
+      }
+      if (original.reversalOf) {
+        throw new Error('سند برگشتی قابل برگشت نیست');
+      }
+      if (original.reversedBy) {
+        throw new Error('این سند قبلاً برگشت خورده است');
+      }
+      
+      // Returns refer to the invoice's goods, so they must be undone first
+      const activeReturn = await Document.exists({ returnOf: original._id, reversalOf: null, reversedBy: null });
+      if (activeReturn) {
+        throw new Error('برای این فاکتور سند مرجوعی ثبت شده است؛ ابتدا سند مرجوعی را برگشت یا حذف کنید');
+      }
+      
+      // Likewise goods already delivered against an order
+      const activeDelivery = await Document.exists({
+        $or: [{ purchaseOrder: original._id }, { salesOrder: original._id }],
+        reversalOf: null,
+        reversedBy: null
+      });
+      if (activeDelivery) {
+        throw new Error('برای این سفارش رسید کالا یا فاکتور ثبت شده است؛ ابتدا آن‌ها را برگشت یا حذف کنید');
+      }
+      
+      // And orders converted from a quotation
+      const activeOrder = await Document.exists({ quotation: original._id, reversalOf: null, reversedBy: null });
+      if (activeOrder) {
+        throw new Error('این پیش‌فاکتور به سفارش فروش تبدیل شده است؛ ابتدا سفارش را برگشت یا حذف کنید');
+      }
+      
+      const reversalData = {
+        documentType: original.documentType,
+        documentNumber: `${original.documentNumber}-R`,
+        supplier: original.supplier,
+        customer: original.customer,
+        sourceWarehouse: original.sourceWarehouse,
+        destinationWarehouse: original.destinationWarehouse,
+        returnOf: original.returnOf,
+        purchaseOrder: original.purchaseOrder,
+        expectedDate: original.expectedDate,
+        quotation: original.quotation,
+        salesOrder: original.salesOrder,
+        labourCost: original.labourCost,
+        overheadCost: original.overheadCost,
+        items: original.items.map((item: IDocumentItem) => ({
+          product: item.product,
+          warehouse: item.warehouse,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          unitCost: item.unitCost,
+          adjustmentDirection: item.adjustmentDirection,
+          adjustmentReason: item.adjustmentReason,
+          lotNumber: item.lotNumber,
+          expiryDate: item.expiryDate,
+          serialNumbers: item.serialNumbers,
+          unit: item.unit,
+          unitFactor: item.unitFactor,
+          assemblyRole: item.assemblyRole,
+          totalPrice: item.totalPrice,
+          description: item.description
+        })),
+        totalAmount: original.totalAmount,
+        description: `برگشت سند شماره ${original.documentNumber}`,
+        date: new Date(),
+        isFinalized: true,
+        reversalOf: original._id,
+        reversalReason: reason.trim()
+      };
+      
+      // Reversing an incoming document takes its goods back out of stock
+      const reversalMovements = buildDocumentMovements(reversalData);
+      const outgoingItems = reversalMovements
+        .filter(movement => movement.quantity < 0)
+        .map(movement => ({
+          productId: movement.product.toString(),
+          quantity: movement.quantity,
+          warehouseId: movement.warehouse?.toString(),
+          lotNumber: movement.lotNumber
+        }));
+      if (outgoingItems.length > 0) {
+        await assertStockAvailable(outgoingItems, reversalData.date);
+      }
+      
+      // Serials must still be in stock to go back out, and not received again to come back in
+      const serialProducts = await Product.find({
+        _id: { $in: reversalMovements.filter(movement => movement.serialNumbers?.length).map(movement => movement.product) }
+      });
+      const serialProductById = new Map(serialProducts.map(product => [product._id.toString(), product]));
+      await assertSerialsValid(
+        reversalMovements
+          .filter(movement => movement.serialNumbers?.length)
+          .map(movement => ({
+            productId: movement.product.toString(),
+            productName: serialProductById.get(movement.product.toString())?.name || 'کالای حذف شده',
+            warehouseId: movement.warehouse?.toString(),
+            serialNumbers: movement.serialNumbers || [],
+            isOutgoing: movement.quantity < 0
+          }))
       );
       
-      return !!document;
+      try {
+        const reversal = await withTransaction(async (session) => {
+          const [reversalDocument] = await Document.create([reversalData], { session });
+          
+          // Link the original, guarding against a concurrent reversal of the same document
+          const linkResult = await Document.updateOne(
+            { _id: original._id, reversedBy: null },
+            { reversedBy: reversalDocument._id, updatedAt: new Date() },
+            { session }
+          );
+          if (linkResult.modifiedCount === 0) {
+            throw new Error('این سند قبلاً برگشت خورده است');
+          }
+          
+          await syncDocumentMovements(reversalDocument, session);
+          await CustomerLedgerEntry.postDocument(reversalDocument, session);
+          return reversalDocument;
+        });
+        
+        return loadFormattedDocument(reversal._id);
+      } catch (error) {
+        console.error('❌ Error reversing document:', error);
+        
+        const { code, message } = error as { code?: number; message: string };
+        if (code === 11000) {
+          throw new Error('شماره سند برگشتی قبلاً ثبت شده است');
+        }
+        
+        throw new Error(`خطا در برگشت سند: ${message}`);
+      }
+    },
+
+    // Converts a quotation into a draft sales order with the same customer and lines; the order
+    // reserves stock once it is finalized
+    convertQuotationToOrder: async (
+      _: any,
+      { id, documentNumber, date }: { id: string; documentNumber: string; date: number }
+    ) => {
+      await dbConnect();
+      
+      const quotation = await assertQuotationConvertible(id);
+      
+      return resolvers.Mutation.createDocument(null, {
+        input: {
+          documentType: 'SALES_ORDER',
+          documentNumber,
+          customerId: quotation.customer?.toString(),
+          quotationId: id,
+          description: quotation.description,
+          date,
+          items: quotation.items.map((item: IDocumentItem) => ({
+            productId: item.product.toString(),
+            warehouseId: item.warehouse?.toString(),
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            description: item.description
+          }))
+        }
+      });
+    },
+
+    // Turns reorder suggestions into a draft PURCHASE_INVOICE from the supplier: by default the products
+    // last bought from them, or the chosen products whatever their group. Lot-tracked and serialized
+    // products are left out, as their incoming lines need lot or serial numbers known only on delivery.
+    createPurchaseFromReorder: async (
+      _: any,
+      { supplierId, documentNumber, date, consumptionDays, productIds }: {
+        supplierId: string;
+        documentNumber: string;
+        date: number;
+        consumptionDays?: number;
+        productIds?: string[];
+      }
+    ) => {
+      await dbConnect();
+      
+      if (!mongoose.Types.ObjectId.isValid(supplierId) || !(await Supplier.exists({ _id: supplierId, isActive: true }))) {
+        throw new Error('تامین‌کننده یافت نشد');
+      }
+      
+      const groups = await buildReorderSuggestions(consumptionDays);
+      const suggestions = groups
+        .flatMap(group => group.items.map(item => ({ ...item, supplierId: group.supplier?.id || null })))
+        .filter(item => productIds?.length ? productIds.includes(item.product.id) : item.supplierId === supplierId);
+      if (suggestions.length === 0) {
+        throw new Error('پیشنهاد خریدی برای این تامین‌کننده وجود ندارد');
+      }
+      
+      const orderable = suggestions.filter(item => !item.product.trackLots && item.product.unit !== SERIALIZED_UNIT);
+      if (orderable.length === 0) {
+        throw new Error('کالاهای بچ‌دار و سریالی باید همراه شماره بچ یا سریال در فاکتور خرید ثبت شوند');
+      }
+      
+      return resolvers.Mutation.createDocument(null, {
+        input: {
+          documentType: 'PURCHASE_INVOICE',
+          documentNumber,
+          date,
+          supplierId,
+          description: 'پیش‌نویس خرید بر اساس نقطه سفارش',
+          items: orderable.map(item => ({
+            productId: item.product.id,
+            quantity: item.suggestedQuantity,
+            unitPrice: item.lastPurchasePrice || 0
+          }))
+        }
+      });
+    },
+
+    // Stock count mutations
+    // Starts a count of the chosen products (all active products if none are chosen) and snapshots
+    // their book quantities in the warehouse on the count date, per lot for lot-tracked products.
+    // Open counts lock nothing: sales and purchases carry on while goods are being counted.
+    createStockCount: async (
+      _: any,
+      { input }: {
+        input: {
+          countNumber: string;
+          warehouseId: string;
+          date: Date;
+          productIds?: string[] | null;
+          categories?: string[] | null;
+          description?: string | null;
+        };
+      }
+    ) => {
+      await dbConnect();
+      
+      const countNumber = input.countNumber?.trim();
+      if (!countNumber) {
+        throw new Error('شماره انبارگردانی الزامی است');
+      }
+      if (!mongoose.Types.ObjectId.isValid(input.warehouseId)) {
+        throw new Error('شناسه انبار معتبر نیست');
+      }
+      const warehouse = await Warehouse.findOne({ _id: input.warehouseId, isActive: true });
+      if (!warehouse) {
+        throw new Error('انبار یافت نشد');
+      }
+      if (await StockCount.exists({ countNumber })) {
+        throw new Error('شماره انبارگردانی قبلاً ثبت شده است');
+      }
+      
+      const productFilter: Record<string, unknown> = { isActive: true };
+      const selectors = [];
+      if (input.productIds?.length) {
+        selectors.push({ _id: { $in: input.productIds.filter((id: string) => mongoose.Types.ObjectId.isValid(id)) } });
+      }
+      if (input.categories?.length) {
+        selectors.push({ category: { $in: await withDescendantCategories(input.categories) } });
+      }
+      if (selectors.length > 0) {
+        productFilter.$or = selectors;
+      }
+      const products = await Product.find(productFilter).sort({ name: 1 });
+      if (products.length === 0) {
+        throw new Error('هیچ کالایی برای شمارش یافت نشد');
+      }
+      
+      const date = new Date(input.date);
+      const summaries = await InventoryMovement.getStockSummary(products.map(product => product._id), date, warehouse._id);
+      const stockByProduct = new Map(summaries.map(summary => [summary.product.toString(), summary.currentStock]));
+      
+      const items = [];
+      for (const product of products) {
+        const lots = product.trackLots
+          ? (await InventoryMovement.getLotStock(product._id, date, warehouse._id)).filter(lot => lot.quantity !== 0)
+          : [];
+        if (lots.length > 0) {
+          items.push(...lots.map(lot => ({
+            product: product._id,
+            lotNumber: lot.lotNumber || undefined,
+            expiryDate: lot.expiryDate || undefined,
+            expectedQuantity: lot.quantity
+          })));
+        } else {
+          items.push({ product: product._id, expectedQuantity: stockByProduct.get(product._id.toString()) || 0 });
+        }
+      }
+      
+      const stockCount = await StockCount.create({
+        countNumber,
+        warehouse: warehouse._id,
+        date,
+        categories: (input.categories || []).filter((id: string) => mongoose.Types.ObjectId.isValid(id)),
+        description: input.description,
+        items
+      });
+      return formatStockCount(stockCount);
+    },
+
+    // Records what a counter found. Each counter's entry on a line replaces their earlier one,
+    // and updates are applied atomically so several counters can save at the same time.
+    recordStockCounts: async (
+      _: any,
+      { id, counter, entries }: { id: string; counter: string; entries: { itemId: string; quantity: number }[] }
+    ) => {
+      await dbConnect();
+      
+      const stockCount = await findOpenStockCount(id);
+      const counterName = counter?.trim();
+      if (!counterName) {
+        throw new Error('نام شمارشگر الزامی است');
+      }
+      for (const entry of entries) {
+        if (!mongoose.Types.ObjectId.isValid(entry.itemId) || !stockCount.items.id(entry.itemId)) {
+          throw new Error('ردیف انبارگردانی یافت نشد');
+        }
+        if (entry.quantity < 0) {
+          throw new Error('مقدار شمارش شده نمی‌تواند منفی باشد');
+        }
+      }
+      
+      // A surplus of a lot-tracked product can only be posted into a named lot, so a line counted
+      // without one may not come out above its book quantity
+      const lotlessLines = entries
+        .map(entry => ({ entry, item: stockCount.items.id(entry.itemId) as IStockCountItem }))
+        .filter(({ item }) => !item.lotNumber);
+      const trackedProducts = lotlessLines.length > 0
+        ? await Product.find({ _id: { $in: lotlessLines.map(({ item }) => item.product) }, trackLots: true })
+        : [];
+      const trackedById = new Map(trackedProducts.map(product => [product._id.toString(), product]));
+      for (const { entry, item } of lotlessLines) {
+        const product = trackedById.get(item.product.toString());
+        const countedQuantity = item.counts
+          .filter(count => count.counter !== counterName)
+          .reduce((sum, count) => sum + count.quantity, entry.quantity);
+        if (product && countedQuantity > item.expectedQuantity) {
+          throw new Error(`مازاد کالای ${product.name} بدون شماره بچ قابل ثبت نیست؛ آن را با سند تعدیل موجودی و شماره بچ وارد کنید`);
+        }
+      }
+      
+      const countedAt = new Date();
+      const operations: mongoose.AnyBulkWriteOperation[] = entries.flatMap(entry => {
+        const target = {
+          filter: { _id: stockCount._id, status: StockCountStatus.COUNTING },
+          arrayFilters: [{ 'item._id': new mongoose.Types.ObjectId(entry.itemId) }]
+        };
+        return [
+          { updateOne: { ...target, update: { $pull: { 'items.$[item].counts': { counter: counterName } } } } },
+          { updateOne: { ...target, update: { $push: { 'items.$[item].counts': { counter: counterName, quantity: entry.quantity, countedAt } } } } }
+        ];
+      });
+      if (operations.length > 0) {
+        await StockCount.bulkWrite(operations);
+      }
+      
+      const recorded = await StockCount.findById(stockCount._id);
+      if (!recorded) {
+        throw new Error('انبارگردانی یافت نشد');
+      }
+      return formatStockCount(recorded);
+    },
+
+    // Posts the variances of the counted lines as one finalized STOCK_ADJUSTMENT dated on the count
+    // date: surpluses come in at the average cost, shortages leave at the cost the costing method gives.
+    // The adjustment is created finalized and the count marked posted in one transaction, so a count
+    // that fails to post stays open and can be posted again.
+    postStockCount: async (_: any, { id }: { id: string }) => {
+      await dbConnect();
+      
+      const stockCount = await findOpenStockCount(id);
+      const counted: IStockCountItem[] = stockCount.items.filter((item: IStockCountItem) => item.counts.length > 0);
+      if (counted.length === 0) {
+        throw new Error('هیچ ردیفی شمارش نشده است');
+      }
+      
+      const variances = counted
+        .map(item => ({
+          item,
+          variance: item.counts.reduce((sum, entry) => sum + entry.quantity, 0) - item.expectedQuantity
+        }))
+        .filter(({ variance }) => variance !== 0);
+      
+      // Prepare and check the adjustment's lines the way createDocument and finalizeDocument do
+      let items: DocumentItemInput[] = [];
+      if (variances.length > 0) {
+        if (await Document.exists({ documentType: 'STOCK_ADJUSTMENT', documentNumber: stockCount.countNumber })) {
+          throw new Error('شماره سند قبلاً ثبت شده است');
+        }
+        
+        const summaries = await InventoryMovement.getStockSummary(
+          variances.map(({ item }) => item.product),
+          stockCount.date
+        );
+        const costByProduct = new Map(summaries.map(summary => [summary.product.toString(), summary.averagePrice]));
+        
+        items = variances.map(({ item, variance }) => ({
+          productId: item.product.toString(),
+          warehouseId: stockCount.warehouse.toString(),
+          quantity: Math.abs(variance),
+          unitPrice: variance > 0 ? costByProduct.get(item.product.toString()) || 0 : 0,
+          adjustmentDirection: variance > 0 ? 'IN' : 'OUT',
+          adjustmentReason: 'COUNT_DIFFERENCE',
+          lotNumber: item.lotNumber,
+          expiryDate: item.expiryDate
+        }));
+        items = await prepareAdjustmentItems(items, stockCount.date);
+        items = await prepareLotItems('STOCK_ADJUSTMENT', items, stockCount.date);
+        items = await prepareSerialItems('STOCK_ADJUSTMENT', items);
+        
+        const outgoingItems = getOutgoingItems('STOCK_ADJUSTMENT', items);
+        if (outgoingItems.length > 0) {
+          await assertStockAvailable(outgoingItems, stockCount.date);
+        }
+      }
+      
+      const postedCount = await withTransaction(async (session) => {
+        let adjustmentId: mongoose.Types.ObjectId | undefined;
+        if (items.length > 0) {
+          const documentItems = items.map(item => ({
+            product: item.productId,
+            warehouse: item.warehouseId,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            totalPrice: item.quantity * item.unitPrice,
+            adjustmentDirection: item.adjustmentDirection,
+            adjustmentReason: item.adjustmentReason,
+            lotNumber: item.lotNumber,
+            expiryDate: item.expiryDate,
+            serialNumbers: item.serialNumbers,
+            description: ''
+          }));
+          const [adjustment] = await Document.create([{
+            documentType: 'STOCK_ADJUSTMENT',
+            documentNumber: stockCount.countNumber,
+            items: documentItems,
+            totalAmount: documentItems.reduce((sum, item) => sum + item.totalPrice, 0),
+            description: `انبارگردانی ${stockCount.countNumber}`,
+            date: stockCount.date,
+            isFinalized: true
+          }], { session });
+          await syncDocumentMovements(adjustment, session);
+          adjustmentId = adjustment._id;
+        }
+        
+        // A count posted or cancelled since it was loaded is not posted again
+        const posted = await StockCount.findOneAndUpdate(
+          { _id: stockCount._id, status: StockCountStatus.COUNTING },
+          { status: StockCountStatus.POSTED, adjustmentDocument: adjustmentId, postedAt: new Date() },
+          { new: true, session }
+        );
+        if (!posted) {
+          throw new Error('انبارگردانی ثبت یا لغو شده قابل تغییر نیست');
+        }
+        return posted;
+      });
+      return formatStockCount(postedCount);
+    },
+
+    cancelStockCount: async (_: any, { id }: { id: string }) => {
+      await dbConnect();
+      
+      const stockCount = await findOpenStockCount(id);
+      stockCount.status = StockCountStatus.CANCELLED;
+      await stockCount.save();
+      return formatStockCount(stockCount);
     },
   },
 };
\ No newline at end of file
@@ -12,20 +12,94 @@ export const typeDefs = gql`
     email: String
     financialYearStart: Date!
     financialYearEnd: Date!
+    allowNegativeStock: Boolean!
+    costingMethod: CostingMethod!
+    creditLimitPolicy: CreditLimitPolicy!
+    costRecalculation: CostRecalculation
     isActive: Boolean!
     createdAt: Date!
     updatedAt: Date!
   }
 
+  type CostRecalculation {
+    status: CostRecalculationStatus!
+    totalProducts: Int!
+    processedProducts: Int!
+    error: String
+    startedAt: Date!
+    finishedAt: Date
+  }
+
+  type ProductUnit {
+    unit: String!
+    factor: Float!
+  }
+
+  enum BarcodeType {
+    EAN13
+    CODE128
+    INTERNAL
+  }
+
+  type ProductBarcode {
+    code: String!
+    type: BarcodeType!
+  }
+
+  type BomComponent {
+    product: Product
+    quantity: Float!
+  }
+
+  type VariantAttribute {
+    name: String!
+    values: [String!]!
+  }
+
+  type VariantValue {
+    name: String!
+    value: String!
+  }
+
+  type Category {
+    id: ID!
+    name: String!
+    parent: Category
+    path: String!
+    isActive: Boolean!
+    createdAt: Date!
+    updatedAt: Date!
+  }
+
+  type CategoryStockRow {
+    category: Category
+    level: Int!
+    productCount: Int!
+    quantity: Float!
+    value: Float!
+    subtotalProductCount: Int!
+    subtotalQuantity: Float!
+    subtotalValue: Float!
+  }
+
   type Product {
     id: ID!
     name: String!
     code: String!
     description: String
     unit: String!
-    category: String
+    alternateUnits: [ProductUnit!]
+    barcodes: [ProductBarcode!]
+    components: [BomComponent!]
+    variantAttributes: [VariantAttribute!]
+    parent: Product
+    variantValues: [VariantValue!]
+    variants: [Product!]
+    salePrice: Float
+    category: Category
     minimumStock: Float
     maximumStock: Float
+    trackLots: Boolean!
     isActive: Boolean!
     createdAt: Date!
     updatedAt: Date!
@@ -66,9 +140,22 @@ export const typeDefs = gql`
     updatedAt: Date!
   }
 
+  type Warehouse {
+    id: ID!
+    name: String!
+    code: String!
+    address: String
+    description: String
+    isDefault: Boolean!
+    isActive: Boolean!
+    createdAt: Date!
+    updatedAt: Date!
+  }
+
   type InventoryMovement {
     id: ID!
     product: Product!
+    warehouse: Warehouse
     movementType: MovementType!
     quantity: Float!
     unitPrice: Float!
@@ -76,22 +163,48 @@ export const typeDefs = gql`
     averagePrice: Float
     description: String
     document: Document
+    isReversal: Boolean!
+    adjustmentReason: AdjustmentReason
+    lotNumber: String
+    expiryDate: Date
+    serialNumbers: [String!]
+    costLayers: [CostLayer!]
+    costOfGoods: Float
     date: Date!
     createdAt: Date!
     updatedAt: Date!
   }
 
+  type CostLayer {
+    sourceMovement: ID
+    quantity: Float!
+    unitCost: Float!
+  }
+
   type Document {
     id: ID!
     documentType: DocumentType!
     documentNumber: String!
     supplier: Supplier
     customer: Customer
+    sourceWarehouse: Warehouse
+    destinationWarehouse: Warehouse
     items: [DocumentItem!]!
     totalAmount: Float!
     description: String
     date: Date!
     isFinalized: Boolean!
+    reversalOf: Document
+    reversedBy: Document
+    reversalReason: String
+    creditLimitOverrideReason: String
+    returnOf: Document
+    purchaseOrder: Document
+    expectedDate: Date
+    quotation: Document
+    salesOrder: Document
+    labourCost: Float
+    overheadCost: Float
     createdAt: Date!
     updatedAt: Date!
   }
@@ -99,20 +212,179 @@ export const typeDefs = gql`
   type DocumentItem {
     id: ID!
     product: Product!
+    warehouse: Warehouse
     quantity: Float!
     unitPrice: Float!
+    unitCost: Float
     totalPrice: Float!
+    adjustmentDirection: AdjustmentDirection
+    adjustmentReason: AdjustmentReason
+    lotNumber: String
+    expiryDate: Date
+    serialNumbers: [String!]
+    unit: String
+    unitFactor: Float
+    assemblyRole: AssemblyRole
     description: String
   }
 
+  type ReturnableItem {
+    product: Product!
+    warehouse: Warehouse
+    lotNumber: String
+    invoicedQuantity: Float!
+    returnedQuantity: Float!
+    remainingQuantity: Float!
+    unitPrice: Float!
+  }
+
+  type OrderLine {
+    product: Product!
+    warehouse: Warehouse
+    orderedQuantity: Float!
+    deliveredQuantity: Float!
+    outstandingQuantity: Float!
+    unitPrice: Float!
+  }
+
+  type OpenPurchaseOrder {
+    order: Document!
+    expectedDate: Date
+    isOverdue: Boolean!
+    lines: [OrderLine!]!
+    outstandingAmount: Float!
+  }
+
   type InventoryReport {
     product: Product!
+    openingStock: Float
+    incomingQuantity: Float
+    outgoingQuantity: Float
     currentStock: Float!
+    reservedStock: Float!
+    availableStock: Float!
     averagePrice: Float
     totalValue: Float!
     lastMovementDate: Date
   }
 
+  type WarehouseStock {
+    warehouse: Warehouse
+    quantity: Float!
+    reservedQuantity: Float!
+    availableQuantity: Float!
+  }
+
+  type LotStock {
+    product: Product!
+    warehouse: Warehouse
+    lotNumber: String
+    expiryDate: Date
+    daysToExpiry: Int
+    quantity: Float!
+  }
+
+  type ReorderSuggestion {
+    product: Product!
+    currentStock: Float!
+    reservedStock: Float!
+    onOrder: Float!
+    averageDailyConsumption: Float
+    projectedStock: Float!
+    minimumStock: Float!
+    maximumStock: Float
+    suggestedQuantity: Float!
+    lastPurchasePrice: Float
+  }
+
+  type ReorderGroup {
+    supplier: Supplier
+    items: [ReorderSuggestion!]!
+    totalAmount: Float!
+  }
+
+  type StockCountEntry {
+    counter: String!
+    quantity: Float!
+    countedAt: Date!
+  }
+
+  type StockCountItem {
+    id: ID!
+    product: Product!
+    lotNumber: String
+    expiryDate: Date
+    expectedQuantity: Float!
+    counts: [StockCountEntry!]!
+    countedQuantity: Float
+    variance: Float
+  }
+
+  type StockCount {
+    id: ID!
+    countNumber: String!
+    warehouse: Warehouse
+    date: Date!
+    categories: [Category!]!
+    status: StockCountStatus!
+    description: String
+    items: [StockCountItem!]!
+    adjustmentDocument: Document
+    postedAt: Date
+    createdAt: Date!
+    updatedAt: Date!
+  }
+
+  type SerialNumberHistory {
+    serialNumber: String!
+    product: Product!
+    inStock: Boolean!
+    warehouse: Warehouse
+    receivedIn: Document
+    soldIn: Document
+    movements: [InventoryMovement!]!
+  }
+
+  type CardexEntry {
+    date: Date!
+    isOpeningBalance: Boolean!
+    movementType: MovementType
+    documentId: ID
+    documentType: DocumentType
+    documentNumber: String
+    description: String
+    adjustmentReason: AdjustmentReason
+    lotNumber: String
+    inQuantity: Float!
+    inUnitPrice: Float!
+    inTotalPrice: Float!
+    outQuantity: Float!
+    outUnitPrice: Float!
+    outTotalPrice: Float!
+    balanceQuantity: Float!
+    balanceUnitPrice: Float!
+    balanceTotalPrice: Float!
+  }
+
+  type AdjustmentReport {
+    reason: AdjustmentReason
+    movementType: MovementType!
+    quantity: Float!
+    totalValue: Float!
+    movementCount: Int!
+  }
+
+  type GrossProfitRow {
+    key: String!
+    label: String!
+    date: Date
+    quantity: Float!
+    revenue: Float!
+    costOfGoods: Float!
+    grossProfit: Float!
+    marginPercent: Float!
+  }
+
   type StockMovementReport {
     date: Date!
     purchases: Float!
@@ -121,6 +393,36 @@ export const typeDefs = gql`
     balance: Float!
   }
 
+  enum StockCountStatus {
+    COUNTING
+    POSTED
+    CANCELLED
+  }
+
+  enum GrossProfitGroupBy {
+    INVOICE
+    PRODUCT
+    PARENT_PRODUCT
+    CATEGORY
+    CUSTOMER
+  }
+
+  enum CostingMethod {
+    MOVING_AVERAGE
+    FIFO
+  }
+
+  enum CostRecalculationStatus {
+    RUNNING
+    COMPLETED
+    FAILED
+  }
+
+  enum CreditLimitPolicy {
+    BLOCK
+    OVERRIDE
+  }
+
   enum CustomerType {
     RETAIL
     WHOLESALE
@@ -132,12 +434,79 @@ export const typeDefs = gql`
     INACTIVE
   }
 
+  enum LedgerEntryType {
+    OPENING_BALANCE
+    SALE_INVOICE
+    SALE_RETURN
+    PAYMENT
+  }
+
+  enum PaymentMethod {
+    CASH
+    CARD
+    BANK_TRANSFER
+    CHEQUE
+  }
+
+  type CustomerLedgerEntry {
+    id: ID!
+    entryType: LedgerEntryType!
+    date: Date!
+    debit: Float!
+    credit: Float!
+    balance: Float
+    documentId: ID
+    documentNumber: String
+    isReversal: Boolean!
+    paymentMethod: PaymentMethod
+    reference: String
+    description: String
+  }
+
+  type CreditLimitRow {
+    customer: Customer!
+    creditLimit: Float!
+    balance: Float!
+    availableCredit: Float!
+    usedPercent: Float!
+    isOverLimit: Boolean!
+  }
+
+  type CustomerStatement {
+    customer: Customer!
+    dateFrom: Date
+    dateTo: Date
+    openingBalance: Float!
+    totalDebit: Float!
+    totalCredit: Float!
+    closingBalance: Float!
+    entries: [CustomerLedgerEntry!]!
+  }
+
   enum MovementType {
     PURCHASE
     SALE
     ADJUSTMENT_IN
     ADJUSTMENT_OUT
     INITIAL_STOCK
+    TRANSFER_OUT
+    TRANSFER_IN
+    PURCHASE_RETURN
+    SALE_RETURN
+    ASSEMBLY_IN
+    ASSEMBLY_OUT
+  }
+
+  enum AdjustmentDirection {
+    IN
+    OUT
+  }
+
+  enum AdjustmentReason {
+    DAMAGE
+    LOSS
+    COUNT_DIFFERENCE
+    SAMPLE
   }
 
   enum DocumentType {
@@ -146,6 +515,20 @@ export const typeDefs = gql`
     STOCK_ADJUSTMENT
     INITIAL_STOCK
     IMPORT
+    TRANSFER
+    PURCHASE_RETURN
+    SALE_RETURN
+    PURCHASE_ORDER
+    GOODS_RECEIPT
+    QUOTATION
+    SALES_ORDER
+    ASSEMBLY
+    DISASSEMBLY
+  }
+
+  enum AssemblyRole {
+    FINISHED
+    COMPONENT
   }
 
   input CompanyInput {
@@ -156,6 +539,34 @@ export const typeDefs = gql`
     email: String
     financialYearStart: Date!
     financialYearEnd: Date!
+    allowNegativeStock: Boolean
+    costingMethod: CostingMethod
+    creditLimitPolicy: CreditLimitPolicy
+  }
+
+  input ProductUnitInput {
+    unit: String!
+    factor: Float!
+  }
+
+  input ProductBarcodeInput {
+    code: String!
+    type: BarcodeType!
+  }
+
+  input BomComponentInput {
+    productId: ID!
+    quantity: Float!
+  }
+
+  input VariantAttributeInput {
+    name: String!
+    values: [String!]!
+  }
+
+  input CategoryInput {
+    name: String!
+    parentId: ID
   }
 
   input ProductInput {
@@ -163,9 +574,15 @@ export const typeDefs = gql`
     code: String!
     description: String
     unit: String!
-    category: String
+    alternateUnits: [ProductUnitInput!]
+    barcodes: [ProductBarcodeInput!]
+    components: [BomComponentInput!]
+    variantAttributes: [VariantAttributeInput!]
+    salePrice: Float
+    categoryId: ID
     minimumStock: Float
     maximumStock: Float
+    trackLots: Boolean
   }
 
   input SupplierInput {
@@ -189,17 +606,57 @@ export const typeDefs = gql`
     email: String
     taxNumber: String
     creditLimit: Float
-    currentBalance: Float
     customerType: CustomerType
     status: CustomerStatus
     notes: String
   }
 
+  input CustomerPaymentInput {
+    customerId: ID!
+    amount: Float!
+    date: Date!
+    paymentMethod: PaymentMethod!
+    reference: String
+    description: String
+  }
+
+  input StockCountInput {
+    countNumber: String!
+    warehouseId: ID!
+    date: Date!
+    productIds: [ID!]
+    categories: [ID!]
+    description: String
+  }
+
+  input StockCountEntryInput {
+    itemId: ID!
+    quantity: Float!
+  }
+
+  input WarehouseInput {
+    name: String!
+    code: String!
+    address: String
+    description: String
+    isDefault: Boolean
+  }
+
   input DocumentInput {
     documentType: DocumentType!
     documentNumber: String!
     supplierId: ID
     customerId: ID
+    sourceWarehouseId: ID
+    destinationWarehouseId: ID
+    returnOfId: ID
+    purchaseOrderId: ID
+    expectedDate: Date
+    quotationId: ID
+    salesOrderId: ID
+    labourCost: Float
+    overheadCost: Float
+    creditLimitOverrideReason: String
     items: [DocumentItemInput!]!
     description: String
     date: Date!
@@ -207,14 +664,24 @@ export const typeDefs = gql`
 
   input DocumentItemInput {
     productId: ID!
+    warehouseId: ID
     quantity: Float!
     unitPrice: Float!
+    adjustmentDirection: AdjustmentDirection
+    adjustmentReason: AdjustmentReason
+    lotNumber: String
+    expiryDate: Date
+    serialNumbers: [String!]
+    unit: String
+    assemblyRole: AssemblyRole
     description: String
   }
 
   input InventoryReportFilter {
-    categoryFilter: String
+    categoryFilter: ID
+    warehouseId: ID
     lowStockOnly: Boolean
+    groupVariants: Boolean
     dateFrom: Date
     dateTo: Date
   }
@@ -224,8 +691,12 @@ export const typeDefs = gql`
     getCompany: Company
     
     # Products
-    getProducts(search: String, category: String, isActive: Boolean): [Product!]!
+    getProducts(search: String, category: ID, isActive: Boolean): [Product!]!
     getProduct(id: ID!): Product
+    getProductByBarcode(barcode: String!): Product
+    
+    # Categories
+    getCategories: [Category!]!
     
     # Suppliers
     getSuppliers(search: String, isActive: Boolean): [Supplier!]!
@@ -234,6 +705,12 @@ export const typeDefs = gql`
     # Customers
     getCustomers(search: String, isActive: Boolean): [Customer!]!
     getCustomer(id: ID!): Customer
+    getCustomerStatement(customerId: ID!, dateFrom: Date, dateTo: Date): CustomerStatement!
+    getCreditLimitReport(warningPercent: Float): [CreditLimitRow!]!
+    
+    # Warehouses
+    getWarehouses(isActive: Boolean): [Warehouse!]!
+    getWarehouse(id: ID!): Warehouse
     
     # Documents
     getDocuments(
@@ -245,14 +722,28 @@ export const typeDefs = gql`
       isFinalized: Boolean
     ): [Document!]!
     getDocument(id: ID!): Document
+    getReturnableItems(documentId: ID!): [ReturnableItem!]!
+    getOrderLines(documentId: ID!): [OrderLine!]!
     
     # Inventory
     getInventoryMovements(
       productId: ID
+      warehouseId: ID
       movementType: MovementType
       dateFrom: Date
       dateTo: Date
     ): [InventoryMovement!]!
+    getWarehouseStock(productId: ID!, upToDate: Date): [WarehouseStock!]!
+    getLotStock(productId: ID!, warehouseId: ID, upToDate: Date): [LotStock!]!
+    getSerialNumberHistory(serialNumber: String!): [SerialNumberHistory!]!
+    
+    # Purchasing
+    getReorderSuggestions(consumptionDays: Int): [ReorderGroup!]!
+    getOpenPurchaseOrders(supplierId: ID, overdueOnly: Boolean): [OpenPurchaseOrder!]!
+    
+    # Stock counts
+    getStockCounts(status: StockCountStatus): [StockCount!]!
+    getStockCount(id: ID!): StockCount
     
     # Reports
     getInventoryReport(filter: InventoryReportFilter): [InventoryReport!]!
@@ -260,7 +751,19 @@ export const typeDefs = gql`
       productId: ID!
       dateFrom: Date!
       dateTo: Date!
+      warehouseId: ID
     ): [StockMovementReport!]!
+    getProductCardex(
+      productId: ID!
+      dateFrom: Date
+      dateTo: Date
+      warehouseId: ID
+      lotNumber: String
+    ): [CardexEntry!]!
+    getAdjustmentReport(dateFrom: Date, dateTo: Date, warehouseId: ID): [AdjustmentReport!]!
+    getGrossProfitReport(dateFrom: Date!, dateTo: Date!, groupBy: GrossProfitGroupBy!): [GrossProfitRow!]!
+    getExpiringLots(days: Int!, warehouseId: ID): [LotStock!]!
+    getCategoryStockReport(warehouseId: ID): [CategoryStockRow!]!
     
     # Dashboard
     getDashboardStats: DashboardStats!
@@ -272,16 +775,32 @@ export const typeDefs = gql`
     todayPurchases: Int!
     todaySales: Float!
     lowStockProducts: Int!
+    lowStockItems: [LowStockItem!]!
+  }
+
+  type LowStockItem {
+    product: Product!
+    currentStock: Float!
+    reservedStock: Float!
+    availableStock: Float!
+    minimumStock: Float!
   }
 
   type Mutation {
     # Company
     createOrUpdateCompany(input: CompanyInput!): Company!
+    restartCostRecalculation: Company!
     
     # Products
     createProduct(input: ProductInput!): Product!
     updateProduct(id: ID!, input: ProductInput!): Product!
     deleteProduct(id: ID!): Boolean!
+    generateProductVariants(productId: ID!): [Product!]!
+    
+    # Categories
+    createCategory(input: CategoryInput!): Category!
+    updateCategory(id: ID!, input: CategoryInput!): Category!
+    deleteCategory(id: ID!): Boolean!
     
     # Suppliers
     createSupplier(input: SupplierInput!): Supplier!
@@ -292,11 +811,35 @@ export const typeDefs = gql`
     createCustomer(input: CustomerInput!): Customer!
     updateCustomer(id: ID!, input: CustomerInput!): Customer!
     deleteCustomer(id: ID!): Boolean!
+    recordCustomerPayment(input: CustomerPaymentInput!): CustomerLedgerEntry!
+    deleteCustomerPayment(id: ID!): Boolean!
+    
+    # Warehouses
+    createWarehouse(input: WarehouseInput!): Warehouse!
+    updateWarehouse(id: ID!, input: WarehouseInput!): Warehouse!
+    deleteWarehouse(id: ID!): Boolean!
     
     # Documents
     createDocument(input: DocumentInput!): Document!
     updateDocument(id: ID!, input: DocumentInput!): Document!
-    finalizeDocument(id: ID!): Document!
+    finalizeDocument(id: ID!, creditLimitOverrideReason: String): Document!
     deleteDocument(id: ID!): Boolean!
+    reverseDocument(id: ID!, reason: String!): Document!
+    convertQuotationToOrder(id: ID!, documentNumber: String!, date: Date!): Document!
+    
+    # Purchasing
+    createPurchaseFromReorder(
+      supplierId: ID!
+      documentNumber: String!
+      date: Date!
+      consumptionDays: Int
+      productIds: [ID!]
+    ): Document!
+    
+    # Stock counts
+    createStockCount(input: StockCountInput!): StockCount!
+    recordStockCounts(id: ID!, counter: String!, entries: [StockCountEntryInput!]!): StockCount!
+    postStockCount(id: ID!): StockCount!
+    cancelStockCount(id: ID!): StockCount!
   }
 `;
\ No newline at end of file
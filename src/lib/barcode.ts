@@ -0,0 +1,130 @@
+/**
+ * Barcode utilities: validation and encoding of product barcodes into bar modules
+ */
+
+export const BARCODE_TYPES = ['EAN13', 'CODE128', 'INTERNAL'] as const;
+
+export type BarcodeType = typeof BARCODE_TYPES[number];
+
+export const barcodeTypeLabels: Record<BarcodeType, string> = {
+  EAN13: 'EAN-13',
+  CODE128: 'Code 128',
+  INTERNAL: 'داخلی'
+};
+
+// EAN-13 left-hand "L" digit patterns; "R" patterns are their complement and "G" patterns the reversed "R"
+const EAN_L_PATTERNS = [
+  '0001101', '0011001', '0010011', '0111101', '0100011',
+  '0110001', '0101111', '0111011', '0110111', '0001011'
+];
+
+// Parity of the six left-hand digits, chosen by the first digit
+const EAN_PARITIES = [
+  'LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG',
+  'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'
+];
+
+// Code 128 symbol widths (bar, space, bar, ...) by symbol value; 106 is the stop symbol
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+/**
+ * Check digit of the first twelve digits of an EAN-13
+ */
+export function ean13CheckDigit(digits: string): number {
+  const sum = digits
+    .slice(0, 12)
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Validate an EAN-13: thirteen digits ending in the right check digit
+ */
+export function isValidEan13(code: string): boolean {
+  return /^\d{13}$/.test(code) && ean13CheckDigit(code) === Number(code[12]);
+}
+
+/**
+ * Code 128 barcodes are printed in code set B, which holds printable ASCII
+ */
+export function isValidCode128(code: string): boolean {
+  return code.length > 0 && code.length <= 48 && /^[\x20-\x7e]+$/.test(code);
+}
+
+/**
+ * Validate a barcode for its type, returning a Persian error message or null when valid
+ */
+export function validateBarcode(code: string, type: string): string | null {
+  if (!BARCODE_TYPES.includes(type as BarcodeType)) {
+    return 'نوع بارکد معتبر نیست';
+  }
+  if (type === 'EAN13') {
+    return isValidEan13(code) ? null : `بارکد ${code} یک EAN-13 معتبر نیست`;
+  }
+  return isValidCode128(code) ? null : `بارکد ${code} فقط می‌تواند شامل حروف و ارقام لاتین باشد`;
+}
+
+/**
+ * Encode an EAN-13 as a string of modules, "1" for bar and "0" for space
+ */
+export function encodeEan13(code: string): string {
+  const digits = code.split('').map(Number);
+  const parity = EAN_PARITIES[digits[0]];
+
+  let modules = '101';
+  for (let index = 1; index <= 6; index++) {
+    const left = EAN_L_PATTERNS[digits[index]];
+    modules += parity[index - 1] === 'L' ? left : invertModules(left).split('').reverse().join('');
+  }
+  modules += '01010';
+  for (let index = 7; index <= 12; index++) {
+    modules += invertModules(EAN_L_PATTERNS[digits[index]]);
+  }
+  return modules + '101';
+}
+
+/**
+ * Encode text in Code 128 set B as a string of modules, "1" for bar and "0" for space
+ */
+export function encodeCode128(text: string): string {
+  const values = text.split('').map(char => char.charCodeAt(0) - 32);
+  const checksum = values.reduce((sum, value, index) => sum + value * (index + 1), CODE128_START_B) % 103;
+
+  return [CODE128_START_B, ...values, checksum, CODE128_STOP]
+    .map(value => widthsToModules(CODE128_PATTERNS[value]))
+    .join('');
+}
+
+/**
+ * Encode a barcode of any type; internal codes are printed as Code 128
+ */
+export function encodeBarcode(code: string, type: string): string {
+  return type === 'EAN13' ? encodeEan13(code) : encodeCode128(code);
+}
+
+function invertModules(modules: string): string {
+  return modules.split('').map(module => (module === '1' ? '0' : '1')).join('');
+}
+
+function widthsToModules(widths: string): string {
+  return widths
+    .split('')
+    .map((width, index) => (index % 2 === 0 ? '1' : '0').repeat(Number(width)))
+    .join('');
+}
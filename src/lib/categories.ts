@@ -0,0 +1,53 @@
+/**
+ * Category tree helpers shared by the pages that list or filter by category
+ */
+
+export interface CategoryNode {
+  id: string;
+  name: string;
+  parent?: { id: string } | null;
+}
+
+/**
+ * Order categories depth first, each followed by its children, with its depth in the tree
+ */
+export function flattenCategoryTree<T extends CategoryNode>(categories: T[]): { category: T; level: number }[] {
+  const ids = new Set(categories.map(category => category.id));
+  const childrenOf = (parentId: string | null) => categories
+    .filter(category => (category.parent && ids.has(category.parent.id) ? category.parent.id : null) === parentId)
+    .sort((a, b) => a.name.localeCompare(b.name, 'fa'));
+
+  const rows: { category: T; level: number }[] = [];
+  const visit = (category: T, level: number) => {
+    rows.push({ category, level });
+    childrenOf(category.id).forEach(child => visit(child, level + 1));
+  };
+  childrenOf(null).forEach(category => visit(category, 0));
+  return rows;
+}
+
+/**
+ * Ids of a category and of every category below it
+ */
+export function categoryDescendantIds(categories: CategoryNode[], categoryId: string): Set<string> {
+  const ids = new Set([categoryId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const category of categories) {
+      if (category.parent && ids.has(category.parent.id) && !ids.has(category.id)) {
+        ids.add(category.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Indent a category name by its depth, for flat select lists
+ */
+export function indentCategoryName(name: string, level: number): string {
+  // Non-breaking spaces, since ordinary ones collapse when rendered
+  return `${'\u00a0\u00a0\u00a0'.repeat(level)}${level > 0 ? '└ ' : ''}${name}`;
+}
@@ -0,0 +1,84 @@
+import mongoose from 'mongoose';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Company, CostingMethod, CostRecalculationStatus } from '@/models/Company';
+import { InventoryMovement } from '@/models/InventoryMovement';
+import { resumeCostRecalculation, runCostRecalculation } from './costRecalculation';
+
+vi.mock('@/lib/mongodb', () => ({
+  default: vi.fn(async () => undefined),
+  withTransaction: vi.fn(async (work: (session: null) => Promise<unknown>) => work(null))
+}));
+
+const companyId = new mongoose.Types.ObjectId();
+const [first, second, third] = ['000000000000000000000001', '000000000000000000000002', '000000000000000000000003']
+  .map(id => new mongoose.Types.ObjectId(id));
+
+describe('runCostRecalculation', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('picks up after the last product a cut off run finished', async () => {
+    vi.spyOn(Company, 'findById').mockResolvedValue({
+      costRecalculation: { status: CostRecalculationStatus.RUNNING, processedProducts: 1, lastProduct: first }
+    } as never);
+    const distinct = vi.spyOn(InventoryMovement, 'distinct').mockResolvedValue([third, second] as never);
+    const recalculateCosts = vi.spyOn(InventoryMovement, 'recalculateCosts').mockResolvedValue(undefined as never);
+    const updateOne = vi.spyOn(Company, 'updateOne').mockResolvedValue({} as never);
+
+    const status = await runCostRecalculation(companyId, CostingMethod.FIFO);
+
+    expect(status).toBe(CostRecalculationStatus.COMPLETED);
+    expect(distinct).toHaveBeenCalledWith('product', { product: { $gt: first } });
+    expect(recalculateCosts.mock.calls.map(([productIds]) => productIds[0])).toEqual([second, third]);
+    expect(updateOne).toHaveBeenCalledWith({ _id: companyId }, { 'costRecalculation.totalProducts': 3 });
+    expect(updateOne).toHaveBeenCalledWith({ _id: companyId }, {
+      $set: { 'costRecalculation.lastProduct': third },
+      $inc: { 'costRecalculation.processedProducts': 1 }
+    });
+  });
+
+  it('records a failure on the job and keeps its cursor', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(Company, 'findById').mockResolvedValue({ costRecalculation: { processedProducts: 0 } } as never);
+    vi.spyOn(InventoryMovement, 'distinct').mockResolvedValue([first, second] as never);
+    vi.spyOn(InventoryMovement, 'recalculateCosts')
+      .mockResolvedValueOnce(undefined as never)
+      .mockRejectedValueOnce(new Error('write conflict'));
+    const updateOne = vi.spyOn(Company, 'updateOne').mockResolvedValue({} as never);
+
+    const status = await runCostRecalculation(companyId, CostingMethod.FIFO);
+
+    expect(status).toBe(CostRecalculationStatus.FAILED);
+    expect(updateOne).toHaveBeenCalledWith({ _id: companyId }, expect.objectContaining({
+      $set: { 'costRecalculation.lastProduct': first }
+    }));
+    expect(updateOne).toHaveBeenLastCalledWith({ _id: companyId }, expect.objectContaining({
+      'costRecalculation.status': CostRecalculationStatus.FAILED,
+      'costRecalculation.error': 'write conflict'
+    }));
+  });
+});
+
+describe('resumeCostRecalculation', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('claims only a stale running job unless failed ones are included', async () => {
+    const findOneAndUpdate = vi.spyOn(Company, 'findOneAndUpdate').mockResolvedValue(null as never);
+
+    expect(await resumeCostRecalculation(companyId)).toBe(false);
+    expect(findOneAndUpdate).toHaveBeenLastCalledWith({
+      _id: companyId,
+      $or: [{ 'costRecalculation.status': CostRecalculationStatus.RUNNING, updatedAt: { $lt: expect.any(Date) } }]
+    }, expect.anything());
+
+    findOneAndUpdate.mockResolvedValue({ _id: companyId } as never);
+    expect(await resumeCostRecalculation(companyId, true)).toBe(true);
+    expect(findOneAndUpdate).toHaveBeenLastCalledWith({
+      _id: companyId,
+      $or: expect.arrayContaining([{ 'costRecalculation.status': CostRecalculationStatus.FAILED }])
+    }, expect.anything());
+  });
+});
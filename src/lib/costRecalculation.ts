@@ -0,0 +1,90 @@
+/**
+ * Re-costing of the whole stock history after a change of costing method. The job is recorded on
+ * the company, with a cursor past the last product it finished, so a run cut off midway (e.g. by a
+ * server restart) can be resumed by a later request or by `npm run migrate`.
+ */
+
+import mongoose from 'mongoose';
+import { withTransaction } from '@/lib/mongodb';
+import { Company, CostingMethod, CostRecalculationStatus } from '@/models/Company';
+import { InventoryMovement } from '@/models/InventoryMovement';
+
+// A job that has not reported progress for this long was cut off and may be resumed
+const COST_RECALCULATION_STALE_MS = 10 * 60 * 1000;
+
+export const isCostRecalculationRunning = (company: { costRecalculation?: { status: string }; updatedAt: Date } | null) =>
+  company?.costRecalculation?.status === CostRecalculationStatus.RUNNING &&
+  Date.now() - company.updatedAt.getTime() < COST_RECALCULATION_STALE_MS;
+
+// Records a fresh job over every product with movements; runCostRecalculation does the work
+export const startCostRecalculation = async (companyId: mongoose.Types.ObjectId) => {
+  const productIds: mongoose.Types.ObjectId[] = await InventoryMovement.distinct('product');
+  await Company.updateOne({ _id: companyId }, {
+    costRecalculation: {
+      status: CostRecalculationStatus.RUNNING,
+      totalProducts: productIds.length,
+      processedProducts: 0,
+      startedAt: new Date()
+    }
+  });
+};
+
+// Takes over a job that was cut off, and a failed one when includeFailed is set, marking it
+// running again from its cursor. Returns false when there is no such job or another caller won it.
+export const resumeCostRecalculation = async (companyId: mongoose.Types.ObjectId, includeFailed = false) => {
+  const resumable: Record<string, unknown>[] = [{
+    'costRecalculation.status': CostRecalculationStatus.RUNNING,
+    updatedAt: { $lt: new Date(Date.now() - COST_RECALCULATION_STALE_MS) }
+  }];
+  if (includeFailed) {
+    resumable.push({ 'costRecalculation.status': CostRecalculationStatus.FAILED });
+  }
+
+  const claimed = await Company.findOneAndUpdate(
+    { _id: companyId, $or: resumable },
+    {
+      $set: { 'costRecalculation.status': CostRecalculationStatus.RUNNING },
+      $unset: { 'costRecalculation.error': '', 'costRecalculation.finishedAt': '' }
+    }
+  );
+  return Boolean(claimed);
+};
+
+// Re-costs, one transaction per product in id order, the products past the job's cursor, moving
+// the cursor after each one. Never rejects: a failure is recorded on the job with its message.
+export const runCostRecalculation = async (companyId: mongoose.Types.ObjectId, costingMethod: CostingMethod) => {
+  try {
+    const company = await Company.findById(companyId);
+    const lastProduct: mongoose.Types.ObjectId | undefined = company?.costRecalculation?.lastProduct;
+    const productIds: mongoose.Types.ObjectId[] = await InventoryMovement.distinct(
+      'product',
+      lastProduct ? { product: { $gt: lastProduct } } : {}
+    );
+    productIds.sort((a, b) => a.toString().localeCompare(b.toString()));
+
+    await Company.updateOne({ _id: companyId }, {
+      'costRecalculation.totalProducts': (company?.costRecalculation?.processedProducts || 0) + productIds.length
+    });
+    for (const productId of productIds) {
+      await withTransaction(session => InventoryMovement.recalculateCosts([productId], costingMethod, session));
+      await Company.updateOne({ _id: companyId }, {
+        $set: { 'costRecalculation.lastProduct': productId },
+        $inc: { 'costRecalculation.processedProducts': 1 }
+      });
+    }
+
+    await Company.updateOne({ _id: companyId }, {
+      'costRecalculation.status': CostRecalculationStatus.COMPLETED,
+      'costRecalculation.finishedAt': new Date()
+    });
+    return CostRecalculationStatus.COMPLETED;
+  } catch (error) {
+    console.error('Error recalculating inventory costs:', error);
+    await Company.updateOne({ _id: companyId }, {
+      'costRecalculation.status': CostRecalculationStatus.FAILED,
+      'costRecalculation.error': error instanceof Error ? error.message : String(error),
+      'costRecalculation.finishedAt': new Date()
+    }).catch(() => undefined);
+    return CostRecalculationStatus.FAILED;
+  }
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { allocateLots, isLotExpired, LotBalance } from './lots';
+
+const today = new Date('2026-03-01T00:00:00Z');
+
+const lot = (lotNumber: string | null, expiryDate: string | null, quantity: number): LotBalance => ({
+  lotNumber,
+  expiryDate: expiryDate ? new Date(expiryDate) : null,
+  quantity
+});
+
+describe('isLotExpired', () => {
+  it('treats a lot as expired only once its expiry date has passed', () => {
+    expect(isLotExpired(lot('A', '2026-02-28T00:00:00Z', 1), today)).toBe(true);
+    expect(isLotExpired(lot('A', '2026-03-01T00:00:00Z', 1), today)).toBe(false);
+    expect(isLotExpired(lot('A', null, 1), today)).toBe(false);
+  });
+});
+
+describe('allocateLots', () => {
+  it('splits a quantity over the lots in the order given', () => {
+    const lots = [lot('A', '2026-04-01', 3), lot('B', '2026-05-01', 10), lot(null, null, 5)];
+
+    const { allocations, remaining } = allocateLots(lots, 8, today);
+
+    expect(allocations.map(allocation => [allocation.lotNumber, allocation.quantity])).toEqual([['A', 3], ['B', 5]]);
+    expect(remaining).toBe(0);
+    expect(lots.map(balance => balance.quantity)).toEqual([0, 5, 5]);
+  });
+
+  it('passes over expired and empty lots', () => {
+    const lots = [lot('OLD', '2026-01-01', 4), lot('EMPTY', '2026-03-15', 0), lot('NEW', '2026-06-01', 4)];
+
+    const { allocations, remaining } = allocateLots(lots, 3, today);
+
+    expect(allocations.map(allocation => [allocation.lotNumber, allocation.quantity])).toEqual([['NEW', 3]]);
+    expect(remaining).toBe(0);
+    expect(lots[0].quantity).toBe(4);
+  });
+
+  it('returns what the unexpired lots cannot cover', () => {
+    const lots = [lot('OLD', '2026-01-01', 10), lot('NEW', '2026-06-01', 2)];
+
+    const { allocations, remaining } = allocateLots(lots, 5, today);
+
+    expect(allocations.map(allocation => [allocation.lotNumber, allocation.quantity])).toEqual([['NEW', 2]]);
+    expect(remaining).toBe(3);
+  });
+
+  it('draws the lots down across calls for several lines', () => {
+    const lots = [lot('A', '2026-04-01', 4), lot('B', '2026-05-01', 4)];
+
+    allocateLots(lots, 3, today);
+    const { allocations } = allocateLots(lots, 3, today);
+
+    expect(allocations.map(allocation => [allocation.lotNumber, allocation.quantity])).toEqual([['A', 1], ['B', 2]]);
+  });
+});
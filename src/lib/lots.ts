@@ -0,0 +1,41 @@
+/**
+ * Lot picking helpers for outgoing lines of lot-tracked products
+ */
+
+export interface LotBalance {
+  lotNumber: string | null;
+  expiryDate: Date | null;
+  quantity: number;
+}
+
+export interface LotAllocation {
+  lotNumber: string | null;
+  expiryDate: Date | null;
+  quantity: number;
+}
+
+/**
+ * Whether a lot expired before the given date
+ */
+export function isLotExpired(lot: LotBalance, date: Date): boolean {
+  return !!lot.expiryDate && lot.expiryDate.getTime() < date.getTime();
+}
+
+/**
+ * Split a quantity over lots given in FEFO order, drawing each lot down by what it gives.
+ * Lots that expired before the date are passed over; what the others cannot cover is returned
+ * as the remainder.
+ */
+export function allocateLots(lots: LotBalance[], quantity: number, date: Date): { allocations: LotAllocation[]; remaining: number } {
+  const allocations: LotAllocation[] = [];
+  let remaining = quantity;
+  for (const lot of lots) {
+    if (remaining <= 0) break;
+    if (lot.quantity <= 0 || isLotExpired(lot, date)) continue;
+    const taken = Math.min(lot.quantity, remaining);
+    lot.quantity -= taken;
+    remaining -= taken;
+    allocations.push({ lotNumber: lot.lotNumber, expiryDate: lot.expiryDate, quantity: taken });
+  }
+  return { allocations, remaining };
+}
@@ -55,4 +55,21 @@ async function dbConnect() {
   return cached.conn;
 }
 
+/**
+ * Run work inside a MongoDB transaction. Everything written with the given
+ * session is committed together, or rolled back if the work throws.
+ */
+export async function withTransaction<T>(work: (session: mongoose.ClientSession) => Promise<T>): Promise<T> {
+  const session = await mongoose.startSession();
+  try {
+    let result: T | undefined;
+    await session.withTransaction(async () => {
+      result = await work(session);
+    });
+    return result as T;
+  } finally {
+    await session.endSession();
+  }
+}
+
 export default dbConnect;
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { findShortage, groupStockRequests, sumReserved } from './stock';
+
+describe('groupStockRequests', () => {
+  it('totals lines per product and warehouse, and per lot they name', () => {
+    const requests = groupStockRequests([
+      { productId: 'p1', quantity: 3, warehouseId: 'w1' },
+      { productId: 'p1', quantity: -2, warehouseId: 'w1', lotNumber: 'L1' },
+      { productId: 'p1', quantity: 4 },
+      { productId: 'p2', quantity: 1, warehouseId: 'w2' }
+    ], 'main');
+
+    expect(requests).toEqual([
+      { productId: 'p1', warehouseId: 'w1', requested: 5 },
+      { productId: 'p1', warehouseId: 'w1', lotNumber: 'L1', requested: 2 },
+      { productId: 'p1', warehouseId: 'main', requested: 4 },
+      { productId: 'p2', warehouseId: 'w2', requested: 1 }
+    ]);
+  });
+});
+
+describe('sumReserved', () => {
+  const reserved = new Map([['p1:w1', 2], ['p1:w2', 3], ['p2:w1', 7]]);
+
+  it('sums a product in one warehouse or across all of them', () => {
+    expect(sumReserved(reserved, 'p1', 'w1')).toBe(2);
+    expect(sumReserved(reserved, 'p1')).toBe(5);
+    expect(sumReserved(reserved, 'p3')).toBe(0);
+  });
+});
+
+describe('findShortage', () => {
+  const reserved = new Map([['p1:w1', 4]]);
+
+  it('holds back what sales orders reserve in the warehouse', () => {
+    expect(findShortage({ productId: 'p1', warehouseId: 'w1', requested: 6 }, 10, reserved)).toBeNull();
+    expect(findShortage({ productId: 'p1', warehouseId: 'w1', requested: 7 }, 10, reserved)).toEqual({
+      productId: 'p1',
+      warehouseId: 'w1',
+      requested: 7,
+      available: 6,
+      reserved: 4
+    });
+  });
+
+  it('leaves reservations in other warehouses out', () => {
+    expect(findShortage({ productId: 'p1', warehouseId: 'w2', requested: 10 }, 10, reserved)).toBeNull();
+  });
+
+  it('does not apply reservations to a lot', () => {
+    expect(findShortage({ productId: 'p1', warehouseId: 'w1', lotNumber: 'L1', requested: 10 }, 10, reserved)).toBeNull();
+  });
+
+  it('reports a shortage without reservations', () => {
+    expect(findShortage({ productId: 'p1', warehouseId: 'w1', requested: 3 }, 2, new Map())).toEqual({
+      productId: 'p1',
+      warehouseId: 'w1',
+      requested: 3,
+      available: 2,
+      reserved: 0
+    });
+  });
+});
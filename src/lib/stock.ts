@@ -0,0 +1,71 @@
+/**
+ * Stock availability helpers for the lines of documents that take goods out of stock
+ */
+
+export interface StockLine {
+  productId: string;
+  quantity: number;
+  warehouseId?: string | null;
+  lotNumber?: string | null;
+}
+
+export interface StockRequest {
+  productId: string;
+  warehouseId: string;
+  lotNumber?: string;
+  requested: number;
+}
+
+export interface StockShortage extends StockRequest {
+  available: number;
+  reserved: number;
+}
+
+/**
+ * Total what document lines draw on each product in each warehouse, and on each lot they name.
+ * Lines without a warehouse draw on the default warehouse.
+ */
+export function groupStockRequests(lines: StockLine[], defaultWarehouseId: string): StockRequest[] {
+  const requests = new Map<string, StockRequest>();
+  const addRequest = (key: string, entry: Omit<StockRequest, 'requested'>, quantity: number) => {
+    const existing = requests.get(key) || { ...entry, requested: 0 };
+    existing.requested += Math.abs(quantity);
+    requests.set(key, existing);
+  };
+  for (const line of lines) {
+    const warehouseId = line.warehouseId || defaultWarehouseId;
+    addRequest(`${line.productId}:${warehouseId}`, { productId: line.productId, warehouseId }, line.quantity);
+    if (line.lotNumber) {
+      addRequest(
+        `${line.productId}:${warehouseId}:${line.lotNumber}`,
+        { productId: line.productId, warehouseId, lotNumber: line.lotNumber },
+        line.quantity
+      );
+    }
+  }
+  return [...requests.values()];
+}
+
+/**
+ * Reserved quantity of a product in one warehouse, or in all of them, from reservations keyed
+ * "product:warehouse"
+ */
+export function sumReserved(reserved: Map<string, number>, productId: string, warehouseId?: string): number {
+  let total = 0;
+  for (const [key, quantity] of reserved) {
+    if (warehouseId ? key === `${productId}:${warehouseId}` : key.startsWith(`${productId}:`)) {
+      total += quantity;
+    }
+  }
+  return total;
+}
+
+/**
+ * The shortage of a request, if the stock on hand less what is reserved cannot cover it.
+ * Reservations are per product and warehouse, so they only limit warehouse totals, not lots.
+ */
+export function findShortage(request: StockRequest, onHand: number, reserved: Map<string, number>): StockShortage | null {
+  const reservedQuantity = request.lotNumber ? 0 : sumReserved(reserved, request.productId, request.warehouseId);
+  const available = onHand - reservedQuantity;
+  return available < request.requested ? { ...request, available, reserved: reservedQuantity } : null;
+}
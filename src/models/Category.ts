@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+interface ICategory extends Document {
+  name: string;
+  parent?: mongoose.Types.ObjectId;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CategorySchema: Schema = new Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'نام دسته‌بندی الزامی است'],
+      trim: true,
+      maxlength: [100, 'نام دسته‌بندی نباید بیش از ۱۰۰ کاراکتر باشد']
+    },
+    // Top-level categories have no parent
+    parent: {
+      type: Schema.Types.ObjectId,
+      ref: 'Category'
+    },
+    isActive: {
+      type: Boolean,
+      default: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes for better query performance
+CategorySchema.index({ parent: 1 });
+CategorySchema.index({ parent: 1, name: 1 }, { unique: true, partialFilterExpression: { isActive: true } });
+
+export const Category = mongoose.models.Category || mongoose.model<ICategory>('Category', CategorySchema);
@@ -1,5 +1,34 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+// How the cost of goods leaving stock is determined
+export enum CostingMethod {
+  MOVING_AVERAGE = 'MOVING_AVERAGE',
+  FIFO = 'FIFO'
+}
+
+// What happens to a sale invoice that takes a customer past their credit limit
+export enum CreditLimitPolicy {
+  BLOCK = 'BLOCK',
+  OVERRIDE = 'OVERRIDE'
+}
+
+// Where re-costing the stock history after a costing method change stands
+export enum CostRecalculationStatus {
+  RUNNING = 'RUNNING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED'
+}
+
+interface ICostRecalculation {
+  status: CostRecalculationStatus;
+  totalProducts: number;
+  processedProducts: number;
+  lastProduct?: mongoose.Types.ObjectId;
+  error?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+}
+
 interface ICompany extends Document {
   name: string;
   nationalCode?: string;
@@ -8,6 +37,10 @@ interface ICompany extends Document {
   email?: string;
   financialYearStart: Date;
   financialYearEnd: Date;
+  allowNegativeStock: boolean;
+  costingMethod: CostingMethod;
+  creditLimitPolicy: CreditLimitPolicy;
+  costRecalculation?: ICostRecalculation;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -69,6 +102,45 @@ const CompanySchema: Schema = new Schema(
       type: Date,
       required: [true, 'تاریخ پایان سال مالی الزامی است']
     },
+    allowNegativeStock: {
+      type: Boolean,
+      default: false
+    },
+    costingMethod: {
+      type: String,
+      enum: {
+        values: Object.values(CostingMethod),
+        message: 'روش قیمت‌گذاری موجودی معتبر نیست'
+      },
+      default: CostingMethod.MOVING_AVERAGE
+    },
+    creditLimitPolicy: {
+      type: String,
+      enum: {
+        values: Object.values(CreditLimitPolicy),
+        message: 'سیاست حد اعتبار معتبر نیست'
+      },
+      default: CreditLimitPolicy.BLOCK
+    },
+    // Progress of the re-costing job started by the last costing method change
+    costRecalculation: {
+      type: {
+        _id: false,
+        status: {
+          type: String,
+          enum: Object.values(CostRecalculationStatus),
+          required: true
+        },
+        totalProducts: { type: Number, default: 0 },
+        processedProducts: { type: Number, default: 0 },
+        // The last product re-costed, where a resumed run picks up
+        lastProduct: { type: Schema.Types.ObjectId, ref: 'Product' },
+        error: { type: String },
+        startedAt: { type: Date, required: true },
+        finishedAt: { type: Date }
+      },
+      default: undefined
+    },
     isActive: {
       type: Boolean,
       default: true
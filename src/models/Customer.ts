@@ -12,7 +12,6 @@ interface ICustomer extends Document {
   email?: string;
   taxNumber?: string;
   creditLimit: number;
-  currentBalance: number;
   customerType: 'RETAIL' | 'WHOLESALE' | 'CORPORATE';
   status: 'ACTIVE' | 'INACTIVE';
   notes?: string;
@@ -112,10 +111,6 @@ const CustomerSchema: Schema = new Schema(
       default: 0,
       min: [0, 'حد اعتبار نمی‌تواند منفی باشد']
     },
-    currentBalance: {
-      type: Number,
-      default: 0
-    },
     customerType: {
       type: String,
       enum: {
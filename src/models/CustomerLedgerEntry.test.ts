@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { buildStatement } from './CustomerLedgerEntry';
+
+const entry = (date: string, debit: number, credit: number) => ({ date: new Date(date), debit, credit });
+
+const entries = [
+  entry('2026-01-05', 1000, 0),
+  entry('2026-01-20', 0, 400),
+  entry('2026-02-03', 2500, 0),
+  entry('2026-02-10', 0, 300),
+  entry('2026-02-25', 0, 1000)
+];
+
+describe('buildStatement', () => {
+  it('runs the balance through every entry', () => {
+    const statement = buildStatement(entries);
+
+    expect(statement.entries.map(row => row.balance)).toEqual([1000, 600, 3100, 2800, 1800]);
+    expect(statement.openingBalance).toBe(0);
+    expect(statement.totalDebit).toBe(3500);
+    expect(statement.totalCredit).toBe(1700);
+    expect(statement.closingBalance).toBe(1800);
+  });
+
+  it('folds entries before dateFrom into the opening balance', () => {
+    const statement = buildStatement(entries, new Date('2026-02-01'));
+
+    expect(statement.openingBalance).toBe(600);
+    expect(statement.entries.map(row => row.balance)).toEqual([3100, 2800, 1800]);
+    expect(statement.totalDebit).toBe(2500);
+    expect(statement.totalCredit).toBe(1300);
+    expect(statement.closingBalance).toBe(1800);
+  });
+
+  it('opens at the whole balance when nothing falls in the window', () => {
+    const statement = buildStatement(entries, new Date('2026-03-01'));
+
+    expect(statement.openingBalance).toBe(1800);
+    expect(statement.entries).toEqual([]);
+    expect(statement.closingBalance).toBe(1800);
+  });
+});
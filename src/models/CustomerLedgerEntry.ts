@@ -0,0 +1,225 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// What put an entry on a customer's receivables ledger
+export enum LedgerEntryType {
+  OPENING_BALANCE = 'OPENING_BALANCE',
+  SALE_INVOICE = 'SALE_INVOICE',
+  SALE_RETURN = 'SALE_RETURN',
+  PAYMENT = 'PAYMENT'
+}
+
+// Sale documents that move a customer's receivable once finalized
+export const LEDGER_DOCUMENT_TYPES = [LedgerEntryType.SALE_INVOICE, LedgerEntryType.SALE_RETURN] as string[];
+
+export enum PaymentMethod {
+  CASH = 'CASH',
+  CARD = 'CARD',
+  BANK_TRANSFER = 'BANK_TRANSFER',
+  CHEQUE = 'CHEQUE'
+}
+
+interface ICustomerLedgerEntry extends Document<mongoose.Types.ObjectId> {
+  customer: mongoose.Types.ObjectId;
+  entryType: LedgerEntryType;
+  date: Date;
+  debit: number;
+  credit: number;
+  document?: mongoose.Types.ObjectId;
+  paymentMethod?: PaymentMethod;
+  reference?: string;
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// The fields of a sale document its ledger entry is posted from
+interface ILedgerDocument {
+  _id: mongoose.Types.ObjectId;
+  documentType: string;
+  isFinalized: boolean;
+  customer?: mongoose.Types.ObjectId | { _id: mongoose.Types.ObjectId } | null;
+  totalAmount?: number;
+  reversalOf?: mongoose.Types.ObjectId | null;
+  date: Date;
+  description?: string;
+}
+
+interface ICustomerBalance {
+  customer: mongoose.Types.ObjectId;
+  balance: number;
+}
+
+interface IStatementEntry {
+  entry: ICustomerLedgerEntry;
+  balance: number;
+}
+
+interface ICustomerStatement {
+  openingBalance: number;
+  entries: IStatementEntry[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+}
+
+interface ICustomerLedgerEntryModel extends Model<ICustomerLedgerEntry> {
+  postDocument(document: ILedgerDocument, session?: mongoose.ClientSession): Promise<void>;
+  getBalances(customerIds?: mongoose.Types.ObjectId[]): Promise<ICustomerBalance[]>;
+  getStatement(customerId: mongoose.Types.ObjectId, dateFrom?: Date, dateTo?: Date): Promise<ICustomerStatement>;
+}
+
+const CustomerLedgerEntrySchema: Schema = new Schema(
+  {
+    customer: {
+      type: Schema.Types.ObjectId,
+      ref: 'Customer',
+      required: [true, 'مشتری الزامی است']
+    },
+    entryType: {
+      type: String,
+      enum: {
+        values: Object.values(LedgerEntryType),
+        message: 'نوع ردیف حساب معتبر نیست'
+      },
+      required: [true, 'نوع ردیف حساب الزامی است']
+    },
+    date: {
+      type: Date,
+      required: [true, 'تاریخ الزامی است']
+    },
+    // Debits raise what the customer owes, credits lower it
+    debit: {
+      type: Number,
+      default: 0,
+      min: [0, 'مبلغ بدهکار نمی‌تواند منفی باشد']
+    },
+    credit: {
+      type: Number,
+      default: 0,
+      min: [0, 'مبلغ بستانکار نمی‌تواند منفی باشد']
+    },
+    // The sale invoice or return posted; payments and opening balances have none
+    document: {
+      type: Schema.Types.ObjectId,
+      ref: 'Document'
+    },
+    paymentMethod: {
+      type: String,
+      enum: {
+        values: Object.values(PaymentMethod),
+        message: 'روش پرداخت معتبر نیست'
+      }
+    },
+    reference: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'شماره مرجع نباید بیش از ۱۰۰ کاراکتر باشد']
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'توضیحات نباید بیش از ۵۰۰ کاراکتر باشد']
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes for better query performance
+CustomerLedgerEntrySchema.index({ customer: 1, date: 1 });
+// A document is posted to the ledger once, and a customer has at most one opening balance
+CustomerLedgerEntrySchema.index({ document: 1 }, { unique: true, partialFilterExpression: { document: { $exists: true } } });
+CustomerLedgerEntrySchema.index(
+  { customer: 1 },
+  { unique: true, partialFilterExpression: { entryType: LedgerEntryType.OPENING_BALANCE } }
+);
+
+// Method to post a finalized sale invoice or return to its customer's ledger: invoices debit the
+// customer, returns credit them and a reversal posts the opposite side of what it reverses.
+// Posting a document again leaves its entry as it is.
+CustomerLedgerEntrySchema.statics.postDocument = async function(document: ILedgerDocument, session?: mongoose.ClientSession) {
+  if (!LEDGER_DOCUMENT_TYPES.includes(document.documentType) || !document.isFinalized || !document.customer) {
+    return;
+  }
+
+  const amount = Math.abs(document.totalAmount || 0);
+  const isDebit = (document.documentType === LedgerEntryType.SALE_INVOICE) !== !!document.reversalOf;
+  await this.updateOne(
+    { document: document._id },
+    {
+      $setOnInsert: {
+        customer: '_id' in document.customer ? document.customer._id : document.customer,
+        entryType: document.documentType,
+        date: document.date,
+        debit: isDebit ? amount : 0,
+        credit: isDebit ? 0 : amount,
+        document: document._id,
+        description: document.description
+      }
+    },
+    { upsert: true, session }
+  );
+};
+
+// Method to get the receivable balance of the given customers, or of every customer on the ledger
+CustomerLedgerEntrySchema.statics.getBalances = async function(customerIds?: mongoose.Types.ObjectId[]) {
+  const matchStage: mongoose.FilterQuery<ICustomerLedgerEntry> = {};
+
+  if (customerIds) {
+    matchStage.customer = { $in: customerIds };
+  }
+
+  const result = await this.aggregate<{ _id: mongoose.Types.ObjectId; balance: number }>([
+    { $match: matchStage },
+    {
+      $group: {
+        _id: '$customer',
+        balance: { $sum: { $subtract: ['$debit', '$credit'] } }
+      }
+    }
+  ]);
+
+  return result.map(row => ({ customer: row._id, balance: row.balance }));
+};
+
+// Runs the balance through a customer's entries, given in date order. Entries before dateFrom are
+// folded into the opening balance.
+export const buildStatement = <T extends { date: Date; debit: number; credit: number }>(ledgerEntries: T[], dateFrom?: Date) => {
+  let balance = 0;
+  let totalDebit = 0;
+  let totalCredit = 0;
+  let openingBalance = 0;
+  const entries: { entry: T; balance: number }[] = [];
+
+  for (const entry of ledgerEntries) {
+    balance += entry.debit - entry.credit;
+    if (dateFrom && entry.date < dateFrom) {
+      openingBalance = balance;
+      continue;
+    }
+    totalDebit += entry.debit;
+    totalCredit += entry.credit;
+    entries.push({ entry, balance });
+  }
+
+  return { openingBalance, entries, totalDebit, totalCredit, closingBalance: balance };
+};
+
+// Method to build a customer's statement with a running balance
+CustomerLedgerEntrySchema.statics.getStatement = async function(customerId: mongoose.Types.ObjectId, dateFrom?: Date, dateTo?: Date) {
+  const matchStage: mongoose.FilterQuery<ICustomerLedgerEntry> = { customer: customerId };
+
+  if (dateTo) {
+    matchStage.date = { $lte: dateTo };
+  }
+
+  const ledgerEntries: ICustomerLedgerEntry[] = await this.find(matchStage)
+    .populate('document', 'documentType documentNumber reversalOf')
+    .sort({ date: 1, createdAt: 1 });
+
+  return buildStatement(ledgerEntries, dateFrom);
+};
+
+export const CustomerLedgerEntry = (mongoose.models.CustomerLedgerEntry as ICustomerLedgerEntryModel) ||
+  mongoose.model<ICustomerLedgerEntry, ICustomerLedgerEntryModel>('CustomerLedgerEntry', CustomerLedgerEntrySchema);
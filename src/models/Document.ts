@@ -1,31 +1,82 @@
 import mongoose, { Schema, Document as MongooseDocument } from 'mongoose';
+import { AdjustmentReason } from './InventoryMovement';
 
 enum DocumentType {
   PURCHASE_INVOICE = 'PURCHASE_INVOICE',
   SALE_INVOICE = 'SALE_INVOICE',
   STOCK_ADJUSTMENT = 'STOCK_ADJUSTMENT',
   INITIAL_STOCK = 'INITIAL_STOCK',
-  IMPORT = 'IMPORT'
+  IMPORT = 'IMPORT',
+  TRANSFER = 'TRANSFER',
+  PURCHASE_RETURN = 'PURCHASE_RETURN',
+  SALE_RETURN = 'SALE_RETURN',
+  PURCHASE_ORDER = 'PURCHASE_ORDER',
+  GOODS_RECEIPT = 'GOODS_RECEIPT',
+  QUOTATION = 'QUOTATION',
+  SALES_ORDER = 'SALES_ORDER',
+  ASSEMBLY = 'ASSEMBLY',
+  DISASSEMBLY = 'DISASSEMBLY'
 }
 
-interface IDocumentItem {
+// Direction of a stock adjustment line
+enum AdjustmentDirection {
+  IN = 'IN',
+  OUT = 'OUT'
+}
+
+// Side of an assembly or disassembly a line is on: the finished product or one of its components
+export enum AssemblyRole {
+  FINISHED = 'FINISHED',
+  COMPONENT = 'COMPONENT'
+}
+
+// Return document types and the invoice types each may refer back to
+export const RETURNABLE_DOCUMENT_TYPES: Record<string, DocumentType[]> = {
+  [DocumentType.PURCHASE_RETURN]: [DocumentType.PURCHASE_INVOICE, DocumentType.IMPORT, DocumentType.GOODS_RECEIPT],
+  [DocumentType.SALE_RETURN]: [DocumentType.SALE_INVOICE]
+};
+
+export interface IDocumentItem {
   product: mongoose.Types.ObjectId;
+  warehouse?: mongoose.Types.ObjectId;
   quantity: number;
   unitPrice: number;
+  unitCost?: number;
   totalPrice: number;
+  adjustmentDirection?: AdjustmentDirection;
+  adjustmentReason?: AdjustmentReason;
+  lotNumber?: string;
+  expiryDate?: Date;
+  serialNumbers?: string[];
+  unit?: string;
+  unitFactor?: number;
+  assemblyRole?: AssemblyRole;
   description?: string;
 }
 
-interface IDocument extends MongooseDocument {
+export interface IDocument extends MongooseDocument<mongoose.Types.ObjectId> {
   documentType: DocumentType;
   documentNumber: string;
   supplier?: mongoose.Types.ObjectId;
   customer?: mongoose.Types.ObjectId;
+  sourceWarehouse?: mongoose.Types.ObjectId;
+  destinationWarehouse?: mongoose.Types.ObjectId;
   items: IDocumentItem[];
   totalAmount: number;
   description?: string;
   date: Date;
   isFinalized: boolean;
+  reversalOf?: mongoose.Types.ObjectId;
+  reversedBy?: mongoose.Types.ObjectId;
+  reversalReason?: string;
+  creditLimitOverrideReason?: string;
+  returnOf?: mongoose.Types.ObjectId;
+  purchaseOrder?: mongoose.Types.ObjectId;
+  expectedDate?: Date;
+  quotation?: mongoose.Types.ObjectId;
+  salesOrder?: mongoose.Types.ObjectId;
+  labourCost?: number;
+  overheadCost?: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -36,6 +87,10 @@ const DocumentItemSchema: Schema = new Schema({
     ref: 'Product',
     required: [true, 'کالا الزامی است']
   },
+  warehouse: {
+    type: Schema.Types.ObjectId,
+    ref: 'Warehouse'
+  },
   quantity: {
     type: Number,
     required: [true, 'تعداد الزامی است'],
@@ -46,11 +101,61 @@ const DocumentItemSchema: Schema = new Schema({
     required: [true, 'قیمت واحد الزامی است'],
     min: [0, 'قیمت واحد نمی‌تواند منفی باشد']
   },
+  // Cost at which the line moves stock when it differs from its price (e.g. sale returns)
+  unitCost: {
+    type: Number,
+    min: [0, 'بهای تمام شده نمی‌تواند منفی باشد']
+  },
   totalPrice: {
     type: Number,
     required: [true, 'مبلغ کل الزامی است'],
     min: [0, 'مبلغ کل نمی‌تواند منفی باشد']
   },
+  // Stock adjustment lines either add or remove goods, for a stated reason
+  adjustmentDirection: {
+    type: String,
+    enum: {
+      values: Object.values(AdjustmentDirection),
+      message: 'جهت تعدیل معتبر نیست'
+    }
+  },
+  adjustmentReason: {
+    type: String,
+    enum: {
+      values: Object.values(AdjustmentReason),
+      message: 'علت تعدیل معتبر نیست'
+    }
+  },
+  // Lot the line receives into or picks from, for lot-tracked products
+  lotNumber: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'شماره بچ نباید بیش از ۱۰۰ کاراکتر باشد']
+  },
+  expiryDate: {
+    type: Date
+  },
+  // One serial per unit, for serialized products
+  serialNumbers: {
+    type: [{ type: String, trim: true }],
+    default: undefined
+  },
+  // Alternate unit the line was entered in; quantity and unitPrice are always stored in the base unit
+  unit: {
+    type: String,
+    trim: true
+  },
+  unitFactor: {
+    type: Number,
+    min: [0.000001, 'ضریب تبدیل باید بیشتر از صفر باشد']
+  },
+  assemblyRole: {
+    type: String,
+    enum: {
+      values: Object.values(AssemblyRole),
+      message: 'نقش قلم در مونتاژ معتبر نیست'
+    }
+  },
   description: {
     type: String,
     trim: true,
@@ -80,7 +185,9 @@ const DocumentSchema: Schema = new Schema(
       validate: {
         validator: function(this: IDocument, v: mongoose.Types.ObjectId) {
           // Supplier is required for purchase invoices and import documents
-          if (this.documentType === DocumentType.PURCHASE_INVOICE || this.documentType === DocumentType.IMPORT) {
+          if (this.documentType === DocumentType.PURCHASE_INVOICE || this.documentType === DocumentType.IMPORT ||
+              this.documentType === DocumentType.PURCHASE_RETURN || this.documentType === DocumentType.PURCHASE_ORDER ||
+              this.documentType === DocumentType.GOODS_RECEIPT) {
             return !!v;
           }
           return true;
@@ -93,8 +200,9 @@ const DocumentSchema: Schema = new Schema(
       ref: 'Customer',
       validate: {
         validator: function(this: IDocument, v: mongoose.Types.ObjectId) {
-          // Customer is required for sale invoices
-          if (this.documentType === DocumentType.SALE_INVOICE) {
+          // Customer is required for sale invoices, quotations and sales orders
+          if (this.documentType === DocumentType.SALE_INVOICE || this.documentType === DocumentType.SALE_RETURN ||
+              this.documentType === DocumentType.QUOTATION || this.documentType === DocumentType.SALES_ORDER) {
             return !!v;
           }
           return true;
@@ -102,6 +210,34 @@ const DocumentSchema: Schema = new Schema(
         message: 'مشتری برای فاکتور فروش الزامی است'
       }
     },
+    sourceWarehouse: {
+      type: Schema.Types.ObjectId,
+      ref: 'Warehouse',
+      validate: {
+        validator: function(this: IDocument, v: mongoose.Types.ObjectId) {
+          // Source warehouse is required for transfers
+          if (this.documentType === DocumentType.TRANSFER) {
+            return !!v;
+          }
+          return true;
+        },
+        message: 'انبار مبدا برای انتقال کالا الزامی است'
+      }
+    },
+    destinationWarehouse: {
+      type: Schema.Types.ObjectId,
+      ref: 'Warehouse',
+      validate: {
+        validator: function(this: IDocument, v: mongoose.Types.ObjectId) {
+          // Destination warehouse is required for transfers and must differ from the source
+          if (this.documentType === DocumentType.TRANSFER) {
+            return !!v && (!this.sourceWarehouse || !v.equals(this.sourceWarehouse));
+          }
+          return true;
+        },
+        message: 'انبار مقصد برای انتقال کالا الزامی است و باید با انبار مبدا متفاوت باشد'
+      }
+    },
     items: {
       type: [DocumentItemSchema],
       required: [true, 'اقلام سند الزامی است'],
@@ -130,6 +266,62 @@ const DocumentSchema: Schema = new Schema(
     isFinalized: {
       type: Boolean,
       default: false
+    },
+    reversalOf: {
+      type: Schema.Types.ObjectId,
+      ref: 'Document'
+    },
+    reversedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Document'
+    },
+    reversalReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'علت برگشت نباید بیش از ۵۰۰ کاراکتر باشد'],
+      // A reversal document must state why it was issued
+      required: [function(this: IDocument) { return !!this.reversalOf; }, 'علت برگشت سند الزامی است']
+    },
+    // Why a sale invoice was let past the customer's credit limit
+    creditLimitOverrideReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'علت عبور از حد اعتبار نباید بیش از ۵۰۰ کاراکتر باشد']
+    },
+    returnOf: {
+      type: Schema.Types.ObjectId,
+      ref: 'Document',
+      // Returns must refer to the invoice the goods were originally invoiced on
+      required: [function(this: IDocument) { return !!RETURNABLE_DOCUMENT_TYPES[this.documentType]; }, 'فاکتور مرجع برای سند مرجوعی الزامی است']
+    },
+    // Goods receipts record deliveries against a purchase order, possibly several per order
+    purchaseOrder: {
+      type: Schema.Types.ObjectId,
+      ref: 'Document',
+      required: [function(this: IDocument) { return this.documentType === DocumentType.GOODS_RECEIPT; }, 'سفارش خرید برای رسید کالا الزامی است']
+    },
+    // When the supplier is expected to deliver a purchase order
+    expectedDate: {
+      type: Date
+    },
+    // The quotation a sales order was converted from
+    quotation: {
+      type: Schema.Types.ObjectId,
+      ref: 'Document'
+    },
+    // The sales order a sale invoice delivers, possibly one of several partial invoices
+    salesOrder: {
+      type: Schema.Types.ObjectId,
+      ref: 'Document'
+    },
+    // Costs an assembly or disassembly adds on top of the goods it consumes
+    labourCost: {
+      type: Number,
+      min: [0, 'هزینه دستمزد نمی‌تواند منفی باشد']
+    },
+    overheadCost: {
+      type: Number,
+      min: [0, 'هزینه سربار نمی‌تواند منفی باشد']
     }
   },
   {
@@ -137,10 +329,13 @@ const DocumentSchema: Schema = new Schema(
   }
 );
 
-// Pre-save middleware to calculate total amount
+// Pre-save middleware to calculate total amount; an assembly is worth its finished product,
+// whose cost its component lines already make up
 DocumentSchema.pre('save', function(this: IDocument, next) {
   if (this.items && this.items.length > 0) {
-    this.totalAmount = this.items.reduce((sum, item) => sum + item.totalPrice, 0);
+    this.totalAmount = this.items
+      .filter(item => item.assemblyRole !== AssemblyRole.COMPONENT)
+      .reduce((sum, item) => sum + item.totalPrice, 0);
   }
   next();
 });
@@ -161,6 +356,11 @@ DocumentSchema.index({ date: -1 });
 DocumentSchema.index({ isFinalized: 1 });
 DocumentSchema.index({ supplier: 1 });
 DocumentSchema.index({ customer: 1 });
+DocumentSchema.index({ reversalOf: 1 }, { sparse: true });
+DocumentSchema.index({ returnOf: 1 }, { sparse: true });
+DocumentSchema.index({ purchaseOrder: 1 }, { sparse: true });
+DocumentSchema.index({ quotation: 1 }, { sparse: true });
+DocumentSchema.index({ salesOrder: 1 }, { sparse: true });
 DocumentSchema.index({ documentNumber: 1, documentType: 1 }, { unique: true }); // Ensure unique document numbers per type
 
 export const Document = mongoose.models.Document || mongoose.model<IDocument>('Document', DocumentSchema);
\ No newline at end of file
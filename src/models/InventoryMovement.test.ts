@@ -0,0 +1,159 @@
+import mongoose from 'mongoose';
+import { describe, expect, it } from 'vitest';
+import { CostingMethod } from './Company';
+import { MovementType, replayCosting } from './InventoryMovement';
+
+const newDocument = (fields: { reversalOf?: mongoose.Types.ObjectId; returnOf?: mongoose.Types.ObjectId } = {}) => ({
+  _id: new mongoose.Types.ObjectId(),
+  ...fields
+});
+
+const newMovement = (
+  movementType: MovementType,
+  quantity: number,
+  unitPrice: number,
+  document = newDocument()
+) => ({
+  _id: new mongoose.Types.ObjectId(),
+  movementType,
+  quantity,
+  unitPrice,
+  document
+});
+
+const last = <T>(items: T[]) => items[items.length - 1];
+
+describe('replayCosting under the moving average', () => {
+  const method = CostingMethod.MOVING_AVERAGE;
+
+  it('costs sales at the average of what is in stock', () => {
+    const { costed, state } = replayCosting([
+      newMovement(MovementType.PURCHASE, 10, 100),
+      newMovement(MovementType.PURCHASE, 10, 200),
+      newMovement(MovementType.SALE, -5, 300)
+    ], method);
+
+    expect(last(costed).outUnitPrice).toBe(150);
+    expect(last(costed).outTotalPrice).toBe(750);
+    expect(state.balanceQuantity).toBe(15);
+    expect(state.balanceTotalPrice).toBe(2250);
+  });
+
+  it('takes purchase returns out at their own cost and sale returns back in at theirs', () => {
+    const invoice = newDocument();
+    const { costed, state } = replayCosting([
+      newMovement(MovementType.PURCHASE, 10, 100),
+      newMovement(MovementType.PURCHASE, 10, 200, invoice),
+      newMovement(MovementType.PURCHASE_RETURN, -5, 200, newDocument({ returnOf: invoice._id })),
+      newMovement(MovementType.SALE_RETURN, 5, 120)
+    ], method);
+
+    expect(costed[2].outTotalPrice).toBe(1000);
+    expect(costed[3].inTotalPrice).toBe(600);
+    expect(state.balanceQuantity).toBe(20);
+    expect(state.balanceTotalPrice).toBe(2600);
+  });
+
+  it('puts a reversed sale back at the cost it left with', () => {
+    const sale = newDocument();
+    const { costed, state } = replayCosting([
+      newMovement(MovementType.PURCHASE, 10, 100),
+      newMovement(MovementType.SALE, -4, 300, sale),
+      newMovement(MovementType.PURCHASE, 6, 400),
+      newMovement(MovementType.SALE, 4, 300, newDocument({ reversalOf: sale._id }))
+    ], method);
+
+    expect(last(costed).outQuantity).toBe(-4);
+    expect(last(costed).outTotalPrice).toBe(-400);
+    expect(state.balanceQuantity).toBe(16);
+    expect(state.balanceTotalPrice).toBe(3400);
+  });
+});
+
+describe('replayCosting under FIFO', () => {
+  const method = CostingMethod.FIFO;
+
+  it('costs sales from the oldest layers and keeps the rest open', () => {
+    const { costed, state } = replayCosting([
+      newMovement(MovementType.PURCHASE, 10, 100),
+      newMovement(MovementType.PURCHASE, 10, 200),
+      newMovement(MovementType.SALE, -15, 300)
+    ], method);
+
+    expect(last(costed).costLayers.map(layer => [layer.quantity, layer.unitCost])).toEqual([[10, 100], [5, 200]]);
+    expect(last(costed).outTotalPrice).toBe(2000);
+    expect(state.layers.map(layer => [layer.quantity, layer.unitCost])).toEqual([[5, 200]]);
+    expect(state.balanceTotalPrice).toBe(1000);
+  });
+
+  it('takes a purchase return out of the layers of the invoice it returns', () => {
+    const invoice = newDocument();
+    const { costed, state } = replayCosting([
+      newMovement(MovementType.PURCHASE, 10, 100),
+      newMovement(MovementType.PURCHASE, 10, 200, invoice),
+      newMovement(MovementType.PURCHASE_RETURN, -5, 200, newDocument({ returnOf: invoice._id }))
+    ], method);
+
+    expect(last(costed).outTotalPrice).toBe(1000);
+    expect(state.layers.map(layer => [layer.quantity, layer.unitCost])).toEqual([[10, 100], [5, 200]]);
+  });
+
+  it('takes a reversed receipt back out of its own layer', () => {
+    const invoice = newDocument();
+    const { costed, state } = replayCosting([
+      newMovement(MovementType.PURCHASE, 10, 100),
+      newMovement(MovementType.PURCHASE, 10, 200, invoice),
+      newMovement(MovementType.PURCHASE, -10, 200, newDocument({ reversalOf: invoice._id }))
+    ], method);
+
+    expect(last(costed).inQuantity).toBe(-10);
+    expect(last(costed).inTotalPrice).toBe(-2000);
+    expect(state.layers.map(layer => [layer.quantity, layer.unitCost])).toEqual([[10, 100]]);
+  });
+
+  it('restores the layers a reversed sale took, ahead of later receipts', () => {
+    const sale = newDocument();
+    const { costed } = replayCosting([
+      newMovement(MovementType.PURCHASE, 10, 100),
+      newMovement(MovementType.PURCHASE, 10, 200),
+      newMovement(MovementType.SALE, -15, 300, sale),
+      newMovement(MovementType.PURCHASE, 10, 300),
+      newMovement(MovementType.SALE, 15, 300, newDocument({ reversalOf: sale._id })),
+      newMovement(MovementType.SALE, -12, 300)
+    ], method);
+
+    expect(costed[4].outTotalPrice).toBe(-2000);
+    expect(last(costed).costLayers.map(layer => [layer.quantity, layer.unitCost])).toEqual([[10, 100], [2, 200]]);
+    expect(last(costed).openLayers.map(layer => [layer.quantity, layer.unitCost])).toEqual([[8, 200], [10, 300]]);
+  });
+});
+
+describe('replayCosting from a seed', () => {
+  it.each([CostingMethod.MOVING_AVERAGE, CostingMethod.FIFO])('continues a %s replay where the seed left off', (method) => {
+    const sale = newDocument();
+    const movements = [
+      newMovement(MovementType.PURCHASE, 10, 100),
+      newMovement(MovementType.SALE, -4, 300, sale),
+      newMovement(MovementType.PURCHASE, 10, 200),
+      newMovement(MovementType.SALE, 4, 300, newDocument({ reversalOf: sale._id })),
+      newMovement(MovementType.SALE, -12, 300)
+    ];
+    const full = replayCosting(movements, method);
+
+    const before = full.costed[2];
+    const resumed = replayCosting(movements.slice(3), method, {
+      state: {
+        layers: before.openLayers,
+        balanceQuantity: before.balanceQuantity,
+        balanceTotalPrice: before.balanceTotalPrice,
+        lastUnitCost: before.lastUnitCost
+      },
+      sequence: before.sequence,
+      consumedByDocument: new Map([[sale._id.toString(), full.costed[1].costLayers]]),
+      sequenceByMovement: new Map(full.costed.slice(0, 3).map(entry => [entry.movement._id.toString(), entry.sequence]))
+    });
+
+    expect(resumed.costed.map(entry => entry.outTotalPrice)).toEqual(full.costed.slice(3).map(entry => entry.outTotalPrice));
+    expect(resumed.state).toEqual(full.state);
+  });
+});
@@ -1,15 +1,63 @@
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { CostingMethod } from './Company';
 
-enum MovementType {
+export enum MovementType {
   PURCHASE = 'PURCHASE',
   SALE = 'SALE',
   ADJUSTMENT_IN = 'ADJUSTMENT_IN',
   ADJUSTMENT_OUT = 'ADJUSTMENT_OUT',
-  INITIAL_STOCK = 'INITIAL_STOCK'
+  INITIAL_STOCK = 'INITIAL_STOCK',
+  TRANSFER_OUT = 'TRANSFER_OUT',
+  TRANSFER_IN = 'TRANSFER_IN',
+  PURCHASE_RETURN = 'PURCHASE_RETURN',
+  SALE_RETURN = 'SALE_RETURN',
+  ASSEMBLY_IN = 'ASSEMBLY_IN',
+  ASSEMBLY_OUT = 'ASSEMBLY_OUT'
 }
 
-interface IInventoryMovement extends Document {
+// Why stock was adjusted by hand
+export enum AdjustmentReason {
+  DAMAGE = 'DAMAGE',
+  LOSS = 'LOSS',
+  COUNT_DIFFERENCE = 'COUNT_DIFFERENCE',
+  SAMPLE = 'SAMPLE'
+}
+
+// Movement types that take goods out of stock (normally negative quantities)
+const OUTGOING_MOVEMENT_TYPES = [
+  MovementType.SALE,
+  MovementType.ADJUSTMENT_OUT,
+  MovementType.TRANSFER_OUT,
+  MovementType.PURCHASE_RETURN,
+  MovementType.ASSEMBLY_OUT
+];
+
+// Outgoing movements that leave at their own recorded cost rather than the running average.
+// A purchase return undoes part of a purchase, so it also counts as negative incoming in averages.
+const COSTED_OUTGOING_MOVEMENT_TYPES = [MovementType.PURCHASE_RETURN];
+
+// Paired movements of a transfer between warehouses; company-wide they cancel out
+const TRANSFER_MOVEMENT_TYPES = [MovementType.TRANSFER_OUT, MovementType.TRANSFER_IN];
+
+// Part of an outflow's cost: a quantity taken from the receipt that brought it in, at that receipt's cost
+interface ICostLayer {
+  sourceMovement?: mongoose.Types.ObjectId;
+  quantity: number;
+  unitCost: number;
+}
+
+// A FIFO layer still in stock after a movement: what is left of a receipt, at that receipt's cost
+interface IOpenLayer {
+  sourceMovement: mongoose.Types.ObjectId;
+  sourceDocument?: string;
+  sequence: number;
+  quantity: number;
+  unitCost: number;
+}
+
+interface IInventoryMovement extends Document<mongoose.Types.ObjectId> {
   product: mongoose.Types.ObjectId;
+  warehouse?: mongoose.Types.ObjectId;
   movementType: MovementType;
   quantity: number;
   unitPrice: number;
@@ -17,11 +65,119 @@ interface IInventoryMovement extends Document {
   averagePrice?: number;
   description?: string;
   document?: mongoose.Types.ObjectId;
+  isReversal: boolean;
+  adjustmentReason?: AdjustmentReason;
+  lotNumber?: string;
+  expiryDate?: Date;
+  serialNumbers?: string[];
+  costLayers?: ICostLayer[];
+  costOfGoods?: number;
+  costingSequence?: number;
+  balanceQuantity?: number;
+  balanceValue?: number;
+  lastUnitCost?: number;
+  openLayers?: IOpenLayer[];
   date: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+interface ICardexEntry {
+  date: Date;
+  isOpeningBalance: boolean;
+  movementType?: MovementType;
+  documentId?: string;
+  documentType?: string;
+  documentNumber?: string;
+  description?: string;
+  adjustmentReason?: AdjustmentReason;
+  lotNumber?: string;
+  inQuantity: number;
+  inUnitPrice: number;
+  inTotalPrice: number;
+  outQuantity: number;
+  outUnitPrice: number;
+  outTotalPrice: number;
+  balanceQuantity: number;
+  balanceUnitPrice: number;
+  balanceTotalPrice: number;
+}
+
+interface IWarehouseStock {
+  warehouse: mongoose.Types.ObjectId;
+  quantity: number;
+}
+
+export interface ILotStock {
+  product: mongoose.Types.ObjectId;
+  warehouse: mongoose.Types.ObjectId | null;
+  lotNumber: string | null;
+  expiryDate: Date | null;
+  quantity: number;
+}
+
+interface ISerialStock {
+  product: mongoose.Types.ObjectId;
+  warehouse: mongoose.Types.ObjectId | null;
+  serialNumber: string;
+}
+
+interface IStockSummary {
+  product: mongoose.Types.ObjectId;
+  currentStock: number;
+  averagePrice: number;
+  totalValue: number;
+  lastMovementDate?: Date;
+}
+
+interface IAdjustmentSummary {
+  reason: AdjustmentReason | null;
+  movementType: MovementType;
+  quantity: number;
+  totalValue: number;
+  movementCount: number;
+}
+
+interface INetSales {
+  product: mongoose.Types.ObjectId;
+  quantity: number;
+}
+
+interface IMovementTotals {
+  product: mongoose.Types.ObjectId;
+  incomingQuantity: number;
+  outgoingQuantity: number;
+}
+
+interface IDailyMovement {
+  date: Date;
+  purchases: number;
+  sales: number;
+  adjustments: number;
+  balance: number;
+}
+
+interface IInventoryMovementModel extends Model<IInventoryMovement> {
+  calculateAveragePrice(productId: mongoose.Types.ObjectId, upToDate?: Date): Promise<number>;
+  getCurrentStock(productId: mongoose.Types.ObjectId, upToDate?: Date, excludeDocumentId?: mongoose.Types.ObjectId, warehouseId?: mongoose.Types.ObjectId, lotNumber?: string): Promise<number>;
+  getStockByWarehouse(productId: mongoose.Types.ObjectId, upToDate?: Date): Promise<IWarehouseStock[]>;
+  getLotStock(productId: mongoose.Types.ObjectId, upToDate?: Date, warehouseId?: mongoose.Types.ObjectId, excludeDocumentId?: mongoose.Types.ObjectId): Promise<ILotStock[]>;
+  getExpiringLots(expiringBefore: Date, warehouseId?: mongoose.Types.ObjectId): Promise<ILotStock[]>;
+  getSerialStock(serialNumbers: string[], excludeDocumentId?: mongoose.Types.ObjectId): Promise<ISerialStock[]>;
+  getCardex(productId: mongoose.Types.ObjectId, dateFrom?: Date, dateTo?: Date, warehouseId?: mongoose.Types.ObjectId, lotNumber?: string, costingMethod?: CostingMethod): Promise<ICardexEntry[]>;
+  getStockSummary(productIds?: mongoose.Types.ObjectId[], upToDate?: Date, warehouseId?: mongoose.Types.ObjectId): Promise<IStockSummary[]>;
+  getOutgoingUnitCost(productId: mongoose.Types.ObjectId, quantity: number, upToDate?: Date, costingMethod?: CostingMethod): Promise<number>;
+  recalculateCosts(productIds: mongoose.Types.ObjectId[], costingMethod: CostingMethod, session?: mongoose.ClientSession, fromDate?: Date): Promise<void>;
+  getDailyMovements(productId: mongoose.Types.ObjectId, dateFrom: Date, dateTo: Date, warehouseId?: mongoose.Types.ObjectId): Promise<IDailyMovement[]>;
+  getDocumentOutgoingCost(productId: mongoose.Types.ObjectId, documentId: mongoose.Types.ObjectId): Promise<number>;
+  getAdjustmentSummary(dateFrom?: Date, dateTo?: Date, warehouseId?: mongoose.Types.ObjectId): Promise<IAdjustmentSummary[]>;
+  getNetSales(productIds: mongoose.Types.ObjectId[], dateFrom: Date, dateTo?: Date): Promise<INetSales[]>;
+  getMovementTotals(productIds: mongoose.Types.ObjectId[], dateFrom: Date, dateTo?: Date, warehouseId?: mongoose.Types.ObjectId): Promise<IMovementTotals[]>;
+}
+
+// Reports bucket movements by calendar day in Iran's local time
+const REPORT_TIMEZONE = 'Asia/Tehran';
+
 const InventoryMovementSchema: Schema = new Schema(
   {
     product: {
@@ -30,6 +186,10 @@ const InventoryMovementSchema: Schema = new Schema(
       required: [true, 'کالا الزامی است'],
       index: true
     },
+    warehouse: {
+      type: Schema.Types.ObjectId,
+      ref: 'Warehouse'
+    },
     movementType: {
       type: String,
       required: [true, 'نوع حرکت الزامی است'],
@@ -44,12 +204,10 @@ const InventoryMovementSchema: Schema = new Schema(
       required: [true, 'تعداد الزامی است'],
       validate: {
         validator: function(this: IInventoryMovement, v: number) {
-          // For outgoing movements, quantity should be negative
-          if (this.movementType === MovementType.SALE || this.movementType === MovementType.ADJUSTMENT_OUT) {
-            return v < 0;
-          }
-          // For incoming movements, quantity should be positive
-          return v > 0;
+          // For outgoing movements, quantity should be negative, for incoming ones positive.
+          // Reversal movements carry the opposite sign of the movement they cancel.
+          const isOutgoing = OUTGOING_MOVEMENT_TYPES.includes(this.movementType);
+          return isOutgoing !== !!this.isReversal ? v < 0 : v > 0;
         },
         message: 'تعداد برای نوع حرکت انتخابی صحیح نیست'
       }
@@ -76,6 +234,71 @@ const InventoryMovementSchema: Schema = new Schema(
       type: Schema.Types.ObjectId,
       ref: 'Document'
     },
+    isReversal: {
+      type: Boolean,
+      default: false
+    },
+    adjustmentReason: {
+      type: String,
+      enum: {
+        values: Object.values(AdjustmentReason),
+        message: 'علت تعدیل معتبر نیست'
+      }
+    },
+    lotNumber: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'شماره بچ نباید بیش از ۱۰۰ کاراکتر باشد']
+    },
+    expiryDate: {
+      type: Date
+    },
+    serialNumbers: {
+      type: [{ type: String, trim: true }],
+      default: undefined
+    },
+    // Cost layers an outflow consumed (or its reversal restored), as costed company-wide
+    // by the company's costing method
+    costLayers: {
+      type: [{
+        _id: false,
+        sourceMovement: { type: Schema.Types.ObjectId, ref: 'InventoryMovement' },
+        quantity: { type: Number, required: true },
+        unitCost: { type: Number, required: true }
+      }],
+      default: undefined
+    },
+    // Total cost of the goods an outflow took out of stock, the cost of goods sold for sales
+    costOfGoods: {
+      type: Number
+    },
+    // Company-wide costing state right after the movement, in the order costing replays movements:
+    // stock on hand, its value, the last cost goods moved at and, under FIFO, the layers still open.
+    // Re-costing resumes from the last movement before a change instead of replaying everything.
+    // Transfers carry none.
+    costingSequence: {
+      type: Number
+    },
+    balanceQuantity: {
+      type: Number
+    },
+    balanceValue: {
+      type: Number
+    },
+    lastUnitCost: {
+      type: Number
+    },
+    openLayers: {
+      type: [{
+        _id: false,
+        sourceMovement: { type: Schema.Types.ObjectId, ref: 'InventoryMovement', required: true },
+        sourceDocument: { type: Schema.Types.ObjectId, ref: 'Document' },
+        sequence: { type: Number, required: true },
+        quantity: { type: Number, required: true },
+        unitCost: { type: Number, required: true }
+      }],
+      default: undefined
+    },
     date: {
       type: Date,
       required: [true, 'تاریخ حرکت الزامی است'],
@@ -96,60 +319,906 @@ InventoryMovementSchema.pre('save', function(this: IInventoryMovement, next) {
 
 // Compound indexes for better query performance
 InventoryMovementSchema.index({ product: 1, date: -1 });
+// Finds the last costing state of each product up to a date
+InventoryMovementSchema.index({ product: 1, date: -1, createdAt: -1 });
 InventoryMovementSchema.index({ product: 1, movementType: 1 });
 InventoryMovementSchema.index({ date: -1, movementType: 1 });
 InventoryMovementSchema.index({ document: 1 });
+InventoryMovementSchema.index({ product: 1, warehouse: 1, date: -1 });
+InventoryMovementSchema.index({ product: 1, lotNumber: 1 });
+InventoryMovementSchema.index({ expiryDate: 1 }, { sparse: true });
+InventoryMovementSchema.index({ serialNumbers: 1 });
 
-// Method to calculate average price for a product
+// Method to get the current unit cost of a product's stock under the costing method
 InventoryMovementSchema.statics.calculateAveragePrice = async function(productId: mongoose.Types.ObjectId, upToDate?: Date) {
-  const matchStage: any = {
-    product: productId,
-    movementType: { $in: [MovementType.PURCHASE, MovementType.INITIAL_STOCK, MovementType.ADJUSTMENT_IN] }
-  };
+  const [summary] = await (this as IInventoryMovementModel).getStockSummary([productId], upToDate);
+  return summary?.averagePrice || 0;
+};
+
+// Method to get current stock for a product, optionally ignoring one document's own movements.
+// Without a warehouse the stock across all warehouses is returned, without a lot that of all lots.
+InventoryMovementSchema.statics.getCurrentStock = async function(productId: mongoose.Types.ObjectId, upToDate?: Date, excludeDocumentId?: mongoose.Types.ObjectId, warehouseId?: mongoose.Types.ObjectId, lotNumber?: string) {
+  const matchStage: mongoose.FilterQuery<IInventoryMovement> = { product: productId };
+
+  if (warehouseId) {
+    matchStage.warehouse = warehouseId;
+  }
+
+  if (lotNumber) {
+    matchStage.lotNumber = lotNumber;
+  }
   
   if (upToDate) {
     matchStage.date = { $lte: upToDate };
   }
 
-  const result = await this.aggregate([
+  if (excludeDocumentId) {
+    matchStage.document = { $ne: excludeDocumentId };
+  }
+
+  const result = await this.aggregate<{ totalQuantity: number }>([
     { $match: matchStage },
-    { $sort: { date: 1 } },
     {
       $group: {
         _id: null,
-        totalQuantity: { $sum: '$quantity' },
-        totalValue: { $sum: '$totalPrice' }
+        totalQuantity: { $sum: '$quantity' }
       }
     }
   ]);
 
-  if (result.length > 0 && result[0].totalQuantity > 0) {
-    return result[0].totalValue / result[0].totalQuantity;
+  return result.length > 0 ? result[0].totalQuantity : 0;
+};
+
+// Method to get the stock of a product in each warehouse
+InventoryMovementSchema.statics.getStockByWarehouse = async function(productId: mongoose.Types.ObjectId, upToDate?: Date) {
+  const matchStage: mongoose.FilterQuery<IInventoryMovement> = { product: productId };
+
+  if (upToDate) {
+    matchStage.date = { $lte: upToDate };
   }
-  
-  return 0;
+
+  const result = await this.aggregate<{ _id: mongoose.Types.ObjectId; quantity: number }>([
+    { $match: matchStage },
+    {
+      $group: {
+        _id: '$warehouse',
+        quantity: { $sum: '$quantity' }
+      }
+    },
+    { $sort: { _id: 1 } }
+  ]);
+
+  return result.map(row => ({ warehouse: row._id, quantity: row.quantity }));
 };
 
-// Method to get current stock for a product
-InventoryMovementSchema.statics.getCurrentStock = async function(productId: mongoose.Types.ObjectId, upToDate?: Date) {
-  const matchStage: any = { product: productId };
-  
+// Orders lots first-expired-first-out: earliest expiry first, lots without expiry
+// and stock recorded without a lot last
+const compareLotsByExpiry = (a: ILotStock, b: ILotStock) => {
+  if (!a.lotNumber !== !b.lotNumber) return a.lotNumber ? -1 : 1;
+  const aExpiry = a.expiryDate ? a.expiryDate.getTime() : Infinity;
+  const bExpiry = b.expiryDate ? b.expiryDate.getTime() : Infinity;
+  if (aExpiry !== bExpiry) return aExpiry - bExpiry;
+  return (a.lotNumber || '').localeCompare(b.lotNumber || '');
+};
+
+// Method to get the on-hand quantity of a product per lot and warehouse, in FEFO order.
+// Lots that are used up are left out.
+InventoryMovementSchema.statics.getLotStock = async function(productId: mongoose.Types.ObjectId, upToDate?: Date, warehouseId?: mongoose.Types.ObjectId, excludeDocumentId?: mongoose.Types.ObjectId) {
+  const matchStage: mongoose.FilterQuery<IInventoryMovement> = { product: productId };
+
+  if (warehouseId) {
+    matchStage.warehouse = warehouseId;
+  }
+
   if (upToDate) {
     matchStage.date = { $lte: upToDate };
   }
 
-  const result = await this.aggregate([
+  if (excludeDocumentId) {
+    matchStage.document = { $ne: excludeDocumentId };
+  }
+
+  const result = await this.aggregate<{
+    _id: { warehouse?: mongoose.Types.ObjectId; lotNumber?: string };
+    quantity: number;
+    expiryDate?: Date;
+  }>([
     { $match: matchStage },
     {
       $group: {
-        _id: null,
-        totalQuantity: { $sum: '$quantity' }
+        _id: { warehouse: '$warehouse', lotNumber: '$lotNumber' },
+        quantity: { $sum: '$quantity' },
+        expiryDate: { $max: '$expiryDate' }
+      }
+    },
+    { $match: { quantity: { $gt: 0 } } }
+  ]);
+
+  return result
+    .map((row): ILotStock => ({
+      product: productId,
+      warehouse: row._id.warehouse || null,
+      lotNumber: row._id.lotNumber || null,
+      expiryDate: row.expiryDate || null,
+      quantity: row.quantity
+    }))
+    .sort(compareLotsByExpiry);
+};
+
+// Method to list lots still in stock that expire before the given date, expired ones included
+InventoryMovementSchema.statics.getExpiringLots = async function(expiringBefore: Date, warehouseId?: mongoose.Types.ObjectId) {
+  const matchStage: mongoose.FilterQuery<IInventoryMovement> = {
+    lotNumber: { $exists: true, $ne: null },
+    expiryDate: { $lte: expiringBefore }
+  };
+
+  if (warehouseId) {
+    matchStage.warehouse = warehouseId;
+  }
+
+  const result = await this.aggregate<{
+    _id: { product: mongoose.Types.ObjectId; warehouse?: mongoose.Types.ObjectId; lotNumber: string };
+    quantity: number;
+    expiryDate: Date;
+  }>([
+    { $match: matchStage },
+    {
+      $group: {
+        _id: { product: '$product', warehouse: '$warehouse', lotNumber: '$lotNumber' },
+        quantity: { $sum: '$quantity' },
+        expiryDate: { $max: '$expiryDate' }
+      }
+    },
+    { $match: { quantity: { $gt: 0 } } },
+    { $sort: { expiryDate: 1, '_id.lotNumber': 1 } }
+  ]);
+
+  return result.map(row => ({
+    product: row._id.product,
+    warehouse: row._id.warehouse || null,
+    lotNumber: row._id.lotNumber,
+    expiryDate: row.expiryDate,
+    quantity: row.quantity
+  }));
+};
+
+// Method to find which of the given serial numbers are in stock, and in which warehouse.
+// Every movement carrying a serial moves that one unit in or out of its warehouse.
+InventoryMovementSchema.statics.getSerialStock = async function(serialNumbers: string[], excludeDocumentId?: mongoose.Types.ObjectId) {
+  const matchStage: mongoose.FilterQuery<IInventoryMovement> = { serialNumbers: { $in: serialNumbers } };
+
+  if (excludeDocumentId) {
+    matchStage.document = { $ne: excludeDocumentId };
+  }
+
+  const result = await this.aggregate<{
+    _id: { product: mongoose.Types.ObjectId; warehouse?: mongoose.Types.ObjectId; serialNumber: string };
+  }>([
+    { $match: matchStage },
+    { $unwind: '$serialNumbers' },
+    { $match: { serialNumbers: { $in: serialNumbers } } },
+    {
+      $group: {
+        _id: { product: '$product', warehouse: '$warehouse', serialNumber: '$serialNumbers' },
+        quantity: { $sum: { $cond: [{ $gt: ['$quantity', 0] }, 1, -1] } }
+      }
+    },
+    { $match: { quantity: { $gt: 0 } } }
+  ]);
+
+  return result.map(row => ({
+    product: row._id.product,
+    warehouse: row._id.warehouse || null,
+    serialNumber: row._id.serialNumber
+  }));
+};
+
+// Orders movements the way they hit stock, for costing replays
+const COSTING_SORT = { date: 1, createdAt: 1 } as const;
+
+// Document fields a costing replay needs to pair reversals and returns with what they undo
+const COSTING_DOCUMENT_FIELDS = 'documentType documentNumber reversalOf returnOf';
+
+// The document of a movement, populated with COSTING_DOCUMENT_FIELDS
+interface ICostingDocument {
+  _id: mongoose.Types.ObjectId;
+  documentType?: string;
+  documentNumber?: string;
+  reversalOf?: mongoose.Types.ObjectId | null;
+  returnOf?: mongoose.Types.ObjectId | null;
+}
+
+// What a costing replay reads of a movement
+interface ICostingMovement {
+  _id: mongoose.Types.ObjectId;
+  movementType: MovementType;
+  quantity: number;
+  unitPrice: number;
+  document?: ICostingDocument | mongoose.Types.ObjectId | null;
+}
+
+interface ICostedMovement<T extends ICostingMovement> {
+  movement: T;
+  inQuantity: number;
+  inUnitPrice: number;
+  inTotalPrice: number;
+  outQuantity: number;
+  outUnitPrice: number;
+  outTotalPrice: number;
+  costLayers: ICostLayer[];
+  sequence: number;
+  balanceQuantity: number;
+  balanceTotalPrice: number;
+  lastUnitCost: number;
+  openLayers: IOpenLayer[];
+}
+
+interface ICostingState {
+  layers: IOpenLayer[];
+  balanceQuantity: number;
+  balanceTotalPrice: number;
+  lastUnitCost: number;
+}
+
+// Where a replay that does not start from the first movement picks up: the state after the
+// movement before, at its sequence, with the layers earlier outflows took and the sequence of
+// the receipts they came from, for reversals of those outflows to restore
+interface ICostingSeed {
+  state: ICostingState;
+  sequence: number;
+  consumedByDocument?: Map<string, ICostLayer[]>;
+  sequenceByMovement?: Map<string, number>;
+}
+
+const sumLayers = (layers: { quantity: number; unitCost: number }[]) =>
+  layers.reduce((sum, layer) => sum + layer.quantity * layer.unitCost, 0);
+
+const costingDocumentOf = (movement: ICostingMovement) =>
+  movement.document && !(movement.document instanceof mongoose.Types.ObjectId) ? movement.document : undefined;
+
+// Takes a quantity out of the open FIFO layers, oldest first, optionally starting with the
+// layers a given document brought in. Goods taken beyond stock are costed at the last known cost.
+const consumeLayers = (state: ICostingState, quantity: number, preferredDocument?: string) => {
+  const ordered = preferredDocument
+    ? [
+        ...state.layers.filter(layer => layer.sourceDocument === preferredDocument),
+        ...state.layers.filter(layer => layer.sourceDocument !== preferredDocument)
+      ]
+    : state.layers;
+
+  const taken: ICostLayer[] = [];
+  let remaining = quantity;
+  for (const layer of ordered) {
+    if (remaining <= 0) break;
+    const layerQuantity = Math.min(layer.quantity, remaining);
+    layer.quantity -= layerQuantity;
+    remaining -= layerQuantity;
+    taken.push({ sourceMovement: layer.sourceMovement, quantity: layerQuantity, unitCost: layer.unitCost });
+  }
+  state.layers = state.layers.filter(layer => layer.quantity > 0);
+
+  if (remaining > 0) {
+    taken.push({ quantity: remaining, unitCost: taken.length > 0 ? taken[taken.length - 1].unitCost : state.lastUnitCost });
+  }
+  return taken;
+};
+
+// What taking a quantity out of the current stock would cost under the costing method
+const costNextOutflow = (state: ICostingState, quantity: number, costingMethod: CostingMethod) => {
+  if (costingMethod === CostingMethod.FIFO) {
+    const preview: ICostingState = { ...state, layers: state.layers.map(layer => ({ ...layer })) };
+    return sumLayers(consumeLayers(preview, quantity));
+  }
+  const unitCost = state.balanceQuantity > 0 ? state.balanceTotalPrice / state.balanceQuantity : state.lastUnitCost;
+  return quantity * unitCost;
+};
+
+// Replays a product's movements in the order they hit stock and costs every outflow, either at the
+// perpetual moving average at that moment or from the oldest open FIFO layers. Purchase returns and
+// reversals of receipts take out the goods their document brought in; reversals of outflows put
+// back exactly the layers the original took. Movements must be populated with COSTING_DOCUMENT_FIELDS.
+// Without a seed the replay starts from empty stock.
+export const replayCosting = <T extends ICostingMovement>(movements: T[], costingMethod: CostingMethod, seed?: ICostingSeed) => {
+  const isFifo = costingMethod === CostingMethod.FIFO;
+  const state: ICostingState = seed
+    ? { ...seed.state, layers: seed.state.layers.map(layer => ({ ...layer })) }
+    : { layers: [], balanceQuantity: 0, balanceTotalPrice: 0, lastUnitCost: 0 };
+  const firstSequence = seed ? seed.sequence + 1 : 0;
+  const sequenceByMovement = new Map(seed?.sequenceByMovement);
+  // Layers each document's outflows took, so that its reversal can restore them
+  const consumedByDocument = new Map(
+    [...(seed?.consumedByDocument || new Map<string, ICostLayer[]>())].map(([id, layers]) => [id, layers.map(layer => ({ ...layer }))])
+  );
+  const costed: ICostedMovement<T>[] = [];
+
+  movements.forEach((movement, index) => {
+    const sequence = firstSequence + index;
+    const document = costingDocumentOf(movement);
+    const documentId = document?._id?.toString();
+    const undoesDocument = document?.reversalOf?.toString();
+    const quantity = Math.abs(movement.quantity);
+    const isOutgoingType = OUTGOING_MOVEMENT_TYPES.includes(movement.movementType);
+    const entry: ICostedMovement<T> = {
+      movement,
+      inQuantity: 0,
+      inUnitPrice: 0,
+      inTotalPrice: 0,
+      outQuantity: 0,
+      outUnitPrice: 0,
+      outTotalPrice: 0,
+      costLayers: [],
+      sequence,
+      balanceQuantity: 0,
+      balanceTotalPrice: 0,
+      lastUnitCost: 0,
+      openLayers: []
+    };
+    let valueChange = 0;
+
+    if (!isOutgoingType && movement.quantity > 0) {
+      // Receipt (وارده): under FIFO opens a layer at its own cost, less what already left as negative stock
+      entry.inQuantity = quantity;
+      entry.inUnitPrice = movement.unitPrice;
+      entry.inTotalPrice = quantity * movement.unitPrice;
+      const openQuantity = Math.max(quantity - Math.max(-state.balanceQuantity, 0), 0);
+      if (isFifo && openQuantity > 0) {
+        state.layers.push({
+          sourceMovement: movement._id,
+          sourceDocument: documentId,
+          sequence,
+          quantity: openQuantity,
+          unitCost: movement.unitPrice
+        });
+      }
+      sequenceByMovement.set(movement._id.toString(), sequence);
+      state.lastUnitCost = movement.unitPrice;
+      valueChange = openQuantity * movement.unitPrice;
+    } else if (movement.quantity < 0) {
+      // Outflow (صادره), or a reversed receipt taking its own goods back out
+      const costedAtOwnPrice = !isOutgoingType || COSTED_OUTGOING_MOVEMENT_TYPES.includes(movement.movementType);
+      const preferredDocument = isOutgoingType ? document?.returnOf?.toString() : undoesDocument;
+      let taken: ICostLayer[];
+      if (isFifo) {
+        taken = consumeLayers(state, quantity, preferredDocument);
+      } else {
+        const unitCost = costedAtOwnPrice ? movement.unitPrice : costNextOutflow(state, 1, costingMethod);
+        taken = [{ quantity, unitCost }];
+      }
+      const totalCost = sumLayers(taken);
+      entry.costLayers = taken;
+      valueChange = -totalCost;
+      if (isOutgoingType) {
+        entry.outQuantity = quantity;
+        entry.outUnitPrice = totalCost / quantity;
+        entry.outTotalPrice = totalCost;
+      } else {
+        // Reversals stay in the column of the movement they cancel, with a negative amount
+        entry.inQuantity = -quantity;
+        entry.inUnitPrice = totalCost / quantity;
+        entry.inTotalPrice = -totalCost;
+      }
+      if (documentId) {
+        consumedByDocument.set(documentId, [...(consumedByDocument.get(documentId) || []), ...taken.map(layer => ({ ...layer }))]);
+      }
+      if (taken.length > 0) {
+        state.lastUnitCost = taken[taken.length - 1].unitCost;
+      }
+    } else {
+      // Reversed outflow: the goods come back at the cost they left with
+      const consumed = (undoesDocument && consumedByDocument.get(undoesDocument)) || [];
+      const restored: ICostLayer[] = [];
+      let remaining = quantity;
+      while (remaining > 0 && consumed.length > 0) {
+        const layer = consumed[0];
+        const layerQuantity = Math.min(layer.quantity, remaining);
+        restored.push({ ...layer, quantity: layerQuantity });
+        layer.quantity -= layerQuantity;
+        remaining -= layerQuantity;
+        if (layer.quantity <= 0) consumed.shift();
+      }
+      if (remaining > 0) {
+        restored.push({ quantity: remaining, unitCost: costNextOutflow(state, 1, costingMethod) });
+      }
+
+      for (const layer of isFifo ? restored : []) {
+        const sourceId = layer.sourceMovement?.toString();
+        const open = sourceId ? state.layers.find(candidate => candidate.sourceMovement.toString() === sourceId) : undefined;
+        if (open) {
+          open.quantity += layer.quantity;
+        } else {
+          state.layers.push({
+            sourceMovement: layer.sourceMovement || movement._id,
+            sequence: sourceId ? sequenceByMovement.get(sourceId) ?? sequence : sequence,
+            quantity: layer.quantity,
+            unitCost: layer.unitCost
+          });
+        }
+      }
+      state.layers.sort((a, b) => a.sequence - b.sequence);
+
+      const totalCost = sumLayers(restored);
+      entry.costLayers = restored;
+      valueChange = totalCost;
+      entry.outQuantity = -quantity;
+      entry.outUnitPrice = totalCost / quantity;
+      entry.outTotalPrice = -totalCost;
+    }
+
+    // The moving-average pool follows the same flows; FIFO stock is worth its open layers
+    state.balanceQuantity += movement.quantity;
+    state.balanceTotalPrice = isFifo ? sumLayers(state.layers) : state.balanceTotalPrice + valueChange;
+    if (state.balanceQuantity <= 0) {
+      state.layers = [];
+      state.balanceTotalPrice = 0;
+    }
+
+    entry.balanceQuantity = state.balanceQuantity;
+    entry.balanceTotalPrice = state.balanceTotalPrice;
+    entry.lastUnitCost = state.lastUnitCost;
+    entry.openLayers = isFifo ? state.layers.map(layer => ({ ...layer })) : [];
+    costed.push(entry);
+  });
+
+  return { costed, state };
+};
+
+// Method to build the Rial cardex for a product, or for one of its lots, costed by the costing method.
+// Movements before dateFrom are folded into a single opening-balance row.
+InventoryMovementSchema.statics.getCardex = async function(productId: mongoose.Types.ObjectId, dateFrom?: Date, dateTo?: Date, warehouseId?: mongoose.Types.ObjectId, lotNumber?: string, costingMethod: CostingMethod = CostingMethod.MOVING_AVERAGE) {
+  const matchStage: mongoose.FilterQuery<IInventoryMovement> = { product: productId };
+
+  if (lotNumber) {
+    matchStage.lotNumber = lotNumber;
+  }
+
+  if (warehouseId) {
+    matchStage.warehouse = warehouseId;
+  } else {
+    // Transfers only move goods between warehouses, so they leave the company-wide cardex untouched
+    matchStage.movementType = { $nin: TRANSFER_MOVEMENT_TYPES };
+  }
+
+  if (dateTo) {
+    matchStage.date = { $lte: dateTo };
+  }
+
+  const movements: IInventoryMovement[] = await this.find(matchStage)
+    .populate('document', COSTING_DOCUMENT_FIELDS)
+    .sort(COSTING_SORT);
+  const { costed } = replayCosting(movements, costingMethod);
+
+  const entries: ICardexEntry[] = [];
+  const opening = dateFrom ? costed.filter(entry => entry.movement.date < dateFrom) : [];
+
+  if (dateFrom) {
+    const balance = opening[opening.length - 1];
+    const balanceQuantity = balance?.balanceQuantity || 0;
+    const balanceTotalPrice = balance?.balanceTotalPrice || 0;
+    entries.push({
+      date: dateFrom,
+      isOpeningBalance: true,
+      inQuantity: 0,
+      inUnitPrice: 0,
+      inTotalPrice: 0,
+      outQuantity: 0,
+      outUnitPrice: 0,
+      outTotalPrice: 0,
+      balanceQuantity,
+      balanceUnitPrice: balanceQuantity > 0 ? balanceTotalPrice / balanceQuantity : 0,
+      balanceTotalPrice
+    });
+  }
+
+  for (const entry of costed.slice(opening.length)) {
+    const { movement } = entry;
+    const document = costingDocumentOf(movement);
+    entries.push({
+      date: movement.date,
+      isOpeningBalance: false,
+      movementType: movement.movementType,
+      documentId: document?._id?.toString(),
+      documentType: document?.documentType,
+      documentNumber: document?.documentNumber,
+      description: movement.description,
+      adjustmentReason: movement.adjustmentReason,
+      lotNumber: movement.lotNumber,
+      inQuantity: entry.inQuantity,
+      inUnitPrice: entry.inUnitPrice,
+      inTotalPrice: entry.inTotalPrice,
+      outQuantity: entry.outQuantity,
+      outUnitPrice: entry.outUnitPrice,
+      outTotalPrice: entry.outTotalPrice,
+      balanceQuantity: entry.balanceQuantity,
+      balanceUnitPrice: entry.balanceQuantity > 0 ? entry.balanceTotalPrice / entry.balanceQuantity : 0,
+      balanceTotalPrice: entry.balanceTotalPrice
+    });
+  }
+
+  return entries;
+};
+
+// Company-wide costing state each product was left in by its last movement up to a date, or before
+// it. Transfers only move goods around and carry no state.
+const getCostingStates = async (model: IInventoryMovementModel, productIds?: mongoose.Types.ObjectId[], upToDate?: Date, before = false) => {
+  const matchStage: mongoose.FilterQuery<IInventoryMovement> = { movementType: { $nin: TRANSFER_MOVEMENT_TYPES } };
+
+  if (productIds) {
+    matchStage.product = { $in: productIds };
+  }
+
+  if (upToDate) {
+    matchStage.date = before ? { $lt: upToDate } : { $lte: upToDate };
+  }
+
+  return model.aggregate<{
+    _id: mongoose.Types.ObjectId;
+    costingSequence?: number;
+    balanceQuantity?: number;
+    balanceValue?: number;
+    lastUnitCost?: number;
+    openLayers?: IOpenLayer[];
+    date: Date;
+  }>([
+    { $match: matchStage },
+    { $sort: { product: 1, date: -1, createdAt: -1 } },
+    {
+      $group: {
+        _id: '$product',
+        costingSequence: { $first: '$costingSequence' },
+        balanceQuantity: { $first: '$balanceQuantity' },
+        balanceValue: { $first: '$balanceValue' },
+        lastUnitCost: { $first: '$lastUnitCost' },
+        openLayers: { $first: '$openLayers' },
+        date: { $first: '$date' }
       }
     }
   ]);
+};
 
-  return result.length > 0 ? result[0].totalQuantity : 0;
+const unitCostOf = (state: { balanceQuantity?: number; balanceValue?: number; lastUnitCost?: number }) =>
+  state.balanceQuantity && state.balanceQuantity > 0 ? (state.balanceValue || 0) / state.balanceQuantity : state.lastUnitCost || 0;
+
+// Method to get stock, unit cost and value for many products, read from the costing state the
+// company's costing method left on their movements. The unit cost of a product that is out of
+// stock is the cost it last moved at. Costing is company-wide, so a warehouse's stock is valued at
+// the company-wide unit cost.
+InventoryMovementSchema.statics.getStockSummary = async function(productIds?: mongoose.Types.ObjectId[], upToDate?: Date, warehouseId?: mongoose.Types.ObjectId) {
+  const states = await getCostingStates(this as IInventoryMovementModel, productIds, upToDate);
+
+  if (!warehouseId) {
+    return states.map(state => ({
+      product: state._id,
+      currentStock: state.balanceQuantity || 0,
+      averagePrice: unitCostOf(state),
+      totalValue: state.balanceValue || 0,
+      lastMovementDate: state.date
+    }));
+  }
+
+  const matchStage: mongoose.FilterQuery<IInventoryMovement> = { warehouse: warehouseId };
+
+  if (productIds) {
+    matchStage.product = { $in: productIds };
+  }
+
+  if (upToDate) {
+    matchStage.date = { $lte: upToDate };
+  }
+
+  const stock = await this.aggregate<{ _id: mongoose.Types.ObjectId; quantity: number; lastMovementDate: Date }>([
+    { $match: matchStage },
+    {
+      $group: {
+        _id: '$product',
+        quantity: { $sum: '$quantity' },
+        lastMovementDate: { $max: '$date' }
+      }
+    }
+  ]);
+  const stateByProduct = new Map(states.map(state => [state._id.toString(), state]));
+
+  return stock.map(row => {
+    const state = stateByProduct.get(row._id.toString());
+    const averagePrice = state ? unitCostOf(state) : 0;
+    return {
+      product: row._id,
+      currentStock: row.quantity,
+      averagePrice,
+      totalValue: Math.max(row.quantity, 0) * averagePrice,
+      lastMovementDate: row.lastMovementDate
+    };
+  });
+};
+
+// Rebuilds the costing state a stored movement left
+const stateOf = (stored: { balanceQuantity?: number; balanceValue?: number; lastUnitCost?: number; openLayers?: IOpenLayer[] }): ICostingState => ({
+  layers: (stored.openLayers || []).map(layer => ({
+    sourceMovement: layer.sourceMovement,
+    sourceDocument: layer.sourceDocument?.toString(),
+    sequence: layer.sequence,
+    quantity: layer.quantity,
+    unitCost: layer.unitCost
+  })),
+  balanceQuantity: stored.balanceQuantity || 0,
+  balanceTotalPrice: stored.balanceValue || 0,
+  lastUnitCost: stored.lastUnitCost || 0
+});
+
+// Method to get the company-wide unit cost at which a quantity of a product would leave stock on a date
+InventoryMovementSchema.statics.getOutgoingUnitCost = async function(productId: mongoose.Types.ObjectId, quantity: number, upToDate?: Date, costingMethod: CostingMethod = CostingMethod.MOVING_AVERAGE) {
+  if (quantity <= 0) {
+    return 0;
+  }
+
+  const [stored] = await getCostingStates(this as IInventoryMovementModel, [productId], upToDate);
+  if (!stored) {
+    return 0;
+  }
+  return costNextOutflow(stateOf(stored), quantity, costingMethod) / quantity;
+};
+
+// Method to re-cost products' company-wide outflows, storing the layers each one consumed with
+// their cost of goods and the costing state it left. An outflow's cost depends on everything
+// received before it, so re-costing from a date resumes from the state the last movement before
+// it left; without a date, or when that movement was never costed, the product is replayed in full.
+InventoryMovementSchema.statics.recalculateCosts = async function(productIds: mongoose.Types.ObjectId[], costingMethod: CostingMethod, session?: mongoose.ClientSession, fromDate?: Date) {
+  for (const productId of productIds) {
+    const matchStage: mongoose.FilterQuery<IInventoryMovement> = { product: productId, movementType: { $nin: TRANSFER_MOVEMENT_TYPES } };
+    let seed: ICostingSeed | undefined;
+
+    const previous: IInventoryMovement | null = fromDate
+      ? await this.findOne({ ...matchStage, date: { $lt: fromDate } })
+        .sort({ date: -1, createdAt: -1 })
+        .session(session || null)
+      : null;
+    if (fromDate && previous?.costingSequence !== undefined) {
+      matchStage.date = { $gte: fromDate };
+      seed = { state: stateOf(previous), sequence: previous.costingSequence };
+    } else if (fromDate && !previous) {
+      matchStage.date = { $gte: fromDate };
+    }
+
+    const movements: (Omit<IInventoryMovement, 'document'> & { document?: ICostingDocument })[] = await this.find(matchStage)
+      .populate('document', COSTING_DOCUMENT_FIELDS)
+      .sort(COSTING_SORT)
+      .session(session || null);
+
+    // Reversals in the replay restore what outflows before it took, as stored on those outflows
+    const reversedIds = movements.map(movement => movement.document?.reversalOf).filter(id => !!id);
+    if (seed && reversedIds.length > 0) {
+      const reversedOutflows: IInventoryMovement[] = await this.find({
+        ...matchStage,
+        document: { $in: reversedIds },
+        date: { $lt: fromDate },
+        quantity: { $lt: 0 }
+      }).sort(COSTING_SORT).session(session || null);
+      seed.consumedByDocument = new Map<string, ICostLayer[]>();
+      for (const outflow of reversedOutflows) {
+        const key = outflow.document!.toString();
+        seed.consumedByDocument.set(key, [...(seed.consumedByDocument.get(key) || []), ...(outflow.costLayers || [])]);
+      }
+      const sources: IInventoryMovement[] = await this.find(
+        { _id: { $in: reversedOutflows.flatMap(outflow => (outflow.costLayers || []).map(layer => layer.sourceMovement)).filter(id => !!id) } },
+        'costingSequence'
+      ).session(session || null);
+      seed.sequenceByMovement = new Map(sources.map(source => [source._id.toString(), source.costingSequence ?? seed!.sequence]));
+    }
+
+    const { costed } = replayCosting(movements, costingMethod, seed);
+
+    const operations = costed.map(entry => ({
+      updateOne: {
+        filter: { _id: entry.movement._id },
+        update: {
+          $set: {
+            costingSequence: entry.sequence,
+            balanceQuantity: entry.balanceQuantity,
+            balanceValue: entry.balanceTotalPrice,
+            lastUnitCost: entry.lastUnitCost,
+            ...(entry.costLayers.length > 0 ? { costLayers: entry.costLayers, costOfGoods: sumLayers(entry.costLayers) } : {}),
+            ...(entry.openLayers.length > 0 ? { openLayers: entry.openLayers } : {})
+          },
+          $unset: {
+            ...(entry.costLayers.length > 0 ? {} : { costLayers: 1, costOfGoods: 1 }),
+            ...(entry.openLayers.length > 0 ? {} : { openLayers: 1 })
+          }
+        }
+      }
+    }));
+    if (operations.length > 0) {
+      await this.bulkWrite(operations, { session });
+    }
+  }
+};
+
+// Method to get per-day purchase/sale/adjustment totals with the closing balance of each day
+InventoryMovementSchema.statics.getDailyMovements = async function(productId: mongoose.Types.ObjectId, dateFrom: Date, dateTo: Date, warehouseId?: mongoose.Types.ObjectId) {
+  const openingBalance = await (this as IInventoryMovementModel).getCurrentStock(
+    productId,
+    new Date(dateFrom.getTime() - 1),
+    undefined,
+    warehouseId
+  );
+
+  const matchStage: mongoose.FilterQuery<IInventoryMovement> = { product: productId, date: { $gte: dateFrom, $lte: dateTo } };
+
+  if (warehouseId) {
+    matchStage.warehouse = warehouseId;
+  }
+
+  const result = await this.aggregate<{ date: Date; purchases: number; sales: number; adjustments: number }>([
+    { $match: matchStage },
+    {
+      $group: {
+        _id: { $dateToString: { format: '%Y-%m-%d', date: '$date', timezone: REPORT_TIMEZONE } },
+        // Purchases and sales are reported net of their returns
+        purchases: {
+          $sum: {
+            $cond: [{ $in: ['$movementType', [MovementType.PURCHASE, MovementType.PURCHASE_RETURN]] }, '$quantity', 0]
+          }
+        },
+        sales: {
+          $sum: {
+            $cond: [
+              { $in: ['$movementType', [MovementType.SALE, MovementType.SALE_RETURN]] },
+              { $multiply: ['$quantity', -1] },
+              0
+            ]
+          }
+        },
+        adjustments: {
+          $sum: {
+            $cond: [
+              {
+                $in: ['$movementType', [
+                  MovementType.PURCHASE,
+                  MovementType.PURCHASE_RETURN,
+                  MovementType.SALE,
+                  MovementType.SALE_RETURN
+                ]]
+              },
+              0,
+              '$quantity'
+            ]
+          }
+        }
+      }
+    },
+    { $sort: { _id: 1 } },
+    {
+      $project: {
+        _id: 0,
+        date: { $dateFromString: { dateString: '$_id', timezone: REPORT_TIMEZONE } },
+        purchases: 1,
+        sales: 1,
+        adjustments: 1
+      }
+    }
+  ]);
+
+  let balance = openingBalance;
+  return result.map(day => {
+    balance += day.purchases - day.sales + day.adjustments;
+    return { ...day, balance };
+  });
+};
+
+// Method to get the average cost at which a document's outgoing movements of a product left stock,
+// from the cost layers stored on them
+InventoryMovementSchema.statics.getDocumentOutgoingCost = async function(productId: mongoose.Types.ObjectId, documentId: mongoose.Types.ObjectId) {
+  const movements: IInventoryMovement[] = await this.find({ product: productId, document: documentId, quantity: { $lt: 0 } });
+  const layers = movements.flatMap(movement => movement.costLayers || []);
+  const quantity = layers.reduce((sum, layer) => sum + layer.quantity, 0);
+
+  return quantity > 0 ? sumLayers(layers) / quantity : 0;
+};
+
+// Method to total manual stock adjustments per reason and direction. Write-offs are valued at the
+// cost of goods re-costing stores on them, not at the cost they carried when they were entered.
+InventoryMovementSchema.statics.getAdjustmentSummary = async function(dateFrom?: Date, dateTo?: Date, warehouseId?: mongoose.Types.ObjectId) {
+  const matchStage: mongoose.FilterQuery<IInventoryMovement> = {
+    movementType: { $in: [MovementType.ADJUSTMENT_IN, MovementType.ADJUSTMENT_OUT] }
+  };
+
+  if (warehouseId) {
+    matchStage.warehouse = warehouseId;
+  }
+
+  if (dateFrom || dateTo) {
+    const dateRange: { $gte?: Date; $lte?: Date } = {};
+    if (dateFrom) dateRange.$gte = dateFrom;
+    if (dateTo) dateRange.$lte = dateTo;
+    matchStage.date = dateRange;
+  }
+
+  const result = await this.aggregate<{
+    _id: { reason?: AdjustmentReason; movementType: MovementType };
+    quantity: number;
+    totalValue: number;
+    movementCount: number;
+  }>([
+    { $match: matchStage },
+    {
+      $group: {
+        _id: { reason: '$adjustmentReason', movementType: '$movementType' },
+        quantity: { $sum: { $abs: '$quantity' } },
+        totalValue: {
+          $sum: {
+            $cond: [
+              { $eq: ['$movementType', MovementType.ADJUSTMENT_OUT] },
+              { $ifNull: ['$costOfGoods', '$totalPrice'] },
+              '$totalPrice'
+            ]
+          }
+        },
+        movementCount: { $sum: 1 }
+      }
+    },
+    { $sort: { '_id.reason': 1, '_id.movementType': 1 } }
+  ]);
+
+  return result.map(row => ({
+    reason: row._id.reason || null,
+    movementType: row._id.movementType,
+    quantity: row.quantity,
+    totalValue: row.totalValue,
+    movementCount: row.movementCount
+  }));
+};
+
+// Method to get the quantity of each product sold over a period, net of sale returns and reversals
+InventoryMovementSchema.statics.getNetSales = async function(productIds: mongoose.Types.ObjectId[], dateFrom: Date, dateTo?: Date) {
+  const matchStage: mongoose.FilterQuery<IInventoryMovement> = {
+    product: { $in: productIds },
+    movementType: { $in: [MovementType.SALE, MovementType.SALE_RETURN] },
+    date: dateTo ? { $gte: dateFrom, $lte: dateTo } : { $gte: dateFrom }
+  };
+
+  const result = await this.aggregate<{ _id: mongoose.Types.ObjectId; quantity: number }>([
+    { $match: matchStage },
+    {
+      $group: {
+        _id: '$product',
+        quantity: { $sum: { $multiply: ['$quantity', -1] } }
+      }
+    }
+  ]);
+
+  return result.map(row => ({ product: row._id, quantity: row.quantity }));
+};
+
+// Method to total what came into and went out of stock of each product over a period. Reversals
+// count against the side of what they reverse, so opening stock plus incoming minus outgoing is the
+// closing stock. Company-wide, transfers are left out as they only move goods around.
+InventoryMovementSchema.statics.getMovementTotals = async function(productIds: mongoose.Types.ObjectId[], dateFrom: Date, dateTo?: Date, warehouseId?: mongoose.Types.ObjectId) {
+  const matchStage: mongoose.FilterQuery<IInventoryMovement> = {
+    product: { $in: productIds },
+    date: dateTo ? { $gte: dateFrom, $lte: dateTo } : { $gte: dateFrom }
+  };
+
+  if (warehouseId) {
+    matchStage.warehouse = warehouseId;
+  } else {
+    matchStage.movementType = { $nin: TRANSFER_MOVEMENT_TYPES };
+  }
+
+  const result = await this.aggregate<{ _id: mongoose.Types.ObjectId; incomingQuantity: number; outgoingQuantity: number }>([
+    { $match: matchStage },
+    {
+      $group: {
+        _id: '$product',
+        incomingQuantity: {
+          $sum: { $cond: [{ $in: ['$movementType', OUTGOING_MOVEMENT_TYPES] }, 0, '$quantity'] }
+        },
+        outgoingQuantity: {
+          $sum: { $cond: [{ $in: ['$movementType', OUTGOING_MOVEMENT_TYPES] }, { $multiply: ['$quantity', -1] }, 0] }
+        }
+      }
+    }
+  ]);
+
+  return result.map(row => ({ product: row._id, incomingQuantity: row.incomingQuantity, outgoingQuantity: row.outgoingQuantity }));
 };
 
-export const InventoryMovement = mongoose.models.InventoryMovement || 
-  mongoose.model<IInventoryMovement>('InventoryMovement', InventoryMovementSchema);
\ No newline at end of file
+export const InventoryMovement = (mongoose.models.InventoryMovement as IInventoryMovementModel) || 
+  mongoose.model<IInventoryMovement, IInventoryMovementModel>('InventoryMovement', InventoryMovementSchema);
\ No newline at end of file
@@ -1,18 +1,140 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { BARCODE_TYPES } from '@/lib/barcode';
+
+// Products in this unit are tracked one device at a time by serial number
+export const SERIALIZED_UNIT = 'دستگاه';
+
+export const PRODUCT_UNITS = [
+  'عدد', 'کیلوگرم', 'گرم', 'تن', 'لیتر', 'میلی‌لیتر', 'متر', 'سانتی‌متر', 
+  'متر مربع', 'متر مکعب', 'جعبه', 'بسته', 'کارتن', 'دستگاه', 'جفت', 
+  'ست', 'رول', 'ورق', 'شاخه', 'بطری', 'قوطی', 'بشکه', 'کیسه'
+];
+
+// Another unit the product is bought or sold in, and how many base units one of it holds
+interface IProductUnit {
+  unit: string;
+  factor: number;
+}
+
+// A component the product is assembled from, per unit of the product
+interface IBomComponent {
+  product: mongoose.Types.ObjectId;
+  quantity: number;
+}
+
+// An attribute a parent product varies by, such as size or colour, and the values it takes
+interface IVariantAttribute {
+  name: string;
+  values: string[];
+}
+
+// The value a variant takes for one of its parent's attributes
+interface IVariantValue {
+  name: string;
+  value: string;
+}
+
+interface IProductBarcode {
+  code: string;
+  type: string;
+}
 
 interface IProduct extends Document {
   name: string;
   code: string;
   description?: string;
   unit: string;
-  category?: string;
+  alternateUnits: IProductUnit[];
+  barcodes: IProductBarcode[];
+  components: IBomComponent[];
+  variantAttributes: IVariantAttribute[];
+  parent?: mongoose.Types.ObjectId;
+  variantValues: IVariantValue[];
+  salePrice?: number;
+  category?: mongoose.Types.ObjectId;
   minimumStock?: number;
   maximumStock?: number;
+  trackLots: boolean;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const ProductUnitSchema: Schema = new Schema({
+  unit: {
+    type: String,
+    required: [true, 'واحد فرعی الزامی است'],
+    enum: {
+      values: PRODUCT_UNITS,
+      message: 'واحد فرعی انتخاب شده معتبر نیست'
+    }
+  },
+  factor: {
+    type: Number,
+    required: [true, 'ضریب تبدیل الزامی است'],
+    min: [0.000001, 'ضریب تبدیل باید بیشتر از صفر باشد']
+  }
+}, { _id: false });
+
+const ProductBarcodeSchema: Schema = new Schema({
+  code: {
+    type: String,
+    required: [true, 'بارکد الزامی است'],
+    trim: true,
+    maxlength: [48, 'بارکد نباید بیش از ۴۸ کاراکتر باشد']
+  },
+  type: {
+    type: String,
+    required: [true, 'نوع بارکد الزامی است'],
+    enum: {
+      values: BARCODE_TYPES,
+      message: 'نوع بارکد معتبر نیست'
+    }
+  }
+}, { _id: false });
+
+const BomComponentSchema: Schema = new Schema({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: [true, 'کالای جزء الزامی است']
+  },
+  quantity: {
+    type: Number,
+    required: [true, 'مقدار جزء الزامی است'],
+    min: [0.000001, 'مقدار جزء باید بیشتر از صفر باشد']
+  }
+}, { _id: false });
+
+const VariantAttributeSchema: Schema = new Schema({
+  name: {
+    type: String,
+    required: [true, 'نام ویژگی الزامی است'],
+    trim: true,
+    maxlength: [50, 'نام ویژگی نباید بیش از ۵۰ کاراکتر باشد']
+  },
+  values: {
+    type: [String],
+    validate: {
+      validator: (values: string[]) => values.length > 0,
+      message: 'هر ویژگی باید دست کم یک مقدار داشته باشد'
+    }
+  }
+}, { _id: false });
+
+const VariantValueSchema: Schema = new Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  value: {
+    type: String,
+    required: true,
+    trim: true
+  }
+}, { _id: false });
+
 const ProductSchema: Schema = new Schema(
   {
     name: {
@@ -38,18 +160,45 @@ const ProductSchema: Schema = new Schema(
       trim: true,
       maxlength: [50, 'واحد نباید بیش از ۵۰ کاراکتر باشد'],
       enum: {
-        values: [
-          'عدد', 'کیلوگرم', 'گرم', 'تن', 'لیتر', 'میلی‌لیتر', 'متر', 'سانتی‌متر', 
-          'متر مربع', 'متر مکعب', 'جعبه', 'بسته', 'کارتن', 'دستگاه', 'جفت', 
-          'ست', 'رول', 'ورق', 'شاخه', 'بطری', 'قوطی', 'بشکه', 'کیسه'
-        ],
+        values: PRODUCT_UNITS,
         message: 'واحد انتخاب شده معتبر نیست'
       }
     },
+    // Stock is always kept in the base unit; document lines may be entered in these
+    alternateUnits: {
+      type: [ProductUnitSchema],
+      default: []
+    },
+    barcodes: {
+      type: [ProductBarcodeSchema],
+      default: []
+    },
+    // Bill of materials: what one unit is assembled from
+    components: {
+      type: [BomComponentSchema],
+      default: []
+    },
+    // A parent product is never stocked itself; one variant exists per combination of these values
+    variantAttributes: {
+      type: [VariantAttributeSchema],
+      default: []
+    },
+    parent: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product'
+    },
+    variantValues: {
+      type: [VariantValueSchema],
+      default: []
+    },
+    // Price printed on barcode labels
+    salePrice: {
+      type: Number,
+      min: [0, 'قیمت فروش نمی‌تواند منفی باشد']
+    },
     category: {
-      type: String,
-      trim: true,
-      maxlength: [100, 'دسته‌بندی نباید بیش از ۱۰۰ کاراکتر باشد']
+      type: Schema.Types.ObjectId,
+      ref: 'Category'
     },
     minimumStock: {
       type: Number,
@@ -66,6 +215,11 @@ const ProductSchema: Schema = new Schema(
         message: 'حداکثر موجودی باید بیشتر از حداقل موجودی باشد'
       }
     },
+    // Lot-tracked products record a lot number and expiry date on every movement
+    trackLots: {
+      type: Boolean,
+      default: false
+    },
     isActive: {
       type: Boolean,
       default: true
@@ -79,7 +233,9 @@ const ProductSchema: Schema = new Schema(
 // Indexes for better query performance
 ProductSchema.index({ name: 'text', code: 'text', description: 'text' });
 ProductSchema.index({ category: 1 });
+ProductSchema.index({ parent: 1 });
 ProductSchema.index({ isActive: 1 });
 ProductSchema.index({ code: 1 }, { unique: true, partialFilterExpression: { isActive: true } });
+ProductSchema.index({ 'barcodes.code': 1 }, { unique: true, partialFilterExpression: { isActive: true, 'barcodes.code': { $exists: true } } });
 
 export const Product = mongoose.models.Product || mongoose.model<IProduct>('Product', ProductSchema);
\ No newline at end of file
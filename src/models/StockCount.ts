@@ -0,0 +1,141 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum StockCountStatus {
+  COUNTING = 'COUNTING',
+  POSTED = 'POSTED',
+  CANCELLED = 'CANCELLED'
+}
+
+// Quantity one counter found for a count line; a later entry by the same counter replaces it
+interface IStockCountEntry {
+  counter: string;
+  quantity: number;
+  countedAt: Date;
+}
+
+export interface IStockCountItem {
+  _id: mongoose.Types.ObjectId;
+  product: mongoose.Types.ObjectId;
+  lotNumber?: string;
+  expiryDate?: Date;
+  expectedQuantity: number;
+  counts: IStockCountEntry[];
+}
+
+export interface IStockCount extends Document<mongoose.Types.ObjectId> {
+  countNumber: string;
+  warehouse: mongoose.Types.ObjectId;
+  date: Date;
+  categories: mongoose.Types.ObjectId[];
+  status: StockCountStatus;
+  items: mongoose.Types.DocumentArray<IStockCountItem>;
+  description?: string;
+  adjustmentDocument?: mongoose.Types.ObjectId;
+  postedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StockCountEntrySchema: Schema = new Schema({
+  counter: {
+    type: String,
+    required: [true, 'نام شمارشگر الزامی است'],
+    trim: true,
+    maxlength: [100, 'نام شمارشگر نباید بیش از ۱۰۰ کاراکتر باشد']
+  },
+  quantity: {
+    type: Number,
+    required: [true, 'مقدار شمارش شده الزامی است'],
+    min: [0, 'مقدار شمارش شده نمی‌تواند منفی باشد']
+  },
+  countedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const StockCountItemSchema: Schema = new Schema({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: [true, 'کالا الزامی است']
+  },
+  lotNumber: {
+    type: String,
+    trim: true
+  },
+  expiryDate: {
+    type: Date
+  },
+  // Book quantity in the warehouse on the count date, snapshotted when the count starts
+  expectedQuantity: {
+    type: Number,
+    required: true
+  },
+  counts: {
+    type: [StockCountEntrySchema],
+    default: []
+  }
+});
+
+const StockCountSchema: Schema = new Schema(
+  {
+    countNumber: {
+      type: String,
+      required: [true, 'شماره انبارگردانی الزامی است'],
+      trim: true
+    },
+    warehouse: {
+      type: Schema.Types.ObjectId,
+      ref: 'Warehouse',
+      required: [true, 'انبار الزامی است']
+    },
+    date: {
+      type: Date,
+      required: [true, 'تاریخ انبارگردانی الزامی است']
+    },
+    // Categories counted, each with everything below it
+    categories: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Category' }],
+      default: []
+    },
+    status: {
+      type: String,
+      enum: {
+        values: Object.values(StockCountStatus),
+        message: 'وضعیت انبارگردانی معتبر نیست'
+      },
+      default: StockCountStatus.COUNTING
+    },
+    items: {
+      type: [StockCountItemSchema],
+      validate: {
+        validator: (items: IStockCountItem[]) => items.length > 0,
+        message: 'هیچ کالایی برای شمارش انتخاب نشده است'
+      }
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'توضیحات نباید بیش از ۱۰۰۰ کاراکتر باشد']
+    },
+    // The STOCK_ADJUSTMENT the variances were posted as
+    adjustmentDocument: {
+      type: Schema.Types.ObjectId,
+      ref: 'Document'
+    },
+    postedAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes for better query performance
+StockCountSchema.index({ countNumber: 1 }, { unique: true });
+StockCountSchema.index({ status: 1 });
+StockCountSchema.index({ warehouse: 1, date: -1 });
+
+export const StockCount = mongoose.models.StockCount || mongoose.model<IStockCount>('StockCount', StockCountSchema);
\ No newline at end of file
@@ -0,0 +1,58 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+interface IWarehouse extends Document {
+  name: string;
+  code: string;
+  address?: string;
+  description?: string;
+  isDefault: boolean;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WarehouseSchema: Schema = new Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'نام انبار الزامی است'],
+      trim: true,
+      maxlength: [200, 'نام انبار نباید بیش از ۲۰۰ کاراکتر باشد']
+    },
+    code: {
+      type: String,
+      required: [true, 'کد انبار الزامی است'],
+      trim: true,
+      maxlength: [50, 'کد انبار نباید بیش از ۵۰ کاراکتر باشد']
+    },
+    address: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'آدرس نباید بیش از ۵۰۰ کاراکتر باشد']
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'توضیحات نباید بیش از ۱۰۰۰ کاراکتر باشد']
+    },
+    isDefault: {
+      type: Boolean,
+      default: false
+    },
+    isActive: {
+      type: Boolean,
+      default: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes for better query performance
+WarehouseSchema.index({ isActive: 1 });
+WarehouseSchema.index({ code: 1 }, { unique: true, partialFilterExpression: { isActive: true } });
+// Ensure only one default warehouse at a time
+WarehouseSchema.index({ isDefault: 1 }, { unique: true, partialFilterExpression: { isDefault: true } });
+
+export const Warehouse = mongoose.models.Warehouse || mongoose.model<IWarehouse>('Warehouse', WarehouseSchema);
\ No newline at end of file